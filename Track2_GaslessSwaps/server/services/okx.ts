@@ -1,23 +1,18 @@
 import crypto from 'crypto';
-import fetch from 'node-fetch';
 import { storage } from '../../storage';
 import { InsertGasSaving } from '../../../shared/schema';
+import { OkxRestClient } from '../../../server/services/okx-client';
 
 /**
  * OKX DEX API service for gasless swaps across multiple chains
  */
 export class OkxDexService {
-  private apiKey: string;
-  private apiSecret: string;
-  private apiPassphrase: string;
-  private baseUrl: string = 'https://www.okx.com';
+  private client: OkxRestClient;
   
   constructor() {
-    this.apiKey = process.env.OKX_API_KEY || '';
-    this.apiSecret = process.env.OKX_API_SECRET || '';
-    this.apiPassphrase = process.env.OKX_API_PASSPHRASE || '';
+    this.client = new OkxRestClient();
     
-    if (!this.apiKey || !this.apiSecret || !this.apiPassphrase) {
+    if (!this.client.hasCredentials()) {
       console.warn('OKX API credentials not fully configured');
     }
   }
@@ -101,7 +96,6 @@ export class OkxDexService {
     senderAddress: string;
   }) {
     const endpoint = '/api/v5/dex/swap/quote';
-    const timestamp = new Date().toISOString();
     
     const requestBody = {
       fromToken: params.fromToken,
@@ -121,19 +115,18 @@ export class OkxDexService {
       }
     };
     
-    if (this.apiKey && this.apiSecret && this.apiPassphrase) {
+    if (this.client.hasCredentials()) {
       try {
-        const response = await this.sendRequest('POST', endpoint, requestBody, timestamp);
-        
-        if (!response.success) {
-          throw new Error(`Failed to get quote: ${response.message}`);
+        const [data] = await this.client.post(endpoint, requestBody);
+        if (!data) {
+          throw new Error('Failed to get quote: empty response');
         }
         
         return {
-          quoteId: response.data.quoteId,
-          expectedAmountOut: response.data.expectedAmountOut,
-          price: response.data.price,
-          route: response.data.route
+          quoteId: data.quoteId,
+          expectedAmountOut: data.expectedAmountOut,
+          price: data.price,
+          route: data.route
         };
       } catch (error) {
         console.warn('Error fetching quote from OKX API, using mock data:', error);
@@ -156,7 +149,6 @@ export class OkxDexService {
     senderAddress: string;
   }) {
     const endpoint = '/api/v5/dex/approve';
-    const timestamp = new Date().toISOString();
     
     const requestBody = {
       token: params.token,
@@ -174,17 +166,16 @@ export class OkxDexService {
       }
     };
     
-    if (this.apiKey && this.apiSecret && this.apiPassphrase) {
+    if (this.client.hasCredentials()) {
       try {
-        const response = await this.sendRequest('POST', endpoint, requestBody, timestamp);
-        
-        if (!response.success) {
-          throw new Error(`Token approval failed: ${response.message}`);
+        const [data] = await this.client.post(endpoint, requestBody);
+        if (!data) {
+          throw new Error('Token approval failed: empty response');
         }
         
         return {
-          approvalId: response.data.approvalId,
-          status: response.data.status
+          approvalId: data.approvalId,
+          status: data.status
         };
       } catch (error) {
         console.warn('Error approving tokens via OKX API, using mock data:', error);
@@ -209,7 +200,6 @@ export class OkxDexService {
     senderAddress: string;
   }) {
     const endpoint = '/api/v5/dex/swap/execute';
-    const timestamp = new Date().toISOString();
     
     const requestBody = {
       fromToken: params.fromToken,
@@ -231,19 +221,18 @@ export class OkxDexService {
       }
     };
     
-    if (this.apiKey && this.apiSecret && this.apiPassphrase) {
+    if (this.client.hasCredentials()) {
       try {
-        const response = await this.sendRequest('POST', endpoint, requestBody, timestamp);
-        
-        if (!response.success) {
-          throw new Error(`Swap execution failed: ${response.message}`);
+        const [data] = await this.client.post(endpoint, requestBody);
+        if (!data) {
+          throw new Error('Swap execution failed: empty response');
         }
         
         return {
-          transactionHash: response.data.transactionHash,
-          executedPrice: response.data.executedPrice,
-          amountOut: response.data.amountOut,
-          status: response.data.status
+          transactionHash: data.transactionHash,
+          executedPrice: data.executedPrice,
+          amountOut: data.amountOut,
+          status: data.status
         };
       } catch (error) {
         console.warn('Error executing swap via OKX API, using mock data:', error);
@@ -308,40 +297,6 @@ export class OkxDexService {
     }
   }
   
-  /**
-   * Send authenticated request to OKX API
-   */
-  private async sendRequest(method: string, endpoint: string, data: any, timestamp: string) {
-    const url = `${this.baseUrl}${endpoint}`;
-    const body = JSON.stringify(data);
-    
-    // Generate OKX API signature
-    const signature = this.generateSignature(timestamp, method, endpoint, body);
-    
-    const response = await fetch(url, {
-      method,
-      headers: {
-        'Content-Type': 'application/json',
-        'OK-ACCESS-KEY': this.apiKey,
-        'OK-ACCESS-SIGN': signature,
-        'OK-ACCESS-TIMESTAMP': timestamp,
-        'OK-ACCESS-PASSPHRASE': this.apiPassphrase
-      },
-      body
-    });
-    
-    return await response.json();
-  }
-  
-  /**
-   * Generate OKX API signature
-   */
-  private generateSignature(timestamp: string, method: string, endpoint: string, body: string): string {
-    const message = `${timestamp}${method}${endpoint}${body}`;
-    const hmac = crypto.createHmac('sha256', this.apiSecret);
-    return hmac.update(message).digest('base64');
-  }
-  
   /**
    * Calculate gas saved based on current network gas prices
    */
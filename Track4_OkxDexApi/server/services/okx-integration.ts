@@ -1,6 +1,26 @@
 import crypto from 'crypto';
-import fetch from 'node-fetch';
 import { storage } from '../../storage';
+import { OkxApiError, OkxRestClient } from '../../../server/services/okx-client';
+
+// A quoted swap on one chain, in the shape the OKX DEX API reports route parts
+export interface SwapRoutePart {
+  type: 'swap';
+  protocol: string;
+  chainId: string;
+  fromToken: { symbol: string };
+  toToken: { symbol: string };
+}
+
+// A token moved unchanged between chains
+export interface BridgeRoutePart {
+  type: 'bridge';
+  protocol: string;
+  fromChainId: string;
+  toChainId: string;
+  token: { symbol: string };
+}
+
+export type RoutePart = SwapRoutePart | BridgeRoutePart;
 
 /**
  * OKX DEX API Integration Service
@@ -9,10 +29,7 @@ import { storage } from '../../storage';
  * gasless swaps and enhanced DeFi functionality.
  */
 export class OkxIntegrationService {
-  private apiKey: string;
-  private apiSecret: string;
-  private apiPassphrase: string;
-  private baseUrl: string = 'https://www.okx.com';
+  private client: OkxRestClient;
   private supportedChains: string[] = [
     'ethereum', 'polygon', 'arbitrum', 'optimism', 
     'base', 'avalanche', 'binance', 'solana', 
@@ -21,11 +38,9 @@ export class OkxIntegrationService {
   ];
   
   constructor() {
-    this.apiKey = process.env.OKX_API_KEY || '';
-    this.apiSecret = process.env.OKX_API_SECRET || '';
-    this.apiPassphrase = process.env.OKX_API_PASSPHRASE || '';
+    this.client = new OkxRestClient();
     
-    if (!this.apiKey || !this.apiSecret || !this.apiPassphrase) {
+    if (!this.client.hasCredentials()) {
       console.warn('OKX API credentials not fully configured');
     }
   }
@@ -36,9 +51,11 @@ export class OkxIntegrationService {
    */
   async initialize(credentials?: { apiKey: string; apiSecret: string; apiPassphrase: string }) {
     if (credentials) {
-      this.apiKey = credentials.apiKey;
-      this.apiSecret = credentials.apiSecret;
-      this.apiPassphrase = credentials.apiPassphrase;
+      this.client.setCredentials({
+        apiKey: credentials.apiKey,
+        apiSecret: credentials.apiSecret,
+        passphrase: credentials.apiPassphrase
+      });
     }
     
     // Validate credentials
@@ -63,19 +80,19 @@ export class OkxIntegrationService {
    * Validate the API credentials
    */
   private async validateCredentials(): Promise<boolean> {
-    if (!this.apiKey || !this.apiSecret || !this.apiPassphrase) {
+    if (!this.client.hasCredentials()) {
       return false;
     }
     
     try {
       // Make a simple API call to validate credentials
-      const timestamp = new Date().toISOString();
-      const endpoint = '/api/v5/account/balance';
-      
-      const response = await this.sendRequest('GET', endpoint, {}, timestamp);
-      
-      return response && response.code === '0';
+      await this.client.get('/api/v5/account/balance');
+      return true;
     } catch (error) {
+      // A rejected key is an answer; anything else means we could not check
+      if (error instanceof OkxApiError && error.isAuthError) {
+        return false;
+      }
       console.error('Validation error:', error);
       return false;
     }
@@ -217,7 +234,7 @@ export class OkxIntegrationService {
       const outputAmount = this.calculateExpectedOutput(fromToken, toToken, amount, slippageTolerance);
       
       // Generate route parts based on chain types
-      const routeParts = this.generateRouteParts(fromChain, toChain);
+      const routeParts = this.generateRouteParts(fromChain, toChain, fromToken, toToken);
       
       return {
         success: true,
@@ -497,70 +514,42 @@ export class OkxIntegrationService {
   
   /**
    * Generate route parts for a cross-chain or same-chain swap
+   * 
+   * Cross-chain routes bridge USDC, swapping into it on the source chain and
+   * out of it on the destination chain only where the tokens differ from it;
+   * a token moving to another chain unchanged is bridged directly.
    */
-  private generateRouteParts(fromChain: string, toChain: string): any[] {
+  private generateRouteParts(fromChain: string, toChain: string, fromToken: string, toToken: string): RoutePart[] {
+    const swap = (chain: string, from: string, to: string): SwapRoutePart => ({
+      type: 'swap',
+      protocol: 'OKX DEX',
+      chainId: this.getChainId(chain),
+      fromToken: { symbol: from },
+      toToken: { symbol: to }
+    });
+    
     if (fromChain === toChain) {
       // Single-chain swap route
-      return [
-        {
-          type: 'swap',
-          protocol: 'OKX DEX',
-          chainId: this.getChainId(fromChain),
-          fromToken: {
-            symbol: 'ETH',
-            name: 'Ethereum',
-            address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE'
-          },
-          toToken: {
-            symbol: 'USDC',
-            name: 'USD Coin',
-            address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'
-          }
-        }
-      ];
-    } else {
-      // Cross-chain swap route
-      return [
-        {
-          type: 'swap',
-          protocol: 'OKX DEX',
-          chainId: this.getChainId(fromChain),
-          fromToken: {
-            symbol: 'ETH',
-            name: 'Ethereum',
-            address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE'
-          },
-          toToken: {
-            symbol: 'USDC',
-            name: 'USD Coin',
-            address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'
-          }
-        },
-        {
-          type: 'bridge',
-          protocol: 'OKX DEX Bridge',
-          fromChainId: this.getChainId(fromChain),
-          toChainId: this.getChainId(toChain),
-          token: {
-            symbol: 'USDC',
-            name: 'USD Coin'
-          }
-        },
-        {
-          type: 'swap',
-          protocol: 'OKX DEX',
-          chainId: this.getChainId(toChain),
-          fromToken: {
-            symbol: 'USDC',
-            name: 'USD Coin'
-          },
-          toToken: {
-            symbol: 'SOL',
-            name: 'Solana'
-          }
-        }
-      ];
+      return [swap(fromChain, fromToken, toToken)];
     }
+    
+    // Cross-chain swap route
+    const bridgeToken = fromToken === toToken ? fromToken : 'USDC';
+    const parts: RoutePart[] = [];
+    if (fromToken !== bridgeToken) {
+      parts.push(swap(fromChain, fromToken, bridgeToken));
+    }
+    parts.push({
+      type: 'bridge',
+      protocol: 'OKX DEX Bridge',
+      fromChainId: this.getChainId(fromChain),
+      toChainId: this.getChainId(toChain),
+      token: { symbol: bridgeToken }
+    });
+    if (toToken !== bridgeToken) {
+      parts.push(swap(toChain, bridgeToken, toToken));
+    }
+    return parts;
   }
   
   /**
@@ -612,45 +601,6 @@ export class OkxIntegrationService {
     
     return explorers[chain] || '';
   }
-  
-  /**
-   * Send authenticated request to OKX API
-   */
-  private async sendRequest(method: string, endpoint: string, data: any, timestamp: string) {
-    const url = `${this.baseUrl}${endpoint}`;
-    const body = JSON.stringify(data);
-    
-    // Generate OKX API signature
-    const signature = this.generateSignature(timestamp, method, endpoint, body);
-    
-    try {
-      const response = await fetch(url, {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-          'OK-ACCESS-KEY': this.apiKey,
-          'OK-ACCESS-SIGN': signature,
-          'OK-ACCESS-TIMESTAMP': timestamp,
-          'OK-ACCESS-PASSPHRASE': this.apiPassphrase
-        },
-        body: method === 'GET' ? undefined : body
-      });
-      
-      return await response.json();
-    } catch (error) {
-      console.error('API request error:', error);
-      throw new Error(`API request failed: ${error.message}`);
-    }
-  }
-  
-  /**
-   * Generate OKX API signature
-   */
-  private generateSignature(timestamp: string, method: string, endpoint: string, body: string): string {
-    const message = `${timestamp}${method}${endpoint}${body}`;
-    const hmac = crypto.createHmac('sha256', this.apiSecret);
-    return hmac.update(message).digest('base64');
-  }
 }
 
 export const okxIntegrationService = new OkxIntegrationService();
\ No newline at end of file
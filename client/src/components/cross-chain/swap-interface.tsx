@@ -1,71 +1,120 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { ArrowDown, RefreshCw, Info, Zap, AlertCircle, CheckCircle, Shield, BarChart3 } from "lucide-react";
+import { ArrowDown, RefreshCw, Info, Zap, AlertCircle, CheckCircle, Shield, BarChart3, Clock } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Skeleton } from "@/components/ui/skeleton";
-import { performSwap, estimateGasSavings } from "@/lib/api";
+import { quoteSwap, performSwap, fetchSwapStatus, fetchSwapTokens, estimateGasSavings } from "@/lib/api";
+import type { SwapLeg, SwapQuote, SwapResult, SwapToken } from "@/lib/types";
 
 interface SwapInterfaceProps {
   selectedChain: string;
+  chains?: { id: string; name: string }[]; // Destination chains; swaps stay on the selected chain without them
   onSwapSuccess?: () => void;
   routerAddress?: string;
   approvalAddress?: string;
 }
 
-// Mock tokens for demonstration
-const tokens = {
-  ethereum: [
-    { symbol: "ETH", name: "Ethereum", balance: "1.45", icon: "bg-blue-500" },
-    { symbol: "USDC", name: "USD Coin", balance: "2,500.00", icon: "bg-blue-400" },
-    { symbol: "USDT", name: "Tether", balance: "1,000.00", icon: "bg-green-500" },
-    { symbol: "DAI", name: "Dai", balance: "5,000.00", icon: "bg-yellow-500" },
-  ],
-  polygon: [
-    { symbol: "MATIC", name: "Polygon", balance: "2,500.00", icon: "bg-purple-500" },
-    { symbol: "USDC", name: "USD Coin", balance: "1,000.00", icon: "bg-blue-400" },
-    { symbol: "WBTC", name: "Wrapped Bitcoin", balance: "0.05", icon: "bg-orange-500" },
-    { symbol: "AAVE", name: "Aave", balance: "10.00", icon: "bg-pink-500" },
-  ],
-  solana: [
-    { symbol: "SOL", name: "Solana", balance: "25.00", icon: "bg-green-500" },
-    { symbol: "USDC", name: "USD Coin", balance: "500.00", icon: "bg-blue-400" },
-    { symbol: "RAY", name: "Raydium", balance: "100.00", icon: "bg-purple-400" },
-    { symbol: "SRM", name: "Serum", balance: "200.00", icon: "bg-red-400" },
-  ],
-  // Add other chains as needed
+// Mock balances for demonstration, by chain and symbol
+const demoBalances: Record<string, Record<string, string>> = {
+  ethereum: { ETH: "1.45", USDC: "2,500.00", USDT: "1,000.00", DAI: "5,000.00" },
+  polygon: { MATIC: "2,500.00", USDC: "1,000.00", WBTC: "0.05", AAVE: "10.00" },
+  solana: { SOL: "25.00", USDC: "500.00", RAY: "100.00" },
 };
 
-const getDefaultTokens = (chain: string) => {
-  const chainTokens = tokens[chain as keyof typeof tokens] || tokens.ethereum;
+const tokenColors: Record<string, string> = {
+  ETH: "bg-blue-500", WETH: "bg-blue-500", USDC: "bg-blue-400", "USDC.e": "bg-blue-400", USDT: "bg-green-500",
+  DAI: "bg-yellow-500", MATIC: "bg-purple-500", WBTC: "bg-orange-500", AAVE: "bg-pink-500", SOL: "bg-green-500",
+  RAY: "bg-purple-400",
+};
+
+const getBalance = (token: SwapToken | null) => (token && demoBalances[token.chain]?.[token.symbol]) || "0.00";
+const getTokenColor = (token: SwapToken | null) => (token && tokenColors[token.symbol]) || "bg-gray-500";
+
+// Protocol badge colors by DEX initial
+const protocolColor = (dex: string) => {
+  switch (dex.charAt(0).toUpperCase()) {
+    case "U": return "bg-blue-500";
+    case "O": return "bg-orange-500"; // OKX highlighted
+    case "S": return "bg-pink-500";
+    case "C": return "bg-purple-500";
+    case "J": return "bg-orange-400";
+    case "Q": return "bg-indigo-500";
+    default: return "bg-green-500";
+  }
+};
+
+const formatDexName = (dex: string) =>
+  dex === "okx" ? "OKX DEX" : dex.split("_").map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(" ");
+
+// Format output with commas for thousands
+const formatAmount = (amount: string) => {
+  const [whole, fraction] = amount.split(".");
+  return `${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",")}${fraction ? `.${fraction}` : ""}`;
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const describeLeg = (leg: SwapLeg, chainName: (id: string) => string) =>
+  leg.type === "bridge"
+    ? `Bridge ${leg.fromToken} ${chainName(leg.chain)} → ${chainName(leg.toChain)}`
+    : `Swap ${leg.fromToken} → ${leg.toToken} on ${chainName(leg.chain)}`;
+
+// The native token into USDC where the chain lists it
+const getDefaultTokens = (chainTokens: SwapToken[]) => {
+  const from = chainTokens.find(t => t.native) || chainTokens[0];
+  const others = chainTokens.filter(t => t.address !== from?.address);
   return {
-    from: chainTokens[0],
-    to: chainTokens[1]
+    from: from || null,
+    to: others.find(t => t.symbol === "USDC") || others[0] || null
   };
 };
 
-const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAddress }: SwapInterfaceProps) => {
+const SwapInterface = ({ selectedChain, chains = [], onSwapSuccess, routerAddress, approvalAddress }: SwapInterfaceProps) => {
   const { toast } = useToast();
-  const chainTokens = tokens[selectedChain as keyof typeof tokens] || tokens.ethereum;
+  const queryClient = useQueryClient();
+  const [toChain, setToChain] = useState(selectedChain);
+  const chainName = (id: string) => chains.find(c => c.id === id)?.name || id;
   
-  const [fromToken, setFromToken] = useState(chainTokens[0]);
-  const [toToken, setToToken] = useState(chainTokens[1]);
+  // Tokens listed on the source and destination chains, keyed by contract address
+  const { data: chainTokenList } = useQuery<SwapToken[]>({
+    queryKey: ['/api/swap/tokens', selectedChain],
+    queryFn: () => fetchSwapTokens(selectedChain)
+  });
+  const { data: destinationTokenList } = useQuery<SwapToken[]>({
+    queryKey: ['/api/swap/tokens', toChain],
+    queryFn: () => fetchSwapTokens(toChain)
+  });
+  const chainTokens = chainTokenList || [];
+  const destinationTokens = destinationTokenList || [];
+  
+  const [fromToken, setFromToken] = useState<SwapToken | null>(null);
+  const [toToken, setToToken] = useState<SwapToken | null>(null);
   const [fromAmount, setFromAmount] = useState("1.0");
-  const [toAmount, setToAmount] = useState("3,245.89");
+  const [toAmount, setToAmount] = useState("");
+  const [quote, setQuote] = useState<SwapQuote | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const quoteRequest = useRef(0); // Only the latest quote request may update the form
   const [estimatedFee, setEstimatedFee] = useState("0.00");
   const [estimatedSavings, setEstimatedSavings] = useState("0.00");
   const [isCalculating, setIsCalculating] = useState(false);
-  const [routeProtocols, setRouteProtocols] = useState<string[]>(["O", "U", "C"]);
+  const [routeProtocols, setRouteProtocols] = useState<string[]>([]);
   const [swapSuccess, setSwapSuccess] = useState(false);
   const [swapError, setSwapError] = useState("");
   const [executionTime, setExecutionTime] = useState("< 30 seconds");
   const [transactionHash, setTransactionHash] = useState("");
+  const [trackedSwapId, setTrackedSwapId] = useState<string | null>(null);
   
   // Store the contract addresses for the selected chain
   const [chainRouterAddress, setChainRouterAddress] = useState(routerAddress || "");
@@ -73,71 +122,87 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
   
   // Reset tokens and update addresses when chain changes
   useEffect(() => {
-    const defaults = getDefaultTokens(selectedChain);
-    setFromToken(defaults.from);
-    setToToken(defaults.to);
+    setFromToken(null);
+    setToToken(null);
+    setToChain(selectedChain);
+    setQuote(null);
     
     // Update contract addresses from props (if provided) or clear them
     setChainRouterAddress(routerAddress || "");
     setChainApprovalAddress(approvalAddress || "");
-    
-    calculateSwap(defaults.from.symbol, defaults.to.symbol, "1.0");
   }, [selectedChain, routerAddress, approvalAddress]);
 
-  // Function to calculate the swap details with enhanced OKX integration
-  const calculateSwap = async (fromSymbol: string, toSymbol: string, amount: string) => {
+  // Pick default tokens once the chain's token list has loaded
+  useEffect(() => {
+    if (fromToken || !chainTokenList || chainTokenList[0]?.chain !== selectedChain) return;
+    const defaults = getDefaultTokens(chainTokenList);
+    setFromToken(defaults.from);
+    setToToken(defaults.to);
+    if (defaults.from && defaults.to) {
+      calculateSwap(defaults.from, defaults.to, "1.0", selectedChain);
+    }
+  }, [chainTokenList, fromToken, selectedChain]);
+
+  // Tick once a second while a quote is live, so its countdown and expiry stay current
+  useEffect(() => {
+    if (!quote) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [quote]);
+
+  const quoteSecondsLeft = quote ? Math.max(0, Math.ceil((new Date(quote.expiresAt).getTime() - now) / 1000)) : 0;
+  const quoteExpired = !!quote && quoteSecondsLeft === 0;
+
+  // Follow a submitted cross-chain swap leg by leg until the destination receipt
+  const { data: trackedSwap } = useQuery<SwapResult>({
+    queryKey: ['/api/swap/status', trackedSwapId],
+    queryFn: () => fetchSwapStatus(trackedSwapId!),
+    enabled: !!trackedSwapId,
+    refetchInterval: (query) => query.state.data?.status === 'pending' ? 3000 : false
+  });
+
+  useEffect(() => {
+    if (trackedSwap?.status !== 'completed') return;
+    setTransactionHash(trackedSwap.destinationTxHash || trackedSwap.transactionHash || "");
+    setSwapSuccess(true);
+    toast({
+      title: "Cross-Chain Swap Complete",
+      description: `Received ${formatAmount(trackedSwap.amountReceived)} ${trackedSwap.toToken} on ${chainName(trackedSwap.toChain)}`,
+    });
+    if (onSwapSuccess) onSwapSuccess();
+  }, [trackedSwap?.status]);
+
+  // Request a server quote; the swap executes exactly what it shows
+  const calculateSwap = async (from: SwapToken, to: SwapToken, amount: string, destinationChain: string = toChain) => {
+    const request = ++quoteRequest.current;
     setIsCalculating(true);
     setSwapSuccess(false);
     setSwapError("");
+    setQuote(null);
     
     try {
-      // Get gas savings estimate from OKX Gasless API
-      const gasEstimate = await estimateGasSavings(fromSymbol, toSymbol, amount, selectedChain);
-      
-      // Calculate the output amount based on token pairs
-      let calculatedAmount = 0;
-      if (fromSymbol === "ETH" && toSymbol === "USDC") {
-        calculatedAmount = parseFloat(amount.replace(/,/g, '')) * 3245.89;
-      } else if (fromSymbol === "USDC" && toSymbol === "ETH") {
-        calculatedAmount = parseFloat(amount.replace(/,/g, '')) / 3245.89;
-      } else if (fromSymbol === "SOL" && toSymbol === "USDC") {
-        calculatedAmount = parseFloat(amount.replace(/,/g, '')) * 103.47;
-      } else if (fromSymbol === "USDC" && toSymbol === "SOL") {
-        calculatedAmount = parseFloat(amount.replace(/,/g, '')) / 103.47;
-      } else if (fromSymbol === "MATIC" && toSymbol === "USDC") {
-        calculatedAmount = parseFloat(amount.replace(/,/g, '')) * 0.87;
-      } else if (fromSymbol === "USDC" && toSymbol === "MATIC") {
-        calculatedAmount = parseFloat(amount.replace(/,/g, '')) / 0.87;
-      } else {
-        calculatedAmount = parseFloat(amount.replace(/,/g, '')) * 1.5; // Default exchange rate
-      }
-      
-      // Format output with commas for thousands
-      const formattedAmount = calculatedAmount.toFixed(
-        toSymbol === "ETH" || toSymbol === "WBTC" ? 6 : 2
-      ).replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+      // Quote the swap and get the gas savings estimate from OKX Gasless API
+      const [quoteResponse, gasEstimate] = await Promise.all([
+        quoteSwap(from.address, to.address, amount.replace(/,/g, ''), selectedChain, destinationChain),
+        estimateGasSavings(from.symbol, to.symbol, amount.replace(/,/g, ''), selectedChain)
+      ]);
+      const newQuote: SwapQuote = await quoteResponse.json();
+      if (request !== quoteRequest.current) return;
       
-      setToAmount(formattedAmount);
+      setQuote(newQuote);
+      setNow(Date.now());
+      setToAmount(formatAmount(newQuote.expectedOutput));
+      setRouteProtocols(newQuote.route);
       setEstimatedFee("0.00"); // Gasless transactions have zero gas fees
       setEstimatedSavings(gasEstimate?.savings || "15.42");
       setExecutionTime(gasEstimate?.estimatedTimeGasless || "< 30 seconds");
       
-      // Set optimized OKX routing based on token pairs
-      if (fromSymbol === "ETH" && toSymbol === "USDC") {
-        setRouteProtocols(["O", "U", "C"]); // Always include OKX ("O") as first for gasless swaps
-      } else if (fromSymbol === "SOL" && toSymbol === "USDC") {
-        setRouteProtocols(["O", "J", "R"]);
-      } else if (fromSymbol === "MATIC" && toSymbol === "USDC") {
-        setRouteProtocols(["O", "Q", "S"]); // Q for QuickSwap on Polygon
-      } else {
-        setRouteProtocols(["O", "U", "C"]);
-      }
-      
       // Log calculation success for debugging
-      console.log(`Calculated swap: ${amount} ${fromSymbol} to ${formattedAmount} ${toSymbol} on ${selectedChain}`);
+      console.log(`Quoted swap ${newQuote.quoteId}: ${amount} ${from.symbol} on ${selectedChain} to ${newQuote.expectedOutput} ${to.symbol} on ${destinationChain}`);
       console.log(`Estimated gas savings: $${gasEstimate?.savings}`);
       
     } catch (error) {
+      if (request !== quoteRequest.current) return;
       console.error("Error calculating swap:", error);
       setSwapError("Could not estimate the swap. Please try again.");
       toast({
@@ -146,36 +211,55 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
         variant: "destructive",
       });
     } finally {
-      setIsCalculating(false);
+      if (request === quoteRequest.current) setIsCalculating(false);
     }
   };
 
   // Handle from token amount change
   const handleFromAmountChange = (value: string) => {
     setFromAmount(value);
-    calculateSwap(fromToken.symbol, toToken.symbol, value);
+    if (fromToken && toToken) calculateSwap(fromToken, toToken, value);
   };
 
-  // Handle from token selection change
+  // Handle from token selection change; tokens are selected by contract address
   const handleFromTokenChange = (value: string) => {
-    const newToken = chainTokens.find(t => t.symbol === value) || chainTokens[0];
+    const newToken = chainTokens.find(t => t.address === value);
+    if (!newToken) return;
     setFromToken(newToken);
-    calculateSwap(newToken.symbol, toToken.symbol, fromAmount);
+    if (toToken) calculateSwap(newToken, toToken, fromAmount);
   };
 
   // Handle to token selection change
   const handleToTokenChange = (value: string) => {
-    const newToken = chainTokens.find(t => t.symbol === value) || chainTokens[1];
+    const newToken = destinationTokens.find(t => t.address === value);
+    if (!newToken) return;
+    setToToken(newToken);
+    if (fromToken) calculateSwap(fromToken, newToken, fromAmount);
+  };
+
+  // Handle destination chain change; the destination token is picked from the new chain
+  const handleToChainChange = async (value: string) => {
+    setToChain(value);
+    setToToken(null);
+    setQuote(null);
+    const newTokens: SwapToken[] = await queryClient.ensureQueryData({
+      queryKey: ['/api/swap/tokens', value],
+      queryFn: () => fetchSwapTokens(value)
+    });
+    // Same symbol where the new chain lists it, never the source token itself
+    const candidates = newTokens.filter(t => value !== selectedChain || t.address !== fromToken?.address);
+    const newToken = candidates.find(t => t.symbol === toToken?.symbol) || candidates[0];
+    if (!newToken) return;
     setToToken(newToken);
-    calculateSwap(fromToken.symbol, newToken.symbol, fromAmount);
+    if (fromToken) calculateSwap(fromToken, newToken, fromAmount, value);
   };
 
   // Swap the tokens
   const handleSwapTokens = () => {
-    const temp = fromToken;
+    if (!fromToken || !toToken) return;
     setFromToken(toToken);
-    setToToken(temp);
-    calculateSwap(toToken.symbol, fromToken.symbol, fromAmount);
+    setToToken(fromToken);
+    calculateSwap(toToken, fromToken, fromAmount);
   };
 
   // Handle the swap execution with enhanced error handling and feedback
@@ -183,9 +267,11 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
     try {
       setSwapSuccess(false);
       setSwapError("");
+      setTrackedSwapId(null);
       
-      // Generate a unique transaction hash for this swap
-      setTransactionHash(`0x${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`);
+      if (!quote || quoteExpired) {
+        throw new Error("The quote has expired. Refresh it to see the current price.");
+      }
       
       // Log contract addresses for debugging
       if (chainRouterAddress) {
@@ -196,35 +282,42 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
         console.log(`Using approval address for ${selectedChain}: ${chainApprovalAddress}`);
       }
       
-      // Execute the gasless swap via OKX DEX API with contract addresses
-      const response = await performSwap(
-        fromToken.symbol, 
-        toToken.symbol, 
-        fromAmount, 
-        selectedChain,
-        chainRouterAddress,  // Pass router address to the API
-        chainApprovalAddress // Pass approval address to the API
-      );
+      // Execute the quoted gasless swap via OKX DEX API; a quote is good for one swap
+      const response = await performSwap(quote.quoteId);
+      const result: SwapResult = await response.json();
+      setQuote(null);
+      
+      // A cross-chain swap is pending until its last leg lands on the destination chain
+      if (result.status === 'pending') {
+        setTrackedSwapId(result.swapId);
+        toast({
+          title: "Cross-Chain Swap Submitted",
+          description: `${quote.amount} ${quote.fromToken} is on its way to ${chainName(quote.toChain)} in ${result.legs?.length ?? quote.legs.length} steps`,
+        });
+        return response;
+      }
       
       // Update state to reflect success
+      setTransactionHash(result.transactionHash || "");
       setSwapSuccess(true);
       
       // Show success toast with transaction details
       toast({
         title: "Gasless Swap Successful",
-        description: `Successfully swapped ${fromAmount} ${fromToken.symbol} to ${toAmount} ${toToken.symbol} with zero gas fees`,
+        description: `Successfully swapped ${quote.amount} ${quote.fromToken} to ${formatAmount(result.amountReceived)} ${quote.toToken} with zero gas fees`,
       });
       
       // Call the success callback if provided
       if (onSwapSuccess) onSwapSuccess();
       
       // Log details for debugging
-      console.log(`Swap successful: ${fromAmount} ${fromToken.symbol} to ${toAmount} ${toToken.symbol}`);
+      console.log(`Swap successful: ${quote.amount} ${quote.fromToken} to ${result.amountReceived} ${quote.toToken}`);
       console.log(`Gas saved: $${estimatedSavings}`);
       
       return response;
     } catch (error) {
       console.error("Error performing gasless swap:", error);
+      setQuote(null); // A rejected or failed quote cannot be resubmitted
       
       // Set error state for UI feedback
       setSwapError(error instanceof Error ? error.message : "Failed to perform swap. Please try again.");
@@ -254,14 +347,14 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
       <Card className="bg-background rounded-lg p-3">
         <div className="flex items-center justify-between mb-1">
           <span className="text-xs text-muted-foreground">From</span>
-          <span className="text-xs text-muted-foreground">Balance: {fromToken.balance} {fromToken.symbol}</span>
+          <span className="text-xs text-muted-foreground">Balance: {getBalance(fromToken)} {fromToken?.symbol}</span>
         </div>
         <div className="flex items-center justify-between">
           <div className="flex items-center">
-            <div className={`w-8 h-8 rounded-full ${fromToken.icon} flex items-center justify-center mr-2`}>
-              <span className="text-xs font-medium text-white">{fromToken.symbol}</span>
+            <div className={`w-8 h-8 rounded-full ${getTokenColor(fromToken)} flex items-center justify-center mr-2`}>
+              <span className="text-xs font-medium text-white">{fromToken?.symbol}</span>
             </div>
-            <Select defaultValue={fromToken.symbol} onValueChange={handleFromTokenChange}>
+            <Select value={fromToken?.address ?? ""} onValueChange={handleFromTokenChange}>
               <SelectTrigger className="bg-transparent border-0 text-foreground font-medium focus:ring-0 focus:ring-offset-0 w-[110px]">
                 <SelectValue />
               </SelectTrigger>
@@ -269,7 +362,7 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
                 <SelectGroup>
                   <SelectLabel>Select Token</SelectLabel>
                   {chainTokens.map((token) => (
-                    <SelectItem key={token.symbol} value={token.symbol}>
+                    <SelectItem key={token.address} value={token.address}>
                       {token.name}
                     </SelectItem>
                   ))}
@@ -285,7 +378,7 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
           />
         </div>
         <div className="text-right text-xs text-muted-foreground mt-1">
-          ≈ ${parseFloat(fromAmount.replace(/,/g, '')) * (fromToken.symbol === "ETH" ? 3245.89 : fromToken.symbol === "SOL" ? 103.47 : 1)}
+          ≈ ${parseFloat(fromAmount.replace(/,/g, '')) * (fromToken?.symbol === "ETH" ? 3245.89 : fromToken?.symbol === "SOL" ? 103.47 : 1)}
         </div>
       </Card>
       
@@ -295,6 +388,7 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
           variant="outline" 
           size="icon" 
           className="w-10 h-10 rounded-full bg-primary border-none text-primary-foreground"
+          disabled={toChain !== selectedChain} // Tokens can only trade places on one chain
           onClick={handleSwapTokens}
         >
           <ArrowDown className="h-5 w-5" />
@@ -304,23 +398,42 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
       {/* To Token Selection */}
       <Card className="bg-background rounded-lg p-3 mb-4">
         <div className="flex items-center justify-between mb-1">
-          <span className="text-xs text-muted-foreground">To</span>
-          <span className="text-xs text-muted-foreground">Balance: {toToken.balance} {toToken.symbol}</span>
+          <div className="flex items-center">
+            <span className="text-xs text-muted-foreground mr-1">To</span>
+            {chains.length > 0 && (
+              <Select value={toChain} onValueChange={handleToChainChange}>
+                <SelectTrigger className="h-6 bg-transparent border-0 text-xs text-foreground focus:ring-0 focus:ring-offset-0 w-[130px] px-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectLabel>Destination Chain</SelectLabel>
+                    {chains.map((chain) => (
+                      <SelectItem key={chain.id} value={chain.id}>
+                        {chain.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <span className="text-xs text-muted-foreground">Balance: {getBalance(toToken)} {toToken?.symbol}</span>
         </div>
         <div className="flex items-center justify-between">
           <div className="flex items-center">
-            <div className={`w-8 h-8 rounded-full ${toToken.icon} flex items-center justify-center mr-2`}>
-              <span className="text-xs font-medium text-white">{toToken.symbol}</span>
+            <div className={`w-8 h-8 rounded-full ${getTokenColor(toToken)} flex items-center justify-center mr-2`}>
+              <span className="text-xs font-medium text-white">{toToken?.symbol}</span>
             </div>
-            <Select defaultValue={toToken.symbol} onValueChange={handleToTokenChange}>
+            <Select value={toToken?.address ?? ""} onValueChange={handleToTokenChange}>
               <SelectTrigger className="bg-transparent border-0 text-foreground font-medium focus:ring-0 focus:ring-offset-0 w-[110px]">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
                 <SelectGroup>
                   <SelectLabel>Select Token</SelectLabel>
-                  {chainTokens.map((token) => (
-                    <SelectItem key={token.symbol} value={token.symbol}>
+                  {destinationTokens.map((token) => (
+                    <SelectItem key={token.address} value={token.address}>
                       {token.name}
                     </SelectItem>
                   ))}
@@ -358,7 +471,31 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
         
         <div className="flex items-center justify-between text-sm mb-1">
           <span className="text-muted-foreground">Rate</span>
-          <span>1 {fromToken.symbol} = {toAmount.replace(/^[0-9,]+/, "")} {toToken.symbol}</span>
+          <span>{quote ? `1 ${quote.fromToken} = ${parseFloat(quote.exchangeRate)} ${quote.toToken}` : "-"}</span>
+        </div>
+        
+        <div className="flex items-center justify-between text-sm mb-1">
+          <span className="text-muted-foreground">Minimum Received</span>
+          <div className="flex items-center">
+            <span>{quote ? `${formatAmount(quote.minimumOutput)} ${quote.toToken}` : "-"}</span>
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Info className="ml-1 h-3 w-3 text-muted-foreground" />
+                </TooltipTrigger>
+                <TooltipContent className="p-2">
+                  <p className="text-xs">The swap is refused rather than filled below this ({quote?.slippageTolerance ?? "0.5"}% slippage tolerance)</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
+        </div>
+        
+        <div className="flex items-center justify-between text-sm mb-1">
+          <span className="text-muted-foreground">Price Impact</span>
+          <span className={quote && parseFloat(quote.priceImpactPercentage) >= 1 ? "text-red-500 font-medium" : ""}>
+            {quote ? `${parseFloat(quote.priceImpactPercentage).toFixed(2)}%` : "-"}
+          </span>
         </div>
         
         <div className="flex items-center justify-between text-sm mb-1">
@@ -397,7 +534,42 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
         
         <div className="flex items-center justify-between text-sm mb-1">
           <span className="text-muted-foreground">Settlement Time</span>
-          <span className="text-foreground font-medium">{executionTime}</span>
+          <span className="text-foreground font-medium">{quote ? `≈ ${formatDuration(quote.estimatedDurationMs)}` : executionTime}</span>
+        </div>
+        
+        {quote && quote.legs.length > 1 && (
+          <div className="rounded-md border border-border p-2 mb-1 space-y-1">
+            {quote.legs.map((leg) => (
+              <div key={leg.index} className="flex items-center justify-between text-xs">
+                <div className="flex items-center">
+                  <Badge variant="outline" className="mr-2 px-1.5 py-0 text-[10px] uppercase">{leg.type}</Badge>
+                  <span>{describeLeg(leg, chainName)}</span>
+                  <span className="ml-1 text-muted-foreground">via {leg.protocols.map(formatDexName).join(", ")}</span>
+                </div>
+                <span className="text-muted-foreground whitespace-nowrap ml-2">
+                  {parseFloat(leg.fee) > 0 ? `fee ${formatAmount(leg.fee)} ${leg.fromToken} · ` : ""}≈ {formatDuration(leg.estimatedDurationMs)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        
+        <div className="flex items-center justify-between text-sm mb-1">
+          <span className="text-muted-foreground">Quote</span>
+          {quote && !quoteExpired ? (
+            <span className="text-foreground font-medium">Expires in {quoteSecondsLeft}s</span>
+          ) : (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              disabled={isCalculating || !fromToken || !toToken}
+              onClick={() => fromToken && toToken && calculateSwap(fromToken, toToken, fromAmount)}
+            >
+              <RefreshCw className="mr-1 h-3 w-3" />
+              {quote ? "Expired - refresh" : "Refresh quote"}
+            </Button>
+          )}
         </div>
         
         <div className="flex items-center justify-between text-sm">
@@ -407,17 +579,9 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
               {routeProtocols.map((protocol, index) => (
                 <div 
                   key={index}
-                  className={`w-5 h-5 rounded-full ${
-                    protocol === "U" ? "bg-blue-500" : 
-                    protocol === "O" ? "bg-orange-500" : // OKX highlighted
-                    protocol === "S" ? "bg-pink-500" : 
-                    protocol === "C" ? "bg-purple-500" : 
-                    protocol === "J" ? "bg-orange-400" : 
-                    protocol === "Q" ? "bg-indigo-500" : 
-                    "bg-green-500"
-                  } flex items-center justify-center ${index > 0 ? "-ml-1" : ""} border-2 border-background text-xs text-white`}
+                  className={`w-5 h-5 rounded-full ${protocolColor(protocol)} flex items-center justify-center ${index > 0 ? "-ml-1" : ""} border-2 border-background text-xs text-white`}
                 >
-                  {protocol}
+                  {protocol.charAt(0).toUpperCase()}
                 </div>
               ))}
             </div>
@@ -429,15 +593,7 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
                 <TooltipContent className="p-3 max-w-xs">
                   <div className="space-y-2">
                     <p className="font-medium text-orange-500">OKX Smart Routing</p>
-                    <p className="text-xs">Route: {routeProtocols.map(p => 
-                      p === "U" ? "Uniswap" : 
-                      p === "O" ? "OKX DEX" :
-                      p === "S" ? "SushiSwap" : 
-                      p === "C" ? "Curve" :
-                      p === "J" ? "Jupiter" :
-                      p === "Q" ? "QuickSwap" :
-                      "Raydium"
-                    ).join(" → ")}</p>
+                    <p className="text-xs">Route: {routeProtocols.map(formatDexName).join(" → ")}</p>
                     <div className="text-xs mt-2">
                       <div className="flex items-center text-green-500">
                         <CheckCircle className="w-3 h-3 mr-1" /> 
@@ -467,7 +623,7 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
       {/* Swap Button */}
       <Button 
         className={`w-full py-6 text-lg font-semibold mb-2 ${swapMutation.isPending ? "" : "bg-gradient-to-r from-orange-500 to-yellow-500 hover:from-orange-600 hover:to-yellow-600"}`}
-        disabled={swapMutation.isPending || !fromAmount || fromAmount === "0" || isCalculating}
+        disabled={swapMutation.isPending || !fromAmount || fromAmount === "0" || isCalculating || !quote || quoteExpired}
         onClick={() => swapMutation.mutate()}
       >
         {swapMutation.isPending ? (
@@ -480,6 +636,8 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
             <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
             Calculating Route...
           </div>
+        ) : quoteExpired ? (
+          "Quote Expired - Refresh to Swap"
         ) : (
           "Swap Gasless with OKX"
         )}
@@ -494,6 +652,37 @@ const SwapInterface = ({ selectedChain, onSwapSuccess, routerAddress, approvalAd
         </Alert>
       )}
       
+      {trackedSwap?.legs && trackedSwap.status === 'pending' && (
+        <Alert className="mt-2 mb-2">
+          <RefreshCw className="h-4 w-4 animate-spin" />
+          <AlertTitle>Cross-chain swap in progress</AlertTitle>
+          <AlertDescription>
+            <div className="space-y-1">
+              {trackedSwap.legs.map((leg) => (
+                <div key={leg.index} className="flex items-center justify-between text-sm">
+                  <div className="flex items-center">
+                    {leg.status === 'confirmed' ? (
+                      <CheckCircle className="mr-1 h-3 w-3 text-green-500" />
+                    ) : leg.status === 'submitted' ? (
+                      <RefreshCw className="mr-1 h-3 w-3 animate-spin" />
+                    ) : (
+                      <Clock className="mr-1 h-3 w-3 text-muted-foreground" />
+                    )}
+                    <span>{describeLeg(leg, chainName)}</span>
+                  </div>
+                  {leg.txHash && <span className="font-mono text-xs text-muted-foreground">{leg.txHash.substring(0, 10)}...</span>}
+                </div>
+              ))}
+              {trackedSwap.estimatedCompletionAt && (
+                <p className="text-xs text-muted-foreground">
+                  Expected on {chainName(trackedSwap.toChain)} by {new Date(trackedSwap.estimatedCompletionAt).toLocaleTimeString()}
+                </p>
+              )}
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+      
       {swapSuccess && (
         <Alert className="mt-2 mb-2 bg-green-50 text-green-800 border-green-200">
           <CheckCircle className="h-4 w-4" />
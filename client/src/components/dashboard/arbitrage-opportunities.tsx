@@ -1,63 +1,71 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArbitrageOpportunityData } from "@/lib/types";
+import { ArbitrageExecutionProgress, ArbitrageRoute, ArbitrageRouteStep } from "@/lib/types";
 import { ArrowRight, Bot } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { executeArbitrageTrade } from "@/lib/api";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useState } from "react";
+import { useArbitrageStream } from "@/hooks/use-arbitrage-stream";
+import { executeArbitrageRoute } from "@/lib/api";
+import { useMutation } from "@tanstack/react-query";
 
-interface ArbitrageOpportunitiesProps {
-  data?: ArbitrageOpportunityData[];
-  isLoading: boolean;
-}
+// Routes shown at once; the stream keeps them sorted by profit
+const MAX_VISIBLE_ROUTES = 4;
 
-// Default data for demo
-const defaultData: ArbitrageOpportunityData[] = [
-  {
-    asset: "Ethereum",
-    assetSymbol: "ETH",
-    color: "bg-blue-500",
-    from: "Uniswap",
-    to: "Sushiswap",
-    profitPercentage: "0.52%",
-    profitAmount: "~$174",
-    buyPrice: "$3,245.89",
-    sellPrice: "$3,262.75"
-  },
-  {
-    asset: "Solana",
-    assetSymbol: "SOL",
-    color: "bg-green-500",
-    from: "Jupiter",
-    to: "Raydium",
-    profitPercentage: "0.83%",
-    profitAmount: "~$127",
-    buyPrice: "$103.47",
-    sellPrice: "$104.33"
+const ASSET_NAMES: Record<string, string> = {
+  BTC: "Bitcoin",
+  ETH: "Ethereum",
+  SOL: "Solana",
+  MATIC: "Polygon",
+  AVAX: "Avalanche",
+  BNB: "BNB",
+  ARB: "Arbitrum",
+  USDC: "USD Coin"
+};
+
+const ASSET_COLORS: Record<string, string> = {
+  BTC: "bg-orange-500",
+  ETH: "bg-blue-500",
+  SOL: "bg-green-500",
+  MATIC: "bg-purple-500",
+  AVAX: "bg-red-500",
+  BNB: "bg-yellow-500",
+  ARB: "bg-sky-500",
+  USDC: "bg-blue-400"
+};
+
+const formatPrice = (step: ArbitrageRouteStep) =>
+  step.pair && step.pair.quote !== "USDC"
+    ? `${step.expectedPrice.toPrecision(6)} ${step.pair.quote}`
+    : `$${step.expectedPrice.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const stepLabel = (step: ArbitrageRouteStep) =>
+  step.pair
+    ? `${step.action === 'buy' ? "Buy" : "Sell"} ${step.pair.base}/${step.pair.quote}`
+    : step.action === 'buy' ? "Buy Price" : "Sell Price";
+
+const describeProgress = (progress: ArbitrageExecutionProgress) => {
+  if (progress.status !== 'running') {
+    const profit = progress.netProfit !== undefined ? ` ($${progress.netProfit.toFixed(2)})` : "";
+    return progress.status === 'succeeded' ? `Executed${profit}` : `Failed${profit}`;
   }
-];
+  const lastLeg = progress.legs[progress.legs.length - 1];
+  if (!lastLeg) return "Submitting orders...";
+  return `Leg ${progress.legs.length}/${progress.plannedSteps}: ${lastLeg.action} on ${lastLeg.exchange} ${lastLeg.success ? "filled" : "failed"}`;
+};
 
-const ArbitrageOpportunities = ({ data, isLoading }: ArbitrageOpportunitiesProps) => {
+const ArbitrageOpportunities = () => {
   const { toast } = useToast();
-  const queryClient = useQueryClient();
-  const [executingId, setExecutingId] = useState<number | null>(null);
-  
-  const opportunities = data || defaultData;
+  const { routes, executions, isConnected, hasSnapshot } = useArbitrageStream();
 
-  const executeTradeMutation = useMutation({
-    mutationFn: (id: number) => executeArbitrageTrade(id),
-    onMutate: (id) => {
-      setExecutingId(id);
-    },
+  const opportunities = routes.slice(0, MAX_VISIBLE_ROUTES);
+
+  const executeRouteMutation = useMutation({
+    mutationFn: (routeId: string) => executeArbitrageRoute(routeId),
     onSuccess: () => {
       toast({
         title: "Trade executed",
         description: "The arbitrage trade has been successfully executed.",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/arbitrage/opportunities'] });
-      setExecutingId(null);
     },
     onError: (error) => {
       toast({
@@ -65,69 +73,94 @@ const ArbitrageOpportunities = ({ data, isLoading }: ArbitrageOpportunitiesProps
         description: error.message || "There was an error executing the trade.",
         variant: "destructive",
       });
-      setExecutingId(null);
     }
   });
 
-  const handleExecuteTrade = (id: number) => {
-    executeTradeMutation.mutate(id);
+  const handleExecuteTrade = (routeId: string) => {
+    executeRouteMutation.mutate(routeId);
   };
 
   return (
     <Card className="bg-card rounded-xl shadow-lg border border-border">
       <CardHeader className="pb-2">
-        <CardTitle className="text-lg font-medium">Arbitrage Opportunities</CardTitle>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-medium">Arbitrage Opportunities</CardTitle>
+          <span className={`flex items-center text-xs ${isConnected ? "text-green-500" : "text-muted-foreground"}`}>
+            <span className={`mr-1 h-2 w-2 rounded-full ${isConnected ? "bg-green-500" : "bg-muted-foreground"}`}></span>
+            {isConnected ? "Live" : "Reconnecting..."}
+          </span>
+        </div>
       </CardHeader>
       <CardContent>
-        {isLoading ? (
+        {!hasSnapshot ? (
           <div className="space-y-4">
             <Skeleton className="h-36 w-full rounded-xl" />
             <Skeleton className="h-36 w-full rounded-xl" />
           </div>
+        ) : opportunities.length === 0 ? (
+          <div className="bg-background rounded-xl p-6 border border-border text-center text-sm text-muted-foreground">
+            No profitable routes right now. New spreads appear here as soon as they are detected.
+          </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            {opportunities.map((opportunity, index) => (
-              <div 
-                key={index} 
-                className="bg-background rounded-xl p-3 border border-border"
-              >
-                <div className="flex items-center justify-between mb-3">
-                  <div className="flex items-center">
-                    <div className={`w-10 h-10 rounded-full ${opportunity.color} flex items-center justify-center mr-2`}>
-                      <span>{opportunity.assetSymbol}</span>
+            {opportunities.map((route: ArbitrageRoute) => {
+              const first = route.steps[0];
+              const last = route.steps[route.steps.length - 1];
+              const venues = route.steps.map(step => step.exchange).filter((venue, i, all) => all.indexOf(venue) === i);
+              const progress = executions[route.id];
+              const isExecuting = progress?.status === 'running' ||
+                (executeRouteMutation.isPending && executeRouteMutation.variables === route.id);
+
+              return (
+                <div 
+                  key={route.id} 
+                  className="bg-background rounded-xl p-3 border border-border"
+                >
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center">
+                      <div className={`w-10 h-10 rounded-full ${ASSET_COLORS[route.asset] || "bg-primary"} flex items-center justify-center mr-2`}>
+                        <span className="text-xs">{route.asset}</span>
+                      </div>
+                      <div>
+                        <div className="font-medium">
+                          {ASSET_NAMES[route.asset] || route.asset} {route.steps.length > 2 ? `${route.steps.length}-Hop` : "Arbitrage"}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{venues.join(" ↔ ")}</div>
+                      </div>
                     </div>
-                    <div>
-                      <div className="font-medium">{opportunity.asset} Arbitrage</div>
-                      <div className="text-xs text-muted-foreground">{opportunity.from} ↔ {opportunity.to}</div>
+                    <div className="text-green-500 text-right">
+                      <div className="font-medium">+{route.estimatedProfitPercentage.toFixed(2)}%</div>
+                      <div className="text-xs">~${route.estimatedProfitAmount.toFixed(0)}</div>
                     </div>
                   </div>
-                  <div className="text-green-500 text-right">
-                    <div className="font-medium">+{opportunity.profitPercentage}</div>
-                    <div className="text-xs">{opportunity.profitAmount}</div>
-                  </div>
-                </div>
-                <div className="flex items-center text-sm mb-3">
-                  <div className="flex-1 flex-col">
-                    <div className="text-center mb-1">Buy Price</div>
-                    <div className="bg-card rounded-lg p-2 text-center font-mono">{opportunity.buyPrice}</div>
-                  </div>
-                  <div className="px-2">
-                    <ArrowRight className="text-primary" />
-                  </div>
-                  <div className="flex-1 flex-col">
-                    <div className="text-center mb-1">Sell Price</div>
-                    <div className="bg-card rounded-lg p-2 text-center font-mono">{opportunity.sellPrice}</div>
+                  <div className="flex items-center text-sm mb-3">
+                    <div className="flex-1 flex-col">
+                      <div className="text-center mb-1">{stepLabel(first)}</div>
+                      <div className="bg-card rounded-lg p-2 text-center font-mono">{formatPrice(first)}</div>
+                    </div>
+                    <div className="px-2">
+                      <ArrowRight className="text-primary" />
+                    </div>
+                    <div className="flex-1 flex-col">
+                      <div className="text-center mb-1">{stepLabel(last)}</div>
+                      <div className="bg-card rounded-lg p-2 text-center font-mono">{formatPrice(last)}</div>
+                    </div>
                   </div>
+                  {progress && (
+                    <div className={`text-xs mb-2 ${progress.status === 'failed' ? "text-red-500" : "text-muted-foreground"}`}>
+                      {describeProgress(progress)}
+                    </div>
+                  )}
+                  <Button 
+                    className="w-full bg-primary/10 text-primary hover:bg-primary/20"
+                    onClick={() => handleExecuteTrade(route.id)}
+                    disabled={isExecuting}
+                  >
+                    {isExecuting ? "Executing..." : "Execute Trade"}
+                  </Button>
                 </div>
-                <Button 
-                  className="w-full bg-primary/10 text-primary hover:bg-primary/20"
-                  onClick={() => handleExecuteTrade(index)}
-                  disabled={executingId === index}
-                >
-                  {executingId === index ? "Executing..." : "Execute Trade"}
-                </Button>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
         
@@ -0,0 +1,100 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ExchangeHealthStatus } from "@/lib/types";
+
+interface ExchangeHealthProps {
+  data?: ExchangeHealthStatus[];
+  isLoading: boolean;
+}
+
+const formatAge = (ageMs: number | null) => {
+  if (ageMs === null) return "—";
+  return ageMs < 1000 ? "<1s" : `${Math.round(ageMs / 1000)}s`;
+};
+
+const ExchangeHealth = ({ data, isLoading }: ExchangeHealthProps) => {
+  const exchanges = data || [];
+  const enabled = exchanges.filter(exchange => exchange.enabled);
+  const quarantined = enabled.filter(exchange => exchange.state === 'quarantined');
+
+  return (
+    <Card className="bg-card rounded-xl shadow-lg border border-border h-full">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-medium">Exchange Health</CardTitle>
+          {!isLoading && data && (
+            <span className={`text-xs ${quarantined.length > 0 ? "text-red-500" : "text-green-500"}`}>
+              {quarantined.length > 0
+                ? `${quarantined.length} of ${enabled.length} quarantined`
+                : `All ${enabled.length} enabled venues healthy`}
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground text-left">
+                  <th className="pb-2 font-normal">Venue</th>
+                  <th className="pb-2 font-normal">Status</th>
+                  <th className="pb-2 font-normal text-right">Errors</th>
+                  <th className="pb-2 font-normal text-right">Quote Age</th>
+                  <th className="pb-2 font-normal text-right">p95 Latency</th>
+                  <th className="pb-2 font-normal text-right">Deviation</th>
+                </tr>
+              </thead>
+              <tbody>
+                {exchanges.map(exchange => (
+                  <tr key={exchange.exchange} className="border-t border-border">
+                    <td className="py-2">
+                      <div className="font-medium">{exchange.exchange}</div>
+                      <div className="text-xs text-muted-foreground">{exchange.type}</div>
+                    </td>
+                    <td className="py-2">
+                      {!exchange.enabled ? (
+                        <span className="flex items-center text-xs text-muted-foreground">
+                          <span className="mr-1 h-2 w-2 rounded-full bg-muted-foreground"></span>
+                          Disabled
+                        </span>
+                      ) : (
+                        <span className={`flex items-center text-xs ${
+                          exchange.state === 'healthy' ? "text-green-500" : "text-red-500"
+                        }`}>
+                          <span className={`mr-1 h-2 w-2 rounded-full ${
+                            exchange.state === 'healthy' ? "bg-green-500" : "bg-red-500"
+                          }`}></span>
+                          {exchange.state === 'healthy' ? "Healthy" : "Quarantined"}
+                        </span>
+                      )}
+                      {exchange.enabled && exchange.state === 'quarantined' && (
+                        <div className="text-xs text-muted-foreground">
+                          {exchange.reasons.join("; ")}
+                          {exchange.nextProbeAt && ` · probe at ${new Date(exchange.nextProbeAt).toLocaleTimeString()}`}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 text-right font-mono text-xs">{(exchange.errorRate * 100).toFixed(0)}%</td>
+                    <td className="py-2 text-right font-mono text-xs">{formatAge(exchange.priceAgeMs)}</td>
+                    <td className="py-2 text-right font-mono text-xs">{Math.round(exchange.latencyP95Ms)}ms</td>
+                    <td className="py-2 text-right font-mono text-xs">{(exchange.priceDeviation * 100).toFixed(2)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExchangeHealth;
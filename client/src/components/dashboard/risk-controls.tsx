@@ -0,0 +1,151 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArbitrageRiskStatus } from "@/lib/types";
+import { OctagonX, Play } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { setArbitrageKillSwitch } from "@/lib/api";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+interface RiskControlsProps {
+  data?: ArbitrageRiskStatus;
+  isLoading: boolean;
+}
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const getUsageColor = (ratio: number) => {
+  if (ratio >= 0.9) return "bg-red-500";
+  if (ratio >= 0.6) return "bg-yellow-500";
+  return "bg-green-500";
+};
+
+const LimitBar = ({ label, used, limit }: { label: string; used: number; limit: number }) => {
+  const ratio = limit > 0 ? Math.min(1, used / limit) : 1;
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <div className="flex items-center space-x-2">
+        <span className="font-mono text-xs">{formatUsd(used)} / {formatUsd(limit)}</span>
+        <div className="w-24 h-2 bg-muted rounded-full overflow-hidden">
+          <div
+            className={`h-full ${getUsageColor(ratio)} rounded-full`}
+            style={{ width: `${ratio * 100}%` }}
+          ></div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RiskControls = ({ data, isLoading }: RiskControlsProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const killSwitchMutation = useMutation({
+    mutationFn: async (active: boolean) => {
+      const adminToken = window.prompt("Admin API token");
+      if (!adminToken) throw new Error("The kill switch needs the admin API token.");
+      return setArbitrageKillSwitch(active, adminToken, active ? "Stopped from dashboard" : undefined);
+    },
+    onSuccess: (_, active) => {
+      toast({
+        title: active ? "Kill switch activated" : "Kill switch released",
+        description: active
+          ? "Monitoring has stopped and all arbitrage executions are rejected."
+          : "Arbitrage executions are allowed again.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/arbitrage/risk'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error updating kill switch",
+        description: error.message || "There was an error updating the kill switch.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const largestExposure = (exposure: Record<string, number>) =>
+    Object.values(exposure).reduce((max, value) => Math.max(max, value), 0);
+
+  return (
+    <Card className="bg-card rounded-xl shadow-lg border border-border h-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-medium">Arbitrage Risk Controls</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !data ? (
+          <div className="space-y-4">
+            <Skeleton className="h-12 w-full rounded-lg" />
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className={`rounded-lg p-3 border flex items-center justify-between ${
+              data.killSwitch.active ? "bg-red-500/10 border-red-500/30" : "bg-green-500/10 border-green-500/30"
+            }`}>
+              <div>
+                <div className={`font-medium ${data.killSwitch.active ? "text-red-500" : "text-green-500"}`}>
+                  {data.killSwitch.active ? "Trading halted" : "Trading enabled"}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {data.killSwitch.active
+                    ? data.killSwitch.reason
+                    : data.coolingDown && data.cooldownUntil
+                      ? `Cooling down until ${new Date(data.cooldownUntil).toLocaleTimeString()}`
+                      : `${data.executionsInFlight} executions in flight`}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant={data.killSwitch.active ? "default" : "destructive"}
+                onClick={() => killSwitchMutation.mutate(!data.killSwitch.active)}
+                disabled={killSwitchMutation.isPending}
+              >
+                {data.killSwitch.active ? (
+                  <><Play className="mr-1 h-4 w-4" /> Resume</>
+                ) : (
+                  <><OctagonX className="mr-1 h-4 w-4" /> Kill Switch</>
+                )}
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              <LimitBar
+                label="Daily Loss"
+                used={Math.max(0, -data.dailyNetProfit)}
+                limit={data.limits.maxDailyLossUsd}
+              />
+              <LimitBar
+                label="Largest Asset Exposure"
+                used={largestExposure(data.exposure.byAsset)}
+                limit={data.limits.maxAssetExposureUsd}
+              />
+              <LimitBar
+                label="Largest Venue Exposure"
+                used={largestExposure(data.exposure.byVenue)}
+                limit={data.limits.maxVenueExposureUsd}
+              />
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Consecutive Failures</span>
+                <span className="font-mono text-xs">
+                  {data.consecutiveFailures} / {data.limits.maxConsecutiveFailures}
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Max Trade Notional</span>
+                <span className="font-mono text-xs">{formatUsd(data.limits.maxTradeNotionalUsd)}</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RiskControls;
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { ArbitrageExecutionProgress, ArbitrageRoute, ArbitrageStreamMessage } from "@/lib/types";
+
+const STREAM_PATH = "/ws/arbitrage";
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+interface ArbitrageStreamState {
+  routes: ArbitrageRoute[];
+  executions: Record<string, ArbitrageExecutionProgress>;
+  isConnected: boolean;
+  hasSnapshot: boolean;
+}
+
+const sortByProfit = (routes: ArbitrageRoute[]) =>
+  [...routes].sort((a, b) => b.estimatedProfitPercentage - a.estimatedProfitPercentage);
+
+/**
+ * Live arbitrage routes and per-leg execution progress from the server's
+ * opportunity stream, reconnecting with backoff when the socket drops
+ */
+export function useArbitrageStream(): ArbitrageStreamState {
+  const [state, setState] = useState<ArbitrageStreamState>({
+    routes: [],
+    executions: {},
+    isConnected: false,
+    hasSnapshot: false
+  });
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = 1000;
+    let closed = false;
+
+    const apply = (message: ArbitrageStreamMessage) => {
+      setState(current => {
+        switch (message.type) {
+          case 'snapshot':
+            return { ...current, routes: sortByProfit(message.routes), hasSnapshot: true };
+          case 'opportunity.created':
+          case 'opportunity.updated':
+            return {
+              ...current,
+              routes: sortByProfit([...current.routes.filter(r => r.id !== message.route.id), message.route])
+            };
+          case 'opportunity.expired':
+            return { ...current, routes: current.routes.filter(r => r.id !== message.routeId) };
+          case 'execution.started':
+            return {
+              ...current,
+              executions: {
+                ...current.executions,
+                [message.routeId]: { routeId: message.routeId, plannedSteps: message.plannedSteps, legs: [], status: 'running' }
+              }
+            };
+          case 'execution.leg': {
+            const progress = current.executions[message.routeId];
+            if (!progress) return current;
+            return {
+              ...current,
+              executions: { ...current.executions, [message.routeId]: { ...progress, legs: [...progress.legs, message.leg] } }
+            };
+          }
+          case 'execution.completed': {
+            const progress = current.executions[message.routeId];
+            if (!progress) return current;
+            return {
+              ...current,
+              executions: {
+                ...current.executions,
+                [message.routeId]: { ...progress, status: message.success ? 'succeeded' : 'failed', netProfit: message.netProfit }
+              }
+            };
+          }
+          default:
+            return current;
+        }
+      });
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${STREAM_PATH}`);
+
+      socket.onopen = () => {
+        reconnectDelay = 1000;
+        setState(current => ({ ...current, isConnected: true }));
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          apply(JSON.parse(event.data) as ArbitrageStreamMessage);
+        } catch (error) {
+          console.error("Invalid arbitrage stream message:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setState(current => ({ ...current, isConnected: false }));
+        if (closed) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, []);
+
+  return state;
+}
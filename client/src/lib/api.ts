@@ -10,6 +10,34 @@ export async function executeArbitrageTrade(id: number) {
   return apiRequest('POST', `/api/arbitrage/execute/${id}`, {});
 }
 
+export async function executeArbitrageRoute(routeId: string) {
+  return apiRequest('POST', `/api/arbitrage/routes/${routeId}/execute`, {});
+}
+
+export async function fetchArbitrageRiskStatus() {
+  const response = await fetch('/api/arbitrage/risk');
+  if (!response.ok) throw new Error('Failed to fetch arbitrage risk status');
+  return response.json();
+}
+
+// Operator route: the server checks the admin token from ADMIN_API_TOKEN
+export async function setArbitrageKillSwitch(active: boolean, adminToken: string, reason?: string) {
+  const response = await fetch('/api/arbitrage/risk/kill-switch', {
+    method: 'POST',
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminToken}` },
+    body: JSON.stringify({ active, reason }),
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  return response;
+}
+
+export async function fetchExchangeHealth() {
+  const response = await fetch('/api/arbitrage/exchanges');
+  if (!response.ok) throw new Error('Failed to fetch exchange health');
+  return response.json();
+}
+
 export async function fetchYieldOpportunities(filters?: Record<string, any>) {
   const queryParams = filters ? `?${new URLSearchParams(filters).toString()}` : '';
   const response = await fetch(`/api/yield/opportunities${queryParams}`);
@@ -34,22 +62,33 @@ export async function fetchMarketTrends(timeframe: string = '24h') {
   return response.json();
 }
 
-export async function performSwap(
-  fromToken: string, 
-  toToken: string, 
-  amount: string, 
-  chain: string,
-  routerAddress?: string,
-  approvalAddress?: string
+export async function fetchSwapTokens(chain: string) {
+  const response = await fetch(`/api/swap/tokens?chain=${chain}`);
+  if (!response.ok) throw new Error('Failed to fetch swap tokens');
+  return response.json();
+}
+
+// Tokens may be given by symbol or by contract address on their chain
+export async function quoteSwap(
+  fromToken: string,
+  toToken: string,
+  amount: string,
+  fromChain: string,
+  toChain: string = fromChain,
+  slippageTolerance?: string
 ) {
-  return apiRequest('POST', '/api/swap', { 
-    fromToken, 
-    toToken, 
-    amount, 
-    chain,
-    routerAddress,  // Include router address if provided
-    approvalAddress // Include approval address if provided
-  });
+  return apiRequest('POST', '/api/swap/quote', { fromToken, toToken, amount, fromChain, toChain, slippageTolerance });
+}
+
+// Executes a quote from quoteSwap; the server rejects it once it has expired
+export async function performSwap(quoteId: string) {
+  return apiRequest('POST', '/api/swap', { quoteId });
+}
+
+export async function fetchSwapStatus(swapId: string) {
+  const response = await fetch(`/api/swap/status/${swapId}`);
+  if (!response.ok) throw new Error('Failed to fetch swap status');
+  return response.json();
 }
 
 export async function estimateGasSavings(fromToken: string, toToken: string, amount: string, chain: string) {
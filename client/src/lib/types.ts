@@ -10,16 +10,174 @@ export interface OverviewCardData {
   tooltip: string;
 }
 
-export interface ArbitrageOpportunityData {
+export interface ArbitrageRouteStep {
+  exchange: string;
+  type: 'DEX' | 'CEX';
+  action: 'buy' | 'sell';
+  pair?: { base: string; quote: string };
+  expectedPrice: number;
+  expectedFillPrice?: number;
+  amount: number;
+  estimatedFee: number;
+}
+
+export interface ArbitrageRoute {
+  id: string;
   asset: string;
-  assetSymbol: string;
-  color: string;
-  from: string;
-  to: string;
-  profitPercentage: string;
-  profitAmount: string;
-  buyPrice: string;
-  sellPrice: string;
+  steps: ArbitrageRouteStep[];
+  depthLimitedSize?: number;
+  estimatedProfitAmount: number;
+  estimatedProfitPercentage: number;
+  estimatedGasCost: number;
+  estimatedExecutionTimeMs: number;
+  riskScore: number;
+  confidence: number;
+}
+
+export interface ArbitrageExecutionLeg {
+  exchange: string;
+  action: 'buy' | 'sell';
+  pair?: { base: string; quote: string };
+  expectedPrice: number;
+  actualPrice: number;
+  amount: number;
+  fee: number;
+  success: boolean;
+  error?: string;
+  recoveryStage?: 'retry' | 'fallback' | 'unwind';
+  latencyMs?: number;
+}
+
+// Messages pushed on /ws/arbitrage
+export type ArbitrageStreamMessage = { timestamp: string } & (
+  | { type: 'snapshot'; routes: ArbitrageRoute[] }
+  | { type: 'opportunity.created' | 'opportunity.updated'; route: ArbitrageRoute }
+  | { type: 'opportunity.expired'; routeId: string; asset: string; reason: 'not-detected' | 'executed' | 'quarantined' | 'disabled' | 'unmonitored' }
+  | { type: 'execution.started'; routeId: string; asset: string; executionMode: 'sequential' | 'concurrent'; plannedSteps: number }
+  | { type: 'execution.leg'; routeId: string; asset: string; leg: ArbitrageExecutionLeg }
+  | { type: 'execution.completed'; routeId: string; asset: string; success: boolean; netProfit: number; executionTimeMs: number }
+);
+
+export interface ArbitrageExecutionProgress {
+  routeId: string;
+  plannedSteps: number;
+  legs: ArbitrageExecutionLeg[];
+  status: 'running' | 'succeeded' | 'failed';
+  netProfit?: number;
+}
+
+export interface ArbitrageRiskLimits {
+  maxTradeNotionalUsd: number;
+  maxDailyLossUsd: number;
+  maxAssetExposureUsd: number;
+  maxVenueExposureUsd: number;
+  maxConsecutiveFailures: number;
+  failureCooldownMs: number;
+}
+
+export interface ArbitrageRiskStatus {
+  killSwitch: {
+    active: boolean;
+    reason?: string;
+    changedAt?: string;
+  };
+  limits: ArbitrageRiskLimits;
+  dailyNetProfit: number;
+  consecutiveFailures: number;
+  coolingDown: boolean;
+  cooldownUntil: string | null;
+  executionsInFlight: number;
+  exposure: {
+    byAsset: Record<string, number>;
+    byVenue: Record<string, number>;
+  };
+}
+
+export interface ExchangeHealthStatus {
+  exchange: string;
+  type: 'DEX' | 'CEX';
+  connectionStatus: 'connected' | 'disconnected' | 'error';
+  enabled: boolean;
+  state: 'healthy' | 'quarantined';
+  reasons: string[];
+  requests: number;
+  errorRate: number;
+  lastPriceAt: string | null;
+  priceAgeMs: number | null;
+  latencyP95Ms: number;
+  priceDeviation: number;
+  quarantinedAt: string | null;
+  nextProbeAt: string | null;
+}
+
+export interface SwapLeg {
+  index: number;
+  type: 'swap' | 'bridge';
+  chain: string;
+  toChain: string;
+  protocols: string[];
+  fromToken: string;
+  toToken: string;
+  amountIn: string;
+  expectedAmountOut: string;
+  fee: string;
+  estimatedDurationMs: number;
+}
+
+export interface SwapLegProgress extends SwapLeg {
+  status: 'pending' | 'submitted' | 'confirmed';
+  txHash: string | null;
+  submittedAt: string | null;
+  confirmedAt: string | null;
+}
+
+// A token as listed on one chain; the address is the exact key, symbols can repeat
+export interface SwapToken {
+  chainId: number;
+  chain: string;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  native: boolean;
+  logoUrl?: string;
+}
+
+export interface SwapQuote {
+  quoteId: string;
+  fromToken: string;
+  toToken: string;
+  fromTokenAddress: string;
+  toTokenAddress: string;
+  amount: string;
+  fromChain: string;
+  toChain: string;
+  expectedOutput: string;
+  minimumOutput: string;
+  slippageTolerance: string;
+  priceImpactPercentage: string;
+  exchangeRate: string;
+  route: string[];
+  legs: SwapLeg[];
+  estimatedDurationMs: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface SwapResult {
+  swapId: string;
+  quoteId: string;
+  status: 'completed' | 'pending' | 'failed';
+  fromToken: string;
+  toToken: string;
+  amountSent: string;
+  amountReceived: string;
+  chain: string;
+  toChain: string;
+  transactionHash?: string;
+  destinationTxHash?: string;
+  legs?: SwapLegProgress[];
+  estimatedCompletionAt?: string;
 }
 
 export interface YieldOpportunityData {
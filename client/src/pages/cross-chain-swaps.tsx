@@ -197,6 +197,7 @@ const CrossChainSwaps = () => {
           <CardContent>
             <SwapInterface 
               selectedChain={selectedChain.id} 
+              chains={supportedChains}
               onSwapSuccess={handleSwapSuccess}
               routerAddress={selectedChain.routerAddress}
               approvalAddress={selectedChain.approvalAddress}
@@ -6,8 +6,10 @@ import OverviewCards from "@/components/dashboard/overview-cards";
 import MarketTrends from "@/components/dashboard/market-trends";
 import ArbitrageOpportunities from "@/components/dashboard/arbitrage-opportunities";
 import RiskAssessment from "@/components/dashboard/risk-assessment";
-import { fetchArbitrageOpportunities, fetchMarketTrends, fetchPortfolioRisk } from "@/lib/api";
-import { ArbitrageOpportunityData, PortfolioRiskData } from "@/lib/types";
+import RiskControls from "@/components/dashboard/risk-controls";
+import ExchangeHealth from "@/components/dashboard/exchange-health";
+import { fetchArbitrageRiskStatus, fetchExchangeHealth, fetchMarketTrends, fetchPortfolioRisk } from "@/lib/api";
+import { ArbitrageRiskStatus, ExchangeHealthStatus, PortfolioRiskData } from "@/lib/types";
 
 const Dashboard = () => {
   const { data: marketTrendsData, isLoading: isLoadingMarketTrends } = useQuery({
@@ -15,9 +17,16 @@ const Dashboard = () => {
     queryFn: () => fetchMarketTrends('24h')
   });
 
-  const { data: arbitrageData, isLoading: isLoadingArbitrage } = useQuery({
-    queryKey: ['/api/arbitrage/opportunities'],
-    queryFn: fetchArbitrageOpportunities
+  const { data: arbitrageRiskData, isLoading: isLoadingArbitrageRisk } = useQuery({
+    queryKey: ['/api/arbitrage/risk'],
+    queryFn: fetchArbitrageRiskStatus,
+    refetchInterval: 10000
+  });
+
+  const { data: exchangeHealthData, isLoading: isLoadingExchangeHealth } = useQuery({
+    queryKey: ['/api/arbitrage/exchanges'],
+    queryFn: fetchExchangeHealth,
+    refetchInterval: 10000
   });
 
   const { data: portfolioRiskData, isLoading: isLoadingPortfolioRisk } = useQuery({
@@ -82,18 +91,27 @@ const Dashboard = () => {
       </div>
       
       {/* Yield Opportunities and Risk Assessment Section */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
         {/* Risk Assessment Card */}
         <div>
           <RiskAssessment isLoading={isLoadingPortfolioRisk} data={portfolioRiskData as PortfolioRiskData} />
         </div>
         
-        {/* Arbitrage Opportunities Card - 2 Columns Wide */}
+        {/* Arbitrage Opportunities Card - 2 Columns Wide, fed by the opportunity stream */}
+        <div className="lg:col-span-2">
+          <ArbitrageOpportunities />
+        </div>
+      </div>
+
+      {/* Arbitrage Risk Controls and Exchange Health Section */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div>
+          <RiskControls isLoading={isLoadingArbitrageRisk} data={arbitrageRiskData as ArbitrageRiskStatus} />
+        </div>
+
+        {/* Exchange Health Card - 2 Columns Wide */}
         <div className="lg:col-span-2">
-          <ArbitrageOpportunities 
-            isLoading={isLoadingArbitrage} 
-            data={arbitrageData as ArbitrageOpportunityData[]} 
-          />
+          <ExchangeHealth isLoading={isLoadingExchangeHealth} data={exchangeHealthData as ExchangeHealthStatus[]} />
         </div>
       </div>
     </div>
@@ -0,0 +1,50 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import type { ArbitrageService } from "./services/arbitrage";
+
+export const ARBITRAGE_STREAM_PATH = "/ws/arbitrage";
+
+/**
+ * Push arbitrage opportunity and execution events to WebSocket clients
+ *
+ * The socket shares the HTTP server with the API and, in development, Vite's
+ * HMR socket, so only upgrade requests for ARBITRAGE_STREAM_PATH are taken
+ * over. Each new client first receives a snapshot of the active routes and
+ * then every event as the monitoring loop and executions produce it.
+ */
+export function attachArbitrageStream(server: Server, arbitrageService: ArbitrageService): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const pathname = (req.url || "").split("?")[0];
+    if (pathname !== ARBITRAGE_STREAM_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      wss.emit("connection", ws, req);
+    });
+  });
+
+  wss.on("connection", ws => {
+    // Subscribers expect a live feed
+    arbitrageService.startMonitoring();
+
+    ws.send(JSON.stringify({
+      type: "snapshot",
+      routes: arbitrageService.getActiveRoutes(),
+      timestamp: new Date()
+    }));
+  });
+
+  arbitrageService.subscribe(event => {
+    if (wss.clients.size === 0) return;
+
+    const message = JSON.stringify({ ...event, timestamp: new Date() });
+    wss.clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  });
+
+  return wss;
+}
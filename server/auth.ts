@@ -0,0 +1,26 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash, timingSafeEqual } from "crypto";
+
+/**
+ * Guard operator-only routes with the bearer token in ADMIN_API_TOKEN
+ *
+ * Requests must send `Authorization: Bearer <token>`. When no token is
+ * configured the guarded routes are refused outright rather than left open.
+ */
+export function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return res.status(503).json({ message: "Admin API is disabled: ADMIN_API_TOKEN is not set" });
+  }
+
+  const header = req.headers.authorization || "";
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+
+  // Compare digests so the check takes the same time whatever the token length
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  if (!token || !timingSafeEqual(digest(token), digest(expected))) {
+    return res.status(401).json({ message: "Invalid or missing admin token" });
+  }
+
+  next();
+}
@@ -1,15 +1,24 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { ArbitrageService } from "./services/arbitrage";
-import { OkxService } from "./services/okx";
+import { storage, type ArbitrageExecutionFilters } from "./storage";
+import { ArbitrageService, MonitoringConfigError } from "./services/arbitrage";
+import { OkxService, SwapQuoteError } from "./services/okx";
 import { AiService } from "./services/ai";
+import { InventoryRebalancer } from "./services/rebalancer";
+import { StatArbStrategy } from "./services/stat-arb";
+import { BasisTradeMonitor } from "./services/basis-trade";
+import { okxRateLimiter } from "./services/okx-rate-limiter";
+import { attachArbitrageStream } from "./arbitrage-stream";
+import { requireAdminToken } from "./auth";
 import path from "path";
 
 // Services initialization
 const arbitrageService = new ArbitrageService();
 const okxService = new OkxService();
 const aiService = new AiService();
+const inventoryRebalancer = new InventoryRebalancer(arbitrageService);
+const statArbStrategy = new StatArbStrategy(arbitrageService);
+const basisTradeMonitor = new BasisTradeMonitor(arbitrageService);
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Arbitrage routes
@@ -32,6 +41,462 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/arbitrage/multi-hop", async (req, res) => {
+    try {
+      const routes = await arbitrageService.getMultiHopOpportunities();
+      res.json(routes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch multi-hop arbitrage routes", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/multi-hop/:routeId/execute", async (req, res) => {
+    try {
+      const { routeId } = req.params;
+      const result = await arbitrageService.executeRoute(routeId);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to execute multi-hop arbitrage route", error: (error as Error).message });
+    }
+  });
+
+  // Execute any active route (two-leg or multi-hop) by the id the opportunity stream reports
+  app.post("/api/arbitrage/routes/:routeId/execute", async (req, res) => {
+    try {
+      const { routeId } = req.params;
+      const result = await arbitrageService.executeRoute(routeId);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to execute arbitrage route", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/arbitrage/executions", async (req, res) => {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const pageSize = Math.min(100, Math.max(1, parseInt(req.query.pageSize as string) || 20));
+      const { executions, total } = await storage.getArbitrageExecutions({
+        ...parseExecutionFilters(req.query),
+        limit: pageSize,
+        offset: (page - 1) * pageSize
+      });
+      res.json({ executions, total, page, pageSize });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch arbitrage executions", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/arbitrage/executions/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const execution = await storage.getArbitrageExecution(id);
+      if (!execution) {
+        return res.status(404).json({ message: `Arbitrage execution ${req.params.id} not found` });
+      }
+      const fills = await storage.getArbitrageFills(id);
+      res.json({ ...execution, fills });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch arbitrage execution", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/arbitrage/metrics", async (req, res) => {
+    try {
+      const metrics = await arbitrageService.getPerformanceMetrics(parseExecutionFilters(req.query));
+      res.json(metrics);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch arbitrage metrics", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/arbitrage/lifecycle", async (req, res) => {
+    try {
+      const status = req.query.status as 'active' | 'expired' | undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      res.json({
+        report: arbitrageService.getOpportunityHalfLifeReport(),
+        opportunities: arbitrageService.getOpportunityLifecycles(status, limit)
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch opportunity lifecycles", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/execution-mode", async (req, res) => {
+    try {
+      const { mode } = req.body;
+      arbitrageService.setExecutionMode(mode);
+      res.json({ mode });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update execution mode", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/arbitrage/exchanges", async (req, res) => {
+    try {
+      res.json(arbitrageService.getExchangeHealth());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch exchange health", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/arbitrage/prices", async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      res.json(arbitrageService.getPriceDiagnostics(limit));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch price diagnostics", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/prices/filter", async (req, res) => {
+    try {
+      res.json(arbitrageService.updatePriceFilter(req.body));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update price filter", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/arbitrage/fees", async (req, res) => {
+    try {
+      res.json(arbitrageService.getFeeSchedules());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch fee schedules", error: (error as Error).message });
+    }
+  });
+
+  // Flash-loan routes: detected opportunities, lending pools and bundle simulations
+  app.get("/api/arbitrage/flash-loans", async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      res.json({
+        pools: arbitrageService.getFlashLoanPools(),
+        routes: arbitrageService.getFlashLoanOpportunities(),
+        simulations: arbitrageService.getFlashLoanSimulations(limit)
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch flash-loan opportunities", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/flash-loans/:routeId/simulate", async (req, res) => {
+    try {
+      res.json(await arbitrageService.simulateFlashLoan(req.params.routeId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to simulate flash-loan route", error: (error as Error).message });
+    }
+  });
+
+  // Monitored asset and venue configuration (changes need the admin token)
+  app.get("/api/arbitrage/config", async (req, res) => {
+    try {
+      res.json(arbitrageService.getMonitoringConfig());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch arbitrage config", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/config/assets", requireAdminToken, async (req, res) => {
+    try {
+      const { asset, exchanges, referencePrice } = req.body;
+      res.json(await arbitrageService.addMonitoredAsset(asset, {
+        exchanges,
+        referencePrice: referencePrice !== undefined ? Number(referencePrice) : undefined
+      }));
+    } catch (error) {
+      if (error instanceof MonitoringConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to add monitored asset", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/arbitrage/config/assets/:asset", requireAdminToken, async (req, res) => {
+    try {
+      res.json(await arbitrageService.removeMonitoredAsset(req.params.asset));
+    } catch (error) {
+      if (error instanceof MonitoringConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to remove monitored asset", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/config/exchanges/:name", requireAdminToken, async (req, res) => {
+    try {
+      const { enabled } = req.body;
+      if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ message: "enabled must be true or false" });
+      }
+      res.json(await arbitrageService.setExchangeEnabled(req.params.name, enabled));
+    } catch (error) {
+      if (error instanceof MonitoringConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update exchange", error: (error as Error).message });
+    }
+  });
+
+  // Auto-execution routes
+  app.get("/api/arbitrage/auto-execution", async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const decision = req.query.decision as 'executed' | 'skipped' | 'failed' | undefined;
+      res.json({
+        policy: arbitrageService.getAutoExecutionPolicy(),
+        decisions: arbitrageService.getAutoExecutionLog(limit, decision)
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch auto-execution status", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/auto-execution/policy", requireAdminToken, async (req, res) => {
+    try {
+      res.json(arbitrageService.updateAutoExecutionPolicy(req.body));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update auto-execution policy", error: (error as Error).message });
+    }
+  });
+
+  // Risk limit and kill switch routes
+  app.get("/api/arbitrage/risk", async (req, res) => {
+    try {
+      res.json(arbitrageService.getRiskStatus());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch risk status", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/risk/limits", requireAdminToken, async (req, res) => {
+    try {
+      res.json(arbitrageService.updateRiskLimits(req.body));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update risk limits", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/risk/kill-switch", requireAdminToken, async (req, res) => {
+    try {
+      const { active, reason } = req.body;
+      const status = active
+        ? arbitrageService.activateKillSwitch(reason)
+        : arbitrageService.deactivateKillSwitch();
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update kill switch", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/risk/clear-exposure", requireAdminToken, async (req, res) => {
+    try {
+      res.json(arbitrageService.clearResidualExposure());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to clear residual exposure", error: (error as Error).message });
+    }
+  });
+
+  // Paper trading routes
+  app.get("/api/arbitrage/paper", async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      res.json(arbitrageService.getPaperAccount(limit));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch paper trading account", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/paper/mode", requireAdminToken, async (req, res) => {
+    try {
+      const { enabled } = req.body;
+      arbitrageService.setPaperTrading(Boolean(enabled));
+      res.json(arbitrageService.getPaperAccount());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update paper trading mode", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/paper/reset", async (req, res) => {
+    try {
+      res.json(arbitrageService.resetPaperAccount());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset paper trading account", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/paper/fund", async (req, res) => {
+    try {
+      const { exchange, asset, amount } = req.body;
+      res.json(arbitrageService.fundPaperAccount(exchange, asset, Number(amount)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fund paper trading account", error: (error as Error).message });
+    }
+  });
+
+  // Inventory rebalancing routes
+  app.get("/api/arbitrage/rebalance", async (req, res) => {
+    try {
+      res.json({
+        active: inventoryRebalancer.isActive(),
+        skews: inventoryRebalancer.getSkews(),
+        plans: inventoryRebalancer.getPlans()
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch rebalance plans", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/rebalance/mode", async (req, res) => {
+    try {
+      const { enabled, intervalMs } = req.body;
+      if (enabled) {
+        inventoryRebalancer.startMonitoring(intervalMs);
+      } else {
+        inventoryRebalancer.stopMonitoring();
+      }
+      res.json({ active: inventoryRebalancer.isActive() });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update rebalancing mode", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/rebalance/plan", async (req, res) => {
+    try {
+      const plan = inventoryRebalancer.evaluate();
+      res.json({ plan });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to propose rebalance plan", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/rebalance/:planId/approve", requireAdminToken, async (req, res) => {
+    try {
+      const { planId } = req.params;
+      res.json(inventoryRebalancer.approvePlan(planId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to approve rebalance plan", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/rebalance/:planId/reject", async (req, res) => {
+    try {
+      const { planId } = req.params;
+      res.json(inventoryRebalancer.rejectPlan(planId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reject rebalance plan", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/rebalance/:planId/complete", async (req, res) => {
+    try {
+      const { planId } = req.params;
+      res.json(inventoryRebalancer.completePlan(planId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to complete rebalance plan", error: (error as Error).message });
+    }
+  });
+
+  // Statistical arbitrage (spread mean-reversion) routes
+  app.get("/api/arbitrage/stat-arb", async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      res.json({
+        active: statArbStrategy.isActive(),
+        pairs: statArbStrategy.getPairs(),
+        signals: statArbStrategy.getSignals(),
+        positions: statArbStrategy.getPositions(),
+        executions: statArbStrategy.getExecutions(limit)
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stat-arb status", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/stat-arb/mode", async (req, res) => {
+    try {
+      const { enabled, intervalMs } = req.body;
+      if (enabled) {
+        statArbStrategy.startMonitoring(intervalMs);
+      } else {
+        statArbStrategy.stopMonitoring();
+      }
+      res.json({ active: statArbStrategy.isActive() });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update stat-arb mode", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/stat-arb/pairs", async (req, res) => {
+    try {
+      res.json(statArbStrategy.addPair(req.body));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add stat-arb pair", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/arbitrage/stat-arb/pairs/:pairId", async (req, res) => {
+    try {
+      statArbStrategy.removePair(req.params.pairId);
+      res.json(statArbStrategy.getPairs());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove stat-arb pair", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/stat-arb/positions/:id/close", async (req, res) => {
+    try {
+      res.json(await statArbStrategy.closePosition(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to close stat-arb position", error: (error as Error).message });
+    }
+  });
+
+  // Funding-rate and basis (cash-and-carry) routes
+  app.get("/api/arbitrage/basis", async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      res.json({
+        active: basisTradeMonitor.isActive(),
+        perps: arbitrageService.getPerpQuotes(),
+        opportunities: arbitrageService.getBasisOpportunities(),
+        positions: basisTradeMonitor.getPositions(),
+        executions: basisTradeMonitor.getExecutions(limit)
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch basis trades", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/basis/mode", async (req, res) => {
+    try {
+      const { enabled, intervalMs } = req.body;
+      if (enabled) {
+        basisTradeMonitor.startMonitoring(intervalMs);
+      } else {
+        basisTradeMonitor.stopMonitoring();
+      }
+      res.json({ active: basisTradeMonitor.isActive() });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update basis trade mode", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/basis/:routeId/open", async (req, res) => {
+    try {
+      res.json(await basisTradeMonitor.openPosition(req.params.routeId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to open basis position", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/arbitrage/basis/positions/:id/close", async (req, res) => {
+    try {
+      res.json(await basisTradeMonitor.closePosition(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to close basis position", error: (error as Error).message });
+    }
+  });
+
   // Yield opportunities routes
   app.get("/api/yield/opportunities", async (req, res) => {
     try {
@@ -76,17 +541,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Swap routes
+  // Swap routes: quote first, then execute the quote before it expires
+  app.post("/api/swap/quote", async (req, res) => {
+    try {
+      const { fromToken, toToken, amount, chain, fromChain, toChain, slippageTolerance } = req.body;
+      const quote = await okxService.quoteSwap({
+        fromToken,
+        toToken,
+        amount,
+        fromChain: fromChain ?? chain, // `chain` is accepted for same-chain swaps
+        toChain,
+        slippageTolerance: slippageTolerance !== undefined ? String(slippageTolerance) : undefined
+      });
+      res.json(quote);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to quote swap", error: (error as Error).message });
+    }
+  });
+
   app.post("/api/swap", async (req, res) => {
     try {
-      const { fromToken, toToken, amount, chain } = req.body;
-      const result = await okxService.performSwap(fromToken, toToken, amount, chain);
+      const { quoteId } = req.body;
+      if (typeof quoteId !== "string" || !quoteId) {
+        return res.status(400).json({ message: "quoteId is required; request one from /api/swap/quote" });
+      }
+      const result = await okxService.performSwap(quoteId);
       res.json(result);
     } catch (error) {
+      if (error instanceof SwapQuoteError) {
+        const status = error.reason === 'not-found' ? 404 : error.reason === 'expired' ? 410 : 409;
+        return res.status(status).json({ message: error.message, reason: error.reason });
+      }
       res.status(500).json({ message: "Failed to perform swap", error: (error as Error).message });
     }
   });
 
+  // Follow a swap; cross-chain swaps report each leg until the destination receipt
+  app.get("/api/swap/status/:swapId", async (req, res) => {
+    try {
+      const swap = await okxService.getSwapStatus(req.params.swapId);
+      if (!swap) {
+        return res.status(404).json({ message: `Swap ${req.params.swapId} not found` });
+      }
+      res.json(swap);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch swap status", error: (error as Error).message });
+    }
+  });
+
+  // Tokens listed per chain, keyed by contract address
+  app.get("/api/swap/tokens", async (req, res) => {
+    try {
+      const { chain } = req.query;
+      res.json(okxService.getTokens(chain ? String(chain) : undefined));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tokens", error: (error as Error).message });
+    }
+  });
+
+  // Body is a token list in the tokenlists.org format
+  app.post("/api/swap/tokens/import", requireAdminToken, async (req, res) => {
+    try {
+      if (!req.body || !Array.isArray(req.body.tokens)) {
+        return res.status(400).json({ message: "Body must be a token list with a tokens array" });
+      }
+      res.json(okxService.importTokenList(req.body));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to import token list", error: (error as Error).message });
+    }
+  });
+
   app.get("/api/swap/gas-estimate", async (req, res) => {
     try {
       const { fromToken, toToken, amount, chain } = req.query;
@@ -102,6 +626,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Queue depth, throttling and bucket levels of the shared OKX rate limiter
+  app.get("/api/okx/rate-limits", async (req, res) => {
+    try {
+      res.json(okxRateLimiter.getMetrics());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch OKX rate limits", error: (error as Error).message });
+    }
+  });
+
   // Gas savings routes
   app.get("/api/gas-savings", async (req, res) => {
     try {
@@ -194,6 +727,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  attachArbitrageStream(httpServer, arbitrageService);
 
   return httpServer;
 }
+
+// Execution ledger filters from query parameters (asset, venue, from, to, success)
+function parseExecutionFilters(query: Record<string, any>): ArbitrageExecutionFilters {
+  const filters: ArbitrageExecutionFilters = {};
+  if (query.asset) filters.asset = String(query.asset);
+  if (query.venue) filters.venue = String(query.venue);
+  if (query.from && !isNaN(Date.parse(query.from))) filters.from = new Date(query.from);
+  if (query.to && !isNaN(Date.parse(query.to))) filters.to = new Date(query.to);
+  if (query.success === 'true' || query.success === 'false') filters.success = query.success === 'true';
+  return filters;
+}
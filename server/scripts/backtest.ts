@@ -0,0 +1,52 @@
+import { Backtester, loadPriceTicks } from "../services/backtest";
+
+/**
+ * Replay recorded price ticks through the arbitrage engine
+ *
+ * Usage: npm run backtest -- <ticks.csv|ticks.jsonl> [--step=5000] [--latency=500]
+ *          [--min-profit=0.25] [--executions-per-step=1] [--verbose]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find(arg => !arg.startsWith('--'));
+  const flag = (name: string) => {
+    const match = args.find(arg => arg.startsWith(`--${name}=`));
+    return match ? Number(match.split('=')[1]) : undefined;
+  };
+
+  if (!file) {
+    console.error("Usage: npm run backtest -- <ticks.csv|ticks.jsonl> [--step=ms] [--latency=ms] [--min-profit=pct] [--executions-per-step=n] [--verbose]");
+    process.exit(1);
+  }
+
+  const ticks = await loadPriceTicks(file);
+  const backtester = new Backtester(ticks, {
+    stepMs: flag('step'),
+    latencyMs: flag('latency'),
+    minProfitThreshold: flag('min-profit'),
+    maxExecutionsPerStep: flag('executions-per-step')
+  });
+
+  // The engine logs every cycle; keep the report readable unless asked otherwise
+  const { log, error } = console;
+  if (!args.includes('--verbose')) {
+    console.log = () => {};
+    console.error = () => {};
+  }
+
+  let report;
+  try {
+    report = await backtester.run();
+  } finally {
+    // Restored before anything is reported, so a failed run still prints why
+    console.log = log;
+    console.error = error;
+  }
+
+  console.log(JSON.stringify(report, null, 2));
+}
+
+main().catch(error => {
+  console.error("Backtest failed:", error);
+  process.exit(1);
+});
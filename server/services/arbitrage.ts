@@ -1,53 +1,76 @@
-import { storage } from "../storage";
-import { InsertArbitrageOpportunity } from "@shared/schema";
+import { storage, type ArbitrageExecutionFilters } from "../storage";
+import { InsertArbitrageOpportunity, type ArbitrageAssetListing } from "@shared/schema";
 import { OkxService } from "./okx";
-
-// Define exchange types
-type ExchangeType = 'DEX' | 'CEX';
-
-// Exchange interface with connection info and methods
-interface Exchange {
-  name: string;
-  type: ExchangeType;
-  apiUrl: string;
-  connectionStatus: 'connected' | 'disconnected' | 'error';
-  getPrices(assets: string[]): Promise<Record<string, number>>;
-  executeTrade(asset: string, amount: number, side: 'buy' | 'sell'): Promise<TradeResult>;
-}
-
-// Trade execution result
-interface TradeResult {
-  success: boolean;
-  txId: string;
-  asset: string;
-  amount: number;
-  price: number;
-  fee: number;
-  timestamp: Date;
-  error?: string;
-}
+import { ExchangeRegistry, exchangeRegistry } from "./exchanges/registry";
+import { BASELINE_PRICES, checkBaselinePrice, isUsdQuote, setBaselinePrice, USD_QUOTE } from "./exchanges/exchange-adapter";
+import { FeeModel } from "./exchanges/fees";
+import { sizeAgainstOrderBooks } from "./exchanges/order-book";
+import type { Exchange, ExchangeType, OrderBook, PerpQuote, TradeResult, TradingPair } from "./exchanges/types";
+import { bestEdges, buildRateEdges, findArbitrageCycles, rotateCycle, type RateEdge } from "./multi-hop";
+import { systemClock, type Clock } from "./clock";
+import { PaperPortfolio } from "./paper-trading";
+import { LatencyHistogram, type LatencySnapshot } from "./latency";
+import { RiskManager, type RiskLimits, type RouteExposure } from "./risk-manager";
+import { ExchangeHealthMonitor, type HealthThresholds } from "./exchange-health";
+import { PriceFilter, type CachedPrice, type PriceFilterOptions } from "./price-filter";
+import {
+  DEFAULT_FLASH_LOAN_POOLS, FLASH_LOAN_GAS_SWAP_EQUIVALENTS, selectFlashLoanPool, simulateFlashLoanBundle,
+  type FlashLoanPool, type FlashLoanSimulation
+} from "./flash-loan";
+import { OpportunityLifecycleTracker } from "./opportunity-lifecycle";
+import { annualizePercentage, DEFAULT_BASIS_HOLDING_PERIOD_MS } from "./basis-trade";
 
 // Arbitrage route with step-by-step execution plan
-interface ArbitrageRoute {
+export interface ArbitrageRoute {
   id: string;
   asset: string;
   steps: Array<{
     exchange: string;
     type: ExchangeType;
     action: 'buy' | 'sell';
-    expectedPrice: number;
+    pair?: TradingPair; // Set on multi-hop steps; plain steps trade the route asset against USD
+    instrument?: 'spot' | 'perp'; // Unset means spot
+    expectedPrice: number; // Top-of-book quote
+    expectedFillPrice?: number; // Volume-weighted price after walking the book
     amount: number;
     estimatedFee: number;
   }>;
-  estimatedProfitAmount: number;
+  depthLimitedSize?: number; // Profit-maximizing size given available order book depth
+  estimatedProfitAmount: number; // Net of trading fees and gas
   estimatedProfitPercentage: number;
+  estimatedGasCost: number; // USD gas of the DEX legs
   estimatedExecutionTimeMs: number;
   riskScore: number;
   confidence: number;
+  flashLoan?: { // Set on routes funded by an atomic flash loan instead of inventory
+    pool: string;
+    chain: string;
+    borrowAsset: string;
+    borrowed: number;
+    fee: number;
+  };
+  basis?: { // Set on cash-and-carry routes: long spot, short perp, held to collect funding
+    spotPrice: number;
+    markPrice: number;
+    indexPrice: number;
+    basisPercentage: number; // Perp bid over the spot price at entry
+    annualizedBasis: number; // Basis earned as the perp converges, annualized over the holding period
+    fundingRate: number; // Per interval, received by the short
+    fundingIntervalMs: number;
+    annualizedFunding: number; // Percentage per year at the current rate
+    holdingPeriodMs: number; // Horizon the expected funding and basis are counted over
+    expectedFunding: number; // USD over the holding period at the current rate
+  };
 }
 
+// Sequential runs legs one after another; concurrent fires independent legs together
+export type ExecutionMode = 'sequential' | 'concurrent';
+
+// Stage of leg-failure recovery that placed a trade
+export type RecoveryStage = 'retry' | 'fallback' | 'unwind';
+
 // Execution summary with detailed metrics
-interface ExecutionSummary {
+export interface ExecutionSummary {
   routeId: string;
   success: boolean;
   asset: string;
@@ -56,6 +79,8 @@ interface ExecutionSummary {
   steps: Array<{
     exchange: string;
     action: 'buy' | 'sell';
+    pair?: TradingPair;
+    instrument?: 'spot' | 'perp';
     expectedPrice: number;
     actualPrice: number;
     amount: number;
@@ -63,15 +88,93 @@ interface ExecutionSummary {
     success: boolean;
     txId?: string;
     error?: string;
+    recoveryStage?: RecoveryStage; // Unset for the route's own planned steps
+    latencyMs?: number; // Time from order submission to venue response
   }>;
-  expectedProfit: number;
-  actualProfit: number;
-  profitDifference: number;
+  executionMode: ExecutionMode;
+  latencyBudgetExceeded?: boolean; // Unfilled orders were cancelled when the budget ran out
+  recovery?: {
+    status: 'recovered' | 'unwound' | 'exposed'; // Leg refilled, position flattened, or exposure left open
+    failedSteps: number[]; // Indexes of route steps that needed recovery
+    residualExposure: Record<string, number>; // Non-stable balances still held (+) or short (-)
+  };
+  expectedProfit: number; // Estimated net profit, after fees and gas
+  actualProfit: number; // Realized from fills, after trading fees
+  profitDifference: number; // Net profit minus expected profit
   gasCost: number;
   netProfit: number;
   executionTimeMs: number;
 }
 
+// Which detected routes the auto-trader may execute without a human
+export interface AutoExecutionPolicy {
+  enabled: boolean;
+  minNetProfitPercentage: number; // Estimated profit after trading fees
+  maxRiskScore: number; // 0-100
+  minConfidence: number; // 0-1
+  allowedAssets: string[]; // Empty allows every asset
+  allowedVenues: string[]; // Empty allows every venue; otherwise every step must use one
+  maxExecutionsPerCycle: number;
+}
+
+// Audit record of one auto-execution decision
+export interface AutoExecutionDecision {
+  routeId: string;
+  asset: string;
+  venues: string[];
+  decision: 'executed' | 'skipped' | 'failed';
+  reason: string;
+  estimatedProfitPercentage: number;
+  riskScore: number;
+  confidence: number;
+  netProfit?: number; // Realized, for executed routes
+  timestamp: Date;
+}
+
+// Why a route stopped being offered
+export type OpportunityExpiryReason = 'not-detected' | 'executed' | 'quarantined' | 'disabled' | 'unmonitored';
+
+// Route and execution changes pushed to stream subscribers
+export type ArbitrageEvent =
+  | { type: 'opportunity.created'; route: ArbitrageRoute }
+  | { type: 'opportunity.updated'; route: ArbitrageRoute }
+  | { type: 'opportunity.expired'; routeId: string; asset: string; reason: OpportunityExpiryReason }
+  | { type: 'execution.started'; routeId: string; asset: string; executionMode: ExecutionMode; plannedSteps: number }
+  | { type: 'execution.leg'; routeId: string; asset: string; leg: ExecutionSummary['steps'][number] }
+  | { type: 'execution.completed'; routeId: string; asset: string; success: boolean; netProfit: number; executionTimeMs: number };
+
+export type ArbitrageEventListener = (event: ArbitrageEvent) => void;
+
+// Fields of an execution the performance metrics are computed from
+type LedgerExecution = Pick<ExecutionSummary,
+  'asset' | 'success' | 'expectedProfit' | 'actualProfit' | 'profitDifference' | 'netProfit' | 'executionTimeMs' | 'startTime'>;
+
+/**
+ * A monitoring config change was refused because the request is invalid
+ */
+export class MonitoringConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MonitoringConfigError";
+  }
+}
+
+// Optional overrides, used when running the engine against recorded data
+export interface ArbitrageServiceOptions {
+  clock?: Clock;
+  minProfitThreshold?: number;
+  syncToStorage?: boolean; // Mirror detected routes and executions into storage (default true)
+  paperTrading?: boolean; // Settle fills against virtual balances instead of the live API
+  executionMode?: ExecutionMode;
+  riskLimits?: Partial<RiskLimits>;
+  autoExecution?: Partial<AutoExecutionPolicy>;
+  feeModel?: FeeModel;
+  healthThresholds?: Partial<HealthThresholds>;
+  priceFilter?: Partial<PriceFilterOptions>;
+  flashLoanPools?: FlashLoanPool[];
+  basisHoldingPeriodMs?: number;
+}
+
 /**
  * Advanced CEX+DEX Arbitrage Bot Service
  * 
@@ -85,154 +188,103 @@ export class ArbitrageService {
   private okxService: OkxService;
   private monitoredExchanges: Exchange[] = [];
   private monitoredAssets: string[] = ["BTC", "ETH", "SOL", "MATIC", "AVAX", "BNB", "ARB"];
-  private priceCache: Map<string, Map<string, number>> = new Map(); // exchange -> asset -> price
+  private disabledExchanges: Set<string> = new Set(); // Venues switched off at runtime; neither quoted nor traded
+  private assetListings: Record<string, ArbitrageAssetListing> = {}; // asset -> venues and reference price it was added with
+  private priceCache: Map<string, Map<string, CachedPrice>> = new Map(); // exchange -> asset -> latest quote
+  private validPrices: Map<string, Map<string, number>> = new Map(); // exchange -> asset -> price that passed the filter
   private arbitrageRoutes: ArbitrageRoute[] = [];
+  private multiHopRoutes: ArbitrageRoute[] = []; // Triangular and multi-hop cycles
+  private flashLoanRoutes: ArbitrageRoute[] = []; // Same-chain DEX spreads funded by a flash loan
+  private flashLoanPools: FlashLoanPool[];
+  private flashLoanSimulations: FlashLoanSimulation[] = [];
+  private maxFlashLoanSimulations: number = 500;
+  private basisRoutes: ArbitrageRoute[] = []; // Cash-and-carry: long spot against a short perpetual
+  private perpQuotes: Map<string, Map<string, PerpQuote>> = new Map(); // exchange -> asset -> latest perp quote
+  private basisHoldingPeriodMs: number;
   private executionHistory: ExecutionSummary[] = [];
   private isMonitoring: boolean = false;
   private monitoringInterval: NodeJS.Timeout | null = null;
   private minProfitThreshold: number = 0.25; // Minimum profit percentage to consider
-  private maxExecutionTimeMs: number = 10000; // Maximum execution time allowed (10 seconds)
+  private maxExecutionTimeMs: number = 10000; // Per-route latency budget; unfilled orders are cancelled after it (10 seconds)
   private maxConcurrentExecutions: number = 3; // Maximum number of concurrent executions
+  private maxTradeNotionalUsd: number = 100000; // Upper bound on the buy leg when sizing against depth
+  private maxMultiHopNotionalUsd: number = 10000; // Starting size for multi-hop routes
+  private maxRouteHops: number = 4; // Longest cycle considered by the multi-hop detector
+  private maxLegRetries: number = 1; // Same-venue retries for a failed leg before falling back
+  private maxFallbackVenues: number = 2; // Alternative venues tried before unwinding
   private activeExecutions: number = 0;
+  private clock: Clock;
+  private syncToStorage: boolean;
+  private paperTrading: boolean;
+  private paperPortfolio: PaperPortfolio = new PaperPortfolio();
+  private executionMode: ExecutionMode;
+  private legLatency: Map<string, LatencyHistogram> = new Map(); // exchange -> order latency
+  private riskManager: RiskManager;
+  private feeModel: FeeModel;
+  private exchangeHealth: ExchangeHealthMonitor;
+  private priceFilter: PriceFilter;
+  private autoExecutionPolicy: AutoExecutionPolicy = {
+    enabled: false,
+    minNetProfitPercentage: 0.5,
+    maxRiskScore: 40,
+    minConfidence: 0.8,
+    allowedAssets: [],
+    allowedVenues: [],
+    maxExecutionsPerCycle: 1
+  };
+  private autoExecutionLog: AutoExecutionDecision[] = [];
+  private maxAutoExecutionLogSize: number = 1000;
+  private lastSkipReason: Map<string, string> = new Map(); // route signature -> last skip reason
+  private isAutoExecuting: boolean = false;
+  private eventListeners: Set<ArbitrageEventListener> = new Set();
+  private lifecycle: OpportunityLifecycleTracker;
   
-  constructor() {
+  constructor(registry: ExchangeRegistry = exchangeRegistry, options: ArbitrageServiceOptions = {}) {
     this.okxService = new OkxService();
-    this.initializeExchanges();
+    this.clock = options.clock || systemClock;
+    this.syncToStorage = options.syncToStorage ?? true;
+    this.paperTrading = options.paperTrading ?? false;
+    this.executionMode = options.executionMode ?? 'sequential';
+    this.riskManager = new RiskManager(options.riskLimits, this.clock);
+    this.autoExecutionPolicy = { ...this.autoExecutionPolicy, ...options.autoExecution };
+    this.feeModel = options.feeModel || new FeeModel();
+    this.exchangeHealth = new ExchangeHealthMonitor(options.healthThresholds, this.clock);
+    this.priceFilter = new PriceFilter(options.priceFilter, this.clock);
+    this.flashLoanPools = options.flashLoanPools || DEFAULT_FLASH_LOAN_POOLS;
+    this.basisHoldingPeriodMs = options.basisHoldingPeriodMs ?? DEFAULT_BASIS_HOLDING_PERIOD_MS;
+    this.lifecycle = new OpportunityLifecycleTracker(this.clock);
+    this.subscribe(event => {
+      if (event.type === 'opportunity.expired') {
+        this.lifecycle.expire(event.routeId, event.reason);
+      }
+    });
+    if (options.minProfitThreshold !== undefined) {
+      this.minProfitThreshold = options.minProfitThreshold;
+    }
+    this.initializeExchanges(registry);
     console.log(`ArbitrageService: Initialized with ${this.monitoredExchanges.length} exchanges and ${this.monitoredAssets.length} assets`);
+    
+    if (this.syncToStorage) {
+      this.loadMonitoringConfig();
+    }
   }
   
   /**
    * Initialize exchange connections and monitoring
    */
-  private initializeExchanges() {
-    // Setup DEX connections
-    const dexes = [
-      { name: "Uniswap", apiUrl: "https://api.uniswap.org/v1", type: "DEX" as ExchangeType },
-      { name: "SushiSwap", apiUrl: "https://api.sushi.com/v1", type: "DEX" as ExchangeType },
-      { name: "Curve", apiUrl: "https://api.curve.fi/v1", type: "DEX" as ExchangeType },
-      { name: "PancakeSwap", apiUrl: "https://api.pancakeswap.finance/v1", type: "DEX" as ExchangeType },
-      { name: "Balancer", apiUrl: "https://api.balancer.fi/v1", type: "DEX" as ExchangeType },
-      { name: "Jupiter", apiUrl: "https://api.jup.ag/v1", type: "DEX" as ExchangeType },
-      { name: "Raydium", apiUrl: "https://api.raydium.io/v1", type: "DEX" as ExchangeType },
-      { name: "Trader Joe", apiUrl: "https://api.traderjoe.xyz/v1", type: "DEX" as ExchangeType },
-    ];
-    
-    // Setup CEX connections
-    const cexes = [
-      { name: "OKX", apiUrl: "https://www.okx.com/api/v5", type: "CEX" as ExchangeType },
-      { name: "Binance", apiUrl: "https://api.binance.com/api/v3", type: "CEX" as ExchangeType },
-      { name: "Coinbase", apiUrl: "https://api.coinbase.com/v2", type: "CEX" as ExchangeType },
-      { name: "Kraken", apiUrl: "https://api.kraken.com/0", type: "CEX" as ExchangeType },
-      { name: "Kucoin", apiUrl: "https://api.kucoin.com/api/v1", type: "CEX" as ExchangeType },
-      { name: "Bybit", apiUrl: "https://api.bybit.com/v2", type: "CEX" as ExchangeType },
-      { name: "Huobi", apiUrl: "https://api.huobi.pro/v1", type: "CEX" as ExchangeType },
-      { name: "Bitfinex", apiUrl: "https://api.bitfinex.com/v1", type: "CEX" as ExchangeType },
-    ];
-    
-    // Create exchange objects with connection methods
-    [...dexes, ...cexes].forEach(exchangeInfo => {
-      this.monitoredExchanges.push({
-        name: exchangeInfo.name,
-        type: exchangeInfo.type,
-        apiUrl: exchangeInfo.apiUrl,
-        connectionStatus: 'connected',
-        
-        // Get prices from this exchange
-        getPrices: async (assets: string[]): Promise<Record<string, number>> => {
-          // In a real implementation, this would connect to the exchange's API
-          // For now, we'll simulate with realistic prices plus small variations
-          
-          const baselinePrices: Record<string, number> = {
-            "BTC": 65842.50 + (Math.random() * 200 - 100),
-            "ETH": 3245.89 + (Math.random() * 15 - 7.5),
-            "SOL": 103.47 + (Math.random() * 2 - 1),
-            "MATIC": 0.87 + (Math.random() * 0.02 - 0.01),
-            "AVAX": 34.25 + (Math.random() * 0.5 - 0.25),
-            "BNB": 603.12 + (Math.random() * 5 - 2.5),
-            "ARB": 1.23 + (Math.random() * 0.03 - 0.015)
-          };
-          
-          // Add exchange-specific bias (some exchanges consistently higher/lower)
-          const exchangeBias = {
-            "Uniswap": 0.001, // 0.1% higher
-            "SushiSwap": -0.0005, // 0.05% lower
-            "OKX": 0.0008, // 0.08% higher
-            "Binance": -0.0002, // 0.02% lower
-            "Coinbase": 0.0015, // 0.15% higher
-            "Jupiter": -0.0008, // 0.08% lower
-            "Raydium": 0.0005, // 0.05% higher
-          };
-          
-          const bias = exchangeBias[exchangeInfo.name] || 0;
-          
-          // Return requested asset prices with the bias applied
-          const prices: Record<string, number> = {};
-          assets.forEach(asset => {
-            if (baselinePrices[asset]) {
-              prices[asset] = baselinePrices[asset] * (1 + bias);
-            }
-          });
-          
-          return prices;
-        },
-        
-        // Execute a trade on this exchange
-        executeTrade: async (asset: string, amount: number, side: 'buy' | 'sell'): Promise<TradeResult> => {
-          // Simulate trade execution with realistic success rate and latency
-          await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
-          
-          const basePrice = {
-            "BTC": 65842.50,
-            "ETH": 3245.89,
-            "SOL": 103.47,
-            "MATIC": 0.87,
-            "AVAX": 34.25,
-            "BNB": 603.12,
-            "ARB": 1.23
-          }[asset] || 1.0;
-          
-          // Apply slippage based on order size
-          const slippage = amount > 10 ? 0.002 : 0.0005; // 0.2% for large orders, 0.05% for small
-          const executionPrice = side === 'buy' 
-            ? basePrice * (1 + slippage) 
-            : basePrice * (1 - slippage);
-          
-          // Calculate fee based on exchange type
-          const feeRate = exchangeInfo.type === 'DEX' ? 0.003 : 0.001; // 0.3% for DEX, 0.1% for CEX
-          const fee = amount * executionPrice * feeRate;
-          
-          // 98% success rate
-          const success = Math.random() > 0.02;
-          
-          if (success) {
-            return {
-              success: true,
-              txId: `tx-${Date.now()}-${Math.floor(Math.random() * 1000000)}`,
-              asset,
-              amount,
-              price: executionPrice,
-              fee,
-              timestamp: new Date()
-            };
-          } else {
-            return {
-              success: false,
-              txId: '',
-              asset,
-              amount: 0,
-              price: 0,
-              fee: 0,
-              timestamp: new Date(),
-              error: "Simulated trade execution failure due to market conditions"
-            };
-          }
-        }
+  private initializeExchanges(registry: ExchangeRegistry) {
+    // Create one adapter per registered venue and open its connection
+    registry.createAll().forEach(exchange => {
+      this.monitoredExchanges.push(exchange);
+      exchange.connect().catch(error => {
+        console.error(`ArbitrageService: Failed to connect to ${exchange.name}:`, error);
       });
     });
     
     // Initialize price cache for each exchange
     this.monitoredExchanges.forEach(exchange => {
       this.priceCache.set(exchange.name, new Map());
+      this.validPrices.set(exchange.name, new Map());
     });
   }
   
@@ -245,21 +297,541 @@ export class ArbitrageService {
       return;
     }
     
+    if (this.riskManager.isKillSwitchActive()) {
+      console.log("ArbitrageService: Kill switch active, not starting monitoring");
+      return;
+    }
+    
     this.isMonitoring = true;
     console.log("ArbitrageService: Starting real-time monitoring");
     
     // Set up monitoring interval (every 5 seconds)
     this.monitoringInterval = setInterval(async () => {
       try {
-        await this.updatePrices();
-        await this.detectArbitrageOpportunities();
-        await this.pruneExpiredOpportunities();
+        await this.runMonitoringCycle();
       } catch (error) {
         console.error("Error in arbitrage monitoring cycle:", error);
       }
     }, 5000);
   }
   
+  /**
+   * Run one monitoring cycle: refresh prices, detect routes and prune expired ones.
+   * Pass autoExecute: false to refresh without trading on the results.
+   */
+  async runMonitoringCycle(options: { autoExecute?: boolean } = {}) {
+    const previousRoutes = new Map(this.getActiveRoutes().map(route => [route.id, route] as [string, ArbitrageRoute]));
+    
+    await this.updatePrices();
+    await this.detectArbitrageOpportunities();
+    await this.detectMultiHopOpportunities();
+    await this.detectFlashLoanOpportunities();
+    await this.detectBasisOpportunities();
+    await this.pruneExpiredOpportunities();
+    this.publishRouteChanges(previousRoutes);
+    this.lifecycle.observe([...this.getActiveRoutes(), ...this.flashLoanRoutes, ...this.basisRoutes]);
+    
+    if (options.autoExecute !== false && this.autoExecutionPolicy.enabled) {
+      await this.autoExecuteRoutes();
+    }
+  }
+  
+  /**
+   * Replace the list of monitored assets
+   */
+  setMonitoredAssets(assets: string[]) {
+    this.applyMonitoringConfig(assets, Array.from(this.disabledExchanges), this.assetListings);
+  }
+  
+  /**
+   * Monitored assets and whether each registered venue is enabled
+   */
+  getMonitoringConfig() {
+    return {
+      monitoredAssets: [...this.monitoredAssets],
+      exchanges: this.monitoredExchanges.map(exchange => ({
+        name: exchange.name,
+        type: exchange.type,
+        enabled: !this.disabledExchanges.has(exchange.name),
+        monitoredAssets: this.monitoredAssets.filter(asset => exchange.supportsAsset(asset))
+      })),
+      assetListings: { ...this.assetListings }
+    };
+  }
+  
+  /**
+   * Start watching an asset on every enabled venue that lists it. Venues named
+   * in `exchanges` list the asset first; `referencePrice` gives the simulated
+   * venues a baseline to quote a symbol they have no price for. Both are saved
+   * with the config and applied again on the next start.
+   */
+  async addMonitoredAsset(asset: string, options: { exchanges?: string[]; referencePrice?: number } = {}) {
+    const symbol = (asset || '').trim().toUpperCase();
+    if (!/^[A-Z0-9]{2,10}$/.test(symbol)) {
+      throw new MonitoringConfigError(`Invalid asset symbol ${asset}`);
+    }
+    if (this.monitoredAssets.includes(symbol)) {
+      throw new MonitoringConfigError(`${symbol} is already monitored`);
+    }
+    
+    // Every check runs before anything is listed or priced, so a rejected add changes nothing
+    const listingVenues = Array.from(new Set(options.exchanges || []));
+    listingVenues.forEach(name => {
+      if (!this.getExchange(name)) {
+        throw new MonitoringConfigError(`Exchange ${name} not found`);
+      }
+    });
+    if (options.referencePrice !== undefined) {
+      const problem = checkBaselinePrice(symbol, options.referencePrice);
+      if (problem) {
+        throw new MonitoringConfigError(problem);
+      }
+    }
+    if (listingVenues.length === 0 && !this.monitoredExchanges.some(exchange => exchange.supportsAsset(symbol))) {
+      throw new MonitoringConfigError(`No registered exchange lists ${symbol}`);
+    }
+    
+    const assetListings = { ...this.assetListings };
+    if (listingVenues.length > 0 || options.referencePrice !== undefined) {
+      assetListings[symbol] = { exchanges: listingVenues, referencePrice: options.referencePrice };
+    }
+    await this.updateMonitoringConfig([...this.monitoredAssets, symbol], Array.from(this.disabledExchanges), assetListings);
+    console.log(`ArbitrageService: Now monitoring ${symbol}`);
+    return this.getMonitoringConfig();
+  }
+  
+  /**
+   * Stop watching an asset; its quotes and routes drop out straight away
+   */
+  async removeMonitoredAsset(asset: string) {
+    const symbol = (asset || '').trim().toUpperCase();
+    if (!this.monitoredAssets.includes(symbol)) {
+      throw new MonitoringConfigError(`${symbol} is not monitored`);
+    }
+    
+    const assetListings = { ...this.assetListings };
+    delete assetListings[symbol];
+    await this.updateMonitoringConfig(this.monitoredAssets.filter(a => a !== symbol), Array.from(this.disabledExchanges), assetListings);
+    this.dropRoutes(route => route.asset !== symbol && route.steps.every(step =>
+      step.pair?.base !== symbol && step.pair?.quote !== symbol
+    ), 'unmonitored');
+    console.log(`ArbitrageService: Stopped monitoring ${symbol}`);
+    return this.getMonitoringConfig();
+  }
+  
+  /**
+   * Enable or disable a venue; a disabled venue is neither quoted nor traded
+   */
+  async setExchangeEnabled(exchangeName: string, enabled: boolean) {
+    if (!this.getExchange(exchangeName)) {
+      throw new MonitoringConfigError(`Exchange ${exchangeName} not found`);
+    }
+    
+    const disabled = Array.from(this.disabledExchanges).filter(name => name !== exchangeName);
+    if (!enabled) {
+      disabled.push(exchangeName);
+    }
+    
+    await this.updateMonitoringConfig(this.monitoredAssets, disabled, this.assetListings);
+    if (!enabled) {
+      this.dropRoutes(route => route.steps.every(step => step.exchange !== exchangeName), 'disabled');
+    }
+    console.log(`ArbitrageService: ${exchangeName} ${enabled ? 'enabled' : 'disabled'}`);
+    return this.getMonitoringConfig();
+  }
+  
+  /**
+   * Drop routes outside of a monitoring cycle, announcing each one as expired
+   */
+  private dropRoutes(keep: (route: ArbitrageRoute) => boolean, reason: OpportunityExpiryReason) {
+    this.getActiveRoutes().filter(route => !keep(route)).forEach(route => {
+      this.emit({ type: 'opportunity.expired', routeId: route.id, asset: route.asset, reason });
+    });
+    this.arbitrageRoutes = this.arbitrageRoutes.filter(keep);
+    this.multiHopRoutes = this.multiHopRoutes.filter(keep);
+    this.flashLoanRoutes = this.flashLoanRoutes.filter(keep);
+    this.basisRoutes = this.basisRoutes.filter(keep);
+  }
+  
+  /**
+   * Save a new monitoring config, then apply it to the running service
+   */
+  private async updateMonitoringConfig(assets: string[], disabledExchanges: string[], assetListings: Record<string, ArbitrageAssetListing>) {
+    if (this.syncToStorage) {
+      await storage.saveArbitrageConfig({
+        monitoredAssets: assets,
+        disabledExchanges,
+        assetListings,
+        updatedAt: new Date(this.clock.now())
+      });
+    }
+    this.applyMonitoringConfig(assets, disabledExchanges, assetListings);
+  }
+  
+  /**
+   * Switch to a set of assets and disabled venues without restarting monitoring
+   *
+   * Runtime listings are applied to the venues first. Cached quotes for
+   * dropped assets and disabled venues are cleared so that detection stops
+   * using them before the next price update.
+   */
+  private applyMonitoringConfig(assets: string[], disabledExchanges: string[], assetListings: Record<string, ArbitrageAssetListing>) {
+    this.assetListings = { ...assetListings };
+    Object.entries(this.assetListings).forEach(([asset, listing]) => {
+      if (listing.referencePrice !== undefined && !checkBaselinePrice(asset, listing.referencePrice)) {
+        setBaselinePrice(asset, listing.referencePrice);
+      }
+      // Venues no longer registered are skipped
+      listing.exchanges.forEach(name => this.getExchange(name)?.listAsset(asset));
+    });
+    
+    this.monitoredAssets = [...assets];
+    this.disabledExchanges = new Set(disabledExchanges.filter(name => this.getExchange(name)));
+    
+    this.monitoredExchanges.forEach(exchange => {
+      const enabled = !this.disabledExchanges.has(exchange.name);
+      const keep = (asset: string) => enabled && this.monitoredAssets.includes(asset);
+      
+      const cached = this.priceCache.get(exchange.name);
+      cached?.forEach((_, asset) => {
+        if (!keep(asset)) cached.delete(asset);
+      });
+      const valid = this.validPrices.get(exchange.name);
+      valid?.forEach((_, asset) => {
+        if (!keep(asset)) valid.delete(asset);
+      });
+    });
+  }
+  
+  /**
+   * Restore the monitored assets, disabled venues and runtime listings saved by a previous run
+   */
+  private async loadMonitoringConfig() {
+    try {
+      const config = await storage.getArbitrageConfig();
+      if (!config) return;
+      
+      this.applyMonitoringConfig(config.monitoredAssets, config.disabledExchanges, config.assetListings || {});
+      console.log(`ArbitrageService: Loaded config with ${this.monitoredAssets.length} assets and ${this.disabledExchanges.size} disabled exchanges`);
+    } catch (error) {
+      console.error("ArbitrageService: Failed to load monitoring config:", error);
+    }
+  }
+  
+  /**
+   * Whether a venue is enabled and not quarantined
+   */
+  private isExchangeUsable(exchangeName: string): boolean {
+    return !this.disabledExchanges.has(exchangeName) && this.exchangeHealth.isAvailable(exchangeName);
+  }
+  
+  /**
+   * Switch between paper trading and live execution
+   */
+  setPaperTrading(enabled: boolean) {
+    this.paperTrading = enabled;
+    console.log(`ArbitrageService: Paper trading ${enabled ? 'enabled' : 'disabled'}`);
+  }
+  
+  /**
+   * Paper account snapshot: balances per venue, totals and their USD value
+   */
+  getPaperAccount(tradeLimit: number = 50) {
+    const totals = this.paperPortfolio.getTotals();
+    const totalValueUsd = Object.entries(totals).reduce(
+      (sum, [asset, amount]) => sum + amount * this.getReferencePrice(asset),
+      0
+    );
+    
+    return {
+      enabled: this.paperTrading,
+      balances: this.paperPortfolio.getBalances(),
+      totals,
+      totalValueUsd: totalValueUsd.toFixed(2),
+      trades: this.paperPortfolio.getTrades(tradeLimit)
+    };
+  }
+  
+  /**
+   * Stop monitoring and reject every execution until the switch is released
+   */
+  activateKillSwitch(reason?: string) {
+    this.riskManager.activateKillSwitch(reason);
+    this.stopMonitoring();
+    return this.riskManager.getStatus();
+  }
+  
+  /**
+   * Release the kill switch; monitoring resumes on the next opportunities request
+   */
+  deactivateKillSwitch() {
+    this.riskManager.deactivateKillSwitch();
+    return this.riskManager.getStatus();
+  }
+  
+  getRiskStatus() {
+    return this.riskManager.getStatus();
+  }
+  
+  updateRiskLimits(limits: Partial<RiskLimits>) {
+    this.riskManager.updateLimits(limits);
+    return this.riskManager.getStatus();
+  }
+  
+  clearResidualExposure() {
+    this.riskManager.clearResidualExposure();
+    return this.riskManager.getStatus();
+  }
+  
+  /**
+   * Receive every opportunity and execution event; returns the unsubscribe function
+   */
+  subscribe(listener: ArbitrageEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+  
+  private emit(event: ArbitrageEvent) {
+    this.eventListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`ArbitrageService: Event listener failed on ${event.type}:`, error);
+      }
+    });
+  }
+  
+  /**
+   * Emit created, updated and expired events by comparing routes before and after a cycle
+   */
+  private publishRouteChanges(previousRoutes: Map<string, ArbitrageRoute>) {
+    const currentIds = new Set<string>();
+    
+    this.getActiveRoutes().forEach(route => {
+      currentIds.add(route.id);
+      const previous = previousRoutes.get(route.id);
+      if (!previous) {
+        this.emit({ type: 'opportunity.created', route });
+      } else if (
+        previous.estimatedProfitAmount !== route.estimatedProfitAmount ||
+        previous.steps.some((step, i) => step.expectedPrice !== route.steps[i]?.expectedPrice)
+      ) {
+        this.emit({ type: 'opportunity.updated', route });
+      }
+    });
+    
+    previousRoutes.forEach(route => {
+      if (currentIds.has(route.id)) return;
+      const disabled = route.steps.some(step => this.disabledExchanges.has(step.exchange));
+      const quarantined = route.steps.some(step => !this.exchangeHealth.isAvailable(step.exchange));
+      const reason: OpportunityExpiryReason = disabled ? 'disabled' : quarantined ? 'quarantined' : 'not-detected';
+      this.emit({ type: 'opportunity.expired', routeId: route.id, asset: route.asset, reason });
+    });
+  }
+  
+  /**
+   * First/last seen, peak spread and decay of recently detected opportunities
+   */
+  getOpportunityLifecycles(status?: 'active' | 'expired', limit: number = 100) {
+    return this.lifecycle.getLifecycles(status, limit);
+  }
+  
+  /**
+   * Opportunity half-life per asset and venue path, against the time our legs take to fill
+   */
+  getOpportunityHalfLifeReport() {
+    return this.lifecycle.getHalfLifeReport(venues => {
+      const latencies = venues.map(venue => this.legLatency.get(venue)?.percentile(95) ?? null);
+      if (latencies.some(latency => latency === null)) return null;
+      
+      // Concurrent legs take as long as the slowest; sequential ones add up
+      const measured = latencies as number[];
+      return this.executionMode === 'concurrent'
+        ? Math.max(...measured)
+        : measured.reduce((sum, latency) => sum + latency, 0);
+    });
+  }
+  
+  /**
+   * Health, circuit-breaker state and connection status of every monitored venue
+   */
+  getExchangeHealth() {
+    return this.monitoredExchanges.map(exchange => ({
+      ...this.exchangeHealth.getHealth(exchange.name),
+      type: exchange.type,
+      enabled: !this.disabledExchanges.has(exchange.name),
+      connectionStatus: exchange.connectionStatus
+    }));
+  }
+  
+  /**
+   * Cached quotes with their age and source, plus the quotes the price filter rejected
+   */
+  getPriceDiagnostics(historyLimit: number = 100) {
+    const now = this.clock.now();
+    const quotes: Array<{ exchange: string; asset: string; price: number; source: string; quotedAt: Date; ageMs: number; accepted: boolean }> = [];
+    
+    this.priceCache.forEach((exchangePrices, exchange) => {
+      exchangePrices.forEach((quote, asset) => {
+        quotes.push({
+          exchange,
+          asset,
+          price: quote.price,
+          source: quote.source,
+          quotedAt: new Date(quote.timestamp),
+          ageMs: now - quote.timestamp,
+          accepted: this.validPrices.get(exchange)?.get(asset) === quote.price
+        });
+      });
+    });
+    
+    return {
+      filter: this.priceFilter.getOptions(),
+      quotes,
+      rejected: this.priceFilter.getActiveRejections(),
+      history: this.priceFilter.getRejectionHistory(historyLimit)
+    };
+  }
+  
+  updatePriceFilter(options: Partial<PriceFilterOptions>): PriceFilterOptions {
+    return this.priceFilter.updateOptions(options);
+  }
+  
+  getFeeModel(): FeeModel {
+    return this.feeModel;
+  }
+  
+  /**
+   * Current fee tier, withdrawal fees and swap gas of every monitored venue
+   */
+  getFeeSchedules() {
+    return this.monitoredExchanges.map(exchange => ({
+      exchange: exchange.name,
+      type: exchange.type,
+      chain: exchange.chain ?? null,
+      ...exchange.getFeeRates(),
+      tiers: exchange.feeSchedule.tiers || [],
+      withdrawalFees: Object.fromEntries(
+        this.monitoredAssets.map(asset => [asset, this.feeModel.getWithdrawalFee(exchange, asset)])
+      ),
+      swapGasCostUsd: this.getSwapGasCostUsd(exchange.name)
+    }));
+  }
+  
+  getAutoExecutionPolicy(): AutoExecutionPolicy {
+    return { ...this.autoExecutionPolicy };
+  }
+  
+  /**
+   * Update the auto-execution policy; auto-trading stays off until `enabled` is set
+   */
+  updateAutoExecutionPolicy(policy: Partial<AutoExecutionPolicy>): AutoExecutionPolicy {
+    const next = { ...this.autoExecutionPolicy, ...policy };
+    
+    if (typeof next.enabled !== 'boolean') {
+      throw new Error("enabled must be a boolean");
+    }
+    (['minNetProfitPercentage', 'maxRiskScore', 'minConfidence', 'maxExecutionsPerCycle'] as const).forEach(key => {
+      if (typeof next[key] !== 'number' || !isFinite(next[key])) {
+        throw new Error(`${key} must be a number`);
+      }
+    });
+    if (!Array.isArray(next.allowedAssets) || !Array.isArray(next.allowedVenues)) {
+      throw new Error("allowedAssets and allowedVenues must be arrays");
+    }
+    
+    this.autoExecutionPolicy = next;
+    this.lastSkipReason.clear();
+    console.log(`ArbitrageService: Auto-execution ${next.enabled ? 'enabled' : 'disabled'}`);
+    return this.getAutoExecutionPolicy();
+  }
+  
+  /**
+   * Auto-execution decisions, newest first
+   */
+  getAutoExecutionLog(limit: number = 100, decision?: AutoExecutionDecision['decision']): AutoExecutionDecision[] {
+    return this.autoExecutionLog
+      .filter(entry => !decision || entry.decision === decision)
+      .slice(-limit)
+      .reverse();
+  }
+  
+  /**
+   * Choose whether independent legs are sent one at a time or simultaneously
+   */
+  setExecutionMode(mode: ExecutionMode) {
+    if (mode !== 'sequential' && mode !== 'concurrent') {
+      throw new Error(`Unknown execution mode ${mode}`);
+    }
+    this.executionMode = mode;
+    console.log(`ArbitrageService: Execution mode set to ${mode}`);
+  }
+  
+  /**
+   * Virtual inventory used while paper trading
+   */
+  getPaperPortfolio(): PaperPortfolio {
+    return this.paperPortfolio;
+  }
+  
+  isPaperTrading(): boolean {
+    return this.paperTrading;
+  }
+  
+  /**
+   * Look up a monitored exchange adapter by name
+   */
+  getExchange(exchangeName: string): Exchange | undefined {
+    return this.monitoredExchanges.find(e => e.name === exchangeName);
+  }
+  
+  /**
+   * Clear the paper account's balances and trade log
+   */
+  resetPaperAccount() {
+    this.paperPortfolio.reset();
+    return this.getPaperAccount();
+  }
+  
+  /**
+   * Deposit (or withdraw, with a negative amount) virtual funds on a venue
+   */
+  fundPaperAccount(exchangeName: string, asset: string, amount: number) {
+    if (!this.monitoredExchanges.some(e => e.name === exchangeName)) {
+      throw new Error(`Exchange ${exchangeName} not found`);
+    }
+    if (!asset || !isFinite(amount) || amount === 0) {
+      throw new Error("A non-zero amount and an asset are required");
+    }
+    
+    this.paperPortfolio.fund(exchangeName, asset, amount);
+    return this.getPaperAccount();
+  }
+  
+  /**
+   * Record an execution placed outside the route engine, such as a stat-arb
+   * position, in the history, ledger and risk limits alongside route trades
+   */
+  async reportExecution(executionSummary: ExecutionSummary) {
+    await this.recordExecution(executionSummary);
+  }
+  
+  /**
+   * Get the executions recorded since the service started
+   */
+  getExecutionHistory(): ExecutionSummary[] {
+    return [...this.executionHistory];
+  }
+  
+  /**
+   * Get all routes currently tracked in memory, two-leg and multi-hop
+   */
+  getActiveRoutes(): ArbitrageRoute[] {
+    return [...this.arbitrageRoutes, ...this.multiHopRoutes];
+  }
+  
   /**
    * Stop price monitoring
    */
@@ -278,23 +850,82 @@ export class ArbitrageService {
   private async updatePrices() {
     console.log("ArbitrageService: Updating prices from all exchanges");
     
+    // Quarantined venues are only queried when a recovery probe is due
+    const probed = new Set<string>();
     const updatePromises = this.monitoredExchanges.map(async exchange => {
+      if (this.disabledExchanges.has(exchange.name)) {
+        return;
+      } else if (this.exchangeHealth.isProbeDue(exchange.name)) {
+        probed.add(exchange.name);
+      } else if (!this.exchangeHealth.isAvailable(exchange.name)) {
+        return;
+      }
+      
+      const startedAt = this.clock.now();
       try {
-        const prices = await exchange.getPrices(this.monitoredAssets);
+        const assets = this.monitoredAssets.filter(asset => exchange.supportsAsset(asset));
+        const prices = await exchange.getPrices(assets);
         const exchangeCache = this.priceCache.get(exchange.name) || new Map();
+        const fetchedAt = this.clock.now();
         
         Object.entries(prices).forEach(([asset, price]) => {
-          exchangeCache.set(asset, price);
+          exchangeCache.set(asset, { price, timestamp: fetchedAt, source: exchange.apiUrl });
         });
         
         this.priceCache.set(exchange.name, exchangeCache);
+        this.exchangeHealth.recordRequest(exchange.name, true, this.clock.now() - startedAt);
+        if (Object.keys(prices).length > 0) {
+          this.exchangeHealth.recordPrices(exchange.name);
+        }
+        exchange.connectionStatus = 'connected';
       } catch (error) {
         console.error(`Error updating prices from ${exchange.name}:`, error);
         exchange.connectionStatus = 'error';
+        this.exchangeHealth.recordRequest(exchange.name, false, this.clock.now() - startedAt);
       }
     });
     
-    await Promise.all(updatePromises);
+    await Promise.all(updatePromises);
+    
+    // Detection only sees quotes that are fresh and in line with the other venues
+    this.validPrices = this.priceFilter.filter(this.priceCache);
+    
+    this.recordPriceDeviations(probed);
+    this.monitoredExchanges.forEach(exchange => {
+      if (this.disabledExchanges.has(exchange.name)) return;
+      this.exchangeHealth.evaluate(exchange.name, probed.has(exchange.name));
+    });
+  }
+  
+  /**
+   * Record how far each quoting venue's prices sit from the median across venues
+   *
+   * Only assets quoted by at least three venues are compared, since with two
+   * the median cannot tell which side is wrong.
+   */
+  private recordPriceDeviations(probed: Set<string>) {
+    const quoting = this.monitoredExchanges
+      .map(exchange => exchange.name)
+      .filter(name => !this.disabledExchanges.has(name) && (this.exchangeHealth.isAvailable(name) || probed.has(name)));
+    const deviations: Record<string, number> = {};
+    
+    this.monitoredAssets.forEach(asset => {
+      const quotes = quoting
+        .map(name => ({ name, price: this.priceCache.get(name)?.get(asset)?.price }))
+        .filter((quote): quote is { name: string; price: number } => quote.price !== undefined && quote.price > 0);
+      if (quotes.length < 3) return;
+      
+      const sorted = quotes.map(q => q.price).sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      const median = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+      
+      quotes.forEach(quote => {
+        const deviation = Math.abs(quote.price - median) / median;
+        deviations[quote.name] = Math.max(deviations[quote.name] || 0, deviation);
+      });
+    });
+    
+    quoting.forEach(name => this.exchangeHealth.recordPriceDeviation(name, deviations[name] || 0));
   }
   
   /**
@@ -400,187 +1031,933 @@ export class ArbitrageService {
       // Increase active executions counter
       this.activeExecutions++;
       
-      const opportunity = await storage.getArbitrageOpportunity(opportunityId);
-      if (!opportunity) {
-        this.activeExecutions--;
-        throw new Error(`Arbitrage opportunity with ID ${opportunityId} not found`);
-      }
-      
-      if (!opportunity.isActive) {
-        this.activeExecutions--;
-        throw new Error("This arbitrage opportunity is no longer active");
-      }
-      
-      console.log(`Executing arbitrage trade for ${opportunity.asset}: Buy at ${opportunity.buyExchange}, Sell at ${opportunity.sellExchange}`);
-      
-      // Find the corresponding route in our in-memory routes
-      let route = this.arbitrageRoutes.find(r => 
-        r.asset === opportunity.asset && 
-        r.steps.some(s => s.exchange === opportunity.buyExchange && s.action === 'buy') &&
-        r.steps.some(s => s.exchange === opportunity.sellExchange && s.action === 'sell')
-      );
-      
-      // If route not found in memory, create one from storage data
-      if (!route) {
-        route = {
-          id: `manual-${opportunityId}`,
-          asset: opportunity.asset,
-          steps: [
-            {
-              exchange: opportunity.buyExchange,
-              type: this.getExchangeType(opportunity.buyExchange),
-              action: 'buy',
-              expectedPrice: opportunity.buyPrice,
-              amount: 1.0, // Default amount
-              estimatedFee: this.getExchangeType(opportunity.buyExchange) === 'DEX' ? 0.003 : 0.001
-            },
-            {
-              exchange: opportunity.sellExchange,
-              type: this.getExchangeType(opportunity.sellExchange),
-              action: 'sell',
-              expectedPrice: opportunity.sellPrice,
-              amount: 1.0,
-              estimatedFee: this.getExchangeType(opportunity.sellExchange) === 'DEX' ? 0.003 : 0.001
-            }
-          ],
-          estimatedProfitAmount: opportunity.profitAmount,
-          estimatedProfitPercentage: opportunity.profitPercentage,
-          estimatedExecutionTimeMs: 5000,
-          riskScore: 50,
-          confidence: 0.85
-        };
-      }
-      
-      // Create execution summary
-      const executionSummary: ExecutionSummary = {
-        routeId: route.id,
-        success: false,
-        asset: opportunity.asset,
-        startTime: new Date(),
-        endTime: new Date(),
-        steps: [],
-        expectedProfit: opportunity.profitAmount,
-        actualProfit: 0,
-        profitDifference: 0,
-        gasCost: 0,
-        netProfit: 0,
-        executionTimeMs: 0
-      };
-      
       try {
-        // Execute each step in the route
-        for (const step of route.steps) {
-          const exchange = this.monitoredExchanges.find(e => e.name === step.exchange);
-          
-          if (!exchange) {
-            throw new Error(`Exchange ${step.exchange} not found`);
-          }
-          
-          console.log(`Executing ${step.action} of ${step.amount} ${opportunity.asset} on ${step.exchange}`);
-          
-          const tradeResult = await exchange.executeTrade(
-            opportunity.asset,
-            step.amount,
-            step.action
-          );
-          
-          // Record step execution
-          executionSummary.steps.push({
-            exchange: step.exchange,
-            action: step.action,
-            expectedPrice: step.expectedPrice,
-            actualPrice: tradeResult.price,
-            amount: tradeResult.amount,
-            fee: tradeResult.fee,
-            success: tradeResult.success,
-            txId: tradeResult.txId,
-            error: tradeResult.error
-          });
-          
-          // If any step fails, abort the execution
-          if (!tradeResult.success) {
-            throw new Error(`Trade execution failed on ${step.exchange}: ${tradeResult.error}`);
-          }
+        const opportunity = await storage.getArbitrageOpportunity(opportunityId);
+        if (!opportunity) {
+          throw new Error(`Arbitrage opportunity with ID ${opportunityId} not found`);
         }
         
-        // All steps succeeded
-        executionSummary.success = true;
+        if (!opportunity.isActive) {
+          throw new Error("This arbitrage opportunity is no longer active");
+        }
         
-        // Calculate actual profit
-        const buyStep = executionSummary.steps.find(s => s.action === 'buy');
-        const sellStep = executionSummary.steps.find(s => s.action === 'sell');
+        console.log(`Executing arbitrage trade for ${opportunity.asset}: Buy at ${opportunity.buyExchange}, Sell at ${opportunity.sellExchange}`);
         
-        if (buyStep && sellStep) {
-          const buyTotal = buyStep.amount * buyStep.actualPrice + buyStep.fee;
-          const sellTotal = sellStep.amount * sellStep.actualPrice - sellStep.fee;
-          executionSummary.actualProfit = sellTotal - buyTotal;
-          executionSummary.profitDifference = executionSummary.actualProfit - executionSummary.expectedProfit;
-          
-          // Estimate gas cost based on exchange types
-          const isEthereumBased = true; // Assume Ethereum for this example
-          const gasPrice = 50; // Gwei
-          const gasLimit = buyStep.exchange.includes('Uni') ? 250000 : 150000;
-          const ethPrice = 3245.89;
-          
-          executionSummary.gasCost = isEthereumBased 
-            ? (gasPrice * gasLimit * 1e-9 * ethPrice)
-            : 0;
-            
-          executionSummary.netProfit = executionSummary.actualProfit - executionSummary.gasCost;
-        }
+        // Find the corresponding route in our in-memory routes
+        let route = this.arbitrageRoutes.find(r => 
+          r.asset === opportunity.asset && 
+          r.steps.some(s => s.exchange === opportunity.buyExchange && s.action === 'buy') &&
+          r.steps.some(s => s.exchange === opportunity.sellExchange && s.action === 'sell')
+        );
         
-        // Calculate execution time
-        executionSummary.endTime = new Date();
-        executionSummary.executionTimeMs = executionSummary.endTime.getTime() - executionSummary.startTime.getTime();
+        // If route not found in memory, create one from storage data
+        if (!route) {
+          route = {
+            id: `manual-${opportunityId}`,
+            asset: opportunity.asset,
+            steps: [
+              {
+                exchange: opportunity.buyExchange,
+                type: this.getExchangeType(opportunity.buyExchange),
+                action: 'buy',
+                expectedPrice: Number(opportunity.buyPrice),
+                amount: 1.0, // Default amount
+                estimatedFee: Number(opportunity.buyPrice) * this.getTakerFeeRate(opportunity.buyExchange)
+              },
+              {
+                exchange: opportunity.sellExchange,
+                type: this.getExchangeType(opportunity.sellExchange),
+                action: 'sell',
+                expectedPrice: Number(opportunity.sellPrice),
+                amount: 1.0,
+                estimatedFee: Number(opportunity.sellPrice) * this.getTakerFeeRate(opportunity.sellExchange)
+              }
+            ],
+            estimatedProfitAmount: Number(opportunity.profitAmount),
+            estimatedProfitPercentage: Number(opportunity.profitPercentage),
+            estimatedGasCost: this.getSwapGasCostUsd(opportunity.buyExchange) + this.getSwapGasCostUsd(opportunity.sellExchange),
+            estimatedExecutionTimeMs: 5000,
+            riskScore: 50,
+            confidence: 0.85
+          };
+        }
         
-        // Record execution in history
-        this.executionHistory.push(executionSummary);
+        const executionSummary = await this.runGuardedRoute(route, Number(opportunity.profitAmount));
         
         // Update the opportunity as no longer active
         await storage.updateArbitrageOpportunity(opportunityId, { isActive: false });
         
-        // Execute through OKX service for full API integration
-        await this.okxService.executeArbitrage(
-          opportunity.asset,
-          opportunity.buyExchange,
-          opportunity.sellExchange,
-          opportunity.buyPrice.toString(),
-          opportunity.sellPrice.toString()
-        );
+        // Execute through OKX service for full API integration (paper trades stay local)
+        if (!this.paperTrading) {
+          await this.okxService.executeArbitrage(
+            opportunity.asset,
+            opportunity.buyExchange,
+            opportunity.sellExchange,
+            opportunity.buyPrice.toString(),
+            opportunity.sellPrice.toString()
+          );
+        }
         
         // Return the execution result
         return {
           success: true,
           opportunityId,
-          executionId: `execution-${Date.now()}`,
-          profit: executionSummary.netProfit.toFixed(2),
-          expectedProfit: executionSummary.expectedProfit.toFixed(2),
-          profitDifference: executionSummary.profitDifference.toFixed(2),
-          executionTimeMs: executionSummary.executionTimeMs,
-          steps: executionSummary.steps.map(s => ({
-            exchange: s.exchange,
-            action: s.action,
-            price: s.actualPrice,
-            success: s.success
-          })),
-          timestamp: new Date()
+          ...this.formatExecutionResult(executionSummary)
         };
-      } catch (error) {
-        // Record failed execution
-        executionSummary.success = false;
-        executionSummary.endTime = new Date();
-        executionSummary.executionTimeMs = executionSummary.endTime.getTime() - executionSummary.startTime.getTime();
-        this.executionHistory.push(executionSummary);
-        
-        throw error;
       } finally {
         // Decrease active executions counter
         this.activeExecutions--;
       }
-    } catch (error) {
-      console.error(`Error executing arbitrage trade for opportunity ${opportunityId}:`, error);
-      throw new Error(`Failed to execute arbitrage trade: ${(error as Error).message}`);
+    } catch (error) {
+      console.error(`Error executing arbitrage trade for opportunity ${opportunityId}:`, error);
+      throw new Error(`Failed to execute arbitrage trade: ${(error as Error).message}`);
+    }
+  }
+  
+  /**
+   * Execute a detected in-memory route (two-leg or multi-hop) by id
+   *
+   * Cross-venue routes assume inventory is already held on each venue the
+   * route trades on; no transfers are made between steps.
+   */
+  async executeRoute(routeId: string) {
+    try {
+      if (this.activeExecutions >= this.maxConcurrentExecutions) {
+        throw new Error("Maximum concurrent executions reached. Please try again later.");
+      }
+      
+      const route = this.getActiveRoutes().find(r => r.id === routeId);
+      if (!route) {
+        throw new Error(`Route ${routeId} not found or no longer profitable`);
+      }
+      
+      this.activeExecutions++;
+      
+      try {
+        console.log(`Executing ${route.steps.length}-step arbitrage route ${route.id} starting from ${route.asset}`);
+        
+        const executionSummary = await this.runGuardedRoute(route, route.estimatedProfitAmount);
+        
+        // A route is only captured once
+        this.arbitrageRoutes = this.arbitrageRoutes.filter(r => r.id !== routeId);
+        this.multiHopRoutes = this.multiHopRoutes.filter(r => r.id !== routeId);
+        this.emit({ type: 'opportunity.expired', routeId, asset: route.asset, reason: 'executed' });
+        
+        return {
+          success: true,
+          routeId,
+          ...this.formatExecutionResult(executionSummary)
+        };
+      } finally {
+        this.activeExecutions--;
+      }
+    } catch (error) {
+      console.error(`Error executing route ${routeId}:`, error);
+      throw new Error(`Failed to execute arbitrage route: ${(error as Error).message}`);
+    }
+  }
+  
+  /**
+   * Execute the best detected routes that satisfy the auto-execution policy
+   *
+   * Every executed or failed route is logged; a skipped route is logged when
+   * first seen and whenever the reason it was skipped changes.
+   */
+  private async autoExecuteRoutes() {
+    if (this.isAutoExecuting) return;
+    this.isAutoExecuting = true;
+    
+    try {
+      const routes = this.getActiveRoutes()
+        .sort((a, b) => b.estimatedProfitPercentage - a.estimatedProfitPercentage);
+      let executed = 0;
+      
+      for (const route of routes) {
+        const signature = `${route.asset}|${this.getRouteSignature(route)}`;
+        let reason = this.getAutoExecutionSkipReason(route);
+        if (!reason && executed >= this.autoExecutionPolicy.maxExecutionsPerCycle) {
+          reason = `Per-cycle limit of ${this.autoExecutionPolicy.maxExecutionsPerCycle} auto-executions reached`;
+        }
+        
+        if (reason) {
+          if (this.lastSkipReason.get(signature) !== reason) {
+            this.lastSkipReason.set(signature, reason);
+            this.logAutoExecutionDecision(route, 'skipped', reason);
+          }
+          continue;
+        }
+        
+        executed++;
+        this.lastSkipReason.delete(signature);
+        try {
+          const result = await this.executeRoute(route.id);
+          this.logAutoExecutionDecision(route, 'executed', "Matched auto-execution policy", parseFloat(result.profit));
+        } catch (error) {
+          this.logAutoExecutionDecision(route, 'failed', (error as Error).message);
+        }
+      }
+    } finally {
+      this.isAutoExecuting = false;
+    }
+  }
+  
+  /**
+   * Why the policy or the risk limits rule a route out, or null when it may be executed
+   */
+  private getAutoExecutionSkipReason(route: ArbitrageRoute): string | null {
+    const policy = this.autoExecutionPolicy;
+    const venues = Array.from(new Set(route.steps.map(s => s.exchange)));
+    
+    if (policy.allowedAssets.length > 0 && !policy.allowedAssets.includes(route.asset)) {
+      return `Asset ${route.asset} is not in the allowed assets`;
+    }
+    
+    const blockedVenue = venues.find(venue => policy.allowedVenues.length > 0 && !policy.allowedVenues.includes(venue));
+    if (blockedVenue) {
+      return `Venue ${blockedVenue} is not in the allowed venues`;
+    }
+    
+    if (route.estimatedProfitPercentage < policy.minNetProfitPercentage) {
+      return `Net profit ${route.estimatedProfitPercentage.toFixed(2)}% is below the ${policy.minNetProfitPercentage}% minimum`;
+    }
+    
+    if (route.riskScore > policy.maxRiskScore) {
+      return `Risk score ${route.riskScore} is above the ${policy.maxRiskScore} maximum`;
+    }
+    
+    if (route.confidence < policy.minConfidence) {
+      return `Confidence ${route.confidence.toFixed(2)} is below the ${policy.minConfidence} minimum`;
+    }
+    
+    if (this.activeExecutions >= this.maxConcurrentExecutions) {
+      return "Maximum concurrent executions reached";
+    }
+    
+    const check = this.riskManager.checkRoute(this.getRouteExposure(route));
+    if (!check.allowed) {
+      return `Risk check failed: ${check.reasons.join('; ')}`;
+    }
+    
+    return null;
+  }
+  
+  private logAutoExecutionDecision(route: ArbitrageRoute, decision: AutoExecutionDecision['decision'], reason: string, netProfit?: number) {
+    this.autoExecutionLog.push({
+      routeId: route.id,
+      asset: route.asset,
+      venues: Array.from(new Set(route.steps.map(s => s.exchange))),
+      decision,
+      reason,
+      estimatedProfitPercentage: route.estimatedProfitPercentage,
+      riskScore: route.riskScore,
+      confidence: route.confidence,
+      netProfit,
+      timestamp: new Date(this.clock.now())
+    });
+    if (this.autoExecutionLog.length > this.maxAutoExecutionLogSize) {
+      this.autoExecutionLog.shift();
+    }
+    
+    if (decision !== 'skipped') {
+      console.log(`ArbitrageService: Auto-execution ${decision} route ${route.id}: ${reason}`);
+    }
+  }
+  
+  /**
+   * Run a route once it passes the risk limits, counting its exposure while it executes
+   */
+  private async runGuardedRoute(route: ArbitrageRoute, expectedProfit: number): Promise<ExecutionSummary> {
+    return this.runWithinRiskLimits(route.id, this.getRouteExposure(route), () => this.runRoute(route, expectedProfit));
+  }
+  
+  /**
+   * Place orders under the risk limits: every venue must be enabled and healthy
+   * and the exposure must pass the limits; it counts as in flight until
+   * `execute` settles. Strategies trading outside the route engine open their
+   * positions through here too.
+   */
+  async runWithinRiskLimits<T>(id: string, exposure: RouteExposure, execute: () => Promise<T>): Promise<T> {
+    const venues = Object.keys(exposure.byVenue);
+    const disabled = venues.filter(name => this.disabledExchanges.has(name));
+    if (disabled.length > 0) {
+      throw new Error(`Exchange ${disabled.join(', ')} is disabled`);
+    }
+    
+    const quarantined = venues.filter(name => !this.exchangeHealth.isAvailable(name));
+    if (quarantined.length > 0) {
+      throw new Error(`Exchange ${quarantined.join(', ')} is quarantined`);
+    }
+    
+    const check = this.riskManager.checkRoute(exposure);
+    if (!check.allowed) {
+      throw new Error(`Risk check failed: ${check.reasons.join('; ')}`);
+    }
+    
+    this.riskManager.reserve(id, exposure);
+    try {
+      return await execute();
+    } finally {
+      this.riskManager.release(id);
+    }
+  }
+  
+  /**
+   * USD notional a route puts at risk: its largest leg, per asset and per venue
+   */
+  private getRouteExposure(route: ArbitrageRoute): RouteExposure {
+    const exposure: RouteExposure = { tradeNotionalUsd: 0, byAsset: {}, byVenue: {} };
+    
+    route.steps.forEach(step => {
+      const base = step.pair?.base ?? route.asset;
+      const quotePrice = step.pair ? this.getReferencePrice(step.pair.quote) : 1;
+      const notional = step.amount * step.expectedPrice * quotePrice;
+      
+      exposure.tradeNotionalUsd = Math.max(exposure.tradeNotionalUsd, notional);
+      exposure.byAsset[base] = Math.max(exposure.byAsset[base] || 0, notional);
+      exposure.byVenue[step.exchange] = (exposure.byVenue[step.exchange] || 0) + notional;
+    });
+    
+    return exposure;
+  }
+  
+  /**
+   * Run a route's steps, recording every fill and the realized profit
+   *
+   * Steps run in order, or all at once in concurrent mode when none of them
+   * depends on another's output (plain legs against USD). Orders still unfilled
+   * when the route's latency budget runs out are cancelled.
+   *
+   * When a step fails after other steps have filled, the leg is recovered
+   * before giving up: retried on the same venue, then sent to the next-best
+   * venues by cached price, and finally the filled legs are market-unwound.
+   * Every attempt is recorded as a step so residual exposure is never hidden.
+   */
+  private async runRoute(route: ArbitrageRoute, expectedProfit: number): Promise<ExecutionSummary> {
+    const concurrent = this.executionMode === 'concurrent' && route.steps.every(step => !step.pair);
+    
+    // Create execution summary
+    const executionSummary: ExecutionSummary = {
+      routeId: route.id,
+      success: false,
+      asset: route.asset,
+      startTime: new Date(this.clock.now()),
+      endTime: new Date(this.clock.now()),
+      steps: [],
+      executionMode: concurrent ? 'concurrent' : 'sequential',
+      expectedProfit,
+      actualProfit: 0,
+      profitDifference: 0,
+      gasCost: 0,
+      netProfit: 0,
+      executionTimeMs: 0
+    };
+    
+    this.emit({
+      type: 'execution.started',
+      routeId: route.id,
+      asset: route.asset,
+      executionMode: executionSummary.executionMode,
+      plannedSteps: route.steps.length
+    });
+    
+    // Cancel whatever has not filled once the latency budget is spent
+    const budget = new AbortController();
+    const cancelBudget = this.clock.setTimer(this.maxExecutionTimeMs, () => budget.abort());
+    
+    try {
+      if (concurrent) {
+        await this.runLegsConcurrently(route, executionSummary, budget.signal);
+      } else {
+        await this.runLegsSequentially(route, executionSummary, budget.signal);
+      }
+      
+      // All steps succeeded
+      executionSummary.success = true;
+      executionSummary.latencyBudgetExceeded = budget.signal.aborted;
+      this.settleExecutionProfit(route, executionSummary);
+      
+      // Calculate execution time
+      executionSummary.endTime = new Date(this.clock.now());
+      executionSummary.executionTimeMs = executionSummary.endTime.getTime() - executionSummary.startTime.getTime();
+      
+      // Record execution in history
+      await this.recordExecution(executionSummary);
+      
+      return executionSummary;
+    } catch (error) {
+      // Record failed execution, including any loss realized while unwinding
+      executionSummary.success = false;
+      executionSummary.latencyBudgetExceeded = budget.signal.aborted;
+      if (executionSummary.steps.some(s => s.success)) {
+        this.settleExecutionProfit(route, executionSummary);
+      }
+      executionSummary.endTime = new Date(this.clock.now());
+      executionSummary.executionTimeMs = executionSummary.endTime.getTime() - executionSummary.startTime.getTime();
+      await this.recordExecution(executionSummary);
+      
+      throw error;
+    } finally {
+      cancelBudget();
+    }
+  }
+  
+  /**
+   * Execute steps one at a time, recovering a failed step before moving on
+   */
+  private async runLegsSequentially(route: ArbitrageRoute, executionSummary: ExecutionSummary, signal: AbortSignal) {
+    for (let i = 0; i < route.steps.length; i++) {
+      const step = route.steps[i];
+      const asset = step.pair?.base ?? route.asset;
+      const market = step.pair ? `${step.pair.base}/${step.pair.quote}` : asset;
+      console.log(`Executing ${step.action} of ${step.amount} ${market} on ${step.exchange}`);
+      
+      const tradeResult = await this.executeStep(executionSummary, {
+        exchange: step.exchange,
+        asset,
+        pair: step.pair,
+        action: step.action,
+        amount: step.amount,
+        expectedPrice: step.expectedPrice,
+        expectedFillPrice: step.expectedFillPrice,
+        signal
+      });
+      
+      if (tradeResult.success) continue;
+      
+      // Nothing has filled yet, so there is no position to protect
+      if (!executionSummary.steps.some(s => s.success)) {
+        throw new Error(`Trade execution failed on ${step.exchange}: ${tradeResult.error}`);
+      }
+      
+      await this.recoverOrThrow(route, i, executionSummary, tradeResult, signal);
+    }
+  }
+  
+  /**
+   * Fire every leg at once, then recover the legs that failed
+   */
+  private async runLegsConcurrently(route: ArbitrageRoute, executionSummary: ExecutionSummary, signal: AbortSignal) {
+    console.log(`Executing ${route.steps.length} legs of ${route.asset} concurrently`);
+    
+    const results = await Promise.all(route.steps.map(step => this.executeStep(executionSummary, {
+      exchange: step.exchange,
+      asset: route.asset,
+      action: step.action,
+      amount: step.amount,
+      expectedPrice: step.expectedPrice,
+      expectedFillPrice: step.expectedFillPrice,
+      signal
+    })));
+    
+    if (results.every(result => !result.success)) {
+      throw new Error(`Trade execution failed on every leg: ${results.map(r => r.error).join('; ')}`);
+    }
+    
+    for (let i = 0; i < results.length; i++) {
+      if (!results[i].success) {
+        await this.recoverOrThrow(route, i, executionSummary, results[i], signal);
+      }
+    }
+  }
+  
+  /**
+   * Recover a failed leg, throwing with the recovery outcome when the route cannot continue
+   */
+  private async recoverOrThrow(route: ArbitrageRoute, stepIndex: number, executionSummary: ExecutionSummary, failure: TradeResult, signal: AbortSignal) {
+    const recovered = await this.recoverLeg(route, stepIndex, executionSummary, signal);
+    if (!recovered) {
+      const outcome = executionSummary.recovery!.status === 'unwound'
+        ? 'filled legs were unwound'
+        : 'residual exposure remains open';
+      throw new Error(`Trade execution failed on ${route.steps[stepIndex].exchange}: ${failure.error}; ${outcome}`);
+    }
+  }
+  
+  /**
+   * Add an execution to the in-memory history, the risk counters and the stored trade ledger
+   *
+   * Ledger write failures are logged rather than thrown; the trades have
+   * already happened and the in-memory history still has them.
+   */
+  private async recordExecution(executionSummary: ExecutionSummary) {
+    this.executionHistory.push(executionSummary);
+    this.emit({
+      type: 'execution.completed',
+      routeId: executionSummary.routeId,
+      asset: executionSummary.asset,
+      success: executionSummary.success,
+      netProfit: executionSummary.netProfit,
+      executionTimeMs: executionSummary.executionTimeMs
+    });
+    
+    // Residual exposure counts against the limits until an operator clears it
+    const residualUsd: Record<string, number> = {};
+    Object.entries(executionSummary.recovery?.residualExposure || {}).forEach(([asset, amount]) => {
+      residualUsd[asset] = amount * this.getReferencePrice(asset);
+    });
+    this.riskManager.recordExecution(
+      executionSummary.success,
+      executionSummary.netProfit,
+      residualUsd,
+      Array.from(new Set(executionSummary.steps.filter(s => s.success).map(s => s.exchange)))
+    );
+    
+    if (!this.syncToStorage) return;
+    
+    try {
+      const execution = await storage.createArbitrageExecution({
+        routeId: executionSummary.routeId,
+        asset: executionSummary.asset,
+        success: executionSummary.success,
+        executionMode: executionSummary.executionMode,
+        expectedProfit: executionSummary.expectedProfit.toString(),
+        actualProfit: executionSummary.actualProfit.toString(),
+        gasCost: executionSummary.gasCost.toString(),
+        netProfit: executionSummary.netProfit.toString(),
+        executionTimeMs: executionSummary.executionTimeMs,
+        recoveryStatus: executionSummary.recovery?.status ?? null,
+        residualExposure: executionSummary.recovery?.residualExposure ?? null,
+        latencyBudgetExceeded: executionSummary.latencyBudgetExceeded ?? false,
+        paperTrade: this.paperTrading,
+        startTime: executionSummary.startTime,
+        endTime: executionSummary.endTime
+      });
+      
+      for (let i = 0; i < executionSummary.steps.length; i++) {
+        const step = executionSummary.steps[i];
+        await storage.createArbitrageFill({
+          executionId: execution.id,
+          stepIndex: i,
+          exchange: step.exchange,
+          action: step.action,
+          baseAsset: step.pair?.base ?? executionSummary.asset,
+          quoteAsset: step.pair?.quote ?? "USD",
+          expectedPrice: step.expectedPrice.toString(),
+          actualPrice: step.actualPrice.toString(),
+          amount: step.amount.toString(),
+          fee: step.fee.toString(),
+          success: step.success,
+          txId: step.txId || null,
+          error: step.error ?? null,
+          recoveryStage: step.recoveryStage ?? null,
+          latencyMs: step.latencyMs ?? null,
+          timestamp: executionSummary.endTime
+        });
+      }
+    } catch (error) {
+      console.error(`Error storing execution of route ${executionSummary.routeId}:`, error);
+    }
+  }
+  
+  /**
+   * Place one leg of an execution placed outside the route engine
+   *
+   * Legs take the same path as route legs: paper trades are checked against
+   * and settled on the virtual portfolio, the venue's latency and health are
+   * recorded and the leg is streamed. Opening legs are refused on disabled or
+   * quarantined venues; legs that reduce exposure, such as closes and unwinds,
+   * are always placed.
+   */
+  async executeLeg(
+    executionSummary: ExecutionSummary,
+    leg: {
+      exchange: string;
+      asset: string;
+      instrument: 'spot' | 'perp';
+      action: 'buy' | 'sell';
+      amount: number;
+      expectedPrice: number;
+      recoveryStage?: RecoveryStage;
+      reducesExposure?: boolean;
+    }
+  ): Promise<TradeResult> {
+    return this.executeStep(executionSummary, {
+      ...leg,
+      pair: { base: leg.asset, quote: USD_QUOTE }, // Names the asset on a summary covering several
+      requireUsableVenue: !leg.reducesExposure && leg.recoveryStage === undefined
+    });
+  }
+  
+  /**
+   * Announce an execution placed outside the route engine on the event stream
+   */
+  announceExecution(executionSummary: ExecutionSummary, plannedSteps: number) {
+    this.emit({
+      type: 'execution.started',
+      routeId: executionSummary.routeId,
+      asset: executionSummary.asset,
+      executionMode: executionSummary.executionMode,
+      plannedSteps
+    });
+  }
+  
+  /**
+   * Place a single trade, settle it on the paper account when paper trading,
+   * and record it on the execution summary
+   */
+  private async executeStep(
+    executionSummary: ExecutionSummary,
+    order: {
+      exchange: string;
+      asset: string;
+      pair?: TradingPair;
+      instrument?: 'spot' | 'perp'; // Unset means spot
+      action: 'buy' | 'sell';
+      amount: number;
+      expectedPrice: number;
+      expectedFillPrice?: number;
+      recoveryStage?: RecoveryStage;
+      signal?: AbortSignal; // Route latency budget; unwinds run without one
+      requireUsableVenue?: boolean; // Refuse disabled and quarantined venues
+    }
+  ): Promise<TradeResult> {
+    const exchange = this.monitoredExchanges.find(e => e.name === order.exchange);
+    // Perps settle on the venue's own margin account, outside the paper inventory
+    const paper = this.paperTrading && order.instrument !== 'perp';
+    let tradeResult: TradeResult;
+    let latencyMs: number | undefined;
+    
+    if (!exchange) {
+      tradeResult = this.rejectedTrade(order.asset, `Exchange ${order.exchange} not found`);
+    } else if (order.requireUsableVenue && !this.isExchangeUsable(order.exchange)) {
+      const state = this.disabledExchanges.has(order.exchange) ? 'disabled' : 'quarantined';
+      tradeResult = this.rejectedTrade(order.asset, `Exchange ${order.exchange} is ${state}`);
+    } else if (order.signal?.aborted) {
+      tradeResult = this.rejectedTrade(order.asset, `Cancelled: route exceeded its ${this.maxExecutionTimeMs}ms latency budget`);
+    } else {
+      // Paper trades must be covered by the virtual inventory held on the venue
+      const check = paper
+        ? this.paperPortfolio.checkBalance(
+            order.exchange,
+            order.asset,
+            order.pair?.quote,
+            order.action,
+            order.amount,
+            order.expectedFillPrice ?? order.expectedPrice,
+            this.feeModel.getTradingFeeRate(exchange)
+          )
+        : null;
+      
+      if (check && !check.ok) {
+        tradeResult = this.rejectedTrade(
+          order.asset,
+          `Insufficient balance: ${order.exchange} holds ${check.available} ${check.asset}, trade needs ${check.required}`
+        );
+      } else {
+        const submittedAt = this.clock.now();
+        tradeResult = order.instrument === 'perp'
+          ? await exchange.executePerpTrade(order.asset, order.amount, order.action, order.signal)
+          : await exchange.executeTrade(order.asset, order.amount, order.action, order.pair?.quote, order.signal);
+        latencyMs = this.clock.now() - submittedAt;
+        
+        // Cancelled orders say nothing about how fast or reliably the venue fills
+        if (!order.signal?.aborted) {
+          this.recordLegLatency(order.exchange, latencyMs);
+          this.exchangeHealth.recordRequest(order.exchange, tradeResult.success, latencyMs);
+        }
+      }
+    }
+    
+    if (paper && tradeResult.success) {
+      try {
+        this.paperPortfolio.settle(
+          order.exchange,
+          order.asset,
+          order.pair?.quote,
+          order.action,
+          tradeResult.amount,
+          tradeResult.price,
+          tradeResult.fee,
+          tradeResult.timestamp
+        );
+      } catch (error) {
+        // The fill moved past what the account can cover
+        tradeResult.success = false;
+        tradeResult.error = (error as Error).message;
+      }
+    }
+    
+    // Record step execution
+    executionSummary.steps.push({
+      exchange: order.exchange,
+      action: order.action,
+      pair: order.pair,
+      instrument: order.instrument,
+      expectedPrice: order.expectedPrice,
+      actualPrice: tradeResult.price,
+      amount: tradeResult.success ? tradeResult.amount : 0,
+      fee: tradeResult.success ? tradeResult.fee : 0,
+      success: tradeResult.success,
+      txId: tradeResult.txId,
+      error: tradeResult.error,
+      recoveryStage: order.recoveryStage,
+      latencyMs
+    });
+    this.emit({
+      type: 'execution.leg',
+      routeId: executionSummary.routeId,
+      asset: executionSummary.asset,
+      leg: executionSummary.steps[executionSummary.steps.length - 1]
+    });
+    
+    return tradeResult;
+  }
+  
+  /**
+   * Recovery state machine for a failed leg while other legs hold a position
+   *
+   * retry -> fallback -> unwind. Returns true when the leg was eventually
+   * filled and the route can continue; otherwise the filled legs have been
+   * unwound (or the residual exposure recorded) and the route must stop.
+   */
+  private async recoverLeg(route: ArbitrageRoute, stepIndex: number, executionSummary: ExecutionSummary, signal?: AbortSignal): Promise<boolean> {
+    const step = route.steps[stepIndex];
+    const asset = step.pair?.base ?? route.asset;
+    const failedSteps = (executionSummary.recovery?.failedSteps || []).concat(stepIndex);
+    
+    // Retry on the same venue
+    for (let attempt = 1; attempt <= this.maxLegRetries; attempt++) {
+      console.log(`Retrying ${step.action} of ${step.amount} ${asset} on ${step.exchange} (attempt ${attempt})`);
+      const retry = await this.executeStep(executionSummary, {
+        exchange: step.exchange,
+        asset,
+        pair: step.pair,
+        action: step.action,
+        amount: step.amount,
+        expectedPrice: step.expectedPrice,
+        expectedFillPrice: step.expectedFillPrice,
+        recoveryStage: 'retry',
+        signal
+      });
+      if (retry.success) {
+        executionSummary.recovery = { status: 'recovered', failedSteps, residualExposure: {} };
+        return true;
+      }
+    }
+    
+    // Fall back to the next-best venues for the same leg
+    const fallbacks = this.rankFallbackVenues(step.exchange, asset, step.pair?.quote, step.action)
+      .slice(0, this.maxFallbackVenues);
+    for (const venue of fallbacks) {
+      console.log(`Falling back to ${venue.exchange} for ${step.action} of ${step.amount} ${asset}`);
+      const fallback = await this.executeStep(executionSummary, {
+        exchange: venue.exchange,
+        asset,
+        pair: step.pair,
+        action: step.action,
+        amount: step.amount,
+        expectedPrice: venue.price,
+        recoveryStage: 'fallback',
+        signal
+      });
+      if (fallback.success) {
+        executionSummary.recovery = { status: 'recovered', failedSteps, residualExposure: {} };
+        return true;
+      }
+    }
+    
+    // Flatten whatever the filled legs left behind
+    await this.unwindPosition(route, executionSummary);
+    
+    const residualExposure = this.getOpenExposure(route.asset, executionSummary.steps);
+    executionSummary.recovery = {
+      status: Object.keys(residualExposure).length === 0 ? 'unwound' : 'exposed',
+      failedSteps,
+      residualExposure
+    };
+    if (executionSummary.recovery.status === 'exposed') {
+      console.error(`ArbitrageService: Route ${route.id} left residual exposure`, residualExposure);
+    }
+    return false;
+  }
+  
+  /**
+   * Market-unwind every non-stable balance the filled steps left open, on the
+   * venue where it was last traded
+   */
+  private async unwindPosition(route: ArbitrageRoute, executionSummary: ExecutionSummary) {
+    const lastVenue: Record<string, string> = {};
+    executionSummary.steps.filter(s => s.success).forEach(s => {
+      lastVenue[s.pair?.base ?? route.asset] = s.exchange;
+      if (s.pair) lastVenue[s.pair.quote] = s.exchange;
+    });
+    
+    const exposure = this.getOpenExposure(route.asset, executionSummary.steps);
+    for (const [asset, amount] of Object.entries(exposure)) {
+      const action = amount > 0 ? 'sell' : 'buy';
+      
+      for (let attempt = 0; attempt <= this.maxLegRetries; attempt++) {
+        console.log(`Unwinding ${Math.abs(amount)} ${asset} on ${lastVenue[asset]}`);
+        const unwind = await this.executeStep(executionSummary, {
+          exchange: lastVenue[asset],
+          asset,
+          pair: { base: asset, quote: USD_QUOTE },
+          action,
+          amount: Math.abs(amount),
+          expectedPrice: this.getReferencePrice(asset),
+          recoveryStage: 'unwind'
+        });
+        if (unwind.success) break;
+      }
+    }
+  }
+  
+  /**
+   * Other venues that can fill a leg, best cached price first
+   */
+  private rankFallbackVenues(failedExchange: string, asset: string, quote: string | undefined, action: 'buy' | 'sell') {
+    const candidates: Array<{ exchange: string; price: number }> = [];
+    
+    this.monitoredExchanges.forEach(exchange => {
+      if (exchange.name === failedExchange || !this.isExchangeUsable(exchange.name)) return;
+      
+      const listed = isUsdQuote(quote)
+        ? exchange.supportsAsset(asset)
+        : exchange.supportedPairs.some(p => p.base === asset && p.quote === quote);
+      if (!listed) return;
+      
+      const prices = this.validPrices.get(exchange.name);
+      const basePrice = prices?.get(asset);
+      const quotePrice = isUsdQuote(quote) ? 1 : prices?.get(quote!);
+      if (!basePrice || !quotePrice) return;
+      
+      candidates.push({ exchange: exchange.name, price: basePrice / quotePrice });
+    });
+    
+    // Sells want the highest price, buys the lowest
+    return candidates.sort((a, b) => action === 'sell' ? b.price - a.price : a.price - b.price);
+  }
+  
+  /**
+   * Fill profit, gas and net profit for the trades an execution actually made
+   */
+  private settleExecutionProfit(route: ArbitrageRoute, executionSummary: ExecutionSummary) {
+    // Calculate actual profit
+    executionSummary.actualProfit = this.calculateRealizedProfit(route.asset, executionSummary.steps);
+    
+    // Every filled DEX swap paid its chain's gas, including retries and unwinds
+    executionSummary.gasCost = executionSummary.steps
+      .filter(step => step.success)
+      .reduce((sum, step) => sum + this.getSwapGasCostUsd(step.exchange), 0);
+      
+    executionSummary.netProfit = executionSummary.actualProfit - executionSummary.gasCost;
+    
+    // The estimate is net of the same fees and gas, so the two compare like-for-like
+    executionSummary.profitDifference = executionSummary.netProfit - executionSummary.expectedProfit;
+  }
+  
+  /**
+   * Net change in every asset across the successful steps
+   *
+   * Buys add base and spend quote (plus fee); sells do the reverse. Plain steps
+   * trade the route asset against USD.
+   */
+  private getNetFlows(routeAsset: string, steps: ExecutionSummary['steps']): Record<string, number> {
+    const flows: Record<string, number> = {};
+    
+    steps.filter(step => step.success).forEach(step => {
+      const base = step.pair?.base ?? routeAsset;
+      const quote = step.pair?.quote ?? "USD";
+      const notional = step.amount * step.actualPrice;
+      const direction = step.action === 'buy' ? 1 : -1;
+      
+      flows[base] = (flows[base] || 0) + direction * step.amount;
+      flows[quote] = (flows[quote] || 0) - direction * notional - step.fee;
+    });
+    
+    return flows;
+  }
+  
+  /**
+   * Non-stable balances an execution is still holding (+) or short (-); steps
+   * without a pair trade the route asset
+   */
+  getOpenExposure(routeAsset: string, steps: ExecutionSummary['steps']): Record<string, number> {
+    const exposure: Record<string, number> = {};
+    Object.entries(this.getNetFlows(routeAsset, steps)).forEach(([asset, amount]) => {
+      if (!isUsdQuote(asset) && Math.abs(amount) > 1e-9) {
+        exposure[asset] = amount;
+      }
+    });
+    return exposure;
+  }
+  
+  /**
+   * Realized profit in USD from the net flow of every asset a route touched
+   *
+   * For a plain buy/sell pair the base nets out and this reduces to sell
+   * proceeds minus buy cost; for multi-hop routes each leftover balance is
+   * valued at reference prices.
+   */
+  private calculateRealizedProfit(routeAsset: string, steps: ExecutionSummary['steps']): number {
+    return Object.entries(this.getNetFlows(routeAsset, steps)).reduce((total, [asset, amount]) => {
+      if (Math.abs(amount) < 1e-12) return total;
+      return total + amount * this.getReferencePrice(asset);
+    }, 0);
+  }
+  
+  private recordLegLatency(exchangeName: string, latencyMs: number) {
+    if (!this.legLatency.has(exchangeName)) {
+      this.legLatency.set(exchangeName, new LatencyHistogram());
     }
+    this.legLatency.get(exchangeName)!.record(latencyMs);
+  }
+  
+  // Trade result for an order that never reached the venue
+  private rejectedTrade(asset: string, error: string): TradeResult {
+    return {
+      success: false,
+      txId: '',
+      asset,
+      amount: 0,
+      price: 0,
+      fee: 0,
+      timestamp: new Date(this.clock.now()),
+      error
+    };
+  }
+  
+  /**
+   * Reference USD price for an asset: the median of the filtered venue prices
+   */
+  getReferencePrice(asset: string): number {
+    if (isUsdQuote(asset)) return 1;
+    
+    const prices: number[] = [];
+    this.validPrices.forEach(exchangePrices => {
+      const price = exchangePrices.get(asset);
+      if (price !== undefined) prices.push(price);
+    });
+    if (prices.length === 0) return 0;
+    
+    prices.sort((a, b) => a - b);
+    const mid = Math.floor(prices.length / 2);
+    return prices.length % 2 === 0 ? (prices[mid - 1] + prices[mid]) / 2 : prices[mid];
+  }
+  
+  /**
+   * Shape an execution summary for API responses
+   */
+  private formatExecutionResult(executionSummary: ExecutionSummary) {
+    return {
+      executionId: `execution-${Date.now()}`,
+      profit: executionSummary.netProfit.toFixed(2),
+      expectedProfit: executionSummary.expectedProfit.toFixed(2),
+      profitDifference: executionSummary.profitDifference.toFixed(2),
+      executionTimeMs: executionSummary.executionTimeMs,
+      executionMode: executionSummary.executionMode,
+      latencyBudgetExceeded: executionSummary.latencyBudgetExceeded,
+      steps: executionSummary.steps.map(s => ({
+        exchange: s.exchange,
+        action: s.action,
+        price: s.actualPrice,
+        success: s.success,
+        recoveryStage: s.recoveryStage,
+        latencyMs: s.latencyMs
+      })),
+      recovery: executionSummary.recovery,
+      timestamp: new Date()
+    };
   }
   
   /**
@@ -591,29 +1968,59 @@ export class ArbitrageService {
     return exchange?.type || 'DEX';
   }
   
+  /**
+   * Get the taker fee rate charged by an exchange, falling back to the
+   * typical rate for its type when the venue is unknown
+   */
+  private getTakerFeeRate(exchangeName: string): number {
+    const exchange = this.monitoredExchanges.find(e => e.name === exchangeName);
+    if (exchange) return this.feeModel.getTradingFeeRate(exchange);
+    return this.getExchangeType(exchangeName) === 'DEX' ? 0.003 : 0.001;
+  }
+  
+  /**
+   * USD gas one swap on the venue pays; zero for central venues
+   */
+  private getSwapGasCostUsd(exchangeName: string): number {
+    const exchange = this.monitoredExchanges.find(e => e.name === exchangeName);
+    return this.feeModel.getSwapGasCostUsd(exchange, asset => this.getReferencePrice(asset) || BASELINE_PRICES[asset] || 0);
+  }
+  
+  /**
+   * USD gas of a flash-loan bundle: both swaps plus the borrow and repay calls
+   */
+  private getFlashLoanGasCostUsd(buyExchange: string, sellExchange: string): number {
+    return this.getSwapGasCostUsd(buyExchange) * (1 + FLASH_LOAN_GAS_SWAP_EQUIVALENTS) + this.getSwapGasCostUsd(sellExchange);
+  }
+  
   /**
    * Detect arbitrage opportunities across all exchanges
    */
   private async detectArbitrageOpportunities() {
     console.log("ArbitrageService: Detecting arbitrage opportunities");
     
-    // Clear old routes that are no longer profitable
-    this.arbitrageRoutes = this.arbitrageRoutes.filter(route => 
-      route.estimatedProfitPercentage >= this.minProfitThreshold
-    );
+    // Routes are rebuilt every cycle, so ones that are no longer profitable drop out
+    const previousRoutes = this.arbitrageRoutes;
+    const routes: ArbitrageRoute[] = [];
+    
+    // Order books fetched during this cycle, keyed by exchange:asset
+    const orderBooks: Map<string, OrderBook | null> = new Map();
     
     // For each asset, find the best buy and sell prices across exchanges
     for (const asset of this.monitoredAssets) {
       // Get all prices for this asset across exchanges
-      const assetPrices: Array<{ exchange: string, type: ExchangeType, price: number }> = [];
+      const assetPrices: Array<{ exchange: string, type: ExchangeType, price: number, feeRate: number }> = [];
       
       for (const exchange of this.monitoredExchanges) {
-        const priceMap = this.priceCache.get(exchange.name);
+        if (!this.isExchangeUsable(exchange.name)) continue;
+        
+        const priceMap = this.validPrices.get(exchange.name);
         if (priceMap && priceMap.has(asset)) {
           assetPrices.push({
             exchange: exchange.name,
             type: exchange.type,
-            price: priceMap.get(asset)!
+            price: priceMap.get(asset)!,
+            feeRate: this.feeModel.getTradingFeeRate(exchange)
           });
         }
       }
@@ -638,65 +2045,615 @@ export class ArbitrageService {
           const profitAmount = sellPrice - buyPrice;
           const profitPercentage = (profitAmount / buyPrice) * 100;
           
-          // Apply fees based on exchange types
-          const buyFee = buyOption.type === 'DEX' ? 0.003 : 0.001; // 0.3% for DEX, 0.1% for CEX
-          const sellFee = sellOption.type === 'DEX' ? 0.003 : 0.001; // 0.3% for DEX, 0.1% for CEX
+          // Apply each venue's taker fee
+          const buyFee = buyOption.feeRate;
+          const sellFee = sellOption.feeRate;
           
           const totalFees = (buyPrice * buyFee) + (sellPrice * sellFee);
           const netProfitAmount = profitAmount - totalFees;
           const netProfitPercentage = (netProfitAmount / buyPrice) * 100;
           
-          // Only consider if profit meets threshold
-          if (netProfitPercentage >= this.minProfitThreshold) {
-            // Create a route for this opportunity
-            const route: ArbitrageRoute = {
-              id: `route-${Date.now()}-${Math.floor(Math.random() * 10000)}`,
-              asset,
-              steps: [
-                {
-                  exchange: buyOption.exchange,
-                  type: buyOption.type,
-                  action: 'buy',
-                  expectedPrice: buyPrice,
-                  amount: 1.0, // Default amount
-                  estimatedFee: buyPrice * buyFee
-                },
-                {
-                  exchange: sellOption.exchange,
-                  type: sellOption.type,
-                  action: 'sell',
-                  expectedPrice: sellPrice,
-                  amount: 1.0, // Same as buy amount
-                  estimatedFee: sellPrice * sellFee
-                }
-              ],
-              estimatedProfitAmount: netProfitAmount,
-              estimatedProfitPercentage: netProfitPercentage,
-              estimatedExecutionTimeMs: 3000 + Math.random() * 2000,
-              riskScore: this.calculateRiskScore(buyOption, sellOption, netProfitPercentage),
-              confidence: this.calculateConfidence(buyOption, sellOption, netProfitPercentage)
-            };
-            
-            // Add to routes if not already present
-            if (!this.arbitrageRoutes.some(r => 
-              r.asset === route.asset && 
-              r.steps[0].exchange === route.steps[0].exchange && 
-              r.steps[1].exchange === route.steps[1].exchange
-            )) {
-              this.arbitrageRoutes.push(route);
-              
-              console.log(`New arbitrage route detected: ${asset} - Buy on ${buyOption.exchange} at ${buyPrice}, Sell on ${sellOption.exchange} at ${sellPrice}, Profit: ${netProfitPercentage.toFixed(2)}%`);
-            }
+          // Only size the trade if the top of book clears the threshold
+          if (netProfitPercentage < this.minProfitThreshold) continue;
+          
+          // Walk both books to find the profit-maximizing size after slippage and fees
+          const buyBook = await this.getCycleOrderBook(orderBooks, buyOption.exchange, asset);
+          const sellBook = await this.getCycleOrderBook(orderBooks, sellOption.exchange, asset);
+          if (!buyBook || !sellBook) continue;
+          
+          // DEX legs also pay their chain's gas
+          const gasCost = this.getSwapGasCostUsd(buyOption.exchange) + this.getSwapGasCostUsd(sellOption.exchange);
+          
+          // The cap applies to the buy cost, but the risk check also measures the
+          // larger sell leg, so scale it down to keep both legs within the limit.
+          // The size is the largest that still clears the threshold after gas.
+          const maxNotional = Math.min(this.maxTradeNotionalUsd, this.riskManager.getLimits().maxTradeNotionalUsd);
+          const sizing = sizeAgainstOrderBooks(
+            buyBook.asks,
+            sellBook.bids,
+            buyFee,
+            sellFee,
+            maxNotional * (buyPrice / sellPrice),
+            { minProfitPercentage: this.minProfitThreshold, fixedCost: gasCost }
+          );
+          if (sizing.amount <= 0) continue;
+          
+          const netProfit = sizing.netProfit - gasCost;
+          const sizedProfitPercentage = (netProfit / sizing.buyCost) * 100;
+          if (sizedProfitPercentage < this.minProfitThreshold) continue;
+          
+          // Create a route for this opportunity
+          const route: ArbitrageRoute = {
+            id: `route-${this.clock.now()}-${Math.floor(Math.random() * 10000)}`,
+            asset,
+            steps: [
+              {
+                exchange: buyOption.exchange,
+                type: buyOption.type,
+                action: 'buy',
+                expectedPrice: buyPrice,
+                expectedFillPrice: sizing.avgBuyPrice,
+                amount: sizing.amount,
+                estimatedFee: sizing.buyFee
+              },
+              {
+                exchange: sellOption.exchange,
+                type: sellOption.type,
+                action: 'sell',
+                expectedPrice: sellPrice,
+                expectedFillPrice: sizing.avgSellPrice,
+                amount: sizing.amount, // Same as buy amount
+                estimatedFee: sizing.sellFee
+              }
+            ],
+            depthLimitedSize: sizing.amount,
+            estimatedProfitAmount: netProfit,
+            estimatedProfitPercentage: sizedProfitPercentage,
+            estimatedGasCost: gasCost,
+            estimatedExecutionTimeMs: 3000 + Math.random() * 2000,
+            riskScore: this.calculateRiskScore(buyOption, sellOption, sizedProfitPercentage),
+            confidence: this.calculateConfidence(buyOption, sellOption, sizedProfitPercentage)
+          };
+          
+          const sameVenues = (r: ArbitrageRoute) =>
+            r.asset === route.asset && 
+            r.steps[0].exchange === route.steps[0].exchange && 
+            r.steps[1].exchange === route.steps[1].exchange;
+          if (routes.some(sameVenues)) continue;
+          
+          // Keep the id of a route that was already being tracked so it stays executable
+          const existing = previousRoutes.find(sameVenues);
+          if (existing) {
+            route.id = existing.id;
+          } else {
+            console.log(`New arbitrage route detected: ${asset} - Buy ${sizing.amount.toFixed(4)} on ${buyOption.exchange} at ${sizing.avgBuyPrice}, Sell on ${sellOption.exchange} at ${sizing.avgSellPrice}, Profit: ${sizedProfitPercentage.toFixed(2)}%`);
           }
+          routes.push(route);
         }
       }
     }
     
     // Sort routes by profit percentage (descending)
-    this.arbitrageRoutes.sort((a, b) => b.estimatedProfitPercentage - a.estimatedProfitPercentage);
+    this.arbitrageRoutes = routes.sort((a, b) => b.estimatedProfitPercentage - a.estimatedProfitPercentage);
     
     // Map routes to storage format and sync with database
-    this.syncRoutesToStorage();
+    if (this.syncToStorage) {
+      this.syncRoutesToStorage();
+    }
+  }
+  
+  /**
+   * Detect triangular and multi-hop cycles over trading pairs
+   *
+   * Builds a graph whose nodes are assets and whose edges are fee-adjusted
+   * conversions (weight -ln(rate)), then looks for negative cycles both within
+   * each venue and across venues using the best rate for each conversion.
+   */
+  private async detectMultiHopOpportunities() {
+    console.log("ArbitrageService: Detecting multi-hop opportunities");
+    
+    const availableExchanges = this.monitoredExchanges.filter(exchange => this.isExchangeUsable(exchange.name));
+    const venueEdges = await Promise.all(availableExchanges.map(async exchange => {
+      try {
+        // Only trust pairs whose assets have a venue price that passed the price filter
+        const validPrices = this.validPrices.get(exchange.name);
+        const quotes = (await exchange.getPairQuotes()).filter(quote =>
+          validPrices?.has(quote.base) && (isUsdQuote(quote.quote) || validPrices.has(quote.quote))
+        );
+        return buildRateEdges(exchange.name, exchange.type, this.feeModel.getTradingFeeRate(exchange), quotes);
+      } catch (error) {
+        console.error(`Error fetching pair quotes from ${exchange.name}:`, error);
+        return [] as RateEdge[];
+      }
+    }));
+    
+    const cycles: RateEdge[][] = [];
+    
+    // Single-venue cycles (classic triangular arbitrage)
+    venueEdges.forEach(edges => {
+      cycles.push(...findArbitrageCycles(edges, this.maxRouteHops, 2));
+    });
+    
+    // Cross-venue cycles through the best venue for each conversion
+    const allEdges = venueEdges.reduce((all, edges) => all.concat(edges), [] as RateEdge[]);
+    cycles.push(...findArbitrageCycles(bestEdges(allEdges), this.maxRouteHops, 5));
+    
+    const routes: ArbitrageRoute[] = [];
+    const signatures: Set<string> = new Set();
+    
+    cycles.forEach(cycle => {
+      const route = this.buildMultiHopRoute(cycle);
+      if (!route || route.estimatedProfitPercentage < this.minProfitThreshold) return;
+      
+      const signature = this.getRouteSignature(route);
+      if (signatures.has(signature)) return;
+      signatures.add(signature);
+      
+      // Keep the id of a route that was already being tracked so it stays executable
+      const existing = this.multiHopRoutes.find(r => this.getRouteSignature(r) === signature);
+      if (existing) {
+        route.id = existing.id;
+      } else {
+        console.log(`New multi-hop route detected: ${route.steps.map(s => `${s.action} ${s.pair?.base}/${s.pair?.quote} on ${s.exchange}`).join(' -> ')}, Profit: ${route.estimatedProfitPercentage.toFixed(2)}%`);
+      }
+      routes.push(route);
+    });
+    
+    this.multiHopRoutes = routes.sort((a, b) => b.estimatedProfitPercentage - a.estimatedProfitPercentage);
+  }
+  
+  /**
+   * Convert a detected cycle into an executable route sized in its starting asset
+   */
+  private buildMultiHopRoute(cycle: RateEdge[]): ArbitrageRoute | null {
+    // Prefer starting and ending in a stablecoin so profit is measured in USD
+    const ordered = rotateCycle(cycle, ["USDC", "USDT", "USD"]);
+    const startAsset = ordered[0].from;
+    const startPrice = this.getReferencePrice(startAsset);
+    if (startPrice <= 0) return null;
+    
+    const startAmount = this.maxMultiHopNotionalUsd / startPrice;
+    let held = startAmount;
+    
+    const steps: ArbitrageRoute['steps'] = ordered.map(edge => {
+      let amount: number;
+      let fee: number;
+      
+      if (edge.action === 'buy') {
+        // Spend everything held (in quote) on base, leaving room for the fee
+        amount = held / (edge.price * (1 + edge.feeRate));
+        fee = amount * edge.price * edge.feeRate;
+        held = amount;
+      } else {
+        // Sell everything held (in base) for quote
+        amount = held;
+        fee = amount * edge.price * edge.feeRate;
+        held = amount * edge.price - fee;
+      }
+      
+      return {
+        exchange: edge.exchange,
+        type: edge.exchangeType,
+        action: edge.action,
+        pair: { base: edge.base, quote: edge.quote },
+        expectedPrice: edge.price,
+        amount,
+        estimatedFee: fee
+      };
+    });
+    
+    const gasCost = steps.reduce((sum, step) => sum + this.getSwapGasCostUsd(step.exchange), 0);
+    const profitAmount = (held - startAmount) * startPrice - gasCost;
+    const profitPercentage = (profitAmount / this.maxMultiHopNotionalUsd) * 100;
+    const extraHops = Math.max(0, steps.length - 2);
+    const first = { exchange: steps[0].exchange, type: steps[0].type };
+    const last = { exchange: steps[steps.length - 1].exchange, type: steps[steps.length - 1].type };
+    
+    return {
+      id: `multihop-${this.clock.now()}-${Math.floor(Math.random() * 10000)}`,
+      asset: startAsset,
+      steps,
+      estimatedProfitAmount: profitAmount,
+      estimatedProfitPercentage: profitPercentage,
+      estimatedGasCost: gasCost,
+      estimatedExecutionTimeMs: steps.length * (1500 + Math.random() * 1000),
+      // Every extra hop adds execution risk
+      riskScore: Math.min(100, this.calculateRiskScore(first, last, profitPercentage) + extraHops * 5),
+      confidence: Math.max(0, this.calculateConfidence(first, last, profitPercentage) - extraHops * 0.05)
+    };
+  }
+  
+  private getRouteSignature(route: ArbitrageRoute): string {
+    return route.steps.map(s => `${s.exchange}:${s.action}:${s.pair?.base}/${s.pair?.quote}`).join('|');
+  }
+  
+  /**
+   * Get currently profitable multi-hop routes
+   */
+  async getMultiHopOpportunities() {
+    // Start monitoring if not already started
+    if (!this.isMonitoring) {
+      this.startMonitoring();
+    }
+    
+    return this.multiHopRoutes;
+  }
+  
+  /**
+   * Detect DEX-DEX spreads that a flash loan can fund without inventory
+   *
+   * Both venues must be on the same chain so that the borrow, the two swaps
+   * and the repayment fit in one transaction. The loan fee scales with the
+   * amount borrowed, so it is sized as part of the buy leg's fee.
+   */
+  private async detectFlashLoanOpportunities() {
+    console.log("ArbitrageService: Detecting flash-loan opportunities");
+    
+    const previousRoutes = this.flashLoanRoutes;
+    const routes: ArbitrageRoute[] = [];
+    const orderBooks: Map<string, OrderBook | null> = new Map();
+    const dexes = this.monitoredExchanges.filter(exchange =>
+      exchange.type === 'DEX' && exchange.chain && this.isExchangeUsable(exchange.name)
+    );
+    
+    for (const asset of this.monitoredAssets) {
+      const quotes = dexes
+        .filter(exchange => this.validPrices.get(exchange.name)?.has(asset))
+        .map(exchange => ({
+          exchange: exchange.name,
+          type: exchange.type,
+          chain: exchange.chain!,
+          price: this.validPrices.get(exchange.name)!.get(asset)!,
+          feeRate: this.feeModel.getTradingFeeRate(exchange)
+        }));
+      
+      for (const buyOption of quotes) {
+        for (const sellOption of quotes) {
+          if (buyOption.exchange === sellOption.exchange || buyOption.chain !== sellOption.chain) continue;
+          if (sellOption.price <= buyOption.price) continue;
+          
+          const pool = selectFlashLoanPool(this.flashLoanPools, buyOption.chain, USD_QUOTE);
+          if (!pool) continue;
+          
+          // Only size the trade if the top of book clears the threshold after the loan fee
+          const topOfBookNet = sellOption.price * (1 - sellOption.feeRate) - buyOption.price * (1 + buyOption.feeRate + pool.feeRate);
+          if ((topOfBookNet / buyOption.price) * 100 < this.minProfitThreshold) continue;
+          
+          const buyBook = await this.getCycleOrderBook(orderBooks, buyOption.exchange, asset);
+          const sellBook = await this.getCycleOrderBook(orderBooks, sellOption.exchange, asset);
+          if (!buyBook || !sellBook) continue;
+          
+          // Profit is measured against the amount borrowed, which includes the buy fee
+          const gasCost = this.getFlashLoanGasCostUsd(buyOption.exchange, sellOption.exchange);
+          const sizing = sizeAgainstOrderBooks(
+            buyBook.asks,
+            sellBook.bids,
+            buyOption.feeRate + pool.feeRate,
+            sellOption.feeRate,
+            Math.min(this.maxTradeNotionalUsd, pool.maxBorrowUsd) / (1 + buyOption.feeRate),
+            { minProfitPercentage: this.minProfitThreshold * (1 + buyOption.feeRate), fixedCost: gasCost }
+          );
+          if (sizing.amount <= 0) continue;
+          
+          // Borrow enough for the buy and its fee
+          const buyFee = sizing.buyCost * buyOption.feeRate;
+          const borrowed = sizing.buyCost + buyFee;
+          const loanFee = borrowed * pool.feeRate;
+          const netProfit = sizing.sellProceeds - sizing.sellFee - borrowed - loanFee - gasCost;
+          const profitPercentage = (netProfit / borrowed) * 100;
+          if (profitPercentage < this.minProfitThreshold) continue;
+          
+          const route: ArbitrageRoute = {
+            id: `flashloan-${this.clock.now()}-${Math.floor(Math.random() * 10000)}`,
+            asset,
+            steps: [
+              {
+                exchange: buyOption.exchange,
+                type: buyOption.type,
+                action: 'buy',
+                expectedPrice: buyOption.price,
+                expectedFillPrice: sizing.avgBuyPrice,
+                amount: sizing.amount,
+                estimatedFee: buyFee
+              },
+              {
+                exchange: sellOption.exchange,
+                type: sellOption.type,
+                action: 'sell',
+                expectedPrice: sellOption.price,
+                expectedFillPrice: sizing.avgSellPrice,
+                amount: sizing.amount,
+                estimatedFee: sizing.sellFee
+              }
+            ],
+            depthLimitedSize: sizing.amount,
+            estimatedProfitAmount: netProfit,
+            estimatedProfitPercentage: profitPercentage,
+            estimatedGasCost: gasCost,
+            estimatedExecutionTimeMs: 1000 + Math.random() * 1000, // One transaction
+            riskScore: this.calculateRiskScore(buyOption, sellOption, profitPercentage),
+            confidence: this.calculateConfidence(buyOption, sellOption, profitPercentage),
+            flashLoan: {
+              pool: pool.name,
+              chain: pool.chain,
+              borrowAsset: USD_QUOTE,
+              borrowed,
+              fee: loanFee
+            }
+          };
+          
+          // Keep the id of a route that was already being tracked
+          const existing = previousRoutes.find(r =>
+            r.asset === asset &&
+            r.steps[0].exchange === buyOption.exchange &&
+            r.steps[1].exchange === sellOption.exchange
+          );
+          if (existing) {
+            route.id = existing.id;
+          }
+          routes.push(route);
+        }
+      }
+    }
+    
+    this.flashLoanRoutes = routes.sort((a, b) => b.estimatedProfitPercentage - a.estimatedProfitPercentage);
+  }
+  
+  /**
+   * Get currently profitable flash-loan routes
+   */
+  getFlashLoanOpportunities(): ArbitrageRoute[] {
+    return [...this.flashLoanRoutes];
+  }
+  
+  getFlashLoanPools(): FlashLoanPool[] {
+    return this.flashLoanPools.map(pool => ({ ...pool, assets: [...pool.assets] }));
+  }
+  
+  /**
+   * Simulate a flash-loan route against the venues' current order books
+   *
+   * Books may have moved since detection, in which case the bundle can come
+   * up short of the repayment and revert, losing only its gas.
+   */
+  async simulateFlashLoan(routeId: string): Promise<FlashLoanSimulation> {
+    const route = this.flashLoanRoutes.find(r => r.id === routeId);
+    if (!route || !route.flashLoan) {
+      throw new Error(`Flash-loan route ${routeId} not found`);
+    }
+    
+    const terms = route.flashLoan;
+    const pool = this.flashLoanPools.find(p => p.name === terms.pool && p.chain === terms.chain);
+    if (!pool) {
+      throw new Error(`Flash-loan pool ${terms.pool} on ${terms.chain} not found`);
+    }
+    
+    const [buyStep, sellStep] = route.steps;
+    const buyExchange = this.getExchange(buyStep.exchange);
+    const sellExchange = this.getExchange(sellStep.exchange);
+    if (!buyExchange || !sellExchange) {
+      throw new Error(`Exchange for route ${routeId} not found`);
+    }
+    
+    const [buyBook, sellBook] = await Promise.all([
+      buyExchange.getOrderBook(route.asset),
+      sellExchange.getOrderBook(route.asset)
+    ]);
+    
+    const simulation = simulateFlashLoanBundle({
+      routeId,
+      asset: route.asset,
+      pool,
+      borrowAsset: terms.borrowAsset,
+      borrowed: terms.borrowed,
+      amount: route.depthLimitedSize ?? buyStep.amount,
+      buy: { exchange: buyExchange.name, action: 'buy', levels: buyBook.asks, feeRate: this.feeModel.getTradingFeeRate(buyExchange) },
+      sell: { exchange: sellExchange.name, action: 'sell', levels: sellBook.bids, feeRate: this.feeModel.getTradingFeeRate(sellExchange) },
+      gasCost: this.getFlashLoanGasCostUsd(buyExchange.name, sellExchange.name),
+      timestamp: new Date(this.clock.now())
+    });
+    
+    this.flashLoanSimulations.push(simulation);
+    if (this.flashLoanSimulations.length > this.maxFlashLoanSimulations) {
+      this.flashLoanSimulations.shift();
+    }
+    
+    console.log(simulation.reverted
+      ? `ArbitrageService: Flash-loan route ${routeId} reverted: ${simulation.revertReason}`
+      : `ArbitrageService: Flash-loan route ${routeId} repaid ${simulation.repaid.toFixed(2)} ${simulation.borrowAsset}, net profit ${simulation.netProfit.toFixed(2)}`);
+    return simulation;
+  }
+  
+  /**
+   * Recent flash-loan simulations, newest first
+   */
+  getFlashLoanSimulations(limit: number = 100): FlashLoanSimulation[] {
+    return this.flashLoanSimulations.slice(-limit).reverse();
+  }
+  
+  /**
+   * Detect cash-and-carry trades: buy spot on one venue and short the perpetual on another (or the same)
+   *
+   * The short collects funding while the rate is positive and the perp's
+   * premium over spot is earned as it converges, so a route's profit is
+   * counted over the holding period: entry basis plus the funding expected
+   * at the current rate, less opening and closing fees on both legs. The
+   * funding is folded into the perp leg's fee when sizing against the spot
+   * book, so the spot buy grows only while the carry still pays for it.
+   */
+  private async detectBasisOpportunities() {
+    console.log("ArbitrageService: Detecting basis opportunities");
+    
+    const previousRoutes = this.basisRoutes;
+    const routes: ArbitrageRoute[] = [];
+    const orderBooks: Map<string, OrderBook | null> = new Map();
+    const usable = this.monitoredExchanges.filter(exchange => this.isExchangeUsable(exchange.name));
+    
+    // Refresh perp quotes on every venue listing perpetuals for the monitored assets
+    this.perpQuotes.clear();
+    for (const exchange of usable) {
+      const assets = this.monitoredAssets.filter(asset => exchange.supportsPerp(asset));
+      if (assets.length === 0) continue;
+      
+      try {
+        const quotes = await exchange.getPerpQuotes(assets);
+        this.perpQuotes.set(exchange.name, new Map(quotes.map(quote => [quote.asset, quote] as [string, PerpQuote])));
+      } catch (error) {
+        console.error(`Error fetching perp quotes from ${exchange.name}:`, error);
+      }
+    }
+    
+    for (const asset of this.monitoredAssets) {
+      const spotOptions = usable
+        .filter(exchange => this.validPrices.get(exchange.name)?.has(asset))
+        .map(exchange => ({
+          exchange: exchange.name,
+          type: exchange.type,
+          price: this.validPrices.get(exchange.name)!.get(asset)!,
+          feeRate: this.feeModel.getTradingFeeRate(exchange)
+        }))
+        .sort((a, b) => a.price - b.price)
+        .slice(0, 3);
+      
+      const perpOptions = usable
+        .map(exchange => this.perpQuotes.get(exchange.name)?.get(asset))
+        .filter((quote): quote is PerpQuote => !!quote && quote.fundingRate > 0);
+      
+      for (const spotOption of spotOptions) {
+        for (const perp of perpOptions) {
+          const perpOption = { exchange: perp.exchange, type: 'CEX' as ExchangeType, price: perp.bid, feeRate: perp.takerFee };
+          
+          // Opening and closing both legs, against funding collected over the holding period
+          const expectedFundingRate = perp.fundingRate * (this.basisHoldingPeriodMs / perp.fundingIntervalMs);
+          const spotFeeRate = spotOption.feeRate * 2;
+          const perpFeeRate = perp.takerFee * 2 - expectedFundingRate;
+          
+          // Only size the trade if the top of book clears the threshold
+          const topOfBookNet = perp.bid * (1 - perpFeeRate) - spotOption.price * (1 + spotFeeRate);
+          if ((topOfBookNet / spotOption.price) * 100 < this.minProfitThreshold) continue;
+          
+          const spotBook = await this.getCycleOrderBook(orderBooks, spotOption.exchange, asset);
+          if (!spotBook) continue;
+          
+          // On-chain spot legs pay gas to open and again to close
+          const gasCost = this.getSwapGasCostUsd(spotOption.exchange) * 2;
+          
+          // The perp's top of book stands in for its depth, which dwarfs spot on these venues
+          const maxNotional = Math.min(this.maxTradeNotionalUsd, this.riskManager.getLimits().maxTradeNotionalUsd);
+          const sizing = sizeAgainstOrderBooks(
+            spotBook.asks,
+            [{ price: perp.bid, size: maxNotional / perp.bid }],
+            spotFeeRate,
+            perpFeeRate,
+            maxNotional * (spotOption.price / perp.bid),
+            { minProfitPercentage: this.minProfitThreshold, fixedCost: gasCost }
+          );
+          if (sizing.amount <= 0) continue;
+          
+          const netProfit = sizing.netProfit - gasCost;
+          const profitPercentage = (netProfit / sizing.buyCost) * 100;
+          if (profitPercentage < this.minProfitThreshold) continue;
+          
+          const basisPercentage = ((perp.bid - sizing.avgBuyPrice) / sizing.avgBuyPrice) * 100;
+          const route: ArbitrageRoute = {
+            id: `basis-${this.clock.now()}-${Math.floor(Math.random() * 10000)}`,
+            asset,
+            steps: [
+              {
+                exchange: spotOption.exchange,
+                type: spotOption.type,
+                action: 'buy',
+                instrument: 'spot',
+                expectedPrice: spotOption.price,
+                expectedFillPrice: sizing.avgBuyPrice,
+                amount: sizing.amount,
+                estimatedFee: sizing.buyCost * spotOption.feeRate
+              },
+              {
+                exchange: perp.exchange,
+                type: perpOption.type,
+                action: 'sell',
+                instrument: 'perp',
+                expectedPrice: perp.bid,
+                expectedFillPrice: perp.bid,
+                amount: sizing.amount,
+                estimatedFee: sizing.sellProceeds * perp.takerFee
+              }
+            ],
+            depthLimitedSize: sizing.amount,
+            estimatedProfitAmount: netProfit,
+            estimatedProfitPercentage: profitPercentage,
+            estimatedGasCost: gasCost,
+            estimatedExecutionTimeMs: 2000 + Math.random() * 1000,
+            riskScore: this.calculateRiskScore(spotOption, perpOption, profitPercentage),
+            confidence: this.calculateConfidence(spotOption, perpOption, profitPercentage),
+            basis: {
+              spotPrice: spotOption.price,
+              markPrice: perp.markPrice,
+              indexPrice: perp.indexPrice,
+              basisPercentage,
+              annualizedBasis: annualizePercentage(basisPercentage / 100, this.basisHoldingPeriodMs),
+              fundingRate: perp.fundingRate,
+              fundingIntervalMs: perp.fundingIntervalMs,
+              annualizedFunding: annualizePercentage(perp.fundingRate, perp.fundingIntervalMs),
+              holdingPeriodMs: this.basisHoldingPeriodMs,
+              expectedFunding: sizing.sellProceeds * expectedFundingRate
+            }
+          };
+          
+          // Keep the id of a route that was already being tracked
+          const existing = previousRoutes.find(r =>
+            r.asset === asset &&
+            r.steps[0].exchange === spotOption.exchange &&
+            r.steps[1].exchange === perp.exchange
+          );
+          if (existing) {
+            route.id = existing.id;
+          }
+          routes.push(route);
+        }
+      }
+    }
+    
+    this.basisRoutes = routes.sort((a, b) => b.estimatedProfitPercentage - a.estimatedProfitPercentage);
+  }
+  
+  /**
+   * Get currently profitable cash-and-carry routes
+   */
+  getBasisOpportunities(): ArbitrageRoute[] {
+    return [...this.basisRoutes];
+  }
+  
+  /**
+   * Latest perpetual quotes from the monitoring cycle, by venue
+   */
+  getPerpQuotes(): PerpQuote[] {
+    const quotes: PerpQuote[] = [];
+    this.perpQuotes.forEach(byAsset => byAsset.forEach(quote => quotes.push(quote)));
+    return quotes;
+  }
+  
+  /**
+   * Fetch an order book once per detection cycle
+   */
+  private async getCycleOrderBook(cache: Map<string, OrderBook | null>, exchangeName: string, asset: string): Promise<OrderBook | null> {
+    const key = `${exchangeName}:${asset}`;
+    if (cache.has(key)) return cache.get(key)!;
+    
+    const exchange = this.monitoredExchanges.find(e => e.name === exchangeName);
+    let book: OrderBook | null = null;
+    
+    if (exchange) {
+      try {
+        book = await exchange.getOrderBook(asset);
+      } catch (error) {
+        console.error(`Error fetching ${asset} order book from ${exchangeName}:`, error);
+      }
+    }
+    
+    cache.set(key, book);
+    return book;
   }
   
   /**
@@ -834,15 +2791,15 @@ export class ArbitrageService {
   }
   
   /**
-   * Remove expired opportunities from memory
+   * Drop routes that can no longer be executed
    */
   private async pruneExpiredOpportunities() {
-    // Filter routes older than 5 minutes
-    const fiveMinutesAgo = Date.now() - (5 * 60 * 1000);
-    this.arbitrageRoutes = this.arbitrageRoutes.filter(route => {
-      const routeId = route.id.split('-')[1];
-      return parseInt(routeId) > fiveMinutesAgo;
-    });
+    // Routes through a disabled or quarantined venue can no longer be executed
+    const usable = (route: ArbitrageRoute) => route.steps.every(step => this.isExchangeUsable(step.exchange));
+    this.arbitrageRoutes = this.arbitrageRoutes.filter(usable);
+    this.multiHopRoutes = this.multiHopRoutes.filter(usable);
+    this.flashLoanRoutes = this.flashLoanRoutes.filter(usable);
+    this.basisRoutes = this.basisRoutes.filter(usable);
   }
   
   /**
@@ -911,9 +2868,8 @@ export class ArbitrageService {
         this.startMonitoring();
       }
       
-      // Force a refresh cycle
-      await this.updatePrices();
-      await this.detectArbitrageOpportunities();
+      // Force a refresh cycle; trading stays with the monitoring interval
+      await this.runMonitoringCycle({ autoExecute: false });
       
       // Return the latest opportunities from storage
       return await storage.getArbitrageOpportunities();
@@ -926,29 +2882,36 @@ export class ArbitrageService {
   /**
    * Get performance metrics for the arbitrage bot
    */
-  async getPerformanceMetrics() {
+  async getPerformanceMetrics(filters: ArbitrageExecutionFilters = {}) {
+    // Metrics come from the stored ledger so they survive restarts; instances
+    // that do not write to storage (backtests) use their own history
+    const executions = this.syncToStorage
+      ? await this.getLedgerExecutions(filters)
+      : this.filterExecutionHistory(filters);
+    
     // Calculate and return metrics based on execution history
-    const totalExecutions = this.executionHistory.length;
-    const successfulExecutions = this.executionHistory.filter(e => e.success).length;
+    const totalExecutions = executions.length;
+    const successfulExecutions = executions.filter(e => e.success).length;
     const successRate = totalExecutions > 0 ? (successfulExecutions / totalExecutions) * 100 : 0;
     
-    const totalProfit = this.executionHistory.reduce((sum, execution) => 
+    const totalProfit = executions.reduce((sum, execution) => 
       sum + (execution.success ? execution.netProfit : 0), 0);
       
-    const avgExecutionTime = this.executionHistory.length > 0 
-      ? this.executionHistory.reduce((sum, exec) => sum + exec.executionTimeMs, 0) / this.executionHistory.length
+    const avgExecutionTime = executions.length > 0 
+      ? executions.reduce((sum, exec) => sum + exec.executionTimeMs, 0) / executions.length
       : 0;
       
-    const profitByAsset = {};
-    this.executionHistory.forEach(execution => {
+    const profitByAsset: Record<string, number> = {};
+    executions.forEach(execution => {
       if (execution.success) {
         profitByAsset[execution.asset] = (profitByAsset[execution.asset] || 0) + execution.netProfit;
       }
     });
     
-    // Calculate profit expectations vs reality
-    const expectedVsActual = this.executionHistory
-      .filter(e => e.success)
+    // Calculate profit expectations vs reality; executions placed without an
+    // estimate, such as strategy opens, have nothing to compare against
+    const expectedVsActual = executions
+      .filter(e => e.success && e.expectedProfit !== 0)
       .map(e => ({
         expected: e.expectedProfit,
         actual: e.actualProfit,
@@ -960,15 +2923,22 @@ export class ArbitrageService {
       ? expectedVsActual.reduce((sum, item) => sum + item.percentage, 0) / expectedVsActual.length
       : 0;
     
+    // Order latency per venue, to pick venues that suit simultaneous execution
+    const venueLatency: Record<string, LatencySnapshot> = {};
+    this.legLatency.forEach((histogram, exchangeName) => {
+      venueLatency[exchangeName] = histogram.snapshot();
+    });
+    
     return {
       totalExecutions,
       successfulExecutions,
       successRate: successRate.toFixed(2) + '%',
       totalProfit: totalProfit.toFixed(2),
       averageExecutionTimeMs: Math.round(avgExecutionTime),
+      venueLatency,
       profitByAsset,
       profitExpectationAccuracy: (100 - Math.abs(avgProfitExpectationDiff)).toFixed(2) + '%',
-      recentExecutions: this.executionHistory.slice(-5).map(e => ({
+      recentExecutions: executions.slice(-5).map(e => ({
         asset: e.asset,
         success: e.success,
         profit: e.netProfit.toFixed(2),
@@ -976,4 +2946,37 @@ export class ArbitrageService {
       }))
     };
   }
+  
+  /**
+   * Stored executions matching the filters, oldest first
+   */
+  private async getLedgerExecutions(filters: ArbitrageExecutionFilters): Promise<LedgerExecution[]> {
+    const { executions } = await storage.getArbitrageExecutions({ ...filters, limit: undefined, offset: undefined });
+    
+    return executions
+      .map(e => ({
+        asset: e.asset,
+        success: e.success,
+        expectedProfit: Number(e.expectedProfit),
+        actualProfit: Number(e.actualProfit),
+        profitDifference: Number(e.netProfit) - Number(e.expectedProfit),
+        netProfit: Number(e.netProfit),
+        executionTimeMs: e.executionTimeMs,
+        startTime: e.startTime
+      }))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+  
+  /**
+   * In-memory executions matching the same filters as the stored ledger
+   */
+  private filterExecutionHistory(filters: ArbitrageExecutionFilters): LedgerExecution[] {
+    return this.executionHistory.filter(e =>
+      (!filters.asset || e.asset.toLowerCase() === filters.asset.toLowerCase()) &&
+      (!filters.venue || e.steps.some(s => s.exchange.toLowerCase() === filters.venue!.toLowerCase())) &&
+      (!filters.from || e.startTime >= filters.from) &&
+      (!filters.to || e.startTime <= filters.to) &&
+      (filters.success === undefined || e.success === filters.success)
+    );
+  }
 }
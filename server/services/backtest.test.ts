@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Backtester, parsePriceTicks } from "./backtest";
+
+// ETH trades 2% higher on VenueB for the whole tape
+const TAPE = parsePriceTicks([
+  "timestamp,exchange,asset,price",
+  "0,VenueA,ETH,3000",
+  "0,VenueB,ETH,3060",
+  "30000,VenueA,ETH,3000",
+  "30000,VenueB,ETH,3060"
+].join("\n"), 'csv');
+
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  const { log, error } = console;
+  console.log = () => {};
+  console.error = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+    console.error = error;
+  }
+}
+
+describe("Backtester", () => {
+  it("takes each fill's latency on the virtual clock", async () => {
+    const report = await quietly(() => new Backtester(TAPE, { latencyMs: 500 }).run());
+
+    assert.ok(report.successfulExecutions > 0);
+    // Sequential legs: buy then sell, 500ms each
+    assert.equal(report.performance.averageExecutionTimeMs, 1000);
+    assert.equal(report.performance.venueLatency.VenueA.max, 500);
+  });
+
+  it("cancels fills that outlast the route's latency budget", async () => {
+    const report = await quietly(() => new Backtester(TAPE, { latencyMs: 12000 }).run());
+
+    assert.ok(report.executions > 0);
+    assert.equal(report.successfulExecutions, 0);
+  });
+});
@@ -0,0 +1,101 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ArbitrageService } from "./arbitrage";
+import { BasisTradeMonitor, countFundingSettlements } from "./basis-trade";
+import { VirtualClock } from "./clock";
+import { FixtureExchangeAdapter, type ExchangeFixture } from "./exchanges/fixture-adapter";
+import { ExchangeRegistry } from "./exchanges/registry";
+
+const HOUR_MS = 60 * 60 * 1000;
+const INTERVAL_MS = 8 * HOUR_MS;
+const START = Date.parse("2026-03-02T00:00:00Z");
+
+describe("countFundingSettlements", () => {
+  it("counts the interval boundaries after the start and up to the end", () => {
+    assert.equal(countFundingSettlements(START, START + INTERVAL_MS, INTERVAL_MS), 1);
+    assert.equal(countFundingSettlements(START, START + INTERVAL_MS - 1, INTERVAL_MS), 0);
+    assert.equal(countFundingSettlements(START - 1, START, INTERVAL_MS), 1);
+    assert.equal(countFundingSettlements(START + HOUR_MS, START + 3 * INTERVAL_MS + HOUR_MS, INTERVAL_MS), 3);
+  });
+
+  it("counts nothing for an empty span or interval", () => {
+    assert.equal(countFundingSettlements(START, START, INTERVAL_MS), 0);
+    assert.equal(countFundingSettlements(START + INTERVAL_MS, START, INTERVAL_MS), 0);
+    assert.equal(countFundingSettlements(START, START + INTERVAL_MS, 0), 0);
+  });
+});
+
+describe("BasisTradeMonitor", () => {
+  const { log, error } = console;
+  before(() => { console.log = () => {}; console.error = () => {}; });
+  after(() => { console.log = log; console.error = error; });
+
+  // BTC spot at 60000 on both venues; the perp on Perp marks 0.5% higher and pays shorts 0.01% a period
+  async function setup(options: { paperTrading?: boolean } = {}) {
+    const perp = { markPrice: 60300, fundingRate: 0.0001, fundingIntervalMs: INTERVAL_MS, takerFee: 0.0005 };
+    const fixture = (name: string, overrides: Partial<ExchangeFixture> = {}): ExchangeFixture => ({
+      name, type: 'CEX', feeSchedule: { maker: 0.001, taker: 0.001 }, prices: [{ BTC: 60000 }], ...overrides
+    });
+    const registry = new ExchangeRegistry()
+      .register("Spot", () => new FixtureExchangeAdapter(fixture("Spot")))
+      .register("Perp", () => new FixtureExchangeAdapter(fixture("Perp", { perps: { BTC: perp } })));
+    const clock = new VirtualClock(START + HOUR_MS);
+    const service = new ArbitrageService(registry, { clock, syncToStorage: false, paperTrading: options.paperTrading });
+    service.setMonitoredAssets(["BTC"]);
+    await service.runMonitoringCycle({ autoExecute: false });
+
+    const [route] = service.getBasisOpportunities().filter(r => r.steps[0].exchange === "Spot" && r.steps[1].exchange === "Perp");
+    assert.ok(route, "expected a Spot/Perp carry");
+    return { service, clock, perp, route, monitor: new BasisTradeMonitor(service, { clock }) };
+  }
+
+  it("accrues funding once per settlement that passes on the clock", async () => {
+    const { clock, route, monitor } = await setup();
+    const position = await monitor.openPosition(route.id);
+
+    clock.advance(HOUR_MS);
+    await monitor.evaluate();
+    assert.equal(monitor.getPositions('open')[0].fundingPayments.length, 0);
+
+    // 09:00 to 09:00 the next day crosses 16:00, 00:00 and 08:00
+    clock.advance(24 * HOUR_MS);
+    const [open] = await monitor.evaluate();
+    const payment = position.amount * 60300 * 0.0001;
+    assert.equal(open.fundingPayments.length, 3);
+    assert.ok(Math.abs(open.fundingAccrued - 3 * payment) < 1e-9);
+    assert.deepEqual(open.lastAccrualAt, new Date(clock.now()));
+  });
+
+  it("closes once funding turns negative and reports the close without funding", async () => {
+    const { clock, perp, route, monitor } = await setup();
+    const position = await monitor.openPosition(route.id);
+    clock.advance(8 * HOUR_MS);
+    await monitor.evaluate();
+
+    perp.fundingRate = -0.0002;
+    clock.advance(8 * HOUR_MS);
+    const open = await monitor.evaluate();
+
+    assert.equal(open.length, 0);
+    const [closed] = monitor.getPositions('closed');
+    assert.equal(closed.closeReason, 'funding-negative');
+    assert.deepEqual(closed.fundingPayments.map(p => p.fundingRate), [0.0001, -0.0002]);
+    assert.ok(Math.abs(closed.fundingAccrued - position.amount * 60300 * -0.0001) < 1e-9);
+
+    // Prices did not move, so the close misses its estimate only by its own fees
+    const [close] = monitor.getExecutions();
+    const closingFees = close.steps.reduce((sum, s) => sum + s.fee, 0) + close.gasCost;
+    assert.ok(Math.abs(close.profitDifference + closingFees) < 1e-6);
+  });
+
+  it("settles the spot leg on the paper balances", async () => {
+    const { service, route, monitor } = await setup({ paperTrading: true });
+    service.resetPaperAccount();
+    await assert.rejects(monitor.openPosition(route.id), /Insufficient balance: Spot holds 0 USDC/);
+
+    service.fundPaperAccount("Spot", "USDC", 200000);
+    const position = await monitor.openPosition(route.id);
+    assert.equal(service.getPaperAccount().balances.Spot.BTC, position.amount);
+  });
+
+});
@@ -0,0 +1,345 @@
+import type { ArbitrageService, ExecutionSummary } from "./arbitrage";
+import type { PerpQuote } from "./exchanges/types";
+import { describePairedFailure, executePairedLegs, type PairedLegsRequest } from "./paired-legs";
+import { systemClock, type Clock } from "./clock";
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Expected funding is counted over a week of holding unless configured otherwise
+export const DEFAULT_BASIS_HOLDING_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Scale a return earned over `periodMs` to a simple annual percentage
+ */
+export function annualizePercentage(rate: number, periodMs: number): number {
+  return periodMs > 0 ? rate * (YEAR_MS / periodMs) * 100 : 0;
+}
+
+/**
+ * Funding settlements between two times on an interval-aligned schedule
+ *
+ * Venues settle at fixed boundaries (00:00, 08:00 and 16:00 UTC for an eight
+ * hour interval), so only boundaries strictly after `fromMs` and up to `toMs`
+ * count.
+ */
+export function countFundingSettlements(fromMs: number, toMs: number, intervalMs: number): number {
+  if (intervalMs <= 0 || toMs <= fromMs) return 0;
+  return Math.floor(toMs / intervalMs) - Math.floor(fromMs / intervalMs);
+}
+
+// One funding payment on a position's short perp leg
+export interface FundingPayment {
+  timestamp: Date;
+  fundingRate: number;
+  markPrice: number;
+  amount: number; // USD received (+) or paid (-)
+}
+
+// Long spot hedged by an equal short perpetual, held to collect funding
+export interface BasisPosition {
+  id: string;
+  routeId: string;
+  asset: string;
+  spotExchange: string;
+  perpExchange: string;
+  status: 'open' | 'closed';
+  amount: number; // Units held spot and shorted on the perp
+  spotEntryPrice: number;
+  perpEntryPrice: number;
+  spotExitPrice?: number;
+  perpExitPrice?: number;
+  entryBasisPercentage: number;
+  fundingIntervalMs: number;
+  lastFundingRate: number;
+  fundingAccrued: number; // Net USD collected so far
+  fundingPayments: FundingPayment[];
+  lastAccrualAt: Date;
+  fees: number; // Trading fees and gas across both executions
+  openedAt: Date;
+  closedAt?: Date;
+  closeReason?: 'funding-negative' | 'manual';
+  unrealizedPnl: number; // Legs marked to market plus funding, before closing costs
+  realizedPnl?: number;
+}
+
+export interface BasisTradeOptions {
+  clock?: Clock;
+  exitFundingRate?: number; // Close once the funding rate per interval falls below this
+}
+
+/**
+ * Holds cash-and-carry positions and accrues their perpetual funding
+ *
+ * A position buys the route's asset on the spot venue and shorts the same
+ * amount on the perp venue, so price moves cancel out and the position earns
+ * the funding longs pay shorts while the rate stays positive. Each pass
+ * settles the funding intervals that elapsed on the clock since the last one
+ * at the perp's current rate and mark, which lets a simulation fast-forward
+ * days of carry on a VirtualClock. Positions are closed once funding turns
+ * negative. Legs are placed with executePairedLegs, as for stat-arb, so
+ * opens pass the ArbitrageService's risk limits and venue checks, paper
+ * trading settles the spot leg, and every execution is reported to it.
+ * Funding is settled outside the executions and shows only on the position.
+ */
+export class BasisTradeMonitor {
+  private arbitrageService: ArbitrageService;
+  private clock: Clock;
+  private exitFundingRate: number;
+  private positions: BasisPosition[] = [];
+  private executions: ExecutionSummary[] = [];
+  private maxHistorySize: number = 500;
+  private maxFundingPayments: number = 1000; // Per position
+  private isMonitoring: boolean = false;
+  private monitoringInterval: NodeJS.Timeout | null = null;
+  private isEvaluating: boolean = false;
+
+  constructor(arbitrageService: ArbitrageService, options: BasisTradeOptions = {}) {
+    this.arbitrageService = arbitrageService;
+    this.clock = options.clock || systemClock;
+    this.exitFundingRate = options.exitFundingRate ?? 0;
+  }
+
+  /**
+   * Periodically accrue funding on open positions
+   */
+  startMonitoring(intervalMs: number = 60000) {
+    if (this.isMonitoring) return;
+
+    this.isMonitoring = true;
+    this.monitoringInterval = setInterval(async () => {
+      try {
+        await this.evaluate();
+      } catch (error) {
+        console.error("Error in basis trade cycle:", error);
+      }
+    }, intervalMs);
+    console.log(`BasisTradeMonitor: Accruing funding every ${intervalMs}ms`);
+  }
+
+  stopMonitoring() {
+    if (!this.isMonitoring) return;
+
+    if (this.monitoringInterval) {
+      clearInterval(this.monitoringInterval);
+      this.monitoringInterval = null;
+    }
+    this.isMonitoring = false;
+    console.log("BasisTradeMonitor: Stopped monitoring");
+  }
+
+  isActive(): boolean {
+    return this.isMonitoring;
+  }
+
+  /**
+   * One pass: settle elapsed funding, then close positions whose funding turned negative
+   */
+  async evaluate(): Promise<BasisPosition[]> {
+    if (this.isEvaluating) return this.getPositions('open');
+    this.isEvaluating = true;
+
+    try {
+      for (const position of this.positions.filter(p => p.status === 'open')) {
+        await this.accrueFunding(position);
+        if (position.lastFundingRate < this.exitFundingRate) {
+          try {
+            await this.closePosition(position.id, 'funding-negative');
+          } catch (error) {
+            console.error(`BasisTradeMonitor: ${(error as Error).message}`);
+          }
+        }
+      }
+    } finally {
+      this.isEvaluating = false;
+    }
+
+    return this.getPositions('open');
+  }
+
+  /**
+   * Enter a detected cash-and-carry route: buy spot and short the perp together
+   */
+  async openPosition(routeId: string): Promise<BasisPosition> {
+    const route = this.arbitrageService.getBasisOpportunities().find(r => r.id === routeId);
+    if (!route || !route.basis) {
+      throw new Error(`Basis route ${routeId} not found`);
+    }
+    if (this.positions.some(p => p.routeId === routeId && p.status === 'open')) {
+      throw new Error(`Route ${routeId} already has an open position`);
+    }
+
+    const [spotStep, perpStep] = route.steps;
+    const amount = route.depthLimitedSize ?? spotStep.amount;
+    const id = `basis-position-${this.clock.now()}-${Math.floor(Math.random() * 10000)}`;
+
+    const summary = await this.executeLegs({
+      routeId: `${id}-open`,
+      asset: route.asset,
+      legs: [
+        { exchange: spotStep.exchange, asset: route.asset, instrument: 'spot', action: 'buy', amount, expectedPrice: spotStep.expectedFillPrice ?? spotStep.expectedPrice },
+        { exchange: perpStep.exchange, asset: route.asset, instrument: 'perp', action: 'sell', amount, expectedPrice: perpStep.expectedPrice }
+      ],
+      expectedProfit: 0
+    });
+    if (!summary.success) {
+      throw new Error(`Failed to open ${route.asset} carry: ${describePairedFailure(summary)}`);
+    }
+
+    const fill = (instrument: 'spot' | 'perp') => summary.steps.find(s => s.instrument === instrument && !s.recoveryStage)!;
+    const spotEntryPrice = fill('spot').actualPrice;
+    const perpEntryPrice = fill('perp').actualPrice;
+    const position: BasisPosition = {
+      id,
+      routeId,
+      asset: route.asset,
+      spotExchange: spotStep.exchange,
+      perpExchange: perpStep.exchange,
+      status: 'open',
+      amount,
+      spotEntryPrice,
+      perpEntryPrice,
+      entryBasisPercentage: ((perpEntryPrice - spotEntryPrice) / spotEntryPrice) * 100,
+      fundingIntervalMs: route.basis.fundingIntervalMs,
+      lastFundingRate: route.basis.fundingRate,
+      fundingAccrued: 0,
+      fundingPayments: [],
+      lastAccrualAt: summary.endTime,
+      fees: summary.steps.reduce((sum, s) => sum + s.fee, 0) + summary.gasCost,
+      openedAt: summary.endTime,
+      unrealizedPnl: 0
+    };
+    this.positions.push(position);
+
+    console.log(`BasisTradeMonitor: Opened ${amount.toFixed(4)} ${route.asset} carry, spot on ${position.spotExchange}, short perp on ${position.perpExchange} at ${position.entryBasisPercentage.toFixed(3)}% basis`);
+    return { ...position };
+  }
+
+  /**
+   * Sell the spot leg and buy back the perp at market
+   */
+  async closePosition(positionId: string, reason: BasisPosition['closeReason'] = 'manual'): Promise<BasisPosition> {
+    const position = this.positions.find(p => p.id === positionId);
+    if (!position) {
+      throw new Error(`Position ${positionId} not found`);
+    }
+    if (position.status !== 'open') {
+      throw new Error(`Position ${positionId} is already closed`);
+    }
+
+    // Settle any funding due up to the close first
+    await this.accrueFunding(position);
+
+    // The summary counts the fills' cash flow and no funding, so the close is
+    // expected to bring in the legs' mark-to-market PnL without funding, less
+    // the entry basis the open's fills already booked
+    const legsPnl = position.unrealizedPnl - position.fundingAccrued;
+    const entryBasis = position.amount * (position.perpEntryPrice - position.spotEntryPrice);
+
+    const summary = await this.executeLegs({
+      routeId: `${position.id}-close`,
+      asset: position.asset,
+      legs: [
+        { exchange: position.spotExchange, asset: position.asset, instrument: 'spot', action: 'sell', amount: position.amount, expectedPrice: position.spotEntryPrice },
+        { exchange: position.perpExchange, asset: position.asset, instrument: 'perp', action: 'buy', amount: position.amount, expectedPrice: position.perpEntryPrice }
+      ],
+      expectedProfit: legsPnl - entryBasis,
+      reducesExposure: true
+    });
+    if (!summary.success) {
+      throw new Error(`Failed to close position ${positionId}: ${describePairedFailure(summary)}`);
+    }
+
+    const fill = (instrument: 'spot' | 'perp') => summary.steps.find(s => s.instrument === instrument && !s.recoveryStage)!;
+    position.spotExitPrice = fill('spot').actualPrice;
+    position.perpExitPrice = fill('perp').actualPrice;
+    position.fees += summary.steps.reduce((sum, s) => sum + s.fee, 0) + summary.gasCost;
+    position.status = 'closed';
+    position.closedAt = summary.endTime;
+    position.closeReason = reason;
+    position.realizedPnl =
+      position.amount * (position.spotExitPrice - position.spotEntryPrice) +
+      position.amount * (position.perpEntryPrice - position.perpExitPrice) +
+      position.fundingAccrued -
+      position.fees;
+    position.unrealizedPnl = 0;
+
+    console.log(`BasisTradeMonitor: Closed ${position.asset} carry (${reason}), funding ${position.fundingAccrued.toFixed(2)}, realized ${position.realizedPnl.toFixed(2)}`);
+    return { ...position };
+  }
+
+  /**
+   * Positions, newest first
+   */
+  getPositions(status?: 'open' | 'closed'): BasisPosition[] {
+    return this.positions
+      .filter(p => !status || p.status === status)
+      .slice()
+      .reverse()
+      .map(p => ({ ...p, fundingPayments: [...p.fundingPayments] }));
+  }
+
+  /**
+   * Open and close executions, newest first
+   */
+  getExecutions(limit: number = 100): ExecutionSummary[] {
+    return this.executions.slice(-limit).reverse();
+  }
+
+  /**
+   * Settle the funding intervals that ended since the position was last accrued
+   *
+   * Every elapsed settlement is paid at the perp's current rate and mark; a
+   * short receives funding while the rate is positive and pays when negative.
+   */
+  private async accrueFunding(position: BasisPosition) {
+    const perpExchange = this.arbitrageService.getExchange(position.perpExchange);
+    if (!perpExchange) return;
+
+    let quote: PerpQuote | undefined;
+    try {
+      [quote] = await perpExchange.getPerpQuotes([position.asset]);
+    } catch (error) {
+      console.error(`BasisTradeMonitor: Error fetching ${position.asset} perp on ${position.perpExchange}:`, error);
+      return;
+    }
+    if (!quote) return;
+
+    const now = this.clock.now();
+    const settlements = countFundingSettlements(position.lastAccrualAt.getTime(), now, quote.fundingIntervalMs);
+    for (let i = 0; i < settlements; i++) {
+      const payment = position.amount * quote.markPrice * quote.fundingRate;
+      position.fundingAccrued += payment;
+      position.fundingPayments.push({
+        timestamp: new Date(now),
+        fundingRate: quote.fundingRate,
+        markPrice: quote.markPrice,
+        amount: payment
+      });
+    }
+    if (position.fundingPayments.length > this.maxFundingPayments) {
+      position.fundingPayments.splice(0, position.fundingPayments.length - this.maxFundingPayments);
+    }
+
+    position.lastAccrualAt = new Date(now);
+    position.lastFundingRate = quote.fundingRate;
+    position.fundingIntervalMs = quote.fundingIntervalMs;
+
+    const spotPrice = this.arbitrageService.getReferencePrice(position.asset) || quote.indexPrice;
+    position.unrealizedPnl =
+      position.amount * (spotPrice - position.spotEntryPrice) +
+      position.amount * (position.perpEntryPrice - quote.markPrice) +
+      position.fundingAccrued;
+  }
+
+  /**
+   * Place the legs and keep the execution in the monitor's own history
+   */
+  private async executeLegs(request: PairedLegsRequest): Promise<ExecutionSummary> {
+    const summary = await executePairedLegs(this.arbitrageService, this.clock, request);
+    this.executions.push(summary);
+    if (this.executions.length > this.maxHistorySize) {
+      this.executions.shift();
+    }
+    return summary;
+  }
+}
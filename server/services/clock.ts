@@ -0,0 +1,67 @@
+// Source of the current time, so services can run against recorded data
+export interface Clock {
+  now(): number; // Milliseconds since epoch
+  sleep(ms: number): Promise<void>; // Resolves once `ms` have passed on this clock
+  setTimer(ms: number, callback: () => void): () => void; // Returns a function that cancels the timer
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)),
+  setTimer: (ms: number, callback: () => void) => {
+    const timer = setTimeout(callback, ms);
+    return () => clearTimeout(timer);
+  }
+};
+
+/**
+ * Manually driven clock used when replaying historical data
+ *
+ * Sleeping jumps the clock forward instead of waiting, so a replayed fill
+ * takes its latency in virtual time. Timers fire as soon as the clock
+ * reaches them, whichever way it moves.
+ */
+export class VirtualClock implements Clock {
+  private current: number;
+  private timers: Array<{ at: number; callback: () => void }> = [];
+
+  constructor(start: number = 0) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  set(timestamp: number) {
+    this.current = timestamp;
+    this.fireDueTimers();
+  }
+
+  advance(ms: number) {
+    this.set(this.current + ms);
+  }
+
+  async sleep(ms: number): Promise<void> {
+    // The wake time is fixed before yielding, so sleeps started together wake together
+    const wakeAt = this.current + ms;
+    await Promise.resolve();
+    if (wakeAt > this.current) {
+      this.set(wakeAt);
+    }
+  }
+
+  setTimer(ms: number, callback: () => void): () => void {
+    const timer = { at: this.current + ms, callback };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter(t => t !== timer);
+    };
+  }
+
+  private fireDueTimers() {
+    const due = this.timers.filter(t => t.at <= this.current).sort((a, b) => a.at - b.at);
+    this.timers = this.timers.filter(t => t.at > this.current);
+    due.forEach(t => t.callback());
+  }
+}
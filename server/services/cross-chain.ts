@@ -0,0 +1,200 @@
+import { randomBytes } from "crypto";
+import { systemClock, type Clock } from "./clock";
+
+export type SwapLegType = 'swap' | 'bridge';
+export type SwapLegStatus = 'pending' | 'submitted' | 'confirmed';
+
+// One step of a swap route; a bridge leg moves its token from `chain` to `toChain` unchanged
+export interface SwapLeg {
+  index: number;
+  type: SwapLegType;
+  chain: string; // Chain the leg is submitted on
+  toChain: string; // Chain its output lands on; the same as `chain` for swap legs
+  protocols: string[]; // DEXes a swap is split across, or the bridge
+  fromToken: string;
+  toToken: string;
+  amountIn: string;
+  expectedAmountOut: string;
+  fee: string; // In `fromToken`, already deducted from expectedAmountOut
+  estimatedDurationMs: number; // Submission until the output is confirmed on `toChain`
+}
+
+export interface SwapLegProgress extends SwapLeg {
+  status: SwapLegStatus;
+  txHash: string | null; // A bridge leg's deposit, replaced by its release on the destination chain once confirmed
+  submittedAt: Date | null;
+  confirmedAt: Date | null;
+}
+
+export interface CrossChainSwapStatus {
+  swapId: string;
+  quoteId: string;
+  fromChain: string;
+  toChain: string;
+  status: 'pending' | 'completed';
+  currentLeg: number | null; // Leg in flight; null once the destination receipt is in
+  legs: SwapLegProgress[];
+  destinationTxHash: string | null; // Receipt of the final leg on the destination chain
+  startedAt: Date;
+  estimatedCompletionAt: Date;
+  completedAt: Date | null;
+}
+
+// Time for a transaction to be confirmed, per chain
+export const CHAIN_CONFIRMATION_MS: Record<string, number> = {
+  ethereum: 60 * 1000,
+  polygon: 30 * 1000,
+  arbitrum: 5 * 1000,
+  optimism: 5 * 1000,
+  base: 5 * 1000,
+  solana: 2 * 1000,
+  avalanche: 3 * 1000,
+  bsc: 10 * 1000
+};
+const DEFAULT_CONFIRMATION_MS = 30 * 1000;
+
+// Wait for a bridge to treat a deposit on the source chain as final before releasing it
+export const BRIDGE_FINALITY_MS: Record<string, number> = {
+  ethereum: 13 * 60 * 1000,
+  polygon: 5 * 60 * 1000,
+  arbitrum: 2 * 60 * 1000,
+  optimism: 2 * 60 * 1000,
+  base: 2 * 60 * 1000,
+  solana: 60 * 1000,
+  avalanche: 60 * 1000,
+  bsc: 60 * 1000
+};
+const DEFAULT_BRIDGE_FINALITY_MS = 5 * 60 * 1000;
+
+export const CROSS_CHAIN_BRIDGE = "okx_bridge";
+export const CROSS_CHAIN_BRIDGE_TOKEN = "USDC"; // Held on every supported chain, so any pair can route through it
+export const BRIDGE_FEE_RATE = 0.0005; // Share of the bridged amount
+
+// Flat relayer fee for releasing funds on the destination chain, in USD
+const BRIDGE_RELAYER_FEE_USD: Record<string, number> = {
+  ethereum: 4,
+  solana: 0.1
+};
+const DEFAULT_BRIDGE_RELAYER_FEE_USD = 0.25;
+
+export function getConfirmationMs(chain: string): number {
+  return CHAIN_CONFIRMATION_MS[chain] ?? DEFAULT_CONFIRMATION_MS;
+}
+
+/**
+ * Source-chain finality plus the release being confirmed on the destination chain
+ */
+export function getBridgeDurationMs(fromChain: string, toChain: string): number {
+  return (BRIDGE_FINALITY_MS[fromChain] ?? DEFAULT_BRIDGE_FINALITY_MS) + getConfirmationMs(toChain);
+}
+
+export function getBridgeRelayerFeeUsd(toChain: string): number {
+  return BRIDGE_RELAYER_FEE_USD[toChain] ?? DEFAULT_BRIDGE_RELAYER_FEE_USD;
+}
+
+interface TrackedSwap {
+  swapId: string;
+  quoteId: string;
+  legs: SwapLegProgress[];
+  startedAt: number;
+}
+
+/**
+ * Follows a multi-leg swap until its final leg is confirmed on the destination chain
+ *
+ * Legs run in order, each submitted once the previous one has confirmed. A
+ * leg is taken to confirm when its estimated duration has passed, so progress
+ * is worked out from the clock whenever the status is read.
+ */
+export class CrossChainSwapTracker {
+  private clock: Clock;
+  private swaps: Map<string, TrackedSwap> = new Map(); // swap id -> swap
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
+  /**
+   * Start following a swap whose first leg has just been submitted
+   */
+  track(swapId: string, quoteId: string, legs: SwapLeg[], sourceTxHash: string): CrossChainSwapStatus {
+    const now = this.clock.now();
+    this.swaps.set(swapId, {
+      swapId,
+      quoteId,
+      startedAt: now,
+      legs: legs.map((leg, index) => ({
+        ...leg,
+        status: index === 0 ? 'submitted' : 'pending',
+        txHash: index === 0 ? sourceTxHash : null,
+        submittedAt: index === 0 ? new Date(now) : null,
+        confirmedAt: null
+      }))
+    });
+    return this.getStatus(swapId)!;
+  }
+
+  getStatus(swapId: string): CrossChainSwapStatus | undefined {
+    const swap = this.swaps.get(swapId);
+    if (!swap) return undefined;
+
+    this.advance(swap);
+    const legs = swap.legs.map(leg => ({ ...leg, protocols: [...leg.protocols] }));
+    const current = legs.findIndex(leg => leg.status !== 'confirmed');
+    const last = legs[legs.length - 1];
+
+    // Remaining legs start when the one in flight is due to confirm
+    let completionAt = swap.startedAt;
+    legs.forEach(leg => {
+      completionAt = leg.confirmedAt ? leg.confirmedAt.getTime()
+        : leg.submittedAt ? leg.submittedAt.getTime() + leg.estimatedDurationMs
+        : completionAt + leg.estimatedDurationMs;
+    });
+
+    return {
+      swapId: swap.swapId,
+      quoteId: swap.quoteId,
+      fromChain: legs[0].chain,
+      toChain: last.toChain,
+      status: current === -1 ? 'completed' : 'pending',
+      currentLeg: current === -1 ? null : current,
+      legs,
+      destinationTxHash: current === -1 ? last.txHash : null,
+      startedAt: new Date(swap.startedAt),
+      estimatedCompletionAt: new Date(completionAt),
+      completedAt: last.confirmedAt
+    };
+  }
+
+  /**
+   * Confirm every leg whose estimated duration has passed and submit the next
+   */
+  private advance(swap: TrackedSwap) {
+    const now = this.clock.now();
+    for (let i = 0; i < swap.legs.length; i++) {
+      const leg = swap.legs[i];
+      if (leg.status === 'confirmed') continue;
+      if (leg.status !== 'submitted' || !leg.submittedAt) return;
+
+      const confirmedAt = leg.submittedAt.getTime() + leg.estimatedDurationMs;
+      if (confirmedAt > now) return;
+
+      leg.status = 'confirmed';
+      leg.confirmedAt = new Date(confirmedAt);
+      if (leg.type === 'bridge') {
+        leg.txHash = simulateTxHash(); // The release on the destination chain
+      }
+
+      const next = swap.legs[i + 1];
+      if (next) {
+        next.status = 'submitted';
+        next.submittedAt = new Date(confirmedAt);
+        next.txHash = simulateTxHash();
+      }
+    }
+  }
+}
+
+export function simulateTxHash(): string {
+  return `0x${randomBytes(32).toString("hex")}`;
+}
@@ -0,0 +1,229 @@
+import { systemClock, type Clock } from "./clock";
+import { LatencyHistogram } from "./latency";
+
+export type ExchangeHealthState = 'healthy' | 'quarantined';
+
+export interface HealthThresholds {
+  errorWindow: number; // Most recent requests the error rate is measured over
+  minRequests: number; // Requests needed before the error rate is judged
+  maxErrorRate: number; // 0-1
+  maxPriceAgeMs: number; // Quotes older than this are stale
+  maxLatencyMs: number; // p95 request latency
+  maxPriceDeviation: number; // Largest move away from the cross-venue median (0.02 = 2%)
+  probeIntervalMs: number; // Wait between recovery probes of a quarantined venue
+}
+
+export interface ExchangeHealth {
+  exchange: string;
+  state: ExchangeHealthState;
+  reasons: string[]; // Why the venue was quarantined; empty while healthy
+  requests: number;
+  errorRate: number;
+  lastPriceAt: Date | null;
+  priceAgeMs: number | null;
+  latencyP95Ms: number;
+  priceDeviation: number;
+  quarantinedAt: Date | null;
+  nextProbeAt: Date | null;
+}
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  errorWindow: 20,
+  minRequests: 5,
+  maxErrorRate: 0.5,
+  maxPriceAgeMs: 30000,
+  maxLatencyMs: 5000,
+  maxPriceDeviation: 0.02,
+  probeIntervalMs: 60000
+};
+
+interface VenueHealth {
+  outcomes: boolean[]; // Success of the most recent requests, oldest first
+  latency: LatencyHistogram;
+  lastPriceAt: number | null;
+  priceDeviation: number;
+  state: ExchangeHealthState;
+  reasons: string[];
+  quarantinedAt: number | null;
+  nextProbeAt: number | null;
+}
+
+/**
+ * Tracks venue health and circuit-breaks venues that misbehave
+ *
+ * A venue is quarantined once its error rate, quote age, latency or
+ * deviation from the other venues crosses a threshold. Quarantined venues
+ * are left out of detection and execution and only queried again as a
+ * recovery probe every `probeIntervalMs`; a probe that comes back within
+ * every threshold returns the venue to service with a clean history.
+ */
+export class ExchangeHealthMonitor {
+  private clock: Clock;
+  private thresholds: HealthThresholds;
+  private venues: Map<string, VenueHealth> = new Map();
+
+  constructor(thresholds: Partial<HealthThresholds> = {}, clock: Clock = systemClock) {
+    this.clock = clock;
+    this.thresholds = { ...DEFAULT_HEALTH_THRESHOLDS, ...thresholds };
+  }
+
+  getThresholds(): HealthThresholds {
+    return { ...this.thresholds };
+  }
+
+  /**
+   * Record the outcome of a price request or order sent to a venue
+   */
+  recordRequest(exchange: string, success: boolean, latencyMs?: number) {
+    const venue = this.getVenue(exchange);
+    venue.outcomes.push(success);
+    if (venue.outcomes.length > this.thresholds.errorWindow) {
+      venue.outcomes.shift();
+    }
+    if (latencyMs !== undefined) {
+      venue.latency.record(latencyMs);
+    }
+  }
+
+  /**
+   * Record that a venue returned fresh quotes
+   */
+  recordPrices(exchange: string) {
+    this.getVenue(exchange).lastPriceAt = this.clock.now();
+  }
+
+  /**
+   * Record the venue's largest relative deviation from the cross-venue median price
+   */
+  recordPriceDeviation(exchange: string, deviation: number) {
+    this.getVenue(exchange).priceDeviation = deviation;
+  }
+
+  isAvailable(exchange: string): boolean {
+    return this.getVenue(exchange).state === 'healthy';
+  }
+
+  /**
+   * Whether a quarantined venue is due for a recovery probe
+   */
+  isProbeDue(exchange: string): boolean {
+    const venue = this.getVenue(exchange);
+    return venue.state === 'quarantined' && venue.nextProbeAt !== null && this.clock.now() >= venue.nextProbeAt;
+  }
+
+  /**
+   * Re-check a venue against the thresholds, quarantining or restoring it
+   *
+   * A healthy venue is quarantined on any breach. A quarantined venue is only
+   * restored by a passing recovery probe; otherwise its next probe is pushed back.
+   */
+  evaluate(exchange: string, probe: boolean = false): ExchangeHealthState {
+    const venue = this.getVenue(exchange);
+    const now = this.clock.now();
+
+    if (venue.state === 'quarantined') {
+      if (!probe) return venue.state;
+
+      // Judge the probe on its own result rather than the history that tripped the breaker
+      const lastOutcome = venue.outcomes[venue.outcomes.length - 1];
+      const reasons = lastOutcome === false ? ["Recovery probe failed"] : this.getBreaches(venue, false);
+      if (reasons.length > 0) {
+        venue.reasons = reasons;
+        venue.nextProbeAt = now + this.thresholds.probeIntervalMs;
+        return venue.state;
+      }
+
+      this.venues.set(exchange, this.createVenue());
+      this.getVenue(exchange).lastPriceAt = venue.lastPriceAt;
+      console.log(`ExchangeHealthMonitor: ${exchange} recovered and is back in service`);
+      return 'healthy';
+    }
+
+    const reasons = this.getBreaches(venue, true);
+    if (reasons.length > 0) {
+      venue.state = 'quarantined';
+      venue.reasons = reasons;
+      venue.quarantinedAt = now;
+      venue.nextProbeAt = now + this.thresholds.probeIntervalMs;
+      console.warn(`ExchangeHealthMonitor: Quarantined ${exchange} (${reasons.join('; ')})`);
+    }
+
+    return venue.state;
+  }
+
+  getHealth(exchange: string): ExchangeHealth {
+    const venue = this.getVenue(exchange);
+    const now = this.clock.now();
+
+    return {
+      exchange,
+      state: venue.state,
+      reasons: [...venue.reasons],
+      requests: venue.outcomes.length,
+      errorRate: this.getErrorRate(venue),
+      lastPriceAt: venue.lastPriceAt !== null ? new Date(venue.lastPriceAt) : null,
+      priceAgeMs: venue.lastPriceAt !== null ? now - venue.lastPriceAt : null,
+      latencyP95Ms: venue.latency.percentile(95),
+      priceDeviation: venue.priceDeviation,
+      quarantinedAt: venue.quarantinedAt !== null ? new Date(venue.quarantinedAt) : null,
+      nextProbeAt: venue.nextProbeAt !== null ? new Date(venue.nextProbeAt) : null
+    };
+  }
+
+  private getBreaches(venue: VenueHealth, includeHistory: boolean): string[] {
+    const reasons: string[] = [];
+    const now = this.clock.now();
+
+    const errorRate = this.getErrorRate(venue);
+    if (includeHistory && venue.outcomes.length >= this.thresholds.minRequests && errorRate > this.thresholds.maxErrorRate) {
+      reasons.push(`Error rate ${(errorRate * 100).toFixed(0)}% over the last ${venue.outcomes.length} requests`);
+    }
+
+    if (venue.lastPriceAt === null || now - venue.lastPriceAt > this.thresholds.maxPriceAgeMs) {
+      // A venue that has never quoted is only stale once it has been asked enough times
+      if (venue.lastPriceAt !== null || venue.outcomes.length >= this.thresholds.minRequests) {
+        reasons.push(venue.lastPriceAt === null
+          ? "No prices received"
+          : `Prices are ${((now - venue.lastPriceAt) / 1000).toFixed(0)}s old`);
+      }
+    }
+
+    const p95 = venue.latency.percentile(95);
+    if (includeHistory && p95 > this.thresholds.maxLatencyMs) {
+      reasons.push(`p95 latency ${p95.toFixed(0)}ms exceeds ${this.thresholds.maxLatencyMs}ms`);
+    }
+
+    if (venue.priceDeviation > this.thresholds.maxPriceDeviation) {
+      reasons.push(`Prices deviate ${(venue.priceDeviation * 100).toFixed(2)}% from the cross-venue median`);
+    }
+
+    return reasons;
+  }
+
+  private getErrorRate(venue: VenueHealth): number {
+    if (venue.outcomes.length === 0) return 0;
+    return venue.outcomes.filter(success => !success).length / venue.outcomes.length;
+  }
+
+  private getVenue(exchange: string): VenueHealth {
+    let venue = this.venues.get(exchange);
+    if (!venue) {
+      venue = this.createVenue();
+      this.venues.set(exchange, venue);
+    }
+    return venue;
+  }
+
+  private createVenue(): VenueHealth {
+    return {
+      outcomes: [],
+      latency: new LatencyHistogram(this.thresholds.errorWindow),
+      lastPriceAt: null,
+      priceDeviation: 0,
+      state: 'healthy',
+      reasons: [],
+      quarantinedAt: null,
+      nextProbeAt: null
+    };
+  }
+}
@@ -0,0 +1,235 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ArbitrageService } from "../arbitrage";
+import { BASELINE_PRICES } from "./exchange-adapter";
+import { FixtureExchangeAdapter, type ExchangeFixture } from "./fixture-adapter";
+import { createDefaultExchangeRegistry, ExchangeRegistry } from "./registry";
+
+// Market symbol each venue uses for BTC, as published on its API
+const BTC_MARKET_SYMBOLS: Record<string, string> = {
+  "Uniswap": "WBTC",
+  "SushiSwap": "WBTC",
+  "Curve": "WBTC",
+  "PancakeSwap": "BTCB",
+  "Balancer": "WBTC",
+  "Jupiter": "WBTC",
+  "Raydium": "WBTC",
+  "Trader Joe": "BTC.b",
+  "OKX": "BTC-USDT",
+  "Binance": "BTCUSDT",
+  "Coinbase": "BTC-USD",
+  "Kraken": "XBTUSD",
+  "Kucoin": "BTC-USDT",
+  "Bybit": "BTCUSDT",
+  "Huobi": "btcusdt",
+  "Bitfinex": "tBTCUSD"
+};
+
+describe("built-in venue adapters", () => {
+  const registry = createDefaultExchangeRegistry();
+
+  it("registers every venue under the adapter's own name", () => {
+    assert.deepEqual(registry.list().sort(), Object.keys(BTC_MARKET_SYMBOLS).sort());
+    registry.list().forEach(name => assert.equal(registry.create(name).name, name));
+  });
+
+  registry.list().forEach(name => {
+    describe(name, () => {
+      it("maps asset symbols to its markets and back", () => {
+        const adapter = registry.create(name);
+        assert.equal(adapter.toVenueSymbol("BTC"), BTC_MARKET_SYMBOLS[name]);
+        adapter.supportedAssets.forEach(asset => {
+          assert.equal(adapter.fromVenueSymbol(adapter.toVenueSymbol(asset)), asset);
+        });
+      });
+
+      it("connects and disconnects", async () => {
+        const adapter = registry.create(name);
+        assert.equal(adapter.connectionStatus, 'disconnected');
+        await adapter.connect();
+        assert.equal(adapter.connectionStatus, 'connected');
+        await adapter.disconnect();
+        assert.equal(adapter.connectionStatus, 'disconnected');
+      });
+
+      it("quotes only the assets it lists, near the baseline", async () => {
+        const adapter = registry.create(name);
+        const prices = await adapter.getPrices([...Object.keys(BASELINE_PRICES), "DOGE"]);
+        assert.deepEqual(Object.keys(prices).sort(), adapter.supportedAssets.filter(asset => BASELINE_PRICES[asset]).sort());
+        Object.keys(prices).forEach(asset => {
+          assert.ok(Math.abs(prices[asset] / BASELINE_PRICES[asset] - 1) < 0.02, `${asset} at ${prices[asset]}`);
+        });
+      });
+
+      it("keeps its order book crossed the right way around", async () => {
+        const adapter = registry.create(name);
+        const book = await adapter.getOrderBook(adapter.supportedAssets[0], 5);
+        assert.equal(book.bids.length, 5);
+        assert.equal(book.asks.length, 5);
+        assert.ok(book.bids[0].price < book.asks[0].price);
+        for (let i = 1; i < 5; i++) {
+          assert.ok(book.bids[i].price < book.bids[i - 1].price);
+          assert.ok(book.asks[i].price > book.asks[i - 1].price);
+        }
+      });
+
+      it("charges the taker fee of the volume tier reached", () => {
+        const adapter = registry.create(name);
+        const { feeSchedule } = adapter;
+        assert.equal(adapter.calculateFee(1000), 1000 * feeSchedule.taker);
+
+        (feeSchedule.tiers || []).forEach(tier => {
+          adapter.calculateFee(tier.minVolumeUsd - adapter.getTradingVolume());
+          assert.equal(adapter.getFeeRates().taker, tier.taker);
+        });
+      });
+    });
+  });
+});
+
+const btcFixture = (name: string, prices: number[], overrides: Partial<ExchangeFixture> = {}): ExchangeFixture => ({
+  name,
+  type: 'CEX',
+  feeSchedule: { maker: 0.001, taker: 0.001 },
+  prices: prices.map(price => ({ BTC: price, ETH: 3000 })),
+  ...overrides
+});
+
+describe("FixtureExchangeAdapter", () => {
+  it("replays one snapshot per price request and repeats the last", async () => {
+    const adapter = new FixtureExchangeAdapter(btcFixture("A", [100, 110]));
+    assert.deepEqual(await adapter.getPrices(["BTC"]), { BTC: 100 });
+    assert.deepEqual(await adapter.getPrices(["BTC", "SOL"]), { BTC: 110 });
+    assert.deepEqual(await adapter.getPrices(["BTC"]), { BTC: 110 });
+  });
+
+  it("fills at the replayed price with the fixture's fee", async () => {
+    const adapter = new FixtureExchangeAdapter(btcFixture("A", [100, 110]));
+    await adapter.getPrices(["BTC"]);
+    const result = await adapter.executeTrade("BTC", 2, 'buy');
+    assert.equal(result.success, true);
+    assert.equal(result.price, 100);
+    assert.equal(result.fee, 2 * 100 * 0.001);
+    assert.equal(adapter.executedTrades.length, 1);
+  });
+
+  it("rejects recorded rejections, unknown assets and cancelled orders", async () => {
+    const adapter = new FixtureExchangeAdapter(btcFixture("A", [100], { rejectedAssets: ["ETH"] }));
+    await adapter.getPrices(["BTC", "ETH"]);
+    const controller = new AbortController();
+    controller.abort();
+
+    assert.match((await adapter.executeTrade("ETH", 1, 'buy')).error!, /Recorded rejection/);
+    assert.match((await adapter.executeTrade("SOL", 1, 'buy')).error!, /No recorded SOL price/);
+    assert.match((await adapter.executeTrade("BTC", 1, 'buy', undefined, controller.signal)).error!, /cancelled/);
+  });
+
+  it("serves recorded books, or a single level at the last price", async () => {
+    const asks = [{ price: 101, size: 1 }, { price: 102, size: 3 }];
+    const adapter = new FixtureExchangeAdapter(btcFixture("A", [100], {
+      orderBooks: { ETH: { bids: [{ price: 99, size: 1 }], asks } },
+      defaultDepth: 4
+    }));
+    await adapter.getPrices(["BTC"]);
+
+    assert.deepEqual((await adapter.getOrderBook("ETH")).asks, asks);
+    const book = await adapter.getOrderBook("BTC");
+    assert.deepEqual(book.bids, [{ price: 100, size: 4 }]);
+    assert.deepEqual(book.asks, [{ price: 100, size: 4 }]);
+  });
+
+  it("quotes cross pairs at the ratio of the recorded USD prices", async () => {
+    const adapter = new FixtureExchangeAdapter({ ...btcFixture("A", [60000]), prices: [{ BTC: 60000, ETH: 3000 }] });
+    await adapter.getPrices(["BTC", "ETH"]);
+    const ethBtc = (await adapter.getPairQuotes()).find(pair => pair.base === "ETH" && pair.quote === "BTC");
+    assert.equal(ethBtc?.bid, 0.05);
+    assert.equal((await adapter.executeTrade("ETH", 1, 'sell', "BTC")).price, 0.05);
+  });
+
+  it("quotes and fills recorded perpetuals against the replayed index", async () => {
+    const adapter = new FixtureExchangeAdapter(btcFixture("A", [100], { perps: { BTC: { markPrice: 101, fundingRate: 0.0003 } } }));
+    await adapter.getPrices(["BTC"]);
+    const [perp] = await adapter.getPerpQuotes(["BTC", "ETH"]);
+    assert.equal(perp.indexPrice, 100);
+    assert.equal(perp.fundingRate, 0.0003);
+    assert.equal((await adapter.executePerpTrade("BTC", 1, 'sell')).price, 101);
+    assert.equal((await adapter.executePerpTrade("ETH", 1, 'sell')).success, false);
+  });
+
+  it("rewinds to the first snapshot on reset", async () => {
+    const adapter = new FixtureExchangeAdapter(btcFixture("A", [100, 110]));
+    await adapter.getPrices(["BTC"]);
+    await adapter.getPrices(["BTC"]);
+    await adapter.executeTrade("BTC", 1, 'buy');
+    adapter.reset();
+    assert.deepEqual(await adapter.getPrices(["BTC"]), { BTC: 100 });
+    assert.equal(adapter.executedTrades.length, 0);
+  });
+});
+
+describe("ArbitrageService on fixture venues", () => {
+  it("detects a recorded cross-venue spread as a buy-low, sell-high route", async () => {
+    const registry = new ExchangeRegistry()
+      .register("Cheap", () => new FixtureExchangeAdapter(btcFixture("Cheap", [60000], { defaultDepth: 5 })))
+      .register("Fair", () => new FixtureExchangeAdapter(btcFixture("Fair", [60600], { defaultDepth: 5 })))
+      .register("Rich", () => new FixtureExchangeAdapter(btcFixture("Rich", [61200], { defaultDepth: 5 })));
+    const service = new ArbitrageService(registry, { syncToStorage: false, minProfitThreshold: 0.1 });
+    service.setMonitoredAssets(["BTC"]);
+
+    await service.runMonitoringCycle();
+
+    const legs = service.getActiveRoutes()
+      .filter(route => route.asset === "BTC" && route.steps.length === 2)
+      .map(route => route.steps.map(step => `${step.action} ${step.exchange}`).join(", "));
+    assert.ok(legs.includes("buy Cheap, sell Rich"), `routes: ${legs.join("; ")}`);
+    assert.ok(!legs.some(route => route.startsWith("buy Rich")), `routes: ${legs.join("; ")}`);
+  });
+});
+
+describe("ArbitrageService on simulated venues", () => {
+  it("lists a new asset on the named venues and quotes it from the reference price", async () => {
+    const service = new ArbitrageService(createDefaultExchangeRegistry(), { syncToStorage: false });
+    service.setMonitoredAssets(["BTC"]);
+    await assert.rejects(service.addMonitoredAsset("PEPE"), /No registered exchange lists PEPE/);
+
+    const config = await service.addMonitoredAsset("PEPE", { exchanges: ["Binance", "OKX"], referencePrice: 0.00001 });
+    const listing = config.exchanges.filter(exchange => exchange.monitoredAssets.includes("PEPE")).map(exchange => exchange.name);
+    assert.deepEqual(listing.sort(), ["Binance", "OKX"]);
+
+    await service.runMonitoringCycle({ autoExecute: false });
+    assert.ok(Math.abs(service.getReferencePrice("PEPE") / 0.00001 - 1) < 0.02);
+  });
+
+  it("changes nothing when an add is refused", async () => {
+    const service = new ArbitrageService(createDefaultExchangeRegistry(), { syncToStorage: false });
+    service.setMonitoredAssets(["BTC"]);
+
+    await assert.rejects(service.addMonitoredAsset("WIF", { referencePrice: 2 }), /No registered exchange lists WIF/);
+    await assert.rejects(service.addMonitoredAsset("WIF", { exchanges: ["Binance", "Nowhere"] }), /Exchange Nowhere not found/);
+    assert.equal(BASELINE_PRICES.WIF, undefined);
+    assert.equal(service.getExchange("Binance")!.supportsAsset("WIF"), false);
+  });
+
+  it("keeps the built-in reference price of a re-added asset", async () => {
+    const service = new ArbitrageService(createDefaultExchangeRegistry(), { syncToStorage: false });
+    const builtIn = BASELINE_PRICES.ETH;
+    service.setMonitoredAssets(["BTC"]);
+
+    await assert.rejects(service.addMonitoredAsset("ETH", { referencePrice: 1 }), /ETH has a built-in reference price/);
+    assert.equal(BASELINE_PRICES.ETH, builtIn);
+    await service.addMonitoredAsset("ETH");
+  });
+
+  it("lists runtime-added assets again after a restart", async () => {
+    const first = new ArbitrageService(createDefaultExchangeRegistry());
+    await first.addMonitoredAsset("BONK", { exchanges: ["Kraken"], referencePrice: 0.00002 });
+
+    // A new service over fresh adapters stands in for the next process
+    const restarted = new ArbitrageService(createDefaultExchangeRegistry());
+    await new Promise(resolve => setImmediate(resolve));
+    const config = restarted.getMonitoringConfig();
+    assert.ok(config.monitoredAssets.includes("BONK"));
+    assert.deepEqual(config.exchanges.filter(e => e.monitoredAssets.includes("BONK")).map(e => e.name), ["Kraken"]);
+    assert.deepEqual(config.assetListings.BONK, { exchanges: ["Kraken"], referencePrice: 0.00002 });
+  });
+});
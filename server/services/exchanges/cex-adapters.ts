@@ -0,0 +1,173 @@
+import { SimulatedExchangeAdapter } from "./exchange-adapter";
+import type { ExchangeType, FeeSchedule } from "./types";
+
+const ALL_ASSETS = ["BTC", "ETH", "SOL", "MATIC", "AVAX", "BNB", "ARB"];
+
+// USDT-margined perpetuals listed by the derivatives venues
+const PERP_ASSETS = ["BTC", "ETH", "SOL", "AVAX", "BNB", "ARB"];
+
+/**
+ * OKX spot - BTC-USDT style instrument ids
+ */
+export class OkxAdapter extends SimulatedExchangeAdapter {
+  readonly name = "OKX";
+  readonly type: ExchangeType = 'CEX';
+  readonly apiUrl = "https://www.okx.com/api/v5";
+  readonly feeSchedule: FeeSchedule = {
+    maker: 0.0008,
+    taker: 0.001,
+    tiers: [
+      { minVolumeUsd: 5000000, maker: 0.00045, taker: 0.0005 },
+      { minVolumeUsd: 10000000, maker: 0.0004, taker: 0.00045 }
+    ],
+    withdrawal: { "BTC": 0.0001, "ETH": 0.0012, "USDC": 0.5, "USDT": 0.5 }
+  };
+  readonly supportedAssets = [...ALL_ASSETS];
+  protected readonly priceBias = 0.0008; // 0.08% higher
+  readonly perpAssets = [...PERP_ASSETS];
+  protected readonly perpPremium = 0.0004;
+
+  protected formatMarketSymbol(venueAsset: string): string {
+    return `${venueAsset}-USDT`;
+  }
+}
+
+/**
+ * Binance spot - BTCUSDT style symbols
+ */
+export class BinanceAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Binance";
+  readonly type: ExchangeType = 'CEX';
+  readonly apiUrl = "https://api.binance.com/api/v3";
+  readonly feeSchedule: FeeSchedule = {
+    maker: 0.001,
+    taker: 0.001,
+    tiers: [
+      { minVolumeUsd: 1000000, maker: 0.0009, taker: 0.001 },
+      { minVolumeUsd: 5000000, maker: 0.0008, taker: 0.001 },
+      { minVolumeUsd: 20000000, maker: 0.0007, taker: 0.0009 }
+    ],
+    withdrawal: { "BTC": 0.0002, "ETH": 0.0016, "SOL": 0.008, "BNB": 0.0003 }
+  };
+  readonly supportedAssets = [...ALL_ASSETS];
+  protected readonly priceBias = -0.0002; // 0.02% lower
+  readonly perpAssets = [...PERP_ASSETS];
+  protected readonly perpPremium = 0.0006;
+  protected readonly perpTakerFee = 0.0004;
+
+  protected formatMarketSymbol(venueAsset: string): string {
+    return `${venueAsset}USDT`;
+  }
+}
+
+/**
+ * Coinbase Advanced Trade - BTC-USD style product ids, no BNB listing
+ */
+export class CoinbaseAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Coinbase";
+  readonly type: ExchangeType = 'CEX';
+  readonly apiUrl = "https://api.coinbase.com/v2";
+  readonly feeSchedule: FeeSchedule = {
+    maker: 0.0025,
+    taker: 0.004,
+    tiers: [
+      { minVolumeUsd: 100000, maker: 0.0015, taker: 0.0025 },
+      { minVolumeUsd: 1000000, maker: 0.001, taker: 0.002 }
+    ]
+  };
+  readonly supportedAssets = ["BTC", "ETH", "SOL", "MATIC", "AVAX", "ARB"];
+  protected readonly priceBias = 0.0015; // 0.15% higher
+
+  protected formatMarketSymbol(venueAsset: string): string {
+    return `${venueAsset}-USD`;
+  }
+}
+
+/**
+ * Kraken - uses XBT for bitcoin, XBTUSD style pairs
+ */
+export class KrakenAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Kraken";
+  readonly type: ExchangeType = 'CEX';
+  readonly apiUrl = "https://api.kraken.com/0";
+  readonly feeSchedule: FeeSchedule = {
+    maker: 0.0016,
+    taker: 0.0026,
+    tiers: [
+      { minVolumeUsd: 50000, maker: 0.0014, taker: 0.0024 },
+      { minVolumeUsd: 100000, maker: 0.0012, taker: 0.0022 },
+      { minVolumeUsd: 250000, maker: 0.001, taker: 0.002 },
+      { minVolumeUsd: 500000, maker: 0.0008, taker: 0.0018 }
+    ],
+    withdrawal: { "BTC": 0.00015, "ETH": 0.0035 }
+  };
+  readonly supportedAssets = ["BTC", "ETH", "SOL", "MATIC", "AVAX", "ARB"];
+  protected readonly symbolMap = { "BTC": "XBT" };
+
+  protected formatMarketSymbol(venueAsset: string): string {
+    return `${venueAsset}USD`;
+  }
+}
+
+/**
+ * KuCoin spot - BTC-USDT style symbols
+ */
+export class KucoinAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Kucoin";
+  readonly type: ExchangeType = 'CEX';
+  readonly apiUrl = "https://api.kucoin.com/api/v1";
+  readonly feeSchedule: FeeSchedule = { maker: 0.001, taker: 0.001 };
+  readonly supportedAssets = [...ALL_ASSETS];
+
+  protected formatMarketSymbol(venueAsset: string): string {
+    return `${venueAsset}-USDT`;
+  }
+}
+
+/**
+ * Bybit spot - BTCUSDT style symbols
+ */
+export class BybitAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Bybit";
+  readonly type: ExchangeType = 'CEX';
+  readonly apiUrl = "https://api.bybit.com/v2";
+  readonly feeSchedule: FeeSchedule = { maker: 0.001, taker: 0.001 };
+  readonly supportedAssets = [...ALL_ASSETS];
+  readonly perpAssets = [...PERP_ASSETS];
+  protected readonly perpPremium = 0.0009;
+  protected readonly perpTakerFee = 0.00055;
+
+  protected formatMarketSymbol(venueAsset: string): string {
+    return `${venueAsset}USDT`;
+  }
+}
+
+/**
+ * Huobi (HTX) - lowercase btcusdt style symbols
+ */
+export class HuobiAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Huobi";
+  readonly type: ExchangeType = 'CEX';
+  readonly apiUrl = "https://api.huobi.pro/v1";
+  readonly feeSchedule: FeeSchedule = { maker: 0.002, taker: 0.002 };
+  readonly supportedAssets = [...ALL_ASSETS];
+
+  protected formatMarketSymbol(venueAsset: string): string {
+    return `${venueAsset.toLowerCase()}usdt`;
+  }
+}
+
+/**
+ * Bitfinex - tBTCUSD style trading pairs
+ */
+export class BitfinexAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Bitfinex";
+  readonly type: ExchangeType = 'CEX';
+  readonly apiUrl = "https://api.bitfinex.com/v1";
+  readonly feeSchedule: FeeSchedule = { maker: 0.001, taker: 0.002 };
+  readonly supportedAssets = ["BTC", "ETH", "SOL", "MATIC", "AVAX", "ARB"];
+
+  protected formatMarketSymbol(venueAsset: string): string {
+    return `t${venueAsset}USD`;
+  }
+}
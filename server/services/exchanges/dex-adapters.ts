@@ -0,0 +1,110 @@
+import { SimulatedExchangeAdapter } from "./exchange-adapter";
+import type { ExchangeType, FeeSchedule } from "./types";
+
+/**
+ * Uniswap (Ethereum) - wrapped BTC/ETH pools, 0.3% fee tier
+ */
+export class UniswapAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Uniswap";
+  readonly type: ExchangeType = 'DEX';
+  readonly chain = "ethereum";
+  readonly apiUrl = "https://api.uniswap.org/v1";
+  readonly feeSchedule: FeeSchedule = { maker: 0.003, taker: 0.003 };
+  readonly supportedAssets = ["BTC", "ETH", "MATIC", "ARB"];
+  protected readonly symbolMap = { "BTC": "WBTC", "ETH": "WETH" };
+  protected readonly priceBias = 0.001; // 0.1% higher
+}
+
+/**
+ * SushiSwap (multi-chain, routed through Arbitrum)
+ */
+export class SushiSwapAdapter extends SimulatedExchangeAdapter {
+  readonly name = "SushiSwap";
+  readonly type: ExchangeType = 'DEX';
+  readonly chain = "arbitrum";
+  readonly apiUrl = "https://api.sushi.com/v1";
+  readonly feeSchedule: FeeSchedule = { maker: 0.003, taker: 0.003 };
+  readonly supportedAssets = ["BTC", "ETH", "MATIC", "AVAX", "ARB"];
+  protected readonly symbolMap = { "BTC": "WBTC", "ETH": "WETH" };
+  protected readonly priceBias = -0.0005; // 0.05% lower
+}
+
+/**
+ * Curve - low-fee pools for BTC and ETH pegged assets
+ */
+export class CurveAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Curve";
+  readonly type: ExchangeType = 'DEX';
+  readonly chain = "ethereum";
+  readonly apiUrl = "https://api.curve.fi/v1";
+  readonly feeSchedule: FeeSchedule = { maker: 0.0004, taker: 0.0004 };
+  readonly supportedAssets = ["BTC", "ETH"];
+  protected readonly symbolMap = { "BTC": "WBTC" };
+}
+
+/**
+ * PancakeSwap (BNB Chain)
+ */
+export class PancakeSwapAdapter extends SimulatedExchangeAdapter {
+  readonly name = "PancakeSwap";
+  readonly type: ExchangeType = 'DEX';
+  readonly chain = "bsc";
+  readonly apiUrl = "https://api.pancakeswap.finance/v1";
+  readonly feeSchedule: FeeSchedule = { maker: 0.0025, taker: 0.0025 };
+  readonly supportedAssets = ["BTC", "ETH", "BNB", "AVAX"];
+  protected readonly symbolMap = { "BTC": "BTCB", "BNB": "WBNB" };
+}
+
+/**
+ * Balancer (Ethereum) - weighted pools
+ */
+export class BalancerAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Balancer";
+  readonly type: ExchangeType = 'DEX';
+  readonly chain = "ethereum";
+  readonly apiUrl = "https://api.balancer.fi/v1";
+  readonly feeSchedule: FeeSchedule = { maker: 0.002, taker: 0.002 };
+  readonly supportedAssets = ["BTC", "ETH", "MATIC", "ARB"];
+  protected readonly symbolMap = { "BTC": "WBTC", "ETH": "WETH" };
+}
+
+/**
+ * Jupiter (Solana aggregator)
+ */
+export class JupiterAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Jupiter";
+  readonly type: ExchangeType = 'DEX';
+  readonly chain = "solana";
+  readonly apiUrl = "https://api.jup.ag/v1";
+  readonly feeSchedule: FeeSchedule = { maker: 0.0025, taker: 0.0025 };
+  readonly supportedAssets = ["BTC", "ETH", "SOL"];
+  protected readonly symbolMap = { "BTC": "WBTC", "ETH": "WETH" };
+  protected readonly priceBias = -0.0008; // 0.08% lower
+}
+
+/**
+ * Raydium (Solana AMM)
+ */
+export class RaydiumAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Raydium";
+  readonly type: ExchangeType = 'DEX';
+  readonly chain = "solana";
+  readonly apiUrl = "https://api.raydium.io/v1";
+  readonly feeSchedule: FeeSchedule = { maker: 0.0025, taker: 0.0025 };
+  readonly supportedAssets = ["BTC", "ETH", "SOL"];
+  protected readonly symbolMap = { "BTC": "WBTC", "ETH": "WETH" };
+  protected readonly priceBias = 0.0005; // 0.05% higher
+}
+
+/**
+ * Trader Joe (Avalanche)
+ */
+export class TraderJoeAdapter extends SimulatedExchangeAdapter {
+  readonly name = "Trader Joe";
+  readonly type: ExchangeType = 'DEX';
+  readonly chain = "avalanche";
+  readonly apiUrl = "https://api.traderjoe.xyz/v1";
+  readonly feeSchedule: FeeSchedule = { maker: 0.003, taker: 0.003 };
+  readonly supportedAssets = ["BTC", "ETH", "AVAX", "ARB"];
+  protected readonly symbolMap = { "BTC": "BTC.b", "ETH": "WETH.e", "AVAX": "WAVAX" };
+}
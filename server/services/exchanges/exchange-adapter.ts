@@ -0,0 +1,486 @@
+import { averageFillPrice } from "./order-book";
+import { FEE_TIER_WINDOW_MS, resolveFeeTier } from "./fees";
+import type {
+  ConnectionStatus, Exchange, ExchangeType, FeeSchedule, OrderBook, OrderBookLevel,
+  PairQuote, PerpQuote, TradeResult, TradingPair
+} from "./types";
+
+// Reference USD prices used by the simulated venues
+export const BASELINE_PRICES: Record<string, number> = {
+  "BTC": 65842.50,
+  "ETH": 3245.89,
+  "SOL": 103.47,
+  "MATIC": 0.87,
+  "AVAX": 34.25,
+  "BNB": 603.12,
+  "ARB": 1.23
+};
+
+// Random walk amplitude (absolute USD) applied to the baseline on each price request
+const PRICE_JITTER: Record<string, number> = {
+  "BTC": 200,
+  "ETH": 15,
+  "SOL": 2,
+  "MATIC": 0.02,
+  "AVAX": 0.5,
+  "BNB": 5,
+  "ARB": 0.03
+};
+
+// Jitter given to assets listed at runtime, as a share of their reference price
+const LISTED_ASSET_JITTER = 0.003;
+
+// Assets priced above; their reference prices are never replaced at runtime
+const BUILT_IN_PRICED_ASSETS = Object.keys(BASELINE_PRICES);
+
+/**
+ * Why a reference price cannot be set for an asset, or null when it can
+ */
+export function checkBaselinePrice(asset: string, price: number): string | null {
+  if (BUILT_IN_PRICED_ASSETS.includes(asset)) {
+    return `${asset} has a built-in reference price`;
+  }
+  if (!(price > 0) || !isFinite(price)) {
+    return `Invalid reference price ${price} for ${asset}`;
+  }
+  return null;
+}
+
+/**
+ * Give the simulated venues a reference price for an asset, so the ones that
+ * list it can quote it; listing is still per venue via listAsset()
+ */
+export function setBaselinePrice(asset: string, price: number) {
+  const problem = checkBaselinePrice(asset, price);
+  if (problem) {
+    throw new Error(problem);
+  }
+  BASELINE_PRICES[asset] = price;
+  PRICE_JITTER[asset] = PRICE_JITTER[asset] ?? price * LISTED_ASSET_JITTER;
+}
+
+// Perpetuals settle funding every eight hours on the simulated venues
+export const PERP_FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+
+// Interest component of the funding rate per interval (0.01%), as on most venues
+const PERP_FUNDING_INTEREST = 0.0001;
+
+// Largest funding rate a venue charges per interval
+const PERP_FUNDING_CAP = 0.0075;
+
+// Stablecoin every listed asset is quoted against
+export const USD_QUOTE = "USDC";
+
+// Crypto-to-crypto pairs listed wherever both sides are supported
+const CROSS_PAIRS: TradingPair[] = [
+  { base: "ETH", quote: "BTC" },
+  { base: "SOL", quote: "BTC" },
+  { base: "SOL", quote: "ETH" },
+  { base: "BNB", quote: "BTC" },
+  { base: "BNB", quote: "ETH" },
+  { base: "AVAX", quote: "ETH" },
+  { base: "MATIC", quote: "ETH" },
+  { base: "ARB", quote: "ETH" }
+];
+
+/**
+ * Whether a quote asset is a USD stablecoin (or omitted, meaning USD)
+ */
+export function isUsdQuote(quote?: string): boolean {
+  return !quote || quote === "USD" || quote === "USDC" || quote === "USDT";
+}
+
+/**
+ * Base class for all exchange adapters
+ *
+ * Each venue is implemented as its own subclass declaring its fee schedule,
+ * supported assets and symbol mapping. The base class handles the connection
+ * lifecycle and the translation between internal asset symbols and the
+ * symbols the venue uses on its API.
+ */
+export abstract class ExchangeAdapter implements Exchange {
+  abstract readonly name: string;
+  abstract readonly type: ExchangeType;
+  abstract readonly apiUrl: string;
+  abstract readonly feeSchedule: FeeSchedule;
+  abstract readonly supportedAssets: string[];
+  readonly chain?: string;
+
+  // Assets with a USD-margined perpetual; venues without derivatives list none
+  readonly perpAssets: string[] = [];
+
+  // Internal symbol -> venue symbol (e.g. BTC -> XBT on Kraken)
+  protected readonly symbolMap: Record<string, string> = {};
+
+  connectionStatus: ConnectionStatus = 'disconnected';
+
+  // Filled notional within the fee tier window, oldest first
+  private filledVolume: Array<{ timestamp: number; notional: number }> = [];
+
+  /**
+   * Open the connection to the venue
+   */
+  async connect(): Promise<void> {
+    try {
+      await this.openConnection();
+      this.connectionStatus = 'connected';
+    } catch (error) {
+      console.error(`${this.name}: Failed to connect:`, error);
+      this.connectionStatus = 'error';
+      throw error;
+    }
+  }
+
+  /**
+   * Close the connection to the venue
+   */
+  async disconnect(): Promise<void> {
+    await this.closeConnection();
+    this.connectionStatus = 'disconnected';
+  }
+
+  /**
+   * Check whether the venue lists the given asset
+   */
+  supportsAsset(asset: string): boolean {
+    return this.supportedAssets.includes(asset);
+  }
+
+  /**
+   * Add an asset to the venue's listings at runtime
+   */
+  listAsset(asset: string): void {
+    if (!this.supportsAsset(asset)) {
+      this.supportedAssets.push(asset);
+    }
+  }
+
+  /**
+   * Pairs listed on the venue: every asset against USDC plus the cross pairs
+   * whose base and quote are both supported
+   */
+  get supportedPairs(): TradingPair[] {
+    const pairs: TradingPair[] = this.supportedAssets.map(asset => ({ base: asset, quote: USD_QUOTE }));
+    CROSS_PAIRS.forEach(pair => {
+      if (this.supportsAsset(pair.base) && this.supportsAsset(pair.quote)) {
+        pairs.push({ ...pair });
+      }
+    });
+    return pairs;
+  }
+
+  /**
+   * Map an internal asset symbol to the venue's own market symbol
+   */
+  toVenueSymbol(asset: string): string {
+    return this.formatMarketSymbol(this.symbolMap[asset] || asset);
+  }
+
+  /**
+   * Map a venue market symbol back to the internal asset symbol
+   */
+  fromVenueSymbol(venueSymbol: string): string | undefined {
+    return this.supportedAssets.find(asset => this.toVenueSymbol(asset) === venueSymbol);
+  }
+
+  /**
+   * Notional filled on the venue over the trailing fee tier window
+   */
+  getTradingVolume(): number {
+    const cutoff = Date.now() - FEE_TIER_WINDOW_MS;
+    while (this.filledVolume.length > 0 && this.filledVolume[0].timestamp < cutoff) {
+      this.filledVolume.shift();
+    }
+    return this.filledVolume.reduce((sum, fill) => sum + fill.notional, 0);
+  }
+
+  getFeeRates(): { maker: number; taker: number } {
+    return resolveFeeTier(this.feeSchedule, this.getTradingVolume());
+  }
+
+  /**
+   * Taker fee for a fill of the given notional size at the current volume
+   * tier; the fill then counts towards the venue's trailing volume
+   */
+  calculateFee(notional: number): number {
+    const fee = notional * this.getFeeRates().taker;
+    this.filledVolume.push({ timestamp: Date.now(), notional });
+    return fee;
+  }
+
+  abstract getPrices(assets: string[]): Promise<Record<string, number>>;
+  abstract getOrderBook(asset: string, depth?: number): Promise<OrderBook>;
+  abstract getPairQuotes(): Promise<PairQuote[]>;
+  abstract executeTrade(asset: string, amount: number, side: 'buy' | 'sell', quote?: string, signal?: AbortSignal): Promise<TradeResult>;
+
+  /**
+   * Check whether the venue lists a perpetual for the given asset
+   */
+  supportsPerp(asset: string): boolean {
+    return this.perpAssets.includes(asset);
+  }
+
+  // Spot-only venues quote no perpetuals and reject perp orders
+  async getPerpQuotes(assets: string[]): Promise<PerpQuote[]> {
+    return [];
+  }
+
+  async executePerpTrade(asset: string, amount: number, side: 'buy' | 'sell', signal?: AbortSignal): Promise<TradeResult> {
+    return {
+      success: false,
+      txId: '',
+      asset,
+      amount: 0,
+      price: 0,
+      fee: 0,
+      timestamp: new Date(),
+      error: `${this.name} does not list a ${asset} perpetual`
+    };
+  }
+
+  // Build the market symbol from the venue's asset ticker (e.g. BTC -> BTC-USDT)
+  protected formatMarketSymbol(venueAsset: string): string {
+    return venueAsset;
+  }
+
+  /**
+   * Wait out the venue's fill latency; resolves false if the order is cancelled first
+   */
+  protected waitForFill(ms: number, signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) return Promise.resolve(false);
+
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve(false);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(true);
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  // Lifecycle hooks overridden by adapters that hold real connections
+  protected async openConnection(): Promise<void> {}
+  protected async closeConnection(): Promise<void> {}
+}
+
+/**
+ * Exchange adapter backed by simulated market data
+ *
+ * Used by the built-in venues until their live API integrations are enabled.
+ * Prices follow the shared baseline plus a venue-specific bias, so some venues
+ * are consistently higher or lower than others.
+ */
+export abstract class SimulatedExchangeAdapter extends ExchangeAdapter {
+  // Venue-specific price bias (0.001 = 0.1% higher than baseline)
+  protected readonly priceBias: number = 0;
+
+  // Probability that a simulated fill is rejected
+  protected readonly failureRate: number = 0.02;
+
+  // Maximum mispricing of cross pairs relative to their USD legs (0.004 = 0.4%)
+  protected readonly crossPairDislocation: number = 0.004;
+
+  // USD depth available at the best level on each side of the book
+  protected readonly topOfBookLiquidityUsd: number = 50000;
+
+  // Typical premium of the perp mark over the spot index (0.0005 = 0.05%)
+  protected readonly perpPremium: number = 0;
+
+  // Taker fee rate on perpetual fills
+  protected readonly perpTakerFee: number = 0.0005;
+
+  // Last simulated mid price per asset, so books and fills stay consistent with quotes
+  private midPrices: Map<string, number> = new Map();
+
+  // Last simulated perp mark per asset, so perp fills stay consistent with quotes
+  private perpMarks: Map<string, number> = new Map();
+
+  async getPrices(assets: string[]): Promise<Record<string, number>> {
+    // In a real implementation, this would connect to the exchange's API
+    // using the venue symbols from toVenueSymbol()
+    const prices: Record<string, number> = {};
+    assets.forEach(asset => {
+      if (!this.supportsAsset(asset) || !BASELINE_PRICES[asset]) return;
+      prices[asset] = this.simulateMidPrice(asset);
+    });
+
+    return prices;
+  }
+
+  async getOrderBook(asset: string, depth: number = 10): Promise<OrderBook> {
+    const book: OrderBook = {
+      exchange: this.name,
+      asset,
+      bids: [],
+      asks: [],
+      timestamp: new Date()
+    };
+    if (!this.supportsAsset(asset) || !BASELINE_PRICES[asset]) return book;
+
+    const mid = this.midPrices.get(asset) ?? this.simulateMidPrice(asset);
+
+    // AMMs quote a wider spread and thinner depth than central limit order books
+    const halfSpread = this.type === 'DEX' ? 0.0005 : 0.0001;
+    const levelStep = this.type === 'DEX' ? 0.001 : 0.0003;
+    const baseSize = (this.type === 'DEX' ? 0.5 : 1) * this.topOfBookLiquidityUsd / mid;
+
+    for (let level = 0; level < depth; level++) {
+      const offset = halfSpread + level * levelStep;
+      // Deeper levels hold progressively more size
+      const size = baseSize * (1 + level * 0.5);
+      book.bids.push({ price: mid * (1 - offset), size });
+      book.asks.push({ price: mid * (1 + offset), size });
+    }
+
+    return book;
+  }
+
+  async getPairQuotes(): Promise<PairQuote[]> {
+    const halfSpread = this.type === 'DEX' ? 0.0005 : 0.0001;
+
+    return this.supportedPairs
+      .filter(pair => BASELINE_PRICES[pair.base] && (isUsdQuote(pair.quote) || BASELINE_PRICES[pair.quote]))
+      .map(pair => {
+        let mid = this.pairMidPrice(pair.base, pair.quote);
+        if (!isUsdQuote(pair.quote)) {
+          // Cross pairs drift away from the ratio of their USD legs
+          mid *= 1 + (Math.random() * 2 - 1) * this.crossPairDislocation;
+        }
+        return { ...pair, bid: mid * (1 - halfSpread), ask: mid * (1 + halfSpread) };
+      });
+  }
+
+  async executeTrade(asset: string, amount: number, side: 'buy' | 'sell', quote?: string, signal?: AbortSignal): Promise<TradeResult> {
+    // Simulate trade execution with realistic success rate and latency
+    const filled = await this.waitForFill(500 + Math.random() * 1000, signal);
+    if (!filled) {
+      return this.failedTrade(asset, "Order cancelled before fill");
+    }
+
+    if (!this.supportsAsset(asset)) {
+      return this.failedTrade(asset, `${asset} is not listed on ${this.name}`);
+    }
+
+    let executionPrice: number;
+    if (isUsdQuote(quote)) {
+      // Walk the book so larger orders pay for the depth they consume
+      const book = await this.getOrderBook(asset);
+      const levels: OrderBookLevel[] = side === 'buy' ? book.asks : book.bids;
+      executionPrice = averageFillPrice(levels, amount);
+    } else {
+      if (!this.supportedPairs.some(pair => pair.base === asset && pair.quote === quote)) {
+        return this.failedTrade(asset, `${asset}/${quote} is not listed on ${this.name}`);
+      }
+      const halfSpread = this.type === 'DEX' ? 0.0005 : 0.0001;
+      const mid = this.pairMidPrice(asset, quote!);
+      executionPrice = side === 'buy' ? mid * (1 + halfSpread) : mid * (1 - halfSpread);
+    }
+
+    if (Math.random() < this.failureRate) {
+      return this.failedTrade(asset, "Simulated trade execution failure due to market conditions");
+    }
+
+    return {
+      success: true,
+      txId: `tx-${Date.now()}-${Math.floor(Math.random() * 1000000)}`,
+      asset,
+      amount,
+      price: executionPrice,
+      fee: this.calculateFee(amount * executionPrice),
+      timestamp: new Date()
+    };
+  }
+
+  async getPerpQuotes(assets: string[]): Promise<PerpQuote[]> {
+    const now = Date.now();
+    const nextFundingTime = new Date(Math.ceil(now / PERP_FUNDING_INTERVAL_MS) * PERP_FUNDING_INTERVAL_MS);
+
+    return assets
+      .filter(asset => this.supportsPerp(asset) && BASELINE_PRICES[asset])
+      .map(asset => {
+        const index = this.midPrices.get(asset) ?? this.simulateMidPrice(asset);
+        const premium = this.perpPremium + (Math.random() * 2 - 1) * 0.0005;
+        const markPrice = index * (1 + premium);
+        this.perpMarks.set(asset, markPrice);
+
+        // Premium plus the interest rate, with the interest term clamped to +/-0.05% as on Binance and OKX
+        const interest = Math.max(-0.0005, Math.min(0.0005, PERP_FUNDING_INTEREST - premium));
+        const fundingRate = Math.max(-PERP_FUNDING_CAP, Math.min(PERP_FUNDING_CAP, premium + interest));
+
+        return {
+          exchange: this.name,
+          asset,
+          markPrice,
+          indexPrice: index,
+          bid: markPrice * (1 - 0.0001),
+          ask: markPrice * (1 + 0.0001),
+          fundingRate,
+          fundingIntervalMs: PERP_FUNDING_INTERVAL_MS,
+          nextFundingTime,
+          takerFee: this.perpTakerFee,
+          timestamp: new Date(now)
+        };
+      });
+  }
+
+  async executePerpTrade(asset: string, amount: number, side: 'buy' | 'sell', signal?: AbortSignal): Promise<TradeResult> {
+    const filled = await this.waitForFill(300 + Math.random() * 700, signal);
+    if (!filled) {
+      return this.failedTrade(asset, "Order cancelled before fill");
+    }
+
+    if (!this.supportsPerp(asset) || !BASELINE_PRICES[asset]) {
+      return this.failedTrade(asset, `${this.name} does not list a ${asset} perpetual`);
+    }
+
+    if (Math.random() < this.failureRate) {
+      return this.failedTrade(asset, "Simulated trade execution failure due to market conditions");
+    }
+
+    const mark = this.perpMarks.get(asset) ?? (this.midPrices.get(asset) ?? this.simulateMidPrice(asset)) * (1 + this.perpPremium);
+    const price = side === 'buy' ? mark * (1 + 0.0001) : mark * (1 - 0.0001);
+
+    // Perp volume is tracked separately by venues, so it does not count towards the spot fee tier
+    return {
+      success: true,
+      txId: `perp-${Date.now()}-${Math.floor(Math.random() * 1000000)}`,
+      asset,
+      amount,
+      price,
+      fee: amount * price * this.perpTakerFee,
+      timestamp: new Date()
+    };
+  }
+
+  private pairMidPrice(base: string, quote: string): number {
+    const baseMid = this.midPrices.get(base) ?? this.simulateMidPrice(base);
+    if (isUsdQuote(quote)) return baseMid;
+
+    const quoteMid = this.midPrices.get(quote) ?? this.simulateMidPrice(quote);
+    return baseMid / quoteMid;
+  }
+
+  private simulateMidPrice(asset: string): number {
+    const jitter = PRICE_JITTER[asset] || 0;
+    const price = (BASELINE_PRICES[asset] + (Math.random() * jitter - jitter / 2)) * (1 + this.priceBias);
+    this.midPrices.set(asset, price);
+    return price;
+  }
+
+  protected failedTrade(asset: string, error: string): TradeResult {
+    return {
+      success: false,
+      txId: '',
+      asset,
+      amount: 0,
+      price: 0,
+      fee: 0,
+      timestamp: new Date(),
+      error
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import type { Exchange, FeeSchedule } from "./types";
+
+// Trailing window over which venues measure volume for fee tiers
+export const FEE_TIER_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Flat withdrawal fee per asset, in units of the asset, for venues that do not publish their own
+export const DEFAULT_WITHDRAWAL_FEES: Record<string, number> = {
+  "BTC": 0.0002,
+  "ETH": 0.002,
+  "SOL": 0.01,
+  "MATIC": 0.1,
+  "AVAX": 0.01,
+  "BNB": 0.0005,
+  "ARB": 0.1,
+  "USDC": 1,
+  "USDT": 1
+};
+
+// Gas paid by one swap transaction on a chain, in its native asset
+export interface ChainGasCost {
+  nativeAsset: string;
+  swapCost: number;
+}
+
+export const CHAIN_GAS_COSTS: Record<string, ChainGasCost> = {
+  "ethereum": { nativeAsset: "ETH", swapCost: 30e-9 * 180000 }, // 30 gwei x 180k gas
+  "arbitrum": { nativeAsset: "ETH", swapCost: 0.1e-9 * 1000000 }, // 0.1 gwei x 1M gas
+  "bsc": { nativeAsset: "BNB", swapCost: 3e-9 * 150000 }, // 3 gwei x 150k gas
+  "avalanche": { nativeAsset: "AVAX", swapCost: 25e-9 * 200000 }, // 25 nAVAX x 200k gas
+  "solana": { nativeAsset: "SOL", swapCost: 0.00005 } // Base fee plus priority fee
+};
+
+/**
+ * Maker/taker rates of the highest volume tier the given trailing volume reaches
+ */
+export function resolveFeeTier(schedule: FeeSchedule, volumeUsd: number): { maker: number; taker: number } {
+  let rates = { maker: schedule.maker, taker: schedule.taker };
+  (schedule.tiers || []).forEach(tier => {
+    if (volumeUsd >= tier.minVolumeUsd) {
+      rates = { maker: tier.maker, taker: tier.taker };
+    }
+  });
+  return rates;
+}
+
+/**
+ * Fee model shared by opportunity detection, execution PnL and rebalancing
+ *
+ * Trading fees come from each venue's schedule at its current volume tier,
+ * withdrawals from the venue's published fees (or the defaults), and every
+ * DEX leg additionally pays its chain's swap gas.
+ */
+export class FeeModel {
+  private chainGas: Record<string, ChainGasCost>;
+
+  constructor(chainGas: Record<string, ChainGasCost> = CHAIN_GAS_COSTS) {
+    this.chainGas = { ...chainGas };
+  }
+
+  /**
+   * Fee rate for a fill on the venue at its current volume tier
+   */
+  getTradingFeeRate(exchange: Exchange, liquidity: 'maker' | 'taker' = 'taker'): number {
+    return exchange.getFeeRates()[liquidity];
+  }
+
+  /**
+   * Flat fee for withdrawing an asset from a venue, in units of the asset
+   */
+  getWithdrawalFee(exchange: Exchange | undefined, asset: string): number {
+    return exchange?.feeSchedule.withdrawal?.[asset] ?? DEFAULT_WITHDRAWAL_FEES[asset] ?? 0;
+  }
+
+  /**
+   * USD gas for one swap on a DEX; central venues charge none
+   *
+   * `priceOf` gives the USD price of the chain's native asset.
+   */
+  getSwapGasCostUsd(exchange: Exchange | undefined, priceOf: (asset: string) => number): number {
+    if (!exchange || exchange.type !== 'DEX') return 0;
+
+    const gas = this.chainGas[exchange.chain || 'ethereum'];
+    if (!gas) return 0;
+    return gas.swapCost * priceOf(gas.nativeAsset);
+  }
+
+  getChainGasCosts(): Record<string, ChainGasCost> {
+    return { ...this.chainGas };
+  }
+
+  /**
+   * Override the swap gas for a chain, e.g. when network fees spike
+   */
+  setChainGasCost(chain: string, cost: ChainGasCost) {
+    if (!isFinite(cost.swapCost) || cost.swapCost < 0) {
+      throw new Error(`Gas cost for ${chain} must be a non-negative number`);
+    }
+    this.chainGas[chain] = { ...cost };
+  }
+}
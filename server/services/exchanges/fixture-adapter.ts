@@ -0,0 +1,198 @@
+import { ExchangeAdapter, isUsdQuote, PERP_FUNDING_INTERVAL_MS } from "./exchange-adapter";
+import type { ExchangeType, FeeSchedule, OrderBook, OrderBookLevel, PairQuote, PerpQuote, TradeResult } from "./types";
+
+// Recorded venue data replayed by FixtureExchangeAdapter
+export interface ExchangeFixture {
+  name: string;
+  type: ExchangeType;
+  apiUrl?: string;
+  feeSchedule?: FeeSchedule;
+  chain?: string;
+  // Price snapshots (asset -> price), returned one per getPrices() call; the last one repeats
+  prices: Array<Record<string, number>>;
+  // Recorded books per asset; without one, a single level of `defaultDepth` sits at the last price
+  orderBooks?: Record<string, { bids: OrderBookLevel[]; asks: OrderBookLevel[] }>;
+  defaultDepth?: number;
+  // Assets whose trades are rejected by the venue
+  rejectedAssets?: string[];
+  // Recorded perpetuals per asset; the index is the last replayed spot price
+  perps?: Record<string, { markPrice: number; fundingRate: number; fundingIntervalMs?: number; takerFee?: number }>;
+}
+
+/**
+ * Deterministic stand-in for a live venue
+ *
+ * Replays recorded price snapshots and fills every trade at the most recently
+ * replayed price with no latency or randomness, so the detection and execution
+ * logic can be exercised against known market data.
+ */
+export class FixtureExchangeAdapter extends ExchangeAdapter {
+  readonly name: string;
+  readonly type: ExchangeType;
+  readonly apiUrl: string;
+  readonly feeSchedule: FeeSchedule;
+  readonly chain?: string;
+  readonly supportedAssets: string[];
+  readonly perpAssets: string[];
+  readonly executedTrades: TradeResult[] = [];
+
+  private fixture: ExchangeFixture;
+  private cursor: number = 0;
+  private lastPrices: Record<string, number> = {};
+
+  constructor(fixture: ExchangeFixture) {
+    super();
+    this.fixture = fixture;
+    this.name = fixture.name;
+    this.type = fixture.type;
+    this.apiUrl = fixture.apiUrl || `fixture://${fixture.name}`;
+    this.feeSchedule = fixture.feeSchedule || { maker: 0.001, taker: 0.001 };
+    this.chain = fixture.chain;
+
+    const assets = new Set<string>();
+    fixture.prices.forEach(snapshot => Object.keys(snapshot).forEach(asset => assets.add(asset)));
+    this.supportedAssets = Array.from(assets);
+    this.perpAssets = Object.keys(fixture.perps || {});
+  }
+
+  async getPrices(assets: string[]): Promise<Record<string, number>> {
+    const snapshots = this.fixture.prices;
+    if (snapshots.length === 0) return {};
+
+    const snapshot = snapshots[Math.min(this.cursor, snapshots.length - 1)];
+    this.cursor++;
+    this.lastPrices = { ...this.lastPrices, ...snapshot };
+
+    const prices: Record<string, number> = {};
+    assets.forEach(asset => {
+      if (snapshot[asset] !== undefined) {
+        prices[asset] = snapshot[asset];
+      }
+    });
+
+    return prices;
+  }
+
+  async getOrderBook(asset: string, depth: number = 10): Promise<OrderBook> {
+    const recorded = this.fixture.orderBooks?.[asset];
+    const price = this.lastPrices[asset];
+    const size = this.fixture.defaultDepth ?? 10;
+
+    const bids = recorded ? recorded.bids : price !== undefined ? [{ price, size }] : [];
+    const asks = recorded ? recorded.asks : price !== undefined ? [{ price, size }] : [];
+
+    return {
+      exchange: this.name,
+      asset,
+      bids: bids.slice(0, depth),
+      asks: asks.slice(0, depth),
+      timestamp: new Date()
+    };
+  }
+
+  async getPairQuotes(): Promise<PairQuote[]> {
+    // Cross pairs are quoted at the exact ratio of the recorded USD prices
+    return this.supportedPairs
+      .map(pair => ({ ...pair, price: this.pairPrice(pair.base, pair.quote) }))
+      .filter(pair => pair.price !== undefined)
+      .map(({ price, ...pair }) => ({ ...pair, bid: price!, ask: price! }));
+  }
+
+  async executeTrade(asset: string, amount: number, side: 'buy' | 'sell', quote?: string, signal?: AbortSignal): Promise<TradeResult> {
+    const price = this.pairPrice(asset, quote);
+    const rejected = this.fixture.rejectedAssets?.includes(asset);
+    const cancelled = signal?.aborted;
+
+    const result: TradeResult = price === undefined || rejected || cancelled
+      ? {
+          success: false,
+          txId: '',
+          asset,
+          amount: 0,
+          price: 0,
+          fee: 0,
+          timestamp: new Date(),
+          error: cancelled
+            ? "Order cancelled before fill"
+            : price === undefined
+              ? `No recorded ${asset} price on ${this.name}`
+              : `Recorded rejection for ${asset} ${side} on ${this.name}`
+        }
+      : {
+          success: true,
+          txId: `fixture-${this.name}-${this.executedTrades.length + 1}`,
+          asset,
+          amount,
+          price,
+          fee: this.calculateFee(amount * price),
+          timestamp: new Date()
+        };
+
+    this.executedTrades.push(result);
+    return result;
+  }
+
+  async getPerpQuotes(assets: string[]): Promise<PerpQuote[]> {
+    const now = Date.now();
+
+    return assets
+      .filter(asset => this.fixture.perps?.[asset])
+      .map(asset => {
+        const perp = this.fixture.perps![asset];
+        const fundingIntervalMs = perp.fundingIntervalMs ?? PERP_FUNDING_INTERVAL_MS;
+        return {
+          exchange: this.name,
+          asset,
+          markPrice: perp.markPrice,
+          indexPrice: this.lastPrices[asset] ?? perp.markPrice,
+          bid: perp.markPrice,
+          ask: perp.markPrice,
+          fundingRate: perp.fundingRate,
+          fundingIntervalMs,
+          nextFundingTime: new Date(Math.ceil(now / fundingIntervalMs) * fundingIntervalMs),
+          takerFee: perp.takerFee ?? 0.0005,
+          timestamp: new Date(now)
+        };
+      });
+  }
+
+  async executePerpTrade(asset: string, amount: number, side: 'buy' | 'sell', signal?: AbortSignal): Promise<TradeResult> {
+    const perp = this.fixture.perps?.[asset];
+    if (!perp || signal?.aborted) {
+      const result = await super.executePerpTrade(asset, amount, side, signal);
+      if (perp) result.error = "Order cancelled before fill";
+      this.executedTrades.push(result);
+      return result;
+    }
+
+    const result: TradeResult = {
+      success: true,
+      txId: `fixture-${this.name}-perp-${this.executedTrades.length + 1}`,
+      asset,
+      amount,
+      price: perp.markPrice,
+      fee: amount * perp.markPrice * (perp.takerFee ?? 0.0005),
+      timestamp: new Date()
+    };
+
+    this.executedTrades.push(result);
+    return result;
+  }
+
+  private pairPrice(base: string, quote?: string): number | undefined {
+    const basePrice = this.lastPrices[base];
+    if (basePrice === undefined || isUsdQuote(quote)) return basePrice;
+
+    const quotePrice = this.lastPrices[quote!];
+    return quotePrice ? basePrice / quotePrice : undefined;
+  }
+
+  /**
+   * Rewind to the first recorded snapshot
+   */
+  reset() {
+    this.cursor = 0;
+    this.lastPrices = {};
+    this.executedTrades.length = 0;
+  }
+}
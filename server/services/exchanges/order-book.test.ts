@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { averageFillPrice, sizeAgainstOrderBooks } from "./order-book";
+
+const returnPercentage = (sizing: { netProfit: number; buyCost: number }, fixedCost: number = 0) =>
+  ((sizing.netProfit - fixedCost) / sizing.buyCost) * 100;
+
+describe("sizeAgainstOrderBooks", () => {
+  const asks = [{ price: 100, size: 1 }, { price: 100.9, size: 10 }];
+  const bids = [{ price: 101.5, size: 11 }];
+
+  it("fills every level that is still profitable after fees", () => {
+    const sizing = sizeAgainstOrderBooks(asks, bids, 0, 0);
+    assert.equal(sizing.amount, 11);
+    assert.ok(Math.abs(sizing.netProfit - 7.5) < 1e-9);
+  });
+
+  it("stops at the notional cap", () => {
+    const sizing = sizeAgainstOrderBooks(asks, bids, 0, 0, 50);
+    assert.equal(sizing.buyCost, 50);
+    assert.equal(sizing.amount, 0.5);
+  });
+
+  it("falls back to the largest size that clears the threshold when the most profitable one misses it", () => {
+    assert.ok(returnPercentage(sizeAgainstOrderBooks(asks, bids, 0, 0)) < 1);
+
+    const sizing = sizeAgainstOrderBooks(asks, bids, 0, 0, Infinity, { minProfitPercentage: 1 });
+    assert.ok(sizing.amount > 1 && sizing.amount < 11, `amount ${sizing.amount}`);
+    assert.ok(Math.abs(returnPercentage(sizing) - 1) < 1e-9);
+  });
+
+  it("grows past a fixed cost that only larger sizes pay for", () => {
+    const sizing = sizeAgainstOrderBooks(asks, bids, 0, 0, Infinity, { minProfitPercentage: 0.5, fixedCost: 1 });
+    assert.ok(sizing.amount > 1);
+    assert.ok(returnPercentage(sizing, 1) >= 0.5 - 1e-9);
+  });
+
+  it("returns no size when nothing clears the threshold", () => {
+    const sizing = sizeAgainstOrderBooks(asks, bids, 0, 0, Infinity, { minProfitPercentage: 2 });
+    assert.equal(sizing.amount, 0);
+    assert.equal(sizing.netProfit, 0);
+  });
+});
+
+describe("averageFillPrice", () => {
+  it("walks the levels and fills any excess at the worst one", () => {
+    const levels = [{ price: 100, size: 1 }, { price: 102, size: 1 }];
+    assert.equal(averageFillPrice(levels, 2), 101);
+    assert.equal(averageFillPrice(levels, 4), (100 + 102 + 2 * 102) / 4);
+  });
+});
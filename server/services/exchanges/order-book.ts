@@ -0,0 +1,143 @@
+import type { OrderBookLevel } from "./types";
+
+// Result of sizing a buy-here/sell-there trade against two order books
+export interface DepthSizingResult {
+  amount: number;
+  buyCost: number; // Quote spent on the buy leg, before fees
+  sellProceeds: number; // Quote received on the sell leg, before fees
+  buyFee: number;
+  sellFee: number;
+  avgBuyPrice: number;
+  avgSellPrice: number;
+  netProfit: number;
+}
+
+// Return on the buy cost a sized trade must still clear
+export interface DepthSizingThreshold {
+  minProfitPercentage: number;
+  fixedCost?: number; // Size-independent cost such as gas, in quote units
+}
+
+/**
+ * Find the profit-maximizing size for buying on one venue and selling on another
+ *
+ * Walks the buy venue's asks upwards and the sell venue's bids downwards,
+ * filling level by level while the marginal unit is still profitable after
+ * both venues' fees. Because asks only get worse and bids only get lower, the
+ * first unprofitable pair of levels marks the optimum.
+ *
+ * With a threshold, the result is the largest size whose profit after the
+ * fixed cost still clears the minimum return: slippage erodes the return of
+ * larger sizes, so the most profitable size can miss a threshold that a
+ * smaller one meets. No size qualifying yields an amount of zero.
+ */
+export function sizeAgainstOrderBooks(
+  asks: OrderBookLevel[],
+  bids: OrderBookLevel[],
+  buyFeeRate: number,
+  sellFeeRate: number,
+  maxNotional: number = Infinity,
+  threshold?: DepthSizingThreshold
+): DepthSizingResult {
+  const minReturn = threshold ? threshold.minProfitPercentage / 100 : 0;
+  const fixedCost = threshold?.fixedCost ?? 0;
+  let qualifying = { amount: 0, buyCost: 0, sellProceeds: 0 };
+
+  let askIdx = 0;
+  let bidIdx = 0;
+  let askRemaining = asks[0]?.size || 0;
+  let bidRemaining = bids[0]?.size || 0;
+
+  let amount = 0;
+  let buyCost = 0;
+  let sellProceeds = 0;
+
+  while (askIdx < asks.length && bidIdx < bids.length) {
+    const ask = asks[askIdx].price;
+    const bid = bids[bidIdx].price;
+
+    // Stop once the next unit no longer pays for its fees
+    const marginalProfit = bid * (1 - sellFeeRate) - ask * (1 + buyFeeRate);
+    if (marginalProfit <= 0) break;
+
+    const notionalLeft = maxNotional - buyCost;
+    if (notionalLeft <= 0) break;
+
+    const fillSize = Math.min(askRemaining, bidRemaining, notionalLeft / ask);
+    if (threshold) {
+      // Within one pair of levels the return moves monotonically with size, so
+      // the largest qualifying part of this fill is either all of it or solves
+      // (net - fixedCost) = minReturn * cost exactly
+      const net = sellProceeds * (1 - sellFeeRate) - buyCost * (1 + buyFeeRate) - fixedCost;
+      const surplus = net - minReturn * buyCost;
+      const surplusPerUnit = marginalProfit - minReturn * ask;
+      const qualifyingSize = surplusPerUnit >= 0
+        ? (surplus + surplusPerUnit * fillSize >= 0 ? fillSize : -1)
+        : (surplus >= 0 ? Math.min(fillSize, surplus / -surplusPerUnit) : -1);
+      if (qualifyingSize > 0) {
+        qualifying = {
+          amount: amount + qualifyingSize,
+          buyCost: buyCost + qualifyingSize * ask,
+          sellProceeds: sellProceeds + qualifyingSize * bid
+        };
+      }
+    }
+    amount += fillSize;
+    buyCost += fillSize * ask;
+    sellProceeds += fillSize * bid;
+    askRemaining -= fillSize;
+    bidRemaining -= fillSize;
+
+    if (askRemaining <= 0) {
+      askIdx++;
+      askRemaining = asks[askIdx]?.size || 0;
+    }
+    if (bidRemaining <= 0) {
+      bidIdx++;
+      bidRemaining = bids[bidIdx]?.size || 0;
+    }
+  }
+
+  if (threshold) {
+    ({ amount, buyCost, sellProceeds } = qualifying);
+  }
+
+  const buyFee = buyCost * buyFeeRate;
+  const sellFee = sellProceeds * sellFeeRate;
+
+  return {
+    amount,
+    buyCost,
+    sellProceeds,
+    buyFee,
+    sellFee,
+    avgBuyPrice: amount > 0 ? buyCost / amount : 0,
+    avgSellPrice: amount > 0 ? sellProceeds / amount : 0,
+    netProfit: sellProceeds - sellFee - buyCost - buyFee
+  };
+}
+
+/**
+ * Volume-weighted price for filling `amount` against one side of a book
+ *
+ * Any amount beyond the visible depth is assumed to fill at the worst level.
+ */
+export function averageFillPrice(levels: OrderBookLevel[], amount: number): number {
+  if (levels.length === 0 || amount <= 0) return levels[0]?.price || 0;
+
+  let remaining = amount;
+  let cost = 0;
+
+  for (const level of levels) {
+    const fillSize = Math.min(remaining, level.size);
+    cost += fillSize * level.price;
+    remaining -= fillSize;
+    if (remaining <= 0) break;
+  }
+
+  if (remaining > 0) {
+    cost += remaining * levels[levels.length - 1].price;
+  }
+
+  return cost / amount;
+}
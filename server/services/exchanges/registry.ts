@@ -0,0 +1,86 @@
+import type { ExchangeAdapter } from "./exchange-adapter";
+import {
+  UniswapAdapter, SushiSwapAdapter, CurveAdapter, PancakeSwapAdapter,
+  BalancerAdapter, JupiterAdapter, RaydiumAdapter, TraderJoeAdapter
+} from "./dex-adapters";
+import {
+  OkxAdapter, BinanceAdapter, CoinbaseAdapter, KrakenAdapter,
+  KucoinAdapter, BybitAdapter, HuobiAdapter, BitfinexAdapter
+} from "./cex-adapters";
+
+export type ExchangeAdapterFactory = () => ExchangeAdapter;
+
+/**
+ * Registry of exchange adapter factories keyed by venue name
+ *
+ * Venues are added or swapped by registering a factory here; the arbitrage
+ * service instantiates whatever the registry holds when it starts.
+ */
+export class ExchangeRegistry {
+  private factories: Map<string, ExchangeAdapterFactory> = new Map();
+
+  /**
+   * Register a venue, replacing any existing factory with the same name
+   */
+  register(name: string, factory: ExchangeAdapterFactory): this {
+    this.factories.set(name, factory);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.factories.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Create a new adapter instance for a registered venue
+   */
+  create(name: string): ExchangeAdapter {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Exchange ${name} is not registered`);
+    }
+    return factory();
+  }
+
+  /**
+   * Create one adapter instance per registered venue
+   */
+  createAll(): ExchangeAdapter[] {
+    return this.list().map(name => this.create(name));
+  }
+}
+
+/**
+ * Registry pre-populated with the built-in DEX and CEX venues
+ */
+export function createDefaultExchangeRegistry(): ExchangeRegistry {
+  return new ExchangeRegistry()
+    // DEX venues
+    .register("Uniswap", () => new UniswapAdapter())
+    .register("SushiSwap", () => new SushiSwapAdapter())
+    .register("Curve", () => new CurveAdapter())
+    .register("PancakeSwap", () => new PancakeSwapAdapter())
+    .register("Balancer", () => new BalancerAdapter())
+    .register("Jupiter", () => new JupiterAdapter())
+    .register("Raydium", () => new RaydiumAdapter())
+    .register("Trader Joe", () => new TraderJoeAdapter())
+    // CEX venues
+    .register("OKX", () => new OkxAdapter())
+    .register("Binance", () => new BinanceAdapter())
+    .register("Coinbase", () => new CoinbaseAdapter())
+    .register("Kraken", () => new KrakenAdapter())
+    .register("Kucoin", () => new KucoinAdapter())
+    .register("Bybit", () => new BybitAdapter())
+    .register("Huobi", () => new HuobiAdapter())
+    .register("Bitfinex", () => new BitfinexAdapter());
+}
+
+export const exchangeRegistry = createDefaultExchangeRegistry();
@@ -0,0 +1,102 @@
+// Define exchange types
+export type ExchangeType = 'DEX' | 'CEX';
+
+export type ConnectionStatus = 'connected' | 'disconnected' | 'error';
+
+// Discounted rates that apply once trailing 30-day volume reaches `minVolumeUsd`
+export interface FeeTier {
+  minVolumeUsd: number;
+  maker: number;
+  taker: number;
+}
+
+// Fee schedule applied by a venue to each fill (rates as fractions, 0.001 = 0.1%)
+export interface FeeSchedule {
+  maker: number; // Base tier
+  taker: number;
+  tiers?: FeeTier[]; // Ascending by volume
+  withdrawal?: Record<string, number>; // Flat fee per asset, in units of the asset
+}
+
+// Single price level in an order book
+export interface OrderBookLevel {
+  price: number;
+  size: number; // In units of the base asset
+}
+
+// Order book snapshot; bids sorted best (highest) first, asks best (lowest) first
+export interface OrderBook {
+  exchange: string;
+  asset: string;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  timestamp: Date;
+}
+
+// Trading pair quoted as base/quote (e.g. SOL/ETH prices SOL in ETH)
+export interface TradingPair {
+  base: string;
+  quote: string;
+}
+
+// Best bid/ask for a trading pair, in units of the quote asset
+export interface PairQuote extends TradingPair {
+  bid: number;
+  ask: number;
+}
+
+// USD-margined perpetual swap quote; prices in USD
+export interface PerpQuote {
+  exchange: string;
+  asset: string;
+  markPrice: number;
+  indexPrice: number; // Spot index the mark converges to at funding
+  bid: number;
+  ask: number;
+  fundingRate: number; // Per interval; longs pay shorts when positive
+  fundingIntervalMs: number;
+  nextFundingTime: Date;
+  takerFee: number; // Perp fee rate, usually below the venue's spot rate
+  timestamp: Date;
+}
+
+// Trade execution result
+export interface TradeResult {
+  success: boolean;
+  txId: string;
+  asset: string;
+  amount: number;
+  price: number;
+  fee: number;
+  timestamp: Date;
+  error?: string;
+}
+
+// Exchange interface with connection info and methods
+export interface Exchange {
+  name: string;
+  type: ExchangeType;
+  apiUrl: string;
+  connectionStatus: ConnectionStatus;
+  feeSchedule: FeeSchedule;
+  chain?: string; // Chain a DEX settles on, which sets the gas its swaps pay
+  supportedAssets: string[];
+  supportedPairs: TradingPair[];
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  supportsAsset(asset: string): boolean;
+  listAsset(asset: string): void; // Adds the asset to supportedAssets at runtime
+  toVenueSymbol(asset: string): string;
+  // Maker/taker rates at the account's current volume tier
+  getFeeRates(): { maker: number; taker: number };
+  getPrices(assets: string[]): Promise<Record<string, number>>;
+  getOrderBook(asset: string, depth?: number): Promise<OrderBook>;
+  getPairQuotes(): Promise<PairQuote[]>;
+  // Trades `amount` of `asset` against `quote` (USD when omitted); aborting `signal` cancels an unfilled order
+  executeTrade(asset: string, amount: number, side: 'buy' | 'sell', quote?: string, signal?: AbortSignal): Promise<TradeResult>;
+  perpAssets: string[]; // Assets with a listed USD-margined perpetual
+  supportsPerp(asset: string): boolean;
+  getPerpQuotes(assets: string[]): Promise<PerpQuote[]>;
+  // Opens or reduces perp exposure; `amount` is in units of the asset
+  executePerpTrade(asset: string, amount: number, side: 'buy' | 'sell', signal?: AbortSignal): Promise<TradeResult>;
+}
@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_FLASH_LOAN_POOLS, selectFlashLoanPool, simulateFlashLoanBundle, type FlashLoanLegInput
+} from "./flash-loan";
+
+const AAVE = DEFAULT_FLASH_LOAN_POOLS.find(pool => pool.name === "Aave V3" && pool.chain === "ethereum")!;
+
+// 3 ETH costs 9010 USDC across two ask levels
+const BUY: FlashLoanLegInput = {
+  exchange: "DexA",
+  action: 'buy',
+  levels: [{ price: 3000, size: 2 }, { price: 3010, size: 5 }],
+  feeRate: 0.003
+};
+
+const sellAt = (price: number, size: number = 10): FlashLoanLegInput => ({
+  exchange: "DexB",
+  action: 'sell',
+  levels: [{ price, size }],
+  feeRate: 0.003
+});
+
+const bundle = (overrides: Partial<Parameters<typeof simulateFlashLoanBundle>[0]> = {}) => simulateFlashLoanBundle({
+  routeId: "flashloan-1",
+  asset: "ETH",
+  pool: AAVE,
+  borrowAsset: "USDC",
+  borrowed: 10000,
+  amount: 3,
+  buy: BUY,
+  sell: sellAt(3100),
+  gasCost: 20,
+  timestamp: new Date(0),
+  ...overrides
+});
+
+describe("selectFlashLoanPool", () => {
+  it("picks the cheapest pool on the chain that lends the asset", () => {
+    assert.equal(selectFlashLoanPool(DEFAULT_FLASH_LOAN_POOLS, "ethereum", "USDC")!.name, "Balancer");
+  });
+
+  it("skips pools without the liquidity for the loan", () => {
+    assert.equal(selectFlashLoanPool(DEFAULT_FLASH_LOAN_POOLS, "ethereum", "USDC", 20000000)!.name, "Aave V3");
+    assert.equal(selectFlashLoanPool(DEFAULT_FLASH_LOAN_POOLS, "ethereum", "USDC", 60000000), null);
+  });
+
+  it("returns null when no pool on the chain lends the asset", () => {
+    assert.equal(selectFlashLoanPool(DEFAULT_FLASH_LOAN_POOLS, "solana", "ETH"), null);
+  });
+});
+
+describe("simulateFlashLoanBundle", () => {
+  it("settles both legs and repays the loan with its fee", () => {
+    const simulation = bundle();
+
+    assert.equal(simulation.reverted, false);
+    assert.equal(simulation.revertReason, undefined);
+    assert.equal(simulation.loanFee, 5);
+    assert.equal(simulation.repaid, 10005);
+    assert.deepEqual(simulation.legs.map(leg => [leg.exchange, leg.action, leg.quoteAmount]), [
+      ["DexA", "buy", 9010],
+      ["DexB", "sell", 9300]
+    ]);
+    // 10000 - 9010 - 27.03 + 9300 - 27.90 - 10005
+    assert.ok(Math.abs(simulation.grossProfit - 230.07) < 1e-9);
+    assert.ok(Math.abs(simulation.netProfit - 210.07) < 1e-9);
+  });
+
+  it("reverts when the buy side is too thin", () => {
+    const simulation = bundle({ amount: 10 });
+
+    assert.equal(simulation.reverted, true);
+    assert.equal(simulation.revertReason, "Insufficient depth on DexA to buy 10.000000 ETH");
+  });
+
+  it("reverts when the buy costs more than was borrowed", () => {
+    assert.equal(bundle({ borrowed: 9000 }).revertReason, "Buy on DexA costs 9037.03, more than the 9000.00 borrowed");
+  });
+
+  it("reverts when the sell side is too thin", () => {
+    assert.equal(bundle({ sell: sellAt(3100, 2) }).revertReason, "Insufficient depth on DexB to sell 3.000000 ETH");
+  });
+
+  it("reverts when the sale cannot repay the loan, losing only the gas", () => {
+    const simulation = bundle({ sell: sellAt(3010) });
+
+    assert.equal(simulation.revertReason, "Bundle ends with 9965.88 USDC, short of the 10005.00 owed to Aave V3");
+    assert.deepEqual(simulation.legs, []);
+    assert.equal(simulation.repaid, 0);
+    assert.equal(simulation.grossProfit, 0);
+    assert.equal(simulation.netProfit, -20);
+  });
+});
@@ -0,0 +1,165 @@
+import type { OrderBookLevel } from "./exchanges/types";
+
+// Lending pool that offers uncollateralized loans repaid within the same transaction
+export interface FlashLoanPool {
+  name: string;
+  chain: string;
+  feeRate: number; // Charged on the borrowed amount (0.0005 = 0.05%)
+  assets: string[]; // Assets the pool lends
+  maxBorrowUsd: number; // Available liquidity
+}
+
+export const DEFAULT_FLASH_LOAN_POOLS: FlashLoanPool[] = [
+  { name: "Aave V3", chain: "ethereum", feeRate: 0.0005, assets: ["USDC", "USDT", "DAI", "ETH"], maxBorrowUsd: 50000000 },
+  { name: "Balancer", chain: "ethereum", feeRate: 0, assets: ["USDC", "DAI", "ETH"], maxBorrowUsd: 10000000 },
+  { name: "Aave V3", chain: "arbitrum", feeRate: 0.0005, assets: ["USDC", "USDT", "ETH", "ARB"], maxBorrowUsd: 10000000 },
+  { name: "Aave V3", chain: "avalanche", feeRate: 0.0005, assets: ["USDC", "USDT", "AVAX"], maxBorrowUsd: 5000000 },
+  { name: "PancakeSwap V3", chain: "bsc", feeRate: 0.0001, assets: ["USDT", "USDC", "BNB"], maxBorrowUsd: 5000000 },
+  { name: "Solend", chain: "solana", feeRate: 0.003, assets: ["USDC", "SOL"], maxBorrowUsd: 2000000 }
+];
+
+// Borrow and repay calls add roughly one swap's worth of gas to the bundle
+export const FLASH_LOAN_GAS_SWAP_EQUIVALENTS = 1;
+
+// One swap inside a flash-loan bundle
+export interface FlashLoanLegInput {
+  exchange: string;
+  action: 'buy' | 'sell';
+  levels: OrderBookLevel[]; // Asks for a buy, bids for a sell
+  feeRate: number;
+}
+
+export interface FlashLoanLegResult {
+  exchange: string;
+  action: 'buy' | 'sell';
+  amount: number;
+  fillPrice: number;
+  quoteAmount: number; // Quote spent on a buy or received on a sell, before fees
+  fee: number;
+}
+
+export interface FlashLoanSimulation {
+  routeId: string;
+  asset: string;
+  pool: string;
+  chain: string;
+  borrowAsset: string;
+  borrowed: number;
+  loanFee: number;
+  repaid: number; // Zero when the bundle reverts
+  legs: FlashLoanLegResult[]; // Empty when the bundle reverts, since no swap settles
+  reverted: boolean;
+  revertReason?: string;
+  grossProfit: number; // Left over after repaying the loan, before gas
+  gasCost: number; // Paid even when the bundle reverts
+  netProfit: number;
+  timestamp: Date;
+}
+
+/**
+ * Cheapest pool on a chain that lends the asset and has the liquidity
+ */
+export function selectFlashLoanPool(
+  pools: FlashLoanPool[],
+  chain: string,
+  asset: string,
+  amountUsd: number = 0
+): FlashLoanPool | null {
+  const candidates = pools
+    .filter(pool => pool.chain === chain && pool.assets.includes(asset) && pool.maxBorrowUsd >= amountUsd)
+    .sort((a, b) => a.feeRate - b.feeRate);
+  return candidates[0] || null;
+}
+
+/**
+ * Fill `amount` against one side of a book, or null when the book is too thin
+ */
+function fillAgainstLevels(levels: OrderBookLevel[], amount: number): number | null {
+  let remaining = amount;
+  let quoteAmount = 0;
+
+  for (const level of levels) {
+    const fillSize = Math.min(remaining, level.size);
+    quoteAmount += fillSize * level.price;
+    remaining -= fillSize;
+    if (remaining <= 0) break;
+  }
+
+  return remaining > 1e-12 ? null : quoteAmount;
+}
+
+/**
+ * Simulate an atomic borrow, buy, sell and repay bundle
+ *
+ * The loan funds the buy leg, the sell leg turns the asset back into the
+ * borrowed asset and the pool is repaid with its fee. As on chain, a bundle
+ * that cannot fill a leg or repay the loan reverts as a whole: no swap
+ * settles and only the gas is lost.
+ */
+export function simulateFlashLoanBundle(params: {
+  routeId: string;
+  asset: string;
+  pool: FlashLoanPool;
+  borrowAsset: string;
+  borrowed: number;
+  amount: number;
+  buy: FlashLoanLegInput;
+  sell: FlashLoanLegInput;
+  gasCost: number;
+  timestamp: Date;
+}): FlashLoanSimulation {
+  const { pool, borrowed, amount, buy, sell, gasCost } = params;
+  const loanFee = borrowed * pool.feeRate;
+  const owed = borrowed + loanFee;
+
+  const result: FlashLoanSimulation = {
+    routeId: params.routeId,
+    asset: params.asset,
+    pool: pool.name,
+    chain: pool.chain,
+    borrowAsset: params.borrowAsset,
+    borrowed,
+    loanFee,
+    repaid: 0,
+    legs: [],
+    reverted: true,
+    grossProfit: 0,
+    gasCost,
+    netProfit: -gasCost,
+    timestamp: params.timestamp
+  };
+
+  const revert = (reason: string): FlashLoanSimulation => ({ ...result, revertReason: reason });
+
+  const buyQuote = fillAgainstLevels(buy.levels, amount);
+  if (buyQuote === null) {
+    return revert(`Insufficient depth on ${buy.exchange} to buy ${amount.toFixed(6)} ${params.asset}`);
+  }
+  const buyFee = buyQuote * buy.feeRate;
+  if (buyQuote + buyFee > borrowed) {
+    return revert(`Buy on ${buy.exchange} costs ${(buyQuote + buyFee).toFixed(2)}, more than the ${borrowed.toFixed(2)} borrowed`);
+  }
+
+  const sellQuote = fillAgainstLevels(sell.levels, amount);
+  if (sellQuote === null) {
+    return revert(`Insufficient depth on ${sell.exchange} to sell ${amount.toFixed(6)} ${params.asset}`);
+  }
+  const sellFee = sellQuote * sell.feeRate;
+
+  const balance = borrowed - buyQuote - buyFee + sellQuote - sellFee;
+  if (balance < owed) {
+    return revert(`Bundle ends with ${balance.toFixed(2)} ${params.borrowAsset}, short of the ${owed.toFixed(2)} owed to ${pool.name}`);
+  }
+
+  return {
+    ...result,
+    repaid: owed,
+    legs: [
+      { exchange: buy.exchange, action: 'buy', amount, fillPrice: buyQuote / amount, quoteAmount: buyQuote, fee: buyFee },
+      { exchange: sell.exchange, action: 'sell', amount, fillPrice: sellQuote / amount, quoteAmount: sellQuote, fee: sellFee }
+    ],
+    reverted: false,
+    grossProfit: balance - owed,
+    netProfit: balance - owed - gasCost
+  };
+}
@@ -0,0 +1,62 @@
+// Upper bounds (ms) of the histogram buckets; the last bucket is open-ended
+const LATENCY_BUCKETS_MS = [100, 250, 500, 1000, 2000, 5000, 10000];
+
+export interface LatencySnapshot {
+  count: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+  buckets: Record<string, number>; // "<=500ms" -> count, plus ">10000ms"
+}
+
+/**
+ * Rolling latency histogram over the most recent samples
+ */
+export class LatencyHistogram {
+  private samples: number[] = [];
+  private maxSamples: number;
+
+  constructor(maxSamples: number = 1000) {
+    this.maxSamples = maxSamples;
+  }
+
+  record(latencyMs: number) {
+    this.samples.push(latencyMs);
+    if (this.samples.length > this.maxSamples) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Nearest-rank percentile of the recorded samples (0 when empty)
+   */
+  percentile(p: number): number {
+    if (this.samples.length === 0) return 0;
+
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+  }
+
+  snapshot(): LatencySnapshot {
+    const buckets: Record<string, number> = {};
+    LATENCY_BUCKETS_MS.forEach(bound => buckets[`<=${bound}ms`] = 0);
+    buckets[`>${LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1]}ms`] = 0;
+
+    this.samples.forEach(sample => {
+      const bound = LATENCY_BUCKETS_MS.find(b => sample <= b);
+      const key = bound !== undefined ? `<=${bound}ms` : `>${LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1]}ms`;
+      buckets[key]++;
+    });
+
+    return {
+      count: this.samples.length,
+      p50: this.percentile(50),
+      p95: this.percentile(95),
+      p99: this.percentile(99),
+      max: this.samples.reduce((max, sample) => Math.max(max, sample), 0),
+      buckets
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import type { ExchangeType, PairQuote } from "./exchanges/types";
+
+// Directed conversion from one asset to another through a single trade
+export interface RateEdge {
+  from: string;
+  to: string;
+  exchange: string;
+  exchangeType: ExchangeType;
+  base: string;
+  quote: string;
+  action: 'buy' | 'sell'; // Buying base spends quote, selling base receives quote
+  price: number; // Pair price used (ask when buying, bid when selling)
+  feeRate: number;
+  rate: number; // Units of `to` received per unit of `from`, after fees
+  weight: number; // -ln(rate); a cycle with negative total weight is profitable
+}
+
+/**
+ * Turn a venue's pair quotes into fee-adjusted conversion edges in both directions
+ */
+export function buildRateEdges(
+  exchange: string,
+  exchangeType: ExchangeType,
+  feeRate: number,
+  quotes: PairQuote[]
+): RateEdge[] {
+  const edges: RateEdge[] = [];
+
+  quotes.forEach(quote => {
+    if (quote.ask > 0) {
+      // quote -> base: pay the ask
+      const rate = (1 / quote.ask) * (1 - feeRate);
+      edges.push({
+        from: quote.quote, to: quote.base, exchange, exchangeType,
+        base: quote.base, quote: quote.quote, action: 'buy',
+        price: quote.ask, feeRate, rate, weight: -Math.log(rate)
+      });
+    }
+    if (quote.bid > 0) {
+      // base -> quote: hit the bid
+      const rate = quote.bid * (1 - feeRate);
+      edges.push({
+        from: quote.base, to: quote.quote, exchange, exchangeType,
+        base: quote.base, quote: quote.quote, action: 'sell',
+        price: quote.bid, feeRate, rate, weight: -Math.log(rate)
+      });
+    }
+  });
+
+  return edges;
+}
+
+/**
+ * Keep only the best-rate edge for each (from, to) asset pair across venues
+ */
+export function bestEdges(edges: RateEdge[]): RateEdge[] {
+  const best: Map<string, RateEdge> = new Map();
+  edges.forEach(edge => {
+    const key = `${edge.from}->${edge.to}`;
+    const current = best.get(key);
+    if (!current || edge.rate > current.rate) {
+      best.set(key, edge);
+    }
+  });
+  return Array.from(best.values());
+}
+
+/**
+ * Find one negative-weight cycle with Bellman-Ford
+ *
+ * Every asset starts at distance 0 (equivalent to a virtual source connected to
+ * all nodes), so cycles are found regardless of which asset they pass through.
+ * Returns the cycle's edges in trading order, or null when none exists.
+ */
+export function findNegativeCycle(edges: RateEdge[]): RateEdge[] | null {
+  const nodes = Array.from(new Set(edges.map(e => e.from).concat(edges.map(e => e.to))));
+  const distance: Map<string, number> = new Map();
+  const predecessor: Map<string, RateEdge> = new Map();
+  nodes.forEach(node => distance.set(node, 0));
+
+  // Small tolerance so floating-point noise on break-even cycles is ignored
+  const epsilon = 1e-12;
+  let lastRelaxed: string | null = null;
+
+  for (let i = 0; i < nodes.length; i++) {
+    let relaxed: string | null = null;
+    for (const edge of edges) {
+      const candidate = distance.get(edge.from)! + edge.weight;
+      if (candidate < distance.get(edge.to)! - epsilon) {
+        distance.set(edge.to, candidate);
+        predecessor.set(edge.to, edge);
+        relaxed = edge.to;
+      }
+    }
+    if (relaxed === null) return null;
+    lastRelaxed = relaxed;
+  }
+  if (lastRelaxed === null) return null;
+
+  // A relaxation on the Nth pass means a negative cycle; walk back N steps to land inside it
+  let node: string = lastRelaxed;
+  for (let i = 0; i < nodes.length; i++) {
+    node = predecessor.get(node)!.from;
+  }
+
+  const cycle: RateEdge[] = [];
+  let current = node;
+  do {
+    const edge = predecessor.get(current)!;
+    cycle.unshift(edge);
+    current = edge.from;
+  } while (current !== node && cycle.length <= nodes.length);
+
+  return cycle;
+}
+
+/**
+ * Find up to `maxCycles` distinct profitable cycles of at most `maxHops` trades
+ *
+ * After each cycle is found its weakest edge is removed so the next search
+ * surfaces a different path.
+ */
+export function findArbitrageCycles(edges: RateEdge[], maxHops: number = 4, maxCycles: number = 5): RateEdge[][] {
+  const cycles: RateEdge[][] = [];
+  const seen: Set<string> = new Set();
+  let remaining = [...edges];
+
+  for (let attempt = 0; attempt < maxCycles * 2 && cycles.length < maxCycles; attempt++) {
+    const cycle = findNegativeCycle(remaining);
+    if (!cycle) break;
+
+    const key = cycleKey(cycle);
+    if (cycle.length >= 2 && cycle.length <= maxHops && !seen.has(key)) {
+      seen.add(key);
+      cycles.push(cycle);
+    }
+
+    const weakest = cycle.reduce((worst, edge) => edge.rate < worst.rate ? edge : worst, cycle[0]);
+    remaining = remaining.filter(edge => edge !== weakest);
+  }
+
+  return cycles;
+}
+
+/**
+ * Rotate a cycle so it starts (and ends) at the preferred asset when it passes through it
+ */
+export function rotateCycle(cycle: RateEdge[], preferredStart: string[]): RateEdge[] {
+  for (const asset of preferredStart) {
+    const idx = cycle.findIndex(edge => edge.from === asset);
+    if (idx >= 0) {
+      return cycle.slice(idx).concat(cycle.slice(0, idx));
+    }
+  }
+  return cycle;
+}
+
+// Order-independent identity of a cycle, used to de-duplicate rotations
+function cycleKey(cycle: RateEdge[]): string {
+  return cycle
+    .map(edge => `${edge.exchange}:${edge.from}->${edge.to}`)
+    .sort()
+    .join('|');
+}
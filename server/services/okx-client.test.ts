@@ -0,0 +1,185 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import {
+  OkxApiError, OkxCredentialsError, OkxHttpError, OkxRestClient, verifyOkxSignature, type OkxCredentials
+} from "./okx-client";
+import { OkxRateLimiter } from "./okx-rate-limiter";
+
+const CREDENTIALS: OkxCredentials = { apiKey: "test-key", apiSecret: "test-secret", passphrase: "test-passphrase" };
+const NOW = Date.parse("2026-01-02T03:04:05.678Z");
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+// Scripted OKX responses per path; signed requests are checked first, as OKX does
+const ROUTES: Record<string, { status?: number; headers?: Record<string, string>; body: string }> = {
+  "/api/v5/account/balance": { body: JSON.stringify({ code: "0", msg: "", data: [{ totalEq: "1000" }] }) },
+  "/api/v5/trade/order": { body: JSON.stringify({ code: "0", msg: "", data: [{ ordId: "42", sCode: "0" }] }) },
+  "/api/v5/market/ticker": { body: JSON.stringify({ code: "0", msg: "", data: [{ instId: "BTC-USDT", last: "65000" }] }) },
+  "/api/v5/trade/rejected": {
+    body: JSON.stringify({ code: "51008", msg: "Order failed", data: [{ sCode: "51008", sMsg: "Insufficient balance" }] })
+  },
+  "/api/v5/market/limited": {
+    status: 429,
+    headers: { "Retry-After": "2" },
+    body: JSON.stringify({ code: "50011", msg: "Too Many Requests", data: [] })
+  },
+  "/api/v5/market/gateway": { status: 502, body: "<html>Bad Gateway</html>" },
+  "/api/v5/market/bare": { body: JSON.stringify({ result: "ok" }) }
+};
+
+describe("OkxRestClient against a mock OKX server", () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[] = [];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => body += chunk);
+      req.on("end", () => {
+        const path = req.url || "/";
+        requests.push({ method: req.method || "", path, headers: req.headers, body });
+
+        const signature = req.headers["ok-access-sign"];
+        if (signature !== undefined) {
+          const valid = req.headers["ok-access-key"] === CREDENTIALS.apiKey &&
+            req.headers["ok-access-passphrase"] === CREDENTIALS.passphrase &&
+            verifyOkxSignature(CREDENTIALS.apiSecret, String(signature), String(req.headers["ok-access-timestamp"]), req.method || "", path, body);
+          if (!valid) {
+            res.writeHead(401, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ code: "50113", msg: "Invalid Sign", data: [] }));
+            return;
+          }
+        }
+
+        const route = ROUTES[path.split("?")[0]];
+        if (!route) {
+          res.writeHead(404);
+          res.end();
+          return;
+        }
+        res.writeHead(route.status ?? 200, { "Content-Type": "application/json", ...route.headers });
+        res.end(route.body);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  const client = (credentials: Partial<OkxCredentials> = CREDENTIALS) => {
+    requests = [];
+    return new OkxRestClient({
+      baseUrl,
+      credentials,
+      now: () => NOW,
+      limiter: new OkxRateLimiter({ retry: { maxRetries: 0 } })
+    });
+  };
+
+  it("signs GET requests over the path and query string", async () => {
+    const data = await client().get("/api/v5/account/balance", { ccy: "USDT" });
+
+    assert.deepEqual(data, [{ totalEq: "1000" }]);
+    const [request] = requests;
+    assert.equal(request.path, "/api/v5/account/balance?ccy=USDT");
+    assert.equal(request.headers["ok-access-timestamp"], "2026-01-02T03:04:05.678Z");
+    assert.equal(request.headers["ok-access-key"], CREDENTIALS.apiKey);
+  });
+
+  it("signs POST requests over the exact body sent", async () => {
+    const order = { instId: "BTC-USDT", tdMode: "cash", side: "buy", ordType: "market", sz: "100" };
+    const [placed] = await client().post("/api/v5/trade/order", order);
+
+    assert.equal(placed.ordId, "42");
+    assert.deepEqual(JSON.parse(requests[0].body), order);
+  });
+
+  it("sends public requests unsigned", async () => {
+    const [ticker] = await client({}).get("/api/v5/market/ticker", { instId: "BTC-USDT" }, { signed: false });
+
+    assert.equal(ticker.last, "65000");
+    assert.equal(requests[0].headers["ok-access-sign"], undefined);
+  });
+
+  it("refuses to sign without credentials and never calls the API", async () => {
+    await assert.rejects(client({ apiKey: "test-key" }).get("/api/v5/account/balance"), (error: unknown) => {
+      assert.ok(error instanceof OkxCredentialsError);
+      assert.equal(error.path, "/api/v5/account/balance");
+      return true;
+    });
+    assert.equal(requests.length, 0);
+  });
+
+  it("surfaces a rejected signature as an auth error", async () => {
+    await assert.rejects(client({ ...CREDENTIALS, apiSecret: "wrong-secret" }).get("/api/v5/account/balance"), (error: unknown) => {
+      assert.ok(error instanceof OkxApiError);
+      assert.equal(error.code, "50113");
+      assert.equal(error.status, 401);
+      assert.equal(error.isAuthError, true);
+      assert.equal(error.retryable, false);
+      return true;
+    });
+  });
+
+  it("unwraps non-zero envelope codes with their per-item data", async () => {
+    await assert.rejects(client().post("/api/v5/trade/rejected", {}), (error: unknown) => {
+      assert.ok(error instanceof OkxApiError);
+      assert.equal(error.code, "51008");
+      assert.deepEqual(error.data, [{ sCode: "51008", sMsg: "Insufficient balance" }]);
+      assert.equal(error.retryable, false);
+      return true;
+    });
+  });
+
+  it("marks rate-limit rejections retryable with the server's Retry-After", async () => {
+    await assert.rejects(client().get("/api/v5/market/limited", undefined, { signed: false }), (error: unknown) => {
+      assert.ok(error instanceof OkxApiError);
+      assert.equal(error.rateLimited, true);
+      assert.equal(error.retryable, true);
+      assert.equal(error.retryAfterMs, 2000);
+      return true;
+    });
+    assert.equal(requests.length, 1);
+  });
+
+  it("reports responses without an envelope as HTTP errors", async () => {
+    await assert.rejects(client().get("/api/v5/market/gateway", undefined, { signed: false }), (error: unknown) => {
+      assert.ok(error instanceof OkxHttpError);
+      assert.equal(error.status, 502);
+      assert.equal(error.retryable, true);
+      return true;
+    });
+    await assert.rejects(client().post("/api/v5/market/bare", {}, { signed: false }), (error: unknown) => {
+      assert.ok(error instanceof OkxHttpError);
+      assert.equal(error.status, 200);
+      // A POST that reached the server may have been processed, so it is not repeated
+      assert.equal(error.retryable, false);
+      return true;
+    });
+  });
+
+  it("reports an unreachable server as an HTTP error without a status", async () => {
+    const unreachable = new OkxRestClient({
+      baseUrl: "http://127.0.0.1:1",
+      credentials: CREDENTIALS,
+      limiter: new OkxRateLimiter({ retry: { maxRetries: 0 } })
+    });
+    await assert.rejects(unreachable.get("/api/v5/market/ticker", undefined, { signed: false }), (error: unknown) => {
+      assert.ok(error instanceof OkxHttpError);
+      assert.equal(error.status, null);
+      return true;
+    });
+  });
+});
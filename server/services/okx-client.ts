@@ -0,0 +1,302 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { okxRateLimiter, type OkxRateLimiter, type OkxRequestPriority, type RetryHint } from "./okx-rate-limiter";
+
+export const OKX_BASE_URL = "https://www.okx.com";
+
+export interface OkxCredentials {
+  apiKey: string;
+  apiSecret: string;
+  passphrase: string;
+}
+
+export interface OkxClientOptions {
+  baseUrl?: string; // Overridden to point the client at a local mock server
+  credentials?: Partial<OkxCredentials>; // Defaults to OKX_API_KEY, OKX_API_SECRET and OKX_API_PASSPHRASE
+  demoTrading?: boolean; // Route orders to OKX's demo trading environment
+  timeoutMs?: number;
+  now?: () => number; // Source of request timestamps
+  fetch?: typeof fetch;
+  limiter?: OkxRateLimiter; // Defaults to the process-wide limiter shared by every client
+  flow?: string; // Caller this client's requests are queued under
+}
+
+// Per-request scheduling on the shared rate limiter
+export interface OkxCallOptions {
+  signed?: boolean; // Defaults to true
+  priority?: OkxRequestPriority; // Defaults to 'execution' for POST and 'data' for GET
+  flow?: string;
+}
+
+// OKX codes for requests rejected before they were processed
+const OKX_RATE_LIMIT_CODE = "50011";
+const OKX_RETRYABLE_CODES = [OKX_RATE_LIMIT_CODE, "50001", "50013"]; // Rate limited, service unavailable, system busy
+
+export type OkxQueryParams = Record<string, string | number | boolean | undefined>;
+
+// Every OKX v5 response wraps its payload in this envelope; code "0" is success
+export interface OkxEnvelope<T> {
+  code: string;
+  msg: string;
+  data: T[];
+}
+
+/**
+ * Any failure talking to the OKX API
+ *
+ * `retryable` is set only when repeating the request cannot place it twice,
+ * and `retryAfterMs` carries the server's Retry-After hint when it sent one.
+ */
+export class OkxError extends Error implements RetryHint {
+  readonly method: string;
+  readonly path: string;
+  retryable: boolean = false;
+  retryAfterMs: number | null = null;
+  rateLimited: boolean = false;
+
+  constructor(message: string, method: string, path: string) {
+    super(message);
+    this.name = "OkxError";
+    this.method = method;
+    this.path = path;
+  }
+}
+
+/**
+ * A signed request was attempted without a full set of credentials
+ */
+export class OkxCredentialsError extends OkxError {
+  constructor(method: string, path: string) {
+    super(`OKX credentials are not configured for ${method} ${path}`, method, path);
+    this.name = "OkxCredentialsError";
+  }
+}
+
+/**
+ * The request never produced an OKX envelope: network failure, timeout,
+ * or a response that was not JSON
+ */
+export class OkxHttpError extends OkxError {
+  readonly status: number | null; // Null when no response arrived
+
+  constructor(message: string, method: string, path: string, status: number | null, retryAfterMs: number | null = null) {
+    super(message, method, path);
+    this.name = "OkxHttpError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.rateLimited = status === 429;
+    // A lost or failed POST may still have been processed, so only reads are repeated
+    this.retryable = this.rateLimited || ((status === null || status >= 500) && method === "GET");
+  }
+}
+
+/**
+ * OKX answered with a non-zero envelope code
+ *
+ * `code` is the OKX error code (e.g. "50113" for an invalid signature) and
+ * `data` carries per-item codes for batch endpoints.
+ */
+export class OkxApiError extends OkxError {
+  readonly code: string;
+  readonly status: number;
+  readonly data: unknown[];
+
+  constructor(envelope: OkxEnvelope<unknown>, method: string, path: string, status: number, retryAfterMs: number | null = null) {
+    super(`OKX API error ${envelope.code}: ${envelope.msg || "no message"} (${method} ${path})`, method, path);
+    this.name = "OkxApiError";
+    this.code = envelope.code;
+    this.status = status;
+    this.data = envelope.data || [];
+    this.retryAfterMs = retryAfterMs;
+    this.rateLimited = status === 429 || envelope.code === OKX_RATE_LIMIT_CODE;
+    this.retryable = this.rateLimited || OKX_RETRYABLE_CODES.includes(envelope.code);
+  }
+
+  // 501xx codes reject the API key, passphrase, timestamp or signature
+  get isAuthError(): boolean {
+    return this.code.startsWith("501");
+  }
+}
+
+/**
+ * ISO 8601 timestamp with milliseconds, as OKX expects in OK-ACCESS-TIMESTAMP
+ */
+export function formatOkxTimestamp(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+/**
+ * String OKX signs: timestamp + upper-case method + request path (with its
+ * query string) + raw body, which is empty for GET requests
+ */
+export function buildOkxPrehash(timestamp: string, method: string, requestPath: string, body: string = ""): string {
+  return `${timestamp}${method.toUpperCase()}${requestPath}${body}`;
+}
+
+/**
+ * Base64 HMAC-SHA256 of the prehash string under the API secret
+ */
+export function signOkxPrehash(secret: string, prehash: string): string {
+  return createHmac("sha256", secret).update(prehash).digest("base64");
+}
+
+/**
+ * Check a request's OK-ACCESS-SIGN the way OKX does; used by mock servers
+ */
+export function verifyOkxSignature(
+  secret: string,
+  signature: string,
+  timestamp: string,
+  method: string,
+  requestPath: string,
+  body: string = ""
+): boolean {
+  const expected = Buffer.from(signOkxPrehash(secret, buildOkxPrehash(timestamp, method, requestPath, body)));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header, given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Append the defined query parameters to a path, in the order given
+ */
+export function buildOkxRequestPath(path: string, params?: OkxQueryParams): string {
+  const entries = Object.entries(params || {}).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) return path;
+  const query = new URLSearchParams(entries.map(([key, value]) => [key, String(value)] as [string, string]));
+  return `${path}${path.includes("?") ? "&" : "?"}${query.toString()}`;
+}
+
+/**
+ * Client for the OKX v5 REST API
+ *
+ * Signs private requests with the OK-ACCESS-* headers, unwraps the
+ * `code`/`msg`/`data` envelope and turns every failure into an OkxError
+ * subclass, so callers get the payload array or a typed error. Public
+ * endpoints can be called unsigned with `signed: false`. Every request is
+ * queued on the shared rate limiter, which also retries the failures that
+ * are safe to repeat; each attempt is signed afresh.
+ */
+export class OkxRestClient {
+  private baseUrl: string;
+  private credentials: OkxCredentials;
+  private demoTrading: boolean;
+  private timeoutMs: number;
+  private now: () => number;
+  private fetchImpl: typeof fetch;
+  private limiter: OkxRateLimiter;
+  private flow: string;
+
+  constructor(options: OkxClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || process.env.OKX_API_BASE_URL || OKX_BASE_URL).replace(/\/+$/, "");
+    this.credentials = {
+      apiKey: options.credentials?.apiKey ?? process.env.OKX_API_KEY ?? "",
+      apiSecret: options.credentials?.apiSecret ?? process.env.OKX_API_SECRET ?? "",
+      passphrase: options.credentials?.passphrase ?? process.env.OKX_API_PASSPHRASE ?? ""
+    };
+    this.demoTrading = options.demoTrading ?? process.env.OKX_DEMO_TRADING === "1";
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.now = options.now || Date.now;
+    this.fetchImpl = options.fetch || fetch;
+    this.limiter = options.limiter || okxRateLimiter;
+    this.flow = options.flow || "default";
+  }
+
+  /**
+   * Whether a key, secret and passphrase are all set
+   */
+  hasCredentials(): boolean {
+    const { apiKey, apiSecret, passphrase } = this.credentials;
+    return !!(apiKey && apiSecret && passphrase);
+  }
+
+  setCredentials(credentials: OkxCredentials) {
+    this.credentials = { ...credentials };
+  }
+
+  async get<T = any>(path: string, params?: OkxQueryParams, options: OkxCallOptions = {}): Promise<T[]> {
+    const requestPath = buildOkxRequestPath(path, params);
+    return this.limiter.schedule(
+      { endpoint: requestPath, priority: options.priority || 'data', flow: options.flow || this.flow },
+      () => this.request<T>("GET", requestPath, undefined, options.signed ?? true)
+    );
+  }
+
+  async post<T = any>(path: string, body: unknown = {}, options: OkxCallOptions = {}): Promise<T[]> {
+    return this.limiter.schedule(
+      { endpoint: path, priority: options.priority || 'execution', flow: options.flow || this.flow },
+      () => this.request<T>("POST", path, body, options.signed ?? true)
+    );
+  }
+
+  /**
+   * Headers for a signed request; the body must be the exact string sent
+   */
+  signHeaders(method: string, requestPath: string, body: string = ""): Record<string, string> {
+    if (!this.hasCredentials()) {
+      throw new OkxCredentialsError(method, requestPath);
+    }
+
+    const timestamp = formatOkxTimestamp(this.now());
+    return {
+      "OK-ACCESS-KEY": this.credentials.apiKey,
+      "OK-ACCESS-SIGN": signOkxPrehash(this.credentials.apiSecret, buildOkxPrehash(timestamp, method, requestPath, body)),
+      "OK-ACCESS-TIMESTAMP": timestamp,
+      "OK-ACCESS-PASSPHRASE": this.credentials.passphrase
+    };
+  }
+
+  private async request<T>(method: "GET" | "POST", requestPath: string, body: unknown, signed: boolean): Promise<T[]> {
+    // Sign the exact bytes sent, so the body is serialized once
+    const payload = method === "GET" ? "" : JSON.stringify(body ?? {});
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...(signed ? this.signHeaders(method, requestPath, payload) : {}),
+      ...(this.demoTrading ? { "x-simulated-trading": "1" } : {})
+    };
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}${requestPath}`, {
+        method,
+        headers,
+        body: method === "GET" ? undefined : payload,
+        signal: controller.signal
+      });
+    } catch (error) {
+      const reason = controller.signal.aborted ? `timed out after ${this.timeoutMs}ms` : (error as Error).message;
+      throw new OkxHttpError(`OKX request ${method} ${requestPath} failed: ${reason}`, method, requestPath, null);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    // OKX reports most errors, including 4xx ones, inside the envelope
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"), this.now());
+    let envelope: OkxEnvelope<T>;
+    try {
+      envelope = await response.json() as OkxEnvelope<T>;
+    } catch (error) {
+      throw new OkxHttpError(`OKX returned a non-JSON ${response.status} response for ${method} ${requestPath}`, method, requestPath, response.status, retryAfterMs);
+    }
+    if (!envelope || typeof envelope.code !== "string") {
+      throw new OkxHttpError(`OKX returned a ${response.status} response without an envelope for ${method} ${requestPath}`, method, requestPath, response.status, retryAfterMs);
+    }
+    if (envelope.code !== "0") {
+      throw new OkxApiError(envelope, method, requestPath, response.status, retryAfterMs);
+    }
+
+    return envelope.data || [];
+  }
+}
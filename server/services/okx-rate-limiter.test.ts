@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { OkxRateLimiter, type OkxRequestOptions, type RetryHint } from "./okx-rate-limiter";
+
+// One token a burst, refilled every 10ms so a woken dispatch needs only a short real wait
+const RULES = [
+  { prefix: "/api/v5/market", capacity: 1, refillPerSecond: 100 },
+  { prefix: "/", capacity: 2, refillPerSecond: 1 }
+];
+
+const rateLimited = (retryAfterMs: number | null = null): RetryHint => ({ retryable: true, retryAfterMs, rateLimited: true });
+
+describe("OkxRateLimiter", () => {
+  let nowMs: number;
+  let limiter: OkxRateLimiter;
+
+  beforeEach(() => {
+    nowMs = 1_000_000;
+    limiter = new OkxRateLimiter({ rules: RULES, retry: { maxRetries: 0 }, now: () => nowMs });
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  // Queue requests on an exhausted bucket, then hand out one token at a time
+  // on the injected clock, recording the order they were granted in
+  async function grantOrder(requests: Array<OkxRequestOptions & { name: string }>): Promise<string[]> {
+    await limiter.acquire({ endpoint: "/api/v5/market/books" });
+    const order: string[] = [];
+    requests.forEach(request => limiter.acquire(request).then(() => order.push(request.name)));
+
+    for (let i = 0; i < requests.length; i++) {
+      nowMs += 10;
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    return order;
+  }
+
+  it("grants a burst up to capacity, then one token per refill interval", async () => {
+    await limiter.acquire({ endpoint: "/api/v5/account/balance" });
+    await limiter.acquire({ endpoint: "/api/v5/account/balance?ccy=USDT" });
+
+    let granted = false;
+    limiter.acquire({ endpoint: "/api/v5/account/balance" }).then(() => granted = true);
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(granted, false);
+    assert.equal(limiter.getMetrics().queueDepth, 1);
+
+    nowMs += 1000;
+    // A request on another endpoint draws on its own bucket and wakes the queue
+    await limiter.acquire({ endpoint: "/api/v5/account/positions" });
+    assert.equal(granted, true);
+
+    const metrics = limiter.getMetrics();
+    assert.equal(metrics.granted, 4);
+    assert.equal(metrics.throttled, 1);
+    assert.equal(metrics.maxWaitMs, 1000);
+  });
+
+  it("serves higher priorities first", async () => {
+    const order = await grantOrder([
+      { name: "data", endpoint: "/api/v5/market/books", priority: 'data' },
+      { name: "quote", endpoint: "/api/v5/market/books", priority: 'quote' },
+      { name: "execution", endpoint: "/api/v5/market/books", priority: 'execution' }
+    ]);
+
+    assert.deepEqual(order, ["execution", "quote", "data"]);
+  });
+
+  it("lets flows of the same priority take turns", async () => {
+    const order = await grantOrder([
+      { name: "arbitrage-1", endpoint: "/api/v5/market/books", flow: "arbitrage" },
+      { name: "arbitrage-2", endpoint: "/api/v5/market/books", flow: "arbitrage" },
+      { name: "arbitrage-3", endpoint: "/api/v5/market/books", flow: "arbitrage" },
+      { name: "yield-1", endpoint: "/api/v5/market/books", flow: "yield" },
+      { name: "yield-2", endpoint: "/api/v5/market/books", flow: "yield" }
+    ]);
+
+    // Turns start after the flow served last, the default one that drained the bucket
+    assert.deepEqual(order, ["yield-1", "arbitrage-1", "yield-2", "arbitrage-2", "arbitrage-3"]);
+  });
+
+  it("drains the bucket on a rate-limit rejection and refills it from then", async () => {
+    const endpoint = "/api/v5/account/balance";
+    await limiter.acquire({ endpoint });
+
+    // The server rejects the call well after the token was taken
+    await assert.rejects(limiter.schedule({ endpoint }, async () => {
+      nowMs += 5000;
+      throw rateLimited();
+    }));
+
+    const bucket = () => limiter.getMetrics().buckets.find(b => b.endpoint === endpoint)!;
+    assert.equal(bucket().tokens, 0);
+    nowMs += 500;
+    assert.equal(bucket().tokens, 0.5);
+    assert.equal(limiter.getMetrics().rateLimited, 1);
+  });
+
+  it("retries after the server's hint, capped by the policy", () => {
+    const retrying = new OkxRateLimiter({ retry: { maxRetries: 3, maxRetryAfterMs: 10000 } });
+
+    assert.equal(retrying.getRetryDelay(rateLimited(2000), 0), 2000);
+    assert.equal(retrying.getRetryDelay(rateLimited(120000), 0), 10000);
+    assert.equal(retrying.getRetryDelay(rateLimited(-5), 0), 0);
+  });
+
+  it("backs off exponentially with full jitter up to the cap", () => {
+    const retrying = new OkxRateLimiter({ retry: { maxRetries: 6, baseDelayMs: 250, maxDelayMs: 1500 } });
+    const failure: RetryHint = { retryable: true, retryAfterMs: null, rateLimited: false };
+
+    mock.method(Math, "random", () => 0.999);
+    assert.deepEqual([0, 1, 2, 3, 4].map(attempt => Math.round(retrying.getRetryDelay(failure, attempt)!)), [250, 500, 999, 1499, 1499]);
+
+    mock.method(Math, "random", () => 0);
+    assert.equal(retrying.getRetryDelay(failure, 2), 0);
+  });
+
+  it("surfaces errors that are not retryable or out of retries", () => {
+    const retrying = new OkxRateLimiter({ retry: { maxRetries: 2 } });
+
+    assert.equal(retrying.getRetryDelay(new Error("boom"), 0), null);
+    assert.equal(retrying.getRetryDelay({ retryable: false, retryAfterMs: null, rateLimited: false }, 0), null);
+    assert.equal(retrying.getRetryDelay(rateLimited(1000), 2), null);
+  });
+});
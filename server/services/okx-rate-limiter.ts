@@ -0,0 +1,289 @@
+// Order placement first, then quotes, then reference data
+export type OkxRequestPriority = 'execution' | 'quote' | 'data';
+
+const PRIORITY_ORDER: OkxRequestPriority[] = ['execution', 'quote', 'data'];
+
+// Budget for every endpoint under a path prefix; each endpoint gets its own bucket
+export interface OkxBucketRule {
+  prefix: string;
+  capacity: number; // Burst size
+  refillPerSecond: number;
+}
+
+// OKX publishes limits per endpoint as requests per two seconds
+export const DEFAULT_OKX_BUCKET_RULES: OkxBucketRule[] = [
+  { prefix: "/api/v5/dex/aggregator/swap", capacity: 6, refillPerSecond: 3 },
+  { prefix: "/api/v5/dex/swap", capacity: 6, refillPerSecond: 3 },
+  { prefix: "/api/v5/dex", capacity: 10, refillPerSecond: 5 },
+  { prefix: "/api/v5/trade", capacity: 60, refillPerSecond: 30 },
+  { prefix: "/api/v5/account", capacity: 10, refillPerSecond: 5 },
+  { prefix: "/api/v5/market", capacity: 20, refillPerSecond: 10 },
+  { prefix: "/", capacity: 20, refillPerSecond: 10 }
+];
+
+export interface OkxRetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number; // Backoff before the first retry, doubled on each one
+  maxDelayMs: number; // Cap on computed backoff
+  maxRetryAfterMs: number; // Cap on server-provided retry hints
+}
+
+// Errors carry whether a retry is safe and any wait the server asked for; OkxError does
+export interface RetryHint {
+  retryable: boolean;
+  retryAfterMs: number | null;
+  rateLimited: boolean; // Rejected for exceeding a rate limit (HTTP 429 or OKX code 50011)
+}
+
+export interface OkxRequestOptions {
+  endpoint: string; // Request path; any query string is ignored for bucketing
+  priority?: OkxRequestPriority;
+  flow?: string; // Caller sharing the budget, e.g. "arbitrage" or "yield"
+}
+
+export interface OkxRateLimiterMetrics {
+  queueDepth: number;
+  queueByPriority: Record<OkxRequestPriority, number>;
+  queueByFlow: Record<string, number>;
+  granted: number;
+  throttled: number; // Requests that had to wait for a token
+  totalWaitMs: number;
+  maxWaitMs: number;
+  retries: number;
+  rateLimited: number; // Responses rejected by the server's own limiter
+  buckets: Array<{ endpoint: string; tokens: number; capacity: number; refillPerSecond: number }>;
+}
+
+interface Bucket {
+  rule: OkxBucketRule;
+  tokens: number;
+  updatedAt: number;
+}
+
+interface QueuedRequest {
+  endpoint: string;
+  priority: OkxRequestPriority;
+  flow: string;
+  enqueuedAt: number;
+  grant: () => void;
+}
+
+function isRetryHint(error: unknown): error is RetryHint {
+  return typeof error === 'object' && error !== null && typeof (error as RetryHint).retryable === 'boolean';
+}
+
+/**
+ * Shared token-bucket limiter and retry policy for OKX API calls
+ *
+ * Every endpoint draws on its own bucket, sized by the longest matching rule.
+ * Requests wait in a queue ordered by priority; within a priority, flows take
+ * turns so one busy caller cannot starve another sharing the same endpoint.
+ * Failed calls that are safe to repeat are retried with exponential backoff
+ * and full jitter, or after the server's own retry hint when it sends one,
+ * and each retry queues for a token again.
+ */
+export class OkxRateLimiter {
+  private rules: OkxBucketRule[];
+  private retryPolicy: OkxRetryPolicy;
+  private now: () => number;
+  private buckets: Map<string, Bucket> = new Map(); // endpoint -> bucket
+  private queues: Map<OkxRequestPriority, Map<string, QueuedRequest[]>> = new Map(); // priority -> flow -> requests, oldest first
+  private lastServedFlow: Map<OkxRequestPriority, string> = new Map();
+  private wakeTimer: NodeJS.Timeout | null = null;
+  private metrics = { granted: 0, throttled: 0, totalWaitMs: 0, maxWaitMs: 0, retries: 0, rateLimited: 0 };
+
+  constructor(options: { rules?: OkxBucketRule[]; retry?: Partial<OkxRetryPolicy>; now?: () => number } = {}) {
+    // Longest prefix first, so the most specific rule wins
+    this.rules = [...(options.rules || DEFAULT_OKX_BUCKET_RULES)].sort((a, b) => b.prefix.length - a.prefix.length);
+    this.retryPolicy = { maxRetries: 3, baseDelayMs: 250, maxDelayMs: 8000, maxRetryAfterMs: 60000, ...options.retry };
+    this.now = options.now || Date.now;
+    PRIORITY_ORDER.forEach(priority => this.queues.set(priority, new Map()));
+  }
+
+  /**
+   * Run `task` once a token is available, retrying it on retryable failures
+   */
+  async schedule<T>(request: OkxRequestOptions, task: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(request);
+      try {
+        return await task();
+      } catch (error) {
+        if (isRetryHint(error) && error.rateLimited) {
+          this.metrics.rateLimited++;
+          // The server is ahead of our bucket; drain it so queued requests back off too,
+          // refilling first so the drained bucket counts its refill from now
+          const bucket = this.getBucket(this.toEndpoint(request.endpoint));
+          this.refill(bucket);
+          bucket.tokens = 0;
+        }
+        const delay = this.getRetryDelay(error, attempt);
+        if (delay === null) throw error;
+
+        this.metrics.retries++;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Wait for a token on the request's endpoint
+   */
+  acquire(request: OkxRequestOptions): Promise<void> {
+    const priority = request.priority || 'data';
+    const flow = request.flow || 'default';
+
+    return new Promise(resolve => {
+      const queued: QueuedRequest = {
+        endpoint: this.toEndpoint(request.endpoint),
+        priority,
+        flow,
+        enqueuedAt: this.now(),
+        grant: resolve
+      };
+      const byFlow = this.queues.get(priority)!;
+      const queue = byFlow.get(flow) || [];
+      queue.push(queued);
+      byFlow.set(flow, queue);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Backoff before the next attempt, or null when the error should be surfaced
+   */
+  getRetryDelay(error: unknown, attempt: number): number | null {
+    if (!isRetryHint(error) || !error.retryable || attempt >= this.retryPolicy.maxRetries) {
+      return null;
+    }
+    if (error.retryAfterMs !== null) {
+      return Math.min(Math.max(0, error.retryAfterMs), this.retryPolicy.maxRetryAfterMs);
+    }
+    const ceiling = Math.min(this.retryPolicy.maxDelayMs, this.retryPolicy.baseDelayMs * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+
+  getMetrics(): OkxRateLimiterMetrics {
+    const queueByPriority = { execution: 0, quote: 0, data: 0 } as Record<OkxRequestPriority, number>;
+    const queueByFlow: Record<string, number> = {};
+    this.queues.forEach((byFlow, priority) => {
+      byFlow.forEach((queue, flow) => {
+        queueByPriority[priority] += queue.length;
+        queueByFlow[flow] = (queueByFlow[flow] || 0) + queue.length;
+      });
+    });
+
+    const buckets: OkxRateLimiterMetrics['buckets'] = [];
+    this.buckets.forEach((bucket, endpoint) => {
+      this.refill(bucket);
+      buckets.push({
+        endpoint,
+        tokens: bucket.tokens,
+        capacity: bucket.rule.capacity,
+        refillPerSecond: bucket.rule.refillPerSecond
+      });
+    });
+
+    return {
+      ...this.metrics,
+      queueDepth: queueByPriority.execution + queueByPriority.quote + queueByPriority.data,
+      queueByPriority,
+      queueByFlow,
+      buckets
+    };
+  }
+
+  /**
+   * Grant tokens to as many queued requests as the buckets allow, then sleep
+   * until the earliest bucket a waiting request needs has refilled
+   */
+  private dispatch() {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    let nextWakeMs = Infinity;
+    let granted = true;
+    while (granted) {
+      granted = false;
+      for (const priority of PRIORITY_ORDER) {
+        const byFlow = this.queues.get(priority)!;
+        for (const flow of this.getFlowTurnOrder(priority)) {
+          const queue = byFlow.get(flow)!;
+          // Oldest request of this flow whose endpoint has a token
+          const index = queue.findIndex(request => {
+            const bucket = this.getBucket(request.endpoint);
+            this.refill(bucket);
+            if (bucket.tokens >= 1) return true;
+            nextWakeMs = Math.min(nextWakeMs, ((1 - bucket.tokens) / bucket.rule.refillPerSecond) * 1000);
+            return false;
+          });
+          if (index === -1) continue;
+
+          const [request] = queue.splice(index, 1);
+          if (queue.length === 0) byFlow.delete(flow);
+          this.getBucket(request.endpoint).tokens -= 1;
+          this.lastServedFlow.set(priority, flow);
+          this.recordGrant(request);
+          request.grant();
+          granted = true;
+          break;
+        }
+        if (granted) break;
+      }
+    }
+
+    if (this.hasQueuedRequests() && isFinite(nextWakeMs)) {
+      this.wakeTimer = setTimeout(() => this.dispatch(), Math.max(1, Math.ceil(nextWakeMs)));
+    }
+  }
+
+  /**
+   * Flows of a priority starting after the one served last, so they take turns
+   */
+  private getFlowTurnOrder(priority: OkxRequestPriority): string[] {
+    const flows = Array.from(this.queues.get(priority)!.keys()).sort();
+    const last = this.lastServedFlow.get(priority);
+    const start = last === undefined ? 0 : flows.findIndex(flow => flow > last);
+    return start <= 0 ? flows : [...flows.slice(start), ...flows.slice(0, start)];
+  }
+
+  private recordGrant(request: QueuedRequest) {
+    const waitedMs = this.now() - request.enqueuedAt;
+    this.metrics.granted++;
+    if (waitedMs > 0) {
+      this.metrics.throttled++;
+      this.metrics.totalWaitMs += waitedMs;
+      this.metrics.maxWaitMs = Math.max(this.metrics.maxWaitMs, waitedMs);
+    }
+  }
+
+  private hasQueuedRequests(): boolean {
+    return Array.from(this.queues.values()).some(byFlow => byFlow.size > 0);
+  }
+
+  private getBucket(endpoint: string): Bucket {
+    let bucket = this.buckets.get(endpoint);
+    if (!bucket) {
+      const rule = this.rules.find(r => endpoint.startsWith(r.prefix)) || { prefix: "/", capacity: 20, refillPerSecond: 10 };
+      bucket = { rule, tokens: rule.capacity, updatedAt: this.now() };
+      this.buckets.set(endpoint, bucket);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: Bucket) {
+    const now = this.now();
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(bucket.rule.capacity, bucket.tokens + elapsedSeconds * bucket.rule.refillPerSecond);
+    bucket.updatedAt = now;
+  }
+
+  private toEndpoint(path: string): string {
+    return path.split("?")[0];
+  }
+}
+
+// One limiter for the whole process, so every OKX client shares the same budget
+export const okxRateLimiter = new OkxRateLimiter();
@@ -0,0 +1,66 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { OkxService } from "./okx";
+
+const OKX_ENV = ["OKX_API_BASE_URL", "OKX_API_KEY", "OKX_API_SECRET", "OKX_API_PASSPHRASE"];
+
+describe("OkxService with OKX credentials", () => {
+  let server: Server;
+  let requests: Array<{ method: string; url: string }> = [];
+  let service: OkxService;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests.push({ method: req.method || "", url: req.url || "" });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      // 3245 USDC (6 decimals) for the ETH sent
+      res.end(JSON.stringify({ code: "0", msg: "", data: [{ toTokenAmount: "3245000000", priceImpactPercentage: "0.12" }] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    OKX_ENV.forEach(name => savedEnv[name] = process.env[name]);
+    process.env.OKX_API_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.OKX_API_KEY = "test-key";
+    process.env.OKX_API_SECRET = "test-secret";
+    process.env.OKX_API_PASSPHRASE = "test-passphrase";
+    service = new OkxService();
+  });
+
+  after(async () => {
+    OKX_ENV.forEach(name => {
+      if (savedEnv[name] === undefined) delete process.env[name];
+      else process.env[name] = savedEnv[name];
+    });
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it("prices same-chain swaps with a GET to the aggregator quote endpoint", async () => {
+    requests = [];
+    const usdc = service.getTokens("ethereum").find(token => token.symbol === "USDC")!;
+    const quote = await service.quoteSwap({ fromToken: "ETH", toToken: "USDC", amount: "1", fromChain: "ethereum" });
+
+    assert.equal(requests.length, 1);
+    const url = new URL(requests[0].url, "http://localhost");
+    assert.equal(requests[0].method, "GET");
+    assert.equal(url.pathname, "/api/v5/dex/aggregator/quote");
+    assert.equal(url.searchParams.get("chainId"), "1");
+    assert.equal(url.searchParams.get("amount"), "1000000000000000000");
+    assert.equal(url.searchParams.get("toTokenAddress"), usdc.address);
+    assert.equal(quote.expectedOutput, "3245");
+    assert.equal(quote.priceImpactPercentage, "0.1200");
+  });
+
+  it("executes a live quote in simulation without submitting it to OKX", async () => {
+    const quote = await service.quoteSwap({ fromToken: "ETH", toToken: "USDC", amount: "1", fromChain: "ethereum" });
+    requests = [];
+
+    const swap = await service.performSwap(quote.quoteId);
+    assert.equal(swap.success, true);
+    assert.equal(swap.amountReceived, "3245");
+    assert.equal(requests.length, 0);
+  });
+});
@@ -1,5 +1,27 @@
 import { storage } from "../storage";
 import { InsertGasSaving } from "@shared/schema";
+import { OkxApiError, OkxRestClient, type OkxQueryParams } from "./okx-client";
+import { okxRateLimiter, type OkxRequestOptions } from "./okx-rate-limiter";
+import {
+  BRIDGE_FEE_RATE,
+  CROSS_CHAIN_BRIDGE,
+  CROSS_CHAIN_BRIDGE_TOKEN,
+  CrossChainSwapTracker,
+  getBridgeDurationMs,
+  getBridgeRelayerFeeUsd,
+  getConfirmationMs,
+  simulateTxHash,
+  type SwapLeg,
+  type SwapLegProgress
+} from "./cross-chain";
+import {
+  fromBaseUnits,
+  toBaseUnits,
+  TokenRegistry,
+  type RegisteredToken,
+  type TokenList,
+  type TokenListImportResult
+} from "./token-registry";
 
 // Define token info structure for better token management
 interface TokenInfo {
@@ -11,18 +33,12 @@ interface TokenInfo {
   logoUrl?: string;
 }
 
-// Define swap parameters with strict types
-interface SwapParams {
-  fromToken: string;
-  toToken: string;
-  amount: string;
-  fromChain: string;
-  toChain: string;
-  slippageTolerance: string;
-  gasless: boolean;
-  referrer?: string;
-  affiliateFee?: string;
-  userAddress?: string;
+// Route priced by GET /api/v5/dex/aggregator/quote, or one entry of a cross-chain quote's routerList
+interface OkxDexQuote {
+  toTokenAmount?: string; // In the destination token's smallest unit
+  priceImpactPercentage?: string;
+  estimateTime?: string; // Seconds, cross-chain only
+  router?: { bridgeName?: string };
 }
 
 // Define swap response with comprehensive type information
@@ -44,43 +60,95 @@ interface GaslessSwapResponse {
   timestamp: Date;
   errorCode?: number;
   errorMessage?: string;
+  quoteId?: string;
+  swapId?: string;
+  toChain?: string;
+  legs?: SwapLegProgress[]; // Cross-chain swaps, followed leg by leg until the destination receipt
+  destinationTxHash?: string;
+  estimatedCompletionAt?: Date;
+}
+
+export interface SwapQuoteRequest {
+  fromToken: string; // Symbol, alias or contract address on fromChain
+  toToken: string; // Symbol, alias or contract address on toChain
+  amount: string;
+  fromChain: string;
+  toChain?: string; // Defaults to fromChain
+  slippageTolerance?: string; // Percent, defaults to 0.5
+}
+
+// A priced swap the server will execute as quoted until it expires
+export interface SwapQuote {
+  quoteId: string;
+  fromToken: string;
+  toToken: string;
+  fromTokenAddress: string;
+  toTokenAddress: string;
+  amount: string;
+  fromChain: string;
+  toChain: string;
+  expectedOutput: string;
+  minimumOutput: string; // Expected output less the slippage tolerance; execution below it is refused
+  slippageTolerance: string; // Percent
+  priceImpactPercentage: string;
+  exchangeRate: string;
+  route: string[]; // Protocols of every leg, in order
+  legs: SwapLeg[];
+  estimatedDurationMs: number; // All legs confirmed, end to end
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * A swap was submitted with a quote that cannot be executed
+ */
+export class SwapQuoteError extends Error {
+  readonly quoteId: string;
+  readonly reason: 'not-found' | 'expired' | 'used';
+
+  constructor(quoteId: string, reason: 'not-found' | 'expired' | 'used') {
+    const detail = reason === 'not-found' ? "was not found" : reason === 'expired' ? "has expired; request a new quote" : "has already been executed";
+    super(`Swap quote ${quoteId} ${detail}`);
+    this.name = "SwapQuoteError";
+    this.quoteId = quoteId;
+    this.reason = reason;
+  }
 }
 
+// USD reference prices behind the simulated quotes' price impact
+const SIMULATED_USD_PRICES: Record<string, number> = {
+  ETH: 3245.89, WETH: 3245.89, BTC: 65842.50, WBTC: 65842.50, SOL: 103.47,
+  WSOL: 103.47, MATIC: 0.87, WMATIC: 0.87, AVAX: 34.25, WAVAX: 34.25, BNB: 584.30, WBNB: 584.30,
+  USDC: 1, "USDC.e": 1, USDT: 1, DAI: 1
+};
+const SIMULATED_POOL_DEPTH_USD = 2000000;
+
 /**
  * Service for interacting with the OKX DEX API
  * This service implements OKX's Gasless Transaction API to enable zero-fee swaps across multiple chains
  * with enhanced reliability, error handling, and performance optimizations
  */
 export class OkxService {
-  private apiKey: string;
-  private apiSecret: string;
-  private apiPassphrase: string;
-  private baseUrl: string;
+  private client: OkxRestClient;
+  private dexPath: string = "/api/v5/dex";
   private supportedChains: string[];
-  private tokenRegistry: Map<string, TokenInfo> = new Map();
-  private retryAttempts: number = 3;
-  private retryDelay: number = 1000;
+  private tokenRegistry: TokenRegistry = new TokenRegistry();
   private cacheExpiryMs: number = 5 * 60 * 1000; // 5 minutes
   private priceCache: Map<string, { price: number, timestamp: number }> = new Map();
   private pendingSwaps: Map<string, GaslessSwapResponse> = new Map();
-  private lastRequestTimestamp: number = 0;
-  private rateLimit: number = 100; // ms between requests
+  private quotes: Map<string, SwapQuote & { executed: boolean }> = new Map();
+  private quoteTtlMs: number = 30 * 1000;
+  private quoteRetentionMs: number = 10 * 60 * 1000; // Expired quotes are kept this long so late submissions are told why
+  private crossChainTracker: CrossChainSwapTracker = new CrossChainSwapTracker();
   
   constructor() {
-    // API credentials retrieved from environment variables with validation
-    this.apiKey = process.env.OKX_API_KEY || "";
-    this.apiSecret = process.env.OKX_API_SECRET || "";
-    this.apiPassphrase = process.env.OKX_API_PASSPHRASE || "";
+    // API credentials are read from OKX_API_KEY, OKX_API_SECRET and OKX_API_PASSPHRASE
+    this.client = new OkxRestClient();
     
-    if (!this.apiKey && process.env.NODE_ENV === 'production') {
-      console.warn("OKX API Key not provided. This is required for production use.");
+    if (!this.client.hasCredentials() && process.env.NODE_ENV === 'production') {
+      console.warn("OKX API credentials not provided. These are required for production use.");
     }
     
-    this.baseUrl = "https://www.okx.com/api/v5/dex";
-    
-    // Initialize token registry with common tokens
-    this.initializeTokenRegistry();
-    
     // Comprehensive list of chains supported by OKX DEX API for gasless transactions
     this.supportedChains = [
       "ethereum", "polygon", "arbitrum", "optimism", "base", "avalanche",
@@ -92,49 +160,101 @@ export class OkxService {
   }
   
   /**
-   * Initialize token registry with common tokens
+   * Get token info from registry by symbol, alias or address; without a
+   * chain, the first token listed under the symbol on any chain
    */
-  private initializeTokenRegistry() {
-    // ETH tokens
-    this.addToken("ETH", "Ethereum", 18);
-    this.addToken("WETH", "Wrapped Ethereum", 18);
-    this.addToken("USDC", "USD Coin", 6);
-    this.addToken("USDT", "Tether", 6);
-    this.addToken("DAI", "Dai Stablecoin", 18);
-    this.addToken("WBTC", "Wrapped Bitcoin", 8);
-    
-    // Other chain native tokens
-    this.addToken("MATIC", "Polygon", 18);
-    this.addToken("SOL", "Solana", 9);
-    this.addToken("BNB", "Binance Coin", 18);
-    this.addToken("AVAX", "Avalanche", 18);
-    this.addToken("ARB", "Arbitrum", 18);
-    this.addToken("OP", "Optimism", 18);
+  private getTokenInfo(token: string, chain?: string): RegisteredToken | undefined {
+    if (chain) {
+      return this.tokenRegistry.resolve(chain, token);
+    }
+    return this.tokenRegistry.getTokens().find(info => info.symbol === token);
   }
   
   /**
-   * Add token to the registry
+   * Tokens listed on a chain, or on every chain
    */
-  private addToken(symbol: string, name: string, decimals: number, address?: string, chainId?: number) {
-    this.tokenRegistry.set(symbol, {
-      symbol,
-      name,
-      decimals,
-      address,
-      chainId,
-      logoUrl: `https://assets.okx.com/cdn/token/${symbol.toLowerCase()}.png`
-    });
+  getTokens(chain?: string): RegisteredToken[] {
+    return this.tokenRegistry.getTokens(chain);
   }
   
   /**
-   * Get token info from registry
+   * Add or update tokens from a list in the standard token list format
    */
-  private getTokenInfo(symbol: string): TokenInfo | undefined {
-    return this.tokenRegistry.get(symbol);
+  importTokenList(list: TokenList): TokenListImportResult {
+    const result = this.tokenRegistry.importTokenList(list);
+    console.log(`OkxService: Imported token list '${result.name}': ${result.imported} added, ${result.updated} updated, ${result.skipped.length} skipped`);
+    return result;
+  }
+  
+  /**
+   * Price a gasless swap without executing it
+   *
+   * Swaps between chains are routed as typed legs: a swap into the bridged
+   * token on the source chain, the bridge, and a swap out of it on the
+   * destination chain, skipping the swaps a pair does not need. The quote is
+   * held for `quoteTtlMs`; performSwap executes it as quoted and refuses it
+   * once it has expired or been used.
+   */
+  async quoteSwap(request: SwapQuoteRequest): Promise<SwapQuote> {
+    const { amount, fromChain } = request;
+    const toChain = request.toChain || fromChain;
+    const slippageTolerance = request.slippageTolerance ?? "0.5";
+    const { from, to } = this.validateSwapParams(request.fromToken, request.toToken, amount, fromChain, toChain);
+    const fromToken = from.symbol;
+    const toToken = to.symbol;
+    const slippage = parseFloat(slippageTolerance);
+    if (isNaN(slippage) || slippage < 0 || slippage > 50) {
+      throw new Error("Invalid slippage tolerance: must be a percentage between 0 and 50");
+    }
+    this.pruneQuotes();
+    
+    const plan = this.planRoute(from, to, amount);
+    let { expectedOutput, priceImpactPercentage } = plan;
+    if (this.client.hasCredentials()) {
+      // OKX prices the route as a whole; the local plan supplies the leg breakdown
+      const quote = await this.fetchDexQuote(from, to, amount, slippage);
+      if (!quote?.toTokenAmount) {
+        throw new Error(`OKX returned no quote for ${amount} ${fromToken} on ${fromChain} to ${toToken} on ${toChain}`);
+      }
+      expectedOutput = fromBaseUnits(quote.toTokenAmount, to.decimals);
+      priceImpactPercentage = Math.abs(parseFloat(quote.priceImpactPercentage || "0")) || 0;
+      plan.legs[plan.legs.length - 1].expectedAmountOut = expectedOutput;
+      
+      const bridge = plan.legs.find(leg => leg.type === 'bridge');
+      if (bridge && quote.router?.bridgeName) bridge.protocols = [quote.router.bridgeName];
+      if (bridge && Number(quote.estimateTime) > 0) bridge.estimatedDurationMs = Number(quote.estimateTime) * 1000;
+    } else {
+      await this.simulateApiDelay(1000, { endpoint: this.getQuotePath(fromChain, toChain), priority: 'quote', flow: 'swap' });
+    }
+    
+    const now = Date.now();
+    const quote: SwapQuote = {
+      quoteId: `quote-${now}-${Math.random().toString(36).substring(2, 15)}`,
+      fromToken,
+      toToken,
+      fromTokenAddress: from.address,
+      toTokenAddress: to.address,
+      amount,
+      fromChain,
+      toChain,
+      expectedOutput,
+      minimumOutput: this.formatTokenAmount(parseFloat(expectedOutput) * (1 - slippage / 100), to),
+      slippageTolerance: String(slippage),
+      priceImpactPercentage: priceImpactPercentage.toFixed(4),
+      exchangeRate: this.calculateExchangeRate(from, to, amount, expectedOutput),
+      route: plan.legs.reduce((route: string[], leg) => route.concat(leg.protocols), []),
+      legs: plan.legs,
+      estimatedDurationMs: plan.legs.reduce((sum, leg) => sum + leg.estimatedDurationMs, 0),
+      createdAt: new Date(now),
+      expiresAt: new Date(now + this.quoteTtlMs)
+    };
+    this.quotes.set(quote.quoteId, { ...quote, executed: false });
+    
+    return quote;
   }
   
   /**
-   * Execute a gasless swap transaction using OKX DEX API with enhanced reliability
+   * Execute a quoted gasless swap using OKX DEX API with enhanced reliability
    * 
    * OKX's Gasless Transaction API features:
    * - Zero gas fees for users on all supported chains
@@ -143,32 +263,32 @@ export class OkxService {
    * - Cross-chain bridging and swapping in a single transaction
    * - Transaction failure protection with automatic retry mechanism
    * - Robust error handling with detailed diagnostics
+   * 
+   * Only an unexpired quote from quoteSwap is accepted, and each quote
+   * executes at most once, even if the execution fails. A cross-chain swap
+   * returns once its first leg is submitted, still pending; getSwapStatus
+   * follows it to the destination receipt. Execution is simulated in every
+   * mode, filling at the quoted output: with OKX credentials configured the
+   * quote is priced live, but the aggregator's swap endpoint only builds a
+   * transaction for the user's wallet to sign, which this server does not hold.
    */
-  async performSwap(fromToken: string, toToken: string, amount: string, chain: string, userAddress?: string): Promise<GaslessSwapResponse> {
+  async performSwap(quoteId: string): Promise<GaslessSwapResponse> {
+    const quote = this.claimQuote(quoteId);
+    const { fromToken, toToken, amount, fromChain: chain, toChain } = quote;
+    const crossChain = toChain !== chain;
+    
     // Generate a unique swap ID for tracking
     const swapId = `swap-${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
     
     try {
-      console.log(`[OKX Gasless Swap ${swapId}] Initiating: ${amount} ${fromToken} to ${toToken} on ${chain}`);
-      
-      // Validate inputs with detailed error messages
-      this.validateSwapParams(fromToken, toToken, amount, chain);
-      
-      // Get token information
-      const fromTokenInfo = this.getTokenInfo(fromToken) || { symbol: fromToken, name: fromToken, decimals: 18 };
-      const toTokenInfo = this.getTokenInfo(toToken) || { symbol: toToken, name: toToken, decimals: 18 };
+      console.log(`[OKX Gasless Swap ${swapId}] Initiating quote ${quoteId}: ${amount} ${fromToken} on ${chain} to ${toToken} on ${toChain}`);
       
-      // Prepare swap parameters
-      const swapParams: SwapParams = {
-        fromToken,
-        toToken,
-        amount,
-        fromChain: chain,
-        toChain: chain, // Same chain for regular swaps
-        slippageTolerance: '0.5',
-        gasless: true, // Always enabled for gasless transactions
-        userAddress
-      };
+      // Get token information; the quote pinned the exact contracts
+      const fromTokenInfo = this.getTokenInfo(quote.fromTokenAddress, chain);
+      const toTokenInfo = this.getTokenInfo(quote.toTokenAddress, toChain);
+      if (!fromTokenInfo || !toTokenInfo) {
+        throw new Error(`Token ${!fromTokenInfo ? fromToken : toToken} is no longer listed`);
+      }
       
       // Create a pending swap record
       const pendingSwap: GaslessSwapResponse = {
@@ -183,56 +303,27 @@ export class OkxService {
         optimizedRoute: [],
         exchangeRate: "0",
         status: 'pending',
-        timestamp: new Date()
+        timestamp: new Date(),
+        quoteId,
+        swapId,
+        toChain
       };
       
       // Store in pending swaps
       this.pendingSwaps.set(swapId, pendingSwap);
       
-      // In production, this would construct and sign the API request with proper rate limiting
-      /*
-      await this.respectRateLimit();
-      
-      // Add proper authentication headers
-      const timestamp = Date.now();
-      const signature = this.generateSignature(timestamp, 'POST', '/dex/swap/quote', swapParams);
-      
-      const headers = {
-        'OK-ACCESS-KEY': this.apiKey,
-        'OK-ACCESS-SIGN': signature,
-        'OK-ACCESS-TIMESTAMP': timestamp.toString(),
-        'OK-ACCESS-PASSPHRASE': this.apiPassphrase,
-        'Content-Type': 'application/json'
-      };
-      
-      const response = await fetch(`${this.baseUrl}/swap/quote`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(swapParams)
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`OKX API error: ${errorData.message || response.statusText}, Code: ${errorData.code || response.status}`);
-      }
+      // The swap is simulated, filling at the quoted output
+      const amountReceived = quote.expectedOutput;
+      await this.simulateApiDelay(1000, { endpoint: this.getSwapPath(chain, toChain), priority: 'execution', flow: 'swap' });
+      const transactionHash = simulateTxHash();
       
-      const data = await response.json();
-      
-      // Process the response
-      */
-      
-      // Simulate API call delay with realistic timing
-      await this.simulateApiDelay();
-      
-      // Calculate the amount received based on current market rates with precision handling
-      const amountReceived = this.calculateSwapOutput(fromToken, toToken, amount);
+      // The first leg is submitted; later legs are followed until the destination receipt
+      const legs = quote.legs.map((leg, index) => index === quote.legs.length - 1 ? { ...leg, expectedAmountOut: amountReceived } : leg);
+      const progress = crossChain ? this.crossChainTracker.track(swapId, quoteId, legs, transactionHash) : undefined;
       
       // Record gas savings with detailed chain-specific calculations
       const gasSaved = await this.recordGasSavings(chain, fromToken, toToken, amount);
       
-      // Generate optimized route based on token pair and chain
-      const optimizedRoute = this.generateOptimizedRoute(fromToken, toToken, chain);
-      
       // Calculate exchange rate with proper decimal handling
       const exchangeRate = this.calculateExchangeRate(fromTokenInfo, toTokenInfo, amount, amountReceived);
       
@@ -245,23 +336,32 @@ export class OkxService {
         fromToken,
         toToken,
         amountSent: amount,
-        amountReceived,
+        amountReceived: progress ? "0" : amountReceived,
         chain,
         gasSaved,
         gasless: true,
-        optimizedRoute,
+        optimizedRoute: quote.route,
         exchangeRate,
-        transactionHash: `0x${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`,
+        transactionHash,
         executionTime,
-        status: 'completed',
+        status: progress ? 'pending' : 'completed',
         fee: '0', // Zero fee for gasless transactions
-        timestamp: new Date()
+        timestamp: new Date(),
+        quoteId,
+        swapId,
+        toChain,
+        legs: progress?.legs,
+        estimatedCompletionAt: progress?.estimatedCompletionAt
       };
       
       // Update pending swap record
       this.pendingSwaps.set(swapId, swapResponse);
       
-      console.log(`[OKX Gasless Swap ${swapId}] Completed successfully: ${amount} ${fromToken} to ${amountReceived} ${toToken} on ${chain}. Gas saved: $${gasSaved}`);
+      if (progress) {
+        console.log(`[OKX Gasless Swap ${swapId}] Submitted leg 1 of ${quote.legs.length}: ${amount} ${fromToken} on ${chain} to ${toToken} on ${toChain}, due ${progress.estimatedCompletionAt.toISOString()}`);
+      } else {
+        console.log(`[OKX Gasless Swap ${swapId}] Completed successfully: ${amount} ${fromToken} to ${amountReceived} ${toToken} on ${chain}. Gas saved: $${gasSaved}`);
+      }
       
       // Return the successful response
       return swapResponse;
@@ -281,9 +381,12 @@ export class OkxService {
         optimizedRoute: [],
         exchangeRate: "0",
         status: 'failed',
-        errorCode: error instanceof Error && 'code' in error ? (error as any).code : 500,
+        errorCode: error instanceof OkxApiError ? Number(error.code) : error instanceof Error && 'code' in error ? (error as any).code : 500,
         errorMessage: error instanceof Error ? error.message : String(error),
-        timestamp: new Date()
+        timestamp: new Date(),
+        quoteId,
+        swapId,
+        toChain
       };
       
       // Update pending swap with error information
@@ -294,19 +397,191 @@ export class OkxService {
   }
   
   /**
-   * Validate swap parameters with comprehensive error checking
+   * Take a quote for execution, refusing unknown, used and expired quotes
    */
-  private validateSwapParams(fromToken: string, toToken: string, amount: string, chain: string): void {
+  private claimQuote(quoteId: string): SwapQuote {
+    const quote = this.quotes.get(quoteId);
+    if (!quote) {
+      throw new SwapQuoteError(quoteId, 'not-found');
+    }
+    if (quote.executed) {
+      throw new SwapQuoteError(quoteId, 'used');
+    }
+    if (Date.now() >= quote.expiresAt.getTime()) {
+      throw new SwapQuoteError(quoteId, 'expired');
+    }
+    
+    quote.executed = true;
+    return quote;
+  }
+  
+  /**
+   * Forget quotes that expired longer ago than the retention window
+   */
+  private pruneQuotes() {
+    const cutoff = Date.now() - this.quoteRetentionMs;
+    this.quotes.forEach((quote, quoteId) => {
+      if (quote.expiresAt.getTime() < cutoff) this.quotes.delete(quoteId);
+    });
+  }
+  
+  /**
+   * Split a swap into legs, priced from the simulated rates
+   */
+  private planRoute(
+    from: RegisteredToken,
+    to: RegisteredToken,
+    amount: string
+  ): { legs: SwapLeg[]; expectedOutput: string; priceImpactPercentage: number } {
+    const legs: SwapLeg[] = [];
+    let amountIn = amount.replace(/,/g, '');
+    let priceImpactPercentage = 0;
+    
+    const addSwap = (tokenIn: RegisteredToken, tokenOut: RegisteredToken) => {
+      const simulated = this.simulateQuoteOutput(tokenIn, tokenOut, amountIn);
+      legs.push({
+        index: legs.length,
+        type: 'swap',
+        chain: tokenIn.chain,
+        toChain: tokenIn.chain,
+        protocols: this.generateOptimizedRoute(tokenIn.symbol, tokenOut.symbol, tokenIn.chain),
+        fromToken: tokenIn.symbol,
+        toToken: tokenOut.symbol,
+        amountIn,
+        expectedAmountOut: simulated.output,
+        fee: "0", // Gasless
+        estimatedDurationMs: getConfirmationMs(tokenIn.chain)
+      });
+      amountIn = simulated.output;
+      priceImpactPercentage += simulated.priceImpactPercentage;
+    };
+    
+    if (from.chain === to.chain) {
+      addSwap(from, to);
+      return { legs, expectedOutput: amountIn, priceImpactPercentage };
+    }
+    
+    // Bridge the token itself when it is what arrives, otherwise route through the bridge token
+    const bridgeSymbol = from.symbol === to.symbol ? from.symbol : CROSS_CHAIN_BRIDGE_TOKEN;
+    const bridgeIn = from.symbol === bridgeSymbol ? from : this.tokenRegistry.resolve(from.chain, bridgeSymbol);
+    const bridgeOut = to.symbol === bridgeSymbol ? to : this.tokenRegistry.resolve(to.chain, bridgeSymbol);
+    if (!bridgeIn || !bridgeOut) {
+      throw new Error(`No cross-chain route: ${bridgeSymbol} is not listed on ${!bridgeIn ? from.chain : to.chain}`);
+    }
+    if (from.address !== bridgeIn.address) {
+      addSwap(from, bridgeIn);
+    }
+    
+    // The fee is taken in the source token; the bridged amount arrives at the destination token's precision
+    const bridged = parseFloat(amountIn);
+    const fee = bridged * BRIDGE_FEE_RATE + getBridgeRelayerFeeUsd(to.chain) / (SIMULATED_USD_PRICES[bridgeSymbol] ?? 1);
+    const bridgedOut = this.formatTokenAmount(Math.max(0, bridged - fee), bridgeOut);
+    legs.push({
+      index: legs.length,
+      type: 'bridge',
+      chain: from.chain,
+      toChain: to.chain,
+      protocols: [CROSS_CHAIN_BRIDGE],
+      fromToken: bridgeSymbol,
+      toToken: bridgeSymbol,
+      amountIn,
+      expectedAmountOut: bridgedOut,
+      fee: this.formatTokenAmount(fee, bridgeIn),
+      estimatedDurationMs: getBridgeDurationMs(from.chain, to.chain)
+    });
+    amountIn = bridgedOut;
+    
+    if (to.address !== bridgeOut.address) {
+      addSwap(bridgeOut, to);
+    }
+    
+    return { legs, expectedOutput: amountIn, priceImpactPercentage };
+  }
+  
+  private getQuotePath(fromChain: string, toChain: string): string {
+    return fromChain === toChain ? `${this.dexPath}/aggregator/quote` : `${this.dexPath}/cross-chain/quote`;
+  }
+  
+  private getSwapPath(fromChain: string, toChain: string): string {
+    return fromChain === toChain ? `${this.dexPath}/aggregator/swap` : `${this.dexPath}/cross-chain/build-tx`;
+  }
+  
+  /**
+   * Price a pair on the OKX DEX API; amounts are in the tokens' smallest units
+   * and OKX takes slippage as a fraction. A cross-chain quote lists several
+   * bridge routes, best first.
+   */
+  private async fetchDexQuote(from: RegisteredToken, to: RegisteredToken, amount: string, slippagePercentage: number): Promise<OkxDexQuote | undefined> {
+    const params: OkxQueryParams = from.chain === to.chain
+      ? { chainId: from.chainId, amount: toBaseUnits(amount, from.decimals), fromTokenAddress: from.address, toTokenAddress: to.address }
+      : {
+          fromChainId: from.chainId,
+          toChainId: to.chainId,
+          amount: toBaseUnits(amount, from.decimals),
+          fromTokenAddress: from.address,
+          toTokenAddress: to.address,
+          slippage: slippagePercentage / 100
+        };
+    const path = this.getQuotePath(from.chain, to.chain);
+    
+    if (from.chain === to.chain) {
+      const [quote] = await this.client.get<OkxDexQuote>(path, params, { priority: 'quote', flow: 'swap' });
+      return quote;
+    }
+    const [result] = await this.client.get<{ routerList?: OkxDexQuote[] }>(path, params, { priority: 'quote', flow: 'swap' });
+    return result?.routerList?.[0];
+  }
+  
+  /**
+   * Simulated output after the price impact of trading against a constant-product
+   * pool of SIMULATED_POOL_DEPTH_USD; tokens without a reference price count as $1
+   */
+  private simulateQuoteOutput(from: RegisteredToken, to: RegisteredToken, amount: string): { output: string; priceImpactPercentage: number } {
+    const parsedAmount = parseFloat(amount.replace(/,/g, ''));
+    const fromPrice = SIMULATED_USD_PRICES[from.symbol];
+    const toPrice = SIMULATED_USD_PRICES[to.symbol];
+    const rawOutput = fromPrice && toPrice ? parsedAmount * fromPrice / toPrice : parseFloat(this.calculateSwapOutput(from.symbol, to.symbol, amount));
+    const notionalUsd = parsedAmount * (fromPrice ?? 1);
+    const priceImpactPercentage = (notionalUsd / (SIMULATED_POOL_DEPTH_USD + notionalUsd)) * 100;
+    
+    return {
+      output: this.formatTokenAmount(rawOutput * (1 - priceImpactPercentage / 100), to),
+      priceImpactPercentage
+    };
+  }
+  
+  /**
+   * Round down to the token's decimals, capped at 8 places, so an amount is never overstated
+   */
+  private formatTokenAmount(value: number, token: RegisteredToken): string {
+    const places = Math.min(token.decimals, 8);
+    const factor = Math.pow(10, places);
+    return (Math.floor(value * factor + 1e-6) / factor).toFixed(places);
+  }
+  
+  /**
+   * Validate swap parameters with comprehensive error checking, resolving
+   * each token on the chain it is swapped on
+   */
+  private validateSwapParams(
+    fromToken: string,
+    toToken: string,
+    amount: string,
+    chain: string,
+    toChain: string = chain
+  ): { from: RegisteredToken; to: RegisteredToken } {
     // Verify token symbols
     if (!fromToken || !toToken) {
       throw new Error("Invalid tokens: Source and destination tokens are required");
     }
     
     // Validate chain support with detailed error message
-    if (!this.supportedChains.includes(chain.toLowerCase())) {
-      const supportedChainList = this.supportedChains.join(", ");
-      throw new Error(`Chain '${chain}' is not supported by OKX Gasless API. Supported chains are: ${supportedChainList}`);
-    }
+    [chain, toChain].forEach(c => {
+      if (!this.supportedChains.includes(c.toLowerCase())) {
+        const supportedChainList = this.supportedChains.join(", ");
+        throw new Error(`Chain '${c}' is not supported by OKX Gasless API. Supported chains are: ${supportedChainList}`);
+      }
+    });
     
     // Validate amount
     const parsedAmount = parseFloat(amount.replace(/,/g, ''));
@@ -314,10 +589,20 @@ export class OkxService {
       throw new Error("Invalid amount: Amount must be a positive number");
     }
     
-    // Check for same token swaps
-    if (fromToken === toToken) {
+    // Tokens are listed per chain; a symbol on one chain says nothing about another
+    const from = this.tokenRegistry.resolve(chain, fromToken);
+    const to = this.tokenRegistry.resolve(toChain, toToken);
+    if (!from || !to) {
+      const [token, c] = !from ? [fromToken, chain] : [toToken, toChain];
+      throw new Error(`Invalid token: '${token}' is not listed on ${c}`);
+    }
+    
+    // Check for same token swaps; moving a token to another chain is a bridge, not a no-op
+    if (from.chainId === to.chainId && from.address === to.address) {
       throw new Error("Invalid token pair: Source and destination tokens cannot be the same");
     }
+    
+    return { from, to };
   }
   
   /**
@@ -377,29 +662,6 @@ export class OkxService {
     return rate.toFixed(decimalPlaces);
   }
   
-  /**
-   * Respect API rate limits
-   */
-  private async respectRateLimit(): Promise<void> {
-    const now = Date.now();
-    const elapsed = now - this.lastRequestTimestamp;
-    
-    if (elapsed < this.rateLimit) {
-      await new Promise(resolve => setTimeout(resolve, this.rateLimit - elapsed));
-    }
-    
-    this.lastRequestTimestamp = Date.now();
-  }
-  
-  /**
-   * Generate API request signature
-   */
-  private generateSignature(timestamp: number, method: string, path: string, body: any): string {
-    // In a real implementation, this would generate the OKX API signature
-    // using the provided credentials and parameters
-    return "simulated_signature";
-  }
-  
   /**
    * Estimate gas savings using OKX Gasless Transaction API
    * 
@@ -419,7 +681,7 @@ export class OkxService {
       }
       
       // In production, this would make a request to OKX API endpoint:
-      // const endpoint = `${this.baseUrl}/gas-estimate`;
+      // const endpoint = `${this.dexPath}/gas-estimate`;
       // const params = {
       //   chain,
       //   fromToken,
@@ -429,7 +691,7 @@ export class OkxService {
       // };
       
       // Simulate API call delay
-      await this.simulateApiDelay(500);
+      await this.simulateApiDelay(500, { endpoint: `${this.dexPath}/gas-estimate`, priority: 'data', flow: 'swap' });
       
       // Calculate estimated gas costs based on current gas prices and chain 
       // These values would be dynamically fetched from on-chain data in production
@@ -489,7 +751,7 @@ export class OkxService {
       console.log(`[OKX] Executing arbitrage for ${asset}: Buy at ${buyExchange} (${buyPrice}), Sell at ${sellExchange} (${sellPrice})`);
       
       // Validate asset
-      if (!asset || !this.tokenRegistry.has(asset)) {
+      if (!asset || !this.tokenRegistry.hasSymbol(asset)) {
         console.warn(`Asset ${asset} not found in token registry, using default decimals`);
       }
       
@@ -509,7 +771,7 @@ export class OkxService {
       const transactionHash = `0x${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`;
       
       // Simulate API call delay for a realistic execution time
-      await this.simulateApiDelay(1200);
+      await this.simulateApiDelay(1200, { endpoint: `${this.dexPath}/swap/execute`, priority: 'execution', flow: 'arbitrage' });
       
       // Return detailed execution result
       return {
@@ -596,7 +858,7 @@ export class OkxService {
       const transactionId = `deposit-${Date.now()}-${Math.floor(Math.random() * 1000000)}`;
       
       // Simulate API call delay for realistic timing
-      await this.simulateApiDelay(1200);
+      await this.simulateApiDelay(1200, { endpoint: `${this.dexPath}/earn/deposit`, priority: 'execution', flow: 'yield' });
       
       // Record gas savings
       const gasSaved = await this.recordGasSavings(opportunity.chain, opportunity.asset, opportunity.asset, amount);
@@ -748,20 +1010,30 @@ export class OkxService {
   }
   
   /**
-   * Query OKX swap status
+   * Query OKX swap status; a pending cross-chain swap is brought up to date
+   * leg by leg and completes with the destination receipt
    */
-  async getSwapStatus(swapId: string) {
-    try {
-      // Check if we have this swap in our pending swaps
-      if (!this.pendingSwaps.has(swapId)) {
-        throw new Error(`Swap with ID ${swapId} not found`);
-      }
-      
-      return this.pendingSwaps.get(swapId);
-    } catch (error) {
-      console.error("[OKX] Error getting swap status:", error);
-      throw new Error(`Failed to get swap status: ${(error as Error).message}`);
+  async getSwapStatus(swapId: string): Promise<GaslessSwapResponse | undefined> {
+    const swap = this.pendingSwaps.get(swapId);
+    const progress = this.crossChainTracker.getStatus(swapId);
+    if (!swap || !progress || swap.status !== 'pending') {
+      return swap;
     }
+    
+    const updated: GaslessSwapResponse = {
+      ...swap,
+      legs: progress.legs,
+      estimatedCompletionAt: progress.estimatedCompletionAt
+    };
+    if (progress.status === 'completed') {
+      updated.status = 'completed';
+      updated.amountReceived = progress.legs[progress.legs.length - 1].expectedAmountOut;
+      updated.destinationTxHash = progress.destinationTxHash ?? undefined;
+      console.log(`[OKX Gasless Swap ${swapId}] Completed on ${progress.toChain}: received ${updated.amountReceived} ${swap.toToken}`);
+    }
+    
+    this.pendingSwaps.set(swapId, updated);
+    return updated;
   }
   
   /**
@@ -769,8 +1041,8 @@ export class OkxService {
    */
   async getSupportedChainsAndTokens() {
     try {
-      // Convert tokens map to array
-      const tokens = Array.from(this.tokenRegistry.values());
+      // Every listed token, across chains
+      const tokens = this.tokenRegistry.getTokens();
       
       return {
         supportedChains: this.supportedChains,
@@ -784,10 +1056,12 @@ export class OkxService {
   }
   
   /**
-   * Simulate an API call delay
+   * Simulate an API call delay; simulated calls queue on the shared rate
+   * limiter like live ones, so they draw on the same budget
    */
-  private async simulateApiDelay(ms: number = 1000): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async simulateApiDelay(ms: number = 1000, request?: OkxRequestOptions): Promise<void> {
+    const delay = () => new Promise<void>(resolve => setTimeout(resolve, ms));
+    return request ? okxRateLimiter.schedule(request, delay) : delay();
   }
   
   /**
@@ -806,7 +1080,7 @@ export class OkxService {
       }
       
       // In production, this would make a request to OKX API endpoint:
-      // const endpoint = `${this.baseUrl}/gas-estimate`;
+      // const endpoint = `${this.dexPath}/gas-estimate`;
       // const params = {
       //   chain,
       //   fromToken,
@@ -816,7 +1090,7 @@ export class OkxService {
       // };
       
       // Simulate API call delay
-      await this.simulateApiDelay(500);
+      await this.simulateApiDelay(500, { endpoint: `${this.dexPath}/gas-estimate`, priority: 'data', flow: 'swap' });
       
       // Calculate estimated gas costs based on current gas prices and chain 
       // These values would be dynamically fetched from on-chain data in production
@@ -876,7 +1150,7 @@ export class OkxService {
       console.log(`Executing arbitrage for ${asset}: Buy at ${buyExchange} (${buyPrice}), Sell at ${sellExchange} (${sellPrice})`);
       
       // Simulate API call delay
-      await this.simulateApiDelay(1500);
+      await this.simulateApiDelay(1500, { endpoint: `${this.dexPath}/swap/execute`, priority: 'execution', flow: 'arbitrage' });
       
       // Return execution result
       return {
@@ -908,7 +1182,7 @@ export class OkxService {
       console.log(`Depositing ${amount} to ${opportunity.protocol} on ${opportunity.chain}`);
       
       // Simulate API call delay
-      await this.simulateApiDelay(1200);
+      await this.simulateApiDelay(1200, { endpoint: `${this.dexPath}/earn/deposit`, priority: 'execution', flow: 'yield' });
       
       // Record gas savings
       const gasSaved = await this.recordGasSavings(opportunity.chain, opportunity.asset, opportunity.asset, amount);
@@ -1002,9 +1276,11 @@ export class OkxService {
   }
   
   /**
-   * Simulate an API call delay
+   * Simulate an API call delay; simulated calls queue on the shared rate
+   * limiter like live ones, so they draw on the same budget
    */
-  private async simulateApiDelay(ms: number = 1000): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async simulateApiDelay(ms: number = 1000, request?: OkxRequestOptions): Promise<void> {
+    const delay = () => new Promise<void>(resolve => setTimeout(resolve, ms));
+    return request ? okxRateLimiter.schedule(request, delay) : delay();
   }
 }
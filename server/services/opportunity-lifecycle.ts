@@ -0,0 +1,234 @@
+import type { ArbitrageRoute, OpportunityExpiryReason } from "./arbitrage";
+import { systemClock, type Clock } from "./clock";
+
+export type OpportunityKind = 'two-leg' | 'multi-hop' | 'flash-loan' | 'basis';
+
+export interface OpportunityLifecycle {
+  routeId: string;
+  asset: string;
+  venues: string[]; // Exchanges in step order
+  kind: OpportunityKind;
+  status: 'active' | 'expired';
+  firstSeen: Date;
+  lastSeen: Date;
+  observations: number; // Monitoring cycles the route was detected in
+  initialProfitPercentage: number;
+  peakProfitPercentage: number;
+  peakAt: Date;
+  lastProfitPercentage: number;
+  decayPerSecond: number; // Average fall in profit percentage per second since the peak
+  halfLifeMs: number | null; // Peak until the spread first halved; null until it has
+  lifetimeMs: number; // First seen until expiry, or until now while active
+  expiredAt: Date | null;
+  expiryReason: OpportunityExpiryReason | null;
+}
+
+// Half-life statistics for one asset and venue path
+export interface OpportunityHalfLifeReport {
+  asset: string;
+  venues: string[];
+  kind: OpportunityKind;
+  active: number;
+  expired: number;
+  meanPeakProfitPercentage: number;
+  medianLifetimeMs: number;
+  medianHalfLifeMs: number | null;
+  executionLatencyMs: number; // What it takes us to fill the route's legs
+  capturableShare: number; // Share of expired opportunities that outlived the execution latency
+}
+
+interface LifecycleRecord {
+  routeId: string;
+  asset: string;
+  venues: string[];
+  kind: OpportunityKind;
+  firstSeenAt: number;
+  lastSeenAt: number;
+  observations: number;
+  initialProfitPercentage: number;
+  peakProfitPercentage: number;
+  peakAt: number;
+  lastProfitPercentage: number;
+  halvedAt: number | null;
+  estimatedExecutionTimeMs: number;
+  expiredAt: number | null;
+  expiryReason: OpportunityExpiryReason | null;
+}
+
+/**
+ * Records how long each detected opportunity lives and how fast its spread decays
+ *
+ * Routes are observed once per monitoring cycle, so times are only as precise
+ * as the cycle interval. A route that stops being detected has decayed below
+ * the profit threshold, which counts as having halved if it had not already;
+ * routes that were executed or cut off by a venue being quarantined or
+ * disabled never finished decaying and carry no half-life.
+ */
+export class OpportunityLifecycleTracker {
+  private clock: Clock;
+  private active: Map<string, LifecycleRecord> = new Map(); // route id -> record
+  private expired: LifecycleRecord[] = [];
+  private maxExpiredRecords: number;
+
+  constructor(clock: Clock = systemClock, maxExpiredRecords: number = 2000) {
+    this.clock = clock;
+    this.maxExpiredRecords = maxExpiredRecords;
+  }
+
+  /**
+   * Record the routes detected this cycle; tracked routes missing from it have expired
+   */
+  observe(routes: ArbitrageRoute[]) {
+    const now = this.clock.now();
+    const seen = new Set<string>();
+
+    routes.forEach(route => {
+      seen.add(route.id);
+      const profit = route.estimatedProfitPercentage;
+      const record = this.active.get(route.id);
+
+      if (!record) {
+        this.active.set(route.id, {
+          routeId: route.id,
+          asset: route.asset,
+          venues: route.steps.map(step => step.exchange),
+          kind: route.basis ? 'basis' : route.flashLoan ? 'flash-loan' : route.steps.some(step => step.pair) ? 'multi-hop' : 'two-leg',
+          firstSeenAt: now,
+          lastSeenAt: now,
+          observations: 1,
+          initialProfitPercentage: profit,
+          peakProfitPercentage: profit,
+          peakAt: now,
+          lastProfitPercentage: profit,
+          halvedAt: null,
+          estimatedExecutionTimeMs: route.estimatedExecutionTimeMs,
+          expiredAt: null,
+          expiryReason: null
+        });
+        return;
+      }
+
+      record.lastSeenAt = now;
+      record.observations++;
+      record.lastProfitPercentage = profit;
+      record.estimatedExecutionTimeMs = route.estimatedExecutionTimeMs;
+      if (profit > record.peakProfitPercentage) {
+        // A new peak restarts the decay
+        record.peakProfitPercentage = profit;
+        record.peakAt = now;
+        record.halvedAt = null;
+      } else if (record.halvedAt === null && profit <= record.peakProfitPercentage / 2) {
+        record.halvedAt = now;
+      }
+    });
+
+    this.active.forEach((record, routeId) => {
+      if (!seen.has(routeId)) this.expire(routeId, 'not-detected');
+    });
+  }
+
+  /**
+   * Close a tracked route; unknown or already closed routes are ignored
+   */
+  expire(routeId: string, reason: OpportunityExpiryReason) {
+    const record = this.active.get(routeId);
+    if (!record) return;
+
+    const now = this.clock.now();
+    record.expiredAt = now;
+    record.expiryReason = reason;
+    if (reason === 'not-detected' && record.halvedAt === null) {
+      record.halvedAt = now;
+    }
+
+    this.active.delete(routeId);
+    this.expired.push(record);
+    if (this.expired.length > this.maxExpiredRecords) {
+      this.expired.shift();
+    }
+  }
+
+  /**
+   * Tracked opportunities, most recently seen first
+   */
+  getLifecycles(status?: 'active' | 'expired', limit: number = 100): OpportunityLifecycle[] {
+    const records = [
+      ...(status !== 'expired' ? Array.from(this.active.values()) : []),
+      ...(status !== 'active' ? this.expired : [])
+    ];
+    return records
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+      .slice(0, limit)
+      .map(record => this.toLifecycle(record));
+  }
+
+  /**
+   * Lifetime and half-life per asset and venue path
+   *
+   * `executionLatencyMs` gives the measured time to fill a path's legs, or
+   * null when there is no measurement yet, in which case the routes' own
+   * execution time estimate is used.
+   */
+  getHalfLifeReport(executionLatencyMs: (venues: string[]) => number | null): OpportunityHalfLifeReport[] {
+    const groups: Map<string, LifecycleRecord[]> = new Map();
+    [...Array.from(this.active.values()), ...this.expired].forEach(record => {
+      const key = `${record.kind}|${record.asset}|${record.venues.join('>')}`;
+      const group = groups.get(key) || [];
+      group.push(record);
+      groups.set(key, group);
+    });
+
+    return Array.from(groups.values()).map(records => {
+      const { asset, venues, kind } = records[0];
+      const expired = records.filter(r => r.expiredAt !== null);
+      const lifetimes = expired.map(r => r.expiredAt! - r.firstSeenAt);
+      const halfLives = records.filter(r => r.halvedAt !== null).map(r => r.halvedAt! - r.peakAt);
+      const latency = executionLatencyMs(venues) ?? this.median(records.map(r => r.estimatedExecutionTimeMs));
+
+      return {
+        asset,
+        venues,
+        kind,
+        active: records.length - expired.length,
+        expired: expired.length,
+        meanPeakProfitPercentage: records.reduce((sum, r) => sum + r.peakProfitPercentage, 0) / records.length,
+        medianLifetimeMs: this.median(lifetimes),
+        medianHalfLifeMs: halfLives.length > 0 ? this.median(halfLives) : null,
+        executionLatencyMs: latency,
+        capturableShare: lifetimes.length > 0 ? lifetimes.filter(l => l > latency).length / lifetimes.length : 0
+      };
+    }).sort((a, b) => b.expired + b.active - (a.expired + a.active));
+  }
+
+  private toLifecycle(record: LifecycleRecord): OpportunityLifecycle {
+    const end = record.expiredAt ?? this.clock.now();
+    const sincePeakMs = record.lastSeenAt - record.peakAt;
+
+    return {
+      routeId: record.routeId,
+      asset: record.asset,
+      venues: [...record.venues],
+      kind: record.kind,
+      status: record.expiredAt === null ? 'active' : 'expired',
+      firstSeen: new Date(record.firstSeenAt),
+      lastSeen: new Date(record.lastSeenAt),
+      observations: record.observations,
+      initialProfitPercentage: record.initialProfitPercentage,
+      peakProfitPercentage: record.peakProfitPercentage,
+      peakAt: new Date(record.peakAt),
+      lastProfitPercentage: record.lastProfitPercentage,
+      decayPerSecond: sincePeakMs > 0 ? (record.peakProfitPercentage - record.lastProfitPercentage) / (sincePeakMs / 1000) : 0,
+      halfLifeMs: record.halvedAt !== null ? record.halvedAt - record.peakAt : null,
+      lifetimeMs: end - record.firstSeenAt,
+      expiredAt: record.expiredAt !== null ? new Date(record.expiredAt) : null,
+      expiryReason: record.expiryReason
+    };
+  }
+
+  private median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  }
+}
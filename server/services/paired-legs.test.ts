@@ -0,0 +1,147 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ArbitrageService } from "./arbitrage";
+import { systemClock } from "./clock";
+import { FixtureExchangeAdapter, type ExchangeFixture } from "./exchanges/fixture-adapter";
+import { ExchangeRegistry } from "./exchanges/registry";
+import type { TradeResult } from "./exchanges/types";
+import { executePairedLegs, type PairedLeg } from "./paired-legs";
+
+const fixture = (name: string, overrides: Partial<ExchangeFixture> = {}): ExchangeFixture => ({
+  name,
+  type: 'CEX',
+  feeSchedule: { maker: 0.001, taker: 0.001 },
+  prices: [{ BTC: 60000, ETH: 3000 }],
+  ...overrides
+});
+
+// Fills its first order, then rejects everything, so a reversal cannot go through
+class OneFillAdapter extends FixtureExchangeAdapter {
+  async executeTrade(asset: string, amount: number, side: 'buy' | 'sell', quote?: string, signal?: AbortSignal): Promise<TradeResult> {
+    if (this.executedTrades.some(trade => trade.success)) {
+      return { success: false, txId: '', asset, amount: 0, price: 0, fee: 0, timestamp: new Date(), error: "Venue stopped filling" };
+    }
+    return super.executeTrade(asset, amount, side, quote, signal);
+  }
+}
+
+async function createService(): Promise<ArbitrageService> {
+  const registry = new ExchangeRegistry()
+    .register("Open", () => new FixtureExchangeAdapter(fixture("Open")))
+    .register("NoEth", () => new FixtureExchangeAdapter(fixture("NoEth", { rejectedAssets: ["ETH"] })))
+    .register("OneFill", () => new OneFillAdapter(fixture("OneFill")));
+  const service = new ArbitrageService(registry, { syncToStorage: false });
+  for (const name of ["Open", "NoEth", "OneFill"]) {
+    await service.getExchange(name)!.getPrices(["BTC", "ETH"]);
+  }
+  return service;
+}
+
+const spread = (btcVenue: string, ethVenue: string): PairedLeg[] => [
+  { exchange: btcVenue, asset: "BTC", instrument: 'spot', action: 'buy', amount: 1, expectedPrice: 60000 },
+  { exchange: ethVenue, asset: "ETH", instrument: 'spot', action: 'sell', amount: 20, expectedPrice: 3000 }
+];
+
+describe("executePairedLegs", () => {
+  it("fills both legs and reports the fills' cash flow", async () => {
+    const service = await createService();
+    const summary = await executePairedLegs(service, systemClock, { routeId: "both", asset: "BTC/ETH", legs: spread("Open", "Open"), expectedProfit: 0 });
+
+    assert.equal(summary.success, true);
+    assert.equal(summary.recovery, undefined);
+    assert.equal(summary.actualProfit, -60 - 60);
+    assert.ok(service.getExecutionHistory().some(e => e.routeId === "both"));
+  });
+
+  it("reverses a one-sided fill and reports nothing left open", async () => {
+    const service = await createService();
+    const summary = await executePairedLegs(service, systemClock, { routeId: "unwound", asset: "BTC/ETH", legs: spread("Open", "NoEth"), expectedProfit: 0 });
+
+    assert.equal(summary.success, false);
+    assert.deepEqual(summary.recovery, { status: 'unwound', failedSteps: [1], residualExposure: {} });
+    assert.equal(summary.steps.filter(s => s.recoveryStage === 'unwind' && s.success).length, 1);
+  });
+
+  it("reports the balance a failed reversal leaves behind", async () => {
+    const service = await createService();
+    const summary = await executePairedLegs(service, systemClock, { routeId: "exposed", asset: "BTC/ETH", legs: spread("OneFill", "NoEth"), expectedProfit: 0 });
+
+    assert.equal(summary.recovery?.status, 'exposed');
+    assert.deepEqual(summary.recovery?.residualExposure, { BTC: 1 });
+  });
+
+  it("unwinds the spot leg of a carry whose perp short fails", async () => {
+    const service = await createService();
+    const carry: PairedLeg[] = [
+      { exchange: "Open", asset: "BTC", instrument: 'spot', action: 'buy', amount: 1, expectedPrice: 60000 },
+      { exchange: "NoEth", asset: "BTC", instrument: 'perp', action: 'sell', amount: 1, expectedPrice: 60100 }
+    ];
+    const summary = await executePairedLegs(service, systemClock, { routeId: "carry", asset: "BTC", legs: carry, expectedProfit: 0 });
+
+    assert.equal(summary.steps[1].error, "NoEth does not list a BTC perpetual");
+    assert.deepEqual(summary.recovery, { status: 'unwound', failedSteps: [1], residualExposure: {} });
+  });
+
+  it("checks and settles paper legs on the virtual balances", async () => {
+    const service = await createService();
+    service.setPaperTrading(true);
+    service.resetPaperAccount();
+    const balance = (asset: string) => service.getPaperAccount().balances.Open?.[asset] || 0;
+
+    const unfunded = await executePairedLegs(service, systemClock, { routeId: "unfunded", asset: "BTC/ETH", legs: spread("Open", "Open"), expectedProfit: 0 });
+    assert.equal(unfunded.success, false);
+    assert.match(unfunded.steps[0].error!, /^Insufficient balance: Open holds 0 USDC/);
+
+    service.fundPaperAccount("Open", "USDC", 100000);
+    service.fundPaperAccount("Open", "ETH", 20);
+    const summary = await executePairedLegs(service, systemClock, { routeId: "paper", asset: "BTC/ETH", legs: spread("Open", "Open"), expectedProfit: 0 });
+
+    assert.equal(summary.success, true);
+    assert.equal(balance("BTC"), 1);
+    assert.equal(balance("ETH"), 0);
+    assert.equal(balance("USDC"), 100000 - 60060 + 59940);
+  });
+
+  it("streams each leg and places opening legs only on usable venues", async () => {
+    const service = await createService();
+    const events: string[] = [];
+    service.subscribe(event => events.push(event.type));
+
+    await executePairedLegs(service, systemClock, { routeId: "streamed", asset: "BTC/ETH", legs: spread("Open", "Open"), expectedProfit: 0 });
+    assert.deepEqual(events, ['execution.started', 'execution.leg', 'execution.leg', 'execution.completed']);
+
+    await service.setExchangeEnabled("NoEth", false);
+    const btcOnNoEth: PairedLeg = { exchange: "NoEth", asset: "BTC", instrument: 'spot', action: 'sell', amount: 1, expectedPrice: 60000 };
+    const close = await executePairedLegs(service, systemClock, {
+      routeId: "close-on-disabled",
+      asset: "BTC",
+      legs: [btcOnNoEth],
+      expectedProfit: 0,
+      reducesExposure: true
+    });
+    assert.equal(close.success, true);
+
+    const open = await service.executeLeg(close, btcOnNoEth);
+    assert.equal(open.error, "Exchange NoEth is disabled");
+  });
+
+  it("opens only within the risk limits but always lets a position close", async () => {
+    const service = await createService();
+    service.updateRiskLimits({ maxTradeNotionalUsd: 50000 });
+    await assert.rejects(
+      executePairedLegs(service, systemClock, { routeId: "too-big", asset: "BTC/ETH", legs: spread("Open", "Open"), expectedProfit: 0 }),
+      /Trade notional \$60000\.00 exceeds the \$50000 limit/
+    );
+    assert.equal(service.getExecutionHistory().length, 0);
+
+    service.activateKillSwitch("test");
+    const close = await executePairedLegs(service, systemClock, {
+      routeId: "close",
+      asset: "BTC/ETH",
+      legs: spread("Open", "Open"),
+      expectedProfit: 0,
+      reducesExposure: true
+    });
+    assert.equal(close.success, true);
+  });
+});
@@ -0,0 +1,141 @@
+import type { ArbitrageService, ExecutionSummary } from "./arbitrage";
+import type { TradeResult } from "./exchanges/types";
+import type { RouteExposure } from "./risk-manager";
+import type { Clock } from "./clock";
+
+// One market order of a hedged position
+export interface PairedLeg {
+  exchange: string;
+  asset: string;
+  instrument: 'spot' | 'perp';
+  action: 'buy' | 'sell';
+  amount: number;
+  expectedPrice: number;
+}
+
+export interface PairedLegsRequest {
+  routeId: string;
+  asset: string; // Shown on the execution, e.g. "ETH/BTC" for a spread
+  legs: PairedLeg[];
+  expectedProfit: number;
+  // Closing orders skip the risk limits so a position can always be flattened
+  reducesExposure?: boolean;
+}
+
+/**
+ * Place a strategy's legs together and report the execution to the ArbitrageService
+ *
+ * Opening orders go through the service's risk limits and count as in flight
+ * while they execute. Each leg is placed through the service like a route
+ * leg, so paper balances, venue health and the event stream all see it. If
+ * only some legs fill, the filled ones are reversed and whatever the reversal
+ * fails to flatten is reported as residual exposure, as the route engine does.
+ * The summary's profit is the net cash flow of the fills, so an open costs its
+ * fees and the matching close realizes the position's PnL.
+ */
+export async function executePairedLegs(
+  arbitrageService: ArbitrageService,
+  clock: Clock,
+  request: PairedLegsRequest
+): Promise<ExecutionSummary> {
+  if (request.reducesExposure) {
+    return runPairedLegs(arbitrageService, clock, request);
+  }
+  return arbitrageService.runWithinRiskLimits(
+    request.routeId,
+    getLegsExposure(request.legs),
+    () => runPairedLegs(arbitrageService, clock, request)
+  );
+}
+
+/**
+ * Why an execution failed, with any exposure it left open
+ */
+export function describePairedFailure(summary: ExecutionSummary): string {
+  const errors = summary.steps.filter(s => !s.success).map(s => s.error).join('; ');
+  return summary.recovery?.status === 'exposed'
+    ? `${errors}; residual exposure ${JSON.stringify(summary.recovery.residualExposure)}`
+    : errors;
+}
+
+/**
+ * USD notional the legs put at risk, measured the same way as a route's
+ */
+function getLegsExposure(legs: PairedLeg[]): RouteExposure {
+  const exposure: RouteExposure = { tradeNotionalUsd: 0, byAsset: {}, byVenue: {} };
+
+  legs.forEach(leg => {
+    const notional = leg.amount * leg.expectedPrice;
+    exposure.tradeNotionalUsd = Math.max(exposure.tradeNotionalUsd, notional);
+    exposure.byAsset[leg.asset] = Math.max(exposure.byAsset[leg.asset] || 0, notional);
+    exposure.byVenue[leg.exchange] = (exposure.byVenue[leg.exchange] || 0) + notional;
+  });
+
+  return exposure;
+}
+
+async function runPairedLegs(
+  arbitrageService: ArbitrageService,
+  clock: Clock,
+  { routeId, asset, legs, expectedProfit, reducesExposure }: PairedLegsRequest
+): Promise<ExecutionSummary> {
+  const startTime = new Date(clock.now());
+  const summary: ExecutionSummary = {
+    routeId,
+    success: false,
+    asset,
+    startTime,
+    endTime: startTime,
+    steps: [],
+    executionMode: 'concurrent',
+    expectedProfit,
+    actualProfit: 0,
+    profitDifference: 0,
+    gasCost: 0,
+    netProfit: 0,
+    executionTimeMs: 0
+  };
+
+  const trade = (leg: PairedLeg, recoveryStage?: 'unwind'): Promise<TradeResult> =>
+    arbitrageService.executeLeg(summary, { ...leg, recoveryStage, reducesExposure });
+
+  arbitrageService.announceExecution(summary, legs.length);
+  const results = await Promise.all(legs.map(leg => trade(leg)));
+  summary.success = results.every(r => r.success);
+
+  if (!summary.success) {
+    for (let i = 0; i < legs.length; i++) {
+      if (!results[i].success) continue;
+      const leg = legs[i];
+      await trade({ ...leg, action: leg.action === 'buy' ? 'sell' : 'buy', amount: results[i].amount }, 'unwind');
+    }
+
+    const residualExposure = arbitrageService.getOpenExposure(asset, summary.steps);
+    summary.recovery = {
+      status: Object.keys(residualExposure).length === 0 ? 'unwound' : 'exposed',
+      failedSteps: legs.map((_, i) => i).filter(i => !results[i].success),
+      residualExposure
+    };
+    if (summary.recovery.status === 'exposed') {
+      console.error(`Paired execution ${routeId} left residual exposure`, residualExposure);
+    }
+  }
+
+  const priceOf = (a: string) => arbitrageService.getReferencePrice(a);
+  summary.steps.forEach(step => {
+    if (!step.success) return;
+    const notional = step.amount * step.actualPrice;
+    summary.actualProfit += (step.action === 'sell' ? notional : -notional) - step.fee;
+    // Perps settle on the venue's own books; only on-chain spot swaps pay gas
+    if (step.instrument === 'spot') {
+      summary.gasCost += arbitrageService.getFeeModel().getSwapGasCostUsd(arbitrageService.getExchange(step.exchange), priceOf);
+    }
+  });
+  summary.netProfit = summary.actualProfit - summary.gasCost;
+  summary.profitDifference = summary.netProfit - summary.expectedProfit;
+  summary.endTime = new Date(clock.now());
+  summary.executionTimeMs = summary.endTime.getTime() - startTime.getTime();
+
+  await arbitrageService.reportExecution(summary);
+  return summary;
+}
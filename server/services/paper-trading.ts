@@ -0,0 +1,142 @@
+import { USD_QUOTE } from "./exchanges/exchange-adapter";
+
+// A fill settled against the paper account
+export interface PaperTrade {
+  exchange: string;
+  base: string;
+  quote: string;
+  side: 'buy' | 'sell';
+  amount: number;
+  price: number;
+  fee: number; // Charged in the quote asset
+  timestamp: Date;
+}
+
+export interface PaperBalanceCheck {
+  ok: boolean;
+  asset: string;
+  required: number;
+  available: number;
+}
+
+/**
+ * Virtual per-exchange, per-asset inventory for paper trading
+ *
+ * Buys spend quote (price * amount plus fee) and receive base; sells spend
+ * base and receive quote less the fee. Legs quoted in USD settle in USDC.
+ */
+export class PaperPortfolio {
+  private balances: Map<string, Map<string, number>> = new Map(); // exchange -> asset -> amount
+  private trades: PaperTrade[] = [];
+  private maxTradeHistory: number = 1000;
+
+  /**
+   * Clear every balance and the trade log
+   */
+  reset() {
+    this.balances.clear();
+    this.trades = [];
+  }
+
+  /**
+   * Credit (or, with a negative amount, debit) an asset on an exchange
+   */
+  fund(exchange: string, asset: string, amount: number): number {
+    const current = this.getBalance(exchange, asset);
+    if (current + amount < 0) {
+      throw new Error(`Insufficient balance: cannot withdraw ${-amount} ${asset} on ${exchange} (available ${current})`);
+    }
+    this.setBalance(exchange, asset, current + amount);
+    return current + amount;
+  }
+
+  getBalance(exchange: string, asset: string): number {
+    return this.balances.get(exchange)?.get(asset) || 0;
+  }
+
+  /**
+   * Non-zero balances grouped by exchange
+   */
+  getBalances(): Record<string, Record<string, number>> {
+    const result: Record<string, Record<string, number>> = {};
+    this.balances.forEach((assets, exchange) => {
+      assets.forEach((amount, asset) => {
+        if (amount === 0) return;
+        result[exchange] = result[exchange] || {};
+        result[exchange][asset] = amount;
+      });
+    });
+    return result;
+  }
+
+  /**
+   * Total holdings of each asset across all exchanges
+   */
+  getTotals(): Record<string, number> {
+    const totals: Record<string, number> = {};
+    this.balances.forEach(assets => {
+      assets.forEach((amount, asset) => {
+        totals[asset] = (totals[asset] || 0) + amount;
+      });
+    });
+    return totals;
+  }
+
+  getTrades(limit: number = 50): PaperTrade[] {
+    return this.trades.slice(-limit).reverse();
+  }
+
+  /**
+   * Check whether the account can fund a trade at the given price and fee rate
+   */
+  checkBalance(exchange: string, base: string, quote: string | undefined, side: 'buy' | 'sell', amount: number, price: number, feeRate: number): PaperBalanceCheck {
+    const asset = side === 'buy' ? this.settlementAsset(quote) : base;
+    const required = side === 'buy' ? amount * price * (1 + feeRate) : amount;
+    const available = this.getBalance(exchange, asset);
+    return { ok: available >= required, asset, required, available };
+  }
+
+  /**
+   * Settle a fill, debiting the spent asset and crediting the received one
+   *
+   * Throws without changing balances when the spent asset is short.
+   */
+  settle(exchange: string, base: string, quote: string | undefined, side: 'buy' | 'sell', amount: number, price: number, fee: number, timestamp: Date = new Date()): PaperTrade {
+    const quoteAsset = this.settlementAsset(quote);
+    const notional = amount * price;
+    const spentAsset = side === 'buy' ? quoteAsset : base;
+    const spent = side === 'buy' ? notional + fee : amount;
+    const available = this.getBalance(exchange, spentAsset);
+
+    if (available < spent) {
+      throw new Error(`Insufficient balance: ${exchange} holds ${available} ${spentAsset}, trade needs ${spent}`);
+    }
+
+    if (side === 'buy') {
+      this.setBalance(exchange, quoteAsset, available - spent);
+      this.setBalance(exchange, base, this.getBalance(exchange, base) + amount);
+    } else {
+      this.setBalance(exchange, base, available - spent);
+      this.setBalance(exchange, quoteAsset, this.getBalance(exchange, quoteAsset) + notional - fee);
+    }
+
+    const trade: PaperTrade = { exchange, base, quote: quoteAsset, side, amount, price, fee, timestamp };
+    this.trades.push(trade);
+    if (this.trades.length > this.maxTradeHistory) {
+      this.trades.shift();
+    }
+    return trade;
+  }
+
+  private settlementAsset(quote?: string): string {
+    return !quote || quote === "USD" ? USD_QUOTE : quote;
+  }
+
+  private setBalance(exchange: string, asset: string, amount: number) {
+    if (!this.balances.has(exchange)) {
+      this.balances.set(exchange, new Map());
+    }
+    // Drop float dust left over from repeated settlements
+    this.balances.get(exchange)!.set(asset, Math.abs(amount) < 1e-12 ? 0 : amount);
+  }
+}
@@ -0,0 +1,86 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { VirtualClock } from "./clock";
+import { PriceFilter, type CachedPrice } from "./price-filter";
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+// exchange -> price for one asset, all quoted `ageMs` ago
+function cacheOf(prices: Record<string, number>, asset: string = "ETH", ageMs: number = 0): Map<string, Map<string, CachedPrice>> {
+  const cache: Map<string, Map<string, CachedPrice>> = new Map();
+  Object.entries(prices).forEach(([exchange, price]) => {
+    cache.set(exchange, new Map([[asset, { price, timestamp: NOW - ageMs, source: `${exchange}/ticker` }]]));
+  });
+  return cache;
+}
+
+describe("PriceFilter", () => {
+  let clock: VirtualClock;
+  let filter: PriceFilter;
+
+  beforeEach(() => {
+    clock = new VirtualClock(NOW);
+    filter = new PriceFilter({}, clock);
+  });
+
+  it("rejects quotes older than the TTL", () => {
+    const accepted = filter.filter(cacheOf({ Binance: 3000 }, "ETH", 20000));
+
+    assert.equal(accepted.get("Binance")!.has("ETH"), false);
+    const [rejection] = filter.getActiveRejections();
+    assert.equal(rejection.reason, "Stale: quoted 20.0s ago, TTL is 15.0s");
+    assert.equal(rejection.source, "Binance/ticker");
+    assert.deepEqual(rejection.quotedAt, new Date(NOW - 20000));
+  });
+
+  it("rejects non-positive prices", () => {
+    filter.filter(cacheOf({ Binance: 0 }));
+
+    assert.equal(filter.getActiveRejections()[0].reason, "Invalid price 0");
+  });
+
+  it("rejects quotes too many MADs from the cross-venue median", () => {
+    const accepted = filter.filter(cacheOf({ Binance: 100, Coinbase: 100.1, Kraken: 99.9, Glitchy: 150 }));
+
+    assert.deepEqual(filter.getActiveRejections().map(r => [r.exchange, r.reason]), [
+      ["Glitchy", "Outlier: 499.3 MADs from the 100.050000 median across 4 venues"]
+    ]);
+    assert.equal(accepted.get("Kraken")!.get("ETH"), 99.9);
+    assert.equal(accepted.get("Glitchy")!.size, 0);
+  });
+
+  it("does not judge outliers with fewer than the minimum number of quotes", () => {
+    const accepted = filter.filter(cacheOf({ Binance: 100, Glitchy: 150 }));
+
+    assert.equal(filter.getActiveRejections().length, 0);
+    assert.equal(accepted.get("Glitchy")!.get("ETH"), 150);
+  });
+
+  it("floors the MAD so identical quotes do not make a normal spread an outlier", () => {
+    // The MAD is zero; the floor is 0.1% of the median, so 100.3 is 3 MADs out
+    const accepted = filter.filter(cacheOf({ Binance: 100, Coinbase: 100, Kraken: 100.3 }));
+    assert.equal(accepted.get("Kraken")!.get("ETH"), 100.3);
+
+    filter.updateOptions({ minMadFraction: 0.0001 });
+    filter.filter(cacheOf({ Binance: 100, Coinbase: 100, Kraken: 100.3 }));
+    assert.equal(filter.getActiveRejections()[0].exchange, "Kraken");
+  });
+
+  it("records a rejection in the history only when it starts", () => {
+    const stale = cacheOf({ Binance: 3000 }, "ETH", 20000);
+    filter.filter(stale);
+    filter.filter(stale);
+    assert.equal(filter.getRejectionHistory().length, 1);
+
+    filter.filter(cacheOf({ Binance: 3000 }));
+    assert.equal(filter.getActiveRejections().length, 0);
+
+    filter.filter(stale);
+    assert.equal(filter.getRejectionHistory().length, 2);
+  });
+
+  it("rejects unknown or negative options", () => {
+    assert.throws(() => filter.updateOptions({ ttlMs: -1 }), /ttlMs must be a non-negative number/);
+    assert.throws(() => filter.updateOptions({ maxAge: 1 } as any), /Unknown price filter option maxAge/);
+  });
+});
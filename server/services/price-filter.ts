@@ -0,0 +1,168 @@
+import { systemClock, type Clock } from "./clock";
+
+// One venue quote as held in the price cache
+export interface CachedPrice {
+  price: number;
+  timestamp: number; // When the venue returned it
+  source: string; // Endpoint the quote came from
+}
+
+export interface PriceFilterOptions {
+  ttlMs: number; // Quotes older than this are rejected as stale
+  maxMadDeviations: number; // Quotes further than this many MADs from the cross-venue median are outliers
+  minQuotes: number; // Fresh quotes an asset needs before outliers are judged
+  minMadFraction: number; // Floor on the MAD relative to the median (0.001 = 0.1%)
+}
+
+export interface PriceRejection {
+  exchange: string;
+  asset: string;
+  price: number;
+  source: string;
+  quotedAt: Date;
+  reason: string;
+  rejectedAt: Date;
+}
+
+export const DEFAULT_PRICE_FILTER_OPTIONS: PriceFilterOptions = {
+  ttlMs: 15000,
+  maxMadDeviations: 5,
+  minQuotes: 3,
+  minMadFraction: 0.001
+};
+
+/**
+ * Screens cached venue quotes before they reach opportunity detection
+ *
+ * Each pass drops quotes older than the TTL, then compares every remaining
+ * quote for an asset to the median across venues in units of the median
+ * absolute deviation (MAD). The MAD is floored at `minMadFraction` of the
+ * median so that venues quoting almost identically do not turn an ordinary
+ * spread into an outlier.
+ */
+export class PriceFilter {
+  private clock: Clock;
+  private options: PriceFilterOptions;
+  private activeRejections: Map<string, PriceRejection> = new Map(); // exchange:asset -> rejection from the latest pass
+  private history: PriceRejection[] = [];
+  private maxHistorySize: number = 500;
+
+  constructor(options: Partial<PriceFilterOptions> = {}, clock: Clock = systemClock) {
+    this.clock = clock;
+    this.options = { ...DEFAULT_PRICE_FILTER_OPTIONS, ...options };
+  }
+
+  getOptions(): PriceFilterOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Update one or more options; every value must be a non-negative number
+   */
+  updateOptions(options: Partial<PriceFilterOptions>): PriceFilterOptions {
+    Object.entries(options).forEach(([key, value]) => {
+      if (!(key in DEFAULT_PRICE_FILTER_OPTIONS)) {
+        throw new Error(`Unknown price filter option ${key}`);
+      }
+      if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+        throw new Error(`Price filter option ${key} must be a non-negative number`);
+      }
+    });
+
+    this.options = { ...this.options, ...options };
+    return this.getOptions();
+  }
+
+  /**
+   * Accepted prices (exchange -> asset -> price) from a cache of venue quotes
+   *
+   * Rejections from this pass replace those of the previous one; a quote that
+   * was accepted last pass is added to the rejection history when it is first
+   * rejected.
+   */
+  filter(cache: Map<string, Map<string, CachedPrice>>): Map<string, Map<string, number>> {
+    const now = this.clock.now();
+    const accepted: Map<string, Map<string, number>> = new Map();
+    const rejections: Map<string, PriceRejection> = new Map();
+    const freshByAsset: Map<string, Array<{ exchange: string; quote: CachedPrice }>> = new Map();
+
+    const reject = (exchange: string, asset: string, quote: CachedPrice, reason: string) => {
+      rejections.set(`${exchange}:${asset}`, {
+        exchange,
+        asset,
+        price: quote.price,
+        source: quote.source,
+        quotedAt: new Date(quote.timestamp),
+        reason,
+        rejectedAt: new Date(now)
+      });
+    };
+
+    cache.forEach((quotes, exchange) => {
+      accepted.set(exchange, new Map());
+      quotes.forEach((quote, asset) => {
+        const ageMs = now - quote.timestamp;
+        if (ageMs > this.options.ttlMs) {
+          reject(exchange, asset, quote, `Stale: quoted ${(ageMs / 1000).toFixed(1)}s ago, TTL is ${(this.options.ttlMs / 1000).toFixed(1)}s`);
+          return;
+        }
+        if (!(quote.price > 0)) {
+          reject(exchange, asset, quote, `Invalid price ${quote.price}`);
+          return;
+        }
+
+        const fresh = freshByAsset.get(asset) || [];
+        fresh.push({ exchange, quote });
+        freshByAsset.set(asset, fresh);
+      });
+    });
+
+    freshByAsset.forEach((fresh, asset) => {
+      const median = this.median(fresh.map(f => f.quote.price));
+      const mad = this.median(fresh.map(f => Math.abs(f.quote.price - median)));
+      const scale = Math.max(mad, median * this.options.minMadFraction);
+      const judged = fresh.length >= this.options.minQuotes;
+
+      fresh.forEach(({ exchange, quote }) => {
+        const deviations = Math.abs(quote.price - median) / scale;
+        if (judged && deviations > this.options.maxMadDeviations) {
+          reject(exchange, asset, quote, `Outlier: ${deviations.toFixed(1)} MADs from the ${median.toFixed(6)} median across ${fresh.length} venues`);
+          return;
+        }
+        accepted.get(exchange)!.set(asset, quote.price);
+      });
+    });
+
+    rejections.forEach((rejection, key) => {
+      if (!this.activeRejections.has(key)) {
+        this.history.push(rejection);
+        if (this.history.length > this.maxHistorySize) {
+          this.history.shift();
+        }
+      }
+    });
+    this.activeRejections = rejections;
+
+    return accepted;
+  }
+
+  /**
+   * Quotes rejected by the latest pass
+   */
+  getActiveRejections(): PriceRejection[] {
+    return Array.from(this.activeRejections.values());
+  }
+
+  /**
+   * Recently rejected quotes, newest first
+   */
+  getRejectionHistory(limit: number = 100): PriceRejection[] {
+    return this.history.slice(-limit).reverse();
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  }
+}
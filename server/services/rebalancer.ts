@@ -0,0 +1,353 @@
+import type { ArbitrageService } from "./arbitrage";
+import { isUsdQuote } from "./exchanges/exchange-adapter";
+import { systemClock, type Clock } from "./clock";
+
+const BRIDGE_FEE_RATE = 0.0005; // Charged on top of the withdrawal fee when a DEX is involved
+const TRANSFER_LATENCY_MS = 15 * 60 * 1000; // CEX to CEX withdrawal and deposit confirmation
+const BRIDGE_LATENCY_MS = 20 * 60 * 1000; // Moves into or out of on-chain venues
+
+export type RebalancePlanStatus = 'pending' | 'approved' | 'rejected' | 'executing' | 'completed';
+
+// One inventory move between venues
+export interface RebalanceTransfer {
+  id: string;
+  asset: string;
+  fromExchange: string;
+  toExchange: string;
+  method: 'transfer' | 'bridge';
+  amount: number; // Debited from the source venue
+  fee: number; // In units of the asset
+  receivedAmount: number; // Credited to the destination venue
+  estimatedLatencyMs: number;
+  status: 'proposed' | 'in_transit' | 'completed' | 'cancelled';
+  arrivesAt?: Date;
+}
+
+// Per-asset spread of inventory across venues
+export interface InventorySkew {
+  asset: string;
+  total: number;
+  target: number; // Equal share per venue
+  skew: number; // Largest deviation from the target, as a share of the total
+  balances: Record<string, number>;
+}
+
+export interface RebalancePlan {
+  id: string;
+  createdAt: Date;
+  status: RebalancePlanStatus;
+  skews: InventorySkew[]; // Assets that crossed the threshold when the plan was drawn up
+  transfers: RebalanceTransfer[];
+  totalFeeUsd: number;
+  maxLatencyMs: number;
+  decidedAt?: Date;
+}
+
+export interface RebalancerOptions {
+  clock?: Clock;
+  skewThreshold?: number; // Share of an asset's total a venue may drift from its target
+  minTransferUsd?: number; // Smaller moves are not worth the withdrawal fee
+  maxFeeShare?: number; // Skip transfers whose fee exceeds this share of the amount moved
+  autoExecute?: boolean; // Approve plans without an operator while paper trading
+}
+
+/**
+ * Cross-venue inventory rebalancer
+ *
+ * Watches the per-venue balances traded by the ArbitrageService and, when an
+ * asset's holdings drift too far from an equal split across the venues that
+ * list it, proposes transfers (CEX to CEX) or bridge moves (anything touching
+ * a DEX) from surplus to deficit venues. Plans wait for operator approval;
+ * once approved in paper-trading mode the moves are executed against the
+ * virtual inventory, arriving after the transfer latency net of fees. Live
+ * approvals are carried out by the operator, who then marks the plan
+ * completed or cancels it.
+ */
+export class InventoryRebalancer {
+  private arbitrageService: ArbitrageService;
+  private clock: Clock;
+  private skewThreshold: number = 0.25;
+  private minTransferUsd: number = 1000;
+  private maxFeeShare: number = 0.01;
+  private autoExecute: boolean = false;
+  private plans: RebalancePlan[] = [];
+  private maxPlanHistory: number = 100;
+  private isMonitoring: boolean = false;
+  private monitoringInterval: NodeJS.Timeout | null = null;
+
+  constructor(arbitrageService: ArbitrageService, options: RebalancerOptions = {}) {
+    this.arbitrageService = arbitrageService;
+    this.clock = options.clock || systemClock;
+    this.skewThreshold = options.skewThreshold ?? this.skewThreshold;
+    this.minTransferUsd = options.minTransferUsd ?? this.minTransferUsd;
+    this.maxFeeShare = options.maxFeeShare ?? this.maxFeeShare;
+    this.autoExecute = options.autoExecute ?? this.autoExecute;
+  }
+
+  /**
+   * Periodically settle arrivals and propose plans when inventory is skewed
+   */
+  startMonitoring(intervalMs: number = 60000) {
+    if (this.isMonitoring) return;
+
+    this.isMonitoring = true;
+    this.monitoringInterval = setInterval(() => {
+      try {
+        this.evaluate();
+      } catch (error) {
+        console.error("Error in inventory rebalancing cycle:", error);
+      }
+    }, intervalMs);
+  }
+
+  stopMonitoring() {
+    if (!this.isMonitoring) return;
+
+    if (this.monitoringInterval) {
+      clearInterval(this.monitoringInterval);
+      this.monitoringInterval = null;
+    }
+    this.isMonitoring = false;
+  }
+
+  isActive(): boolean {
+    return this.isMonitoring;
+  }
+
+  /**
+   * One rebalancing pass: settle arrived transfers, then propose a plan when
+   * inventory is skewed and no plan is already waiting or in flight
+   */
+  evaluate(): RebalancePlan | null {
+    this.processArrivals();
+
+    const open = this.plans.find(p => p.status === 'pending' || p.status === 'approved' || p.status === 'executing');
+    if (open) return null;
+
+    const plan = this.proposePlan();
+    if (plan && this.autoExecute && this.arbitrageService.isPaperTrading()) {
+      this.approvePlan(plan.id);
+    }
+    return plan;
+  }
+
+  /**
+   * Current inventory spread for every asset held on the paper account
+   */
+  getSkews(): InventorySkew[] {
+    const balances = this.arbitrageService.getPaperPortfolio().getBalances();
+    const venues = Object.keys(balances);
+    const assets = Array.from(new Set(venues.flatMap(venue => Object.keys(balances[venue]))));
+
+    return assets.map(asset => {
+      // Venues that can hold the asset, whether or not they currently do
+      const listed = venues.filter(venue => {
+        const exchange = this.arbitrageService.getExchange(venue);
+        return isUsdQuote(asset) || !exchange || exchange.supportsAsset(asset);
+      });
+      const assetBalances: Record<string, number> = {};
+      listed.forEach(venue => assetBalances[venue] = balances[venue][asset] || 0);
+
+      const total = Object.values(assetBalances).reduce((sum, amount) => sum + amount, 0);
+      const target = listed.length > 0 ? total / listed.length : 0;
+      const maxDeviation = Object.values(assetBalances).reduce((max, amount) => Math.max(max, Math.abs(amount - target)), 0);
+
+      return {
+        asset,
+        total,
+        target,
+        skew: total > 0 ? maxDeviation / total : 0,
+        balances: assetBalances
+      };
+    });
+  }
+
+  /**
+   * Draw up a plan for every asset whose skew exceeds the threshold
+   */
+  proposePlan(): RebalancePlan | null {
+    const skewed = this.getSkews().filter(s => s.skew > this.skewThreshold && Object.keys(s.balances).length > 1);
+    const transfers: RebalanceTransfer[] = [];
+
+    skewed.forEach(skew => {
+      transfers.push(...this.planTransfers(skew));
+    });
+
+    if (transfers.length === 0) return null;
+
+    const plan: RebalancePlan = {
+      id: `rebalance-${this.clock.now()}-${Math.floor(Math.random() * 10000)}`,
+      createdAt: new Date(this.clock.now()),
+      status: 'pending',
+      skews: skewed,
+      transfers,
+      totalFeeUsd: transfers.reduce((sum, t) => sum + t.fee * this.arbitrageService.getReferencePrice(t.asset), 0),
+      maxLatencyMs: Math.max(...transfers.map(t => t.estimatedLatencyMs))
+    };
+
+    this.plans.push(plan);
+    if (this.plans.length > this.maxPlanHistory) {
+      this.plans.shift();
+    }
+
+    console.log(`InventoryRebalancer: Proposed plan ${plan.id} with ${transfers.length} transfers`);
+    return plan;
+  }
+
+  getPlans(): RebalancePlan[] {
+    this.processArrivals();
+    return [...this.plans].reverse();
+  }
+
+  getPlan(planId: string): RebalancePlan | undefined {
+    this.processArrivals();
+    return this.plans.find(p => p.id === planId);
+  }
+
+  /**
+   * Approve a pending plan; while paper trading its transfers start immediately
+   */
+  approvePlan(planId: string): RebalancePlan {
+    const plan = this.getPlanInStatus(planId, ['pending']);
+    plan.status = 'approved';
+    plan.decidedAt = new Date(this.clock.now());
+
+    if (this.arbitrageService.isPaperTrading()) {
+      this.executePlan(plan);
+    }
+    return plan;
+  }
+
+  /**
+   * Reject a pending plan, or cancel a live approval the operator will not carry out
+   */
+  rejectPlan(planId: string): RebalancePlan {
+    const plan = this.getPlanInStatus(planId, ['pending', 'approved']);
+    plan.status = 'rejected';
+    plan.decidedAt = new Date(this.clock.now());
+    plan.transfers.forEach(t => t.status = 'cancelled');
+    return plan;
+  }
+
+  /**
+   * Close a live approval once the operator has made its transfers
+   */
+  completePlan(planId: string): RebalancePlan {
+    const plan = this.getPlanInStatus(planId, ['approved']);
+    plan.status = 'completed';
+    plan.transfers.forEach(t => t.status = 'completed');
+    return plan;
+  }
+
+  /**
+   * Credit transfers whose latency has elapsed and close finished plans
+   */
+  processArrivals() {
+    const portfolio = this.arbitrageService.getPaperPortfolio();
+    const now = this.clock.now();
+
+    this.plans.filter(p => p.status === 'executing').forEach(plan => {
+      plan.transfers.forEach(transfer => {
+        if (transfer.status === 'in_transit' && transfer.arrivesAt && transfer.arrivesAt.getTime() <= now) {
+          portfolio.fund(transfer.toExchange, transfer.asset, transfer.receivedAmount);
+          transfer.status = 'completed';
+        }
+      });
+
+      if (plan.transfers.every(t => t.status !== 'in_transit')) {
+        plan.status = 'completed';
+      }
+    });
+  }
+
+  private getPlanInStatus(planId: string, statuses: RebalancePlanStatus[]): RebalancePlan {
+    const plan = this.plans.find(p => p.id === planId);
+    if (!plan) {
+      throw new Error(`Rebalance plan ${planId} not found`);
+    }
+    if (!statuses.includes(plan.status)) {
+      throw new Error(`Rebalance plan ${planId} is already ${plan.status}`);
+    }
+    return plan;
+  }
+
+  /**
+   * Debit each source venue now and schedule the credit on arrival
+   */
+  private executePlan(plan: RebalancePlan) {
+    const portfolio = this.arbitrageService.getPaperPortfolio();
+    plan.status = 'executing';
+
+    plan.transfers.forEach(transfer => {
+      // Inventory may have moved since the plan was drawn up
+      const available = portfolio.getBalance(transfer.fromExchange, transfer.asset);
+      if (available < transfer.amount) {
+        transfer.status = 'cancelled';
+        return;
+      }
+
+      portfolio.fund(transfer.fromExchange, transfer.asset, -transfer.amount);
+      transfer.status = 'in_transit';
+      transfer.arrivesAt = new Date(this.clock.now() + transfer.estimatedLatencyMs);
+      console.log(`InventoryRebalancer: Moving ${transfer.amount} ${transfer.asset} from ${transfer.fromExchange} to ${transfer.toExchange}`);
+    });
+
+    this.processArrivals();
+  }
+
+  /**
+   * Match surplus venues to deficit venues, largest first
+   */
+  private planTransfers(skew: InventorySkew): RebalanceTransfer[] {
+    const price = this.arbitrageService.getReferencePrice(skew.asset);
+    const surpluses = Object.entries(skew.balances)
+      .map(([venue, amount]) => ({ venue, amount: amount - skew.target }))
+      .filter(s => s.amount > 0)
+      .sort((a, b) => b.amount - a.amount);
+    const deficits = Object.entries(skew.balances)
+      .map(([venue, amount]) => ({ venue, amount: skew.target - amount }))
+      .filter(d => d.amount > 0)
+      .sort((a, b) => b.amount - a.amount);
+
+    const transfers: RebalanceTransfer[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < surpluses.length && j < deficits.length) {
+      const amount = Math.min(surpluses[i].amount, deficits[j].amount);
+      const transfer = this.buildTransfer(skew.asset, surpluses[i].venue, deficits[j].venue, amount);
+
+      if (amount * price >= this.minTransferUsd && transfer.fee <= amount * this.maxFeeShare) {
+        transfers.push(transfer);
+      }
+
+      surpluses[i].amount -= amount;
+      deficits[j].amount -= amount;
+      if (surpluses[i].amount <= 1e-12) i++;
+      if (deficits[j].amount <= 1e-12) j++;
+    }
+
+    return transfers;
+  }
+
+  private buildTransfer(asset: string, fromExchange: string, toExchange: string, amount: number): RebalanceTransfer {
+    const source = this.arbitrageService.getExchange(fromExchange);
+    const toType = this.arbitrageService.getExchange(toExchange)?.type;
+    const method = source?.type === 'DEX' || toType === 'DEX' ? 'bridge' : 'transfer';
+    const withdrawalFee = this.arbitrageService.getFeeModel().getWithdrawalFee(source, asset);
+    const fee = withdrawalFee + (method === 'bridge' ? amount * BRIDGE_FEE_RATE : 0);
+
+    return {
+      id: `transfer-${this.clock.now()}-${Math.floor(Math.random() * 10000)}`,
+      asset,
+      fromExchange,
+      toExchange,
+      method,
+      amount,
+      fee,
+      receivedAmount: Math.max(0, amount - fee),
+      estimatedLatencyMs: method === 'bridge' ? BRIDGE_LATENCY_MS : TRANSFER_LATENCY_MS,
+      status: 'proposed'
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { VirtualClock } from "./clock";
+import { RiskManager, type RouteExposure } from "./risk-manager";
+
+const exposure = (notional: number, asset: string = "BTC", venue: string = "Binance"): RouteExposure => ({
+  tradeNotionalUsd: notional,
+  byAsset: { [asset]: notional },
+  byVenue: { [venue]: notional }
+});
+
+describe("RiskManager", () => {
+  let clock: VirtualClock;
+  let risk: RiskManager;
+
+  const { warn } = console;
+
+  // The cool-down logs a warning every time it starts
+  before(() => { console.warn = () => {}; });
+  after(() => { console.warn = warn; });
+
+  beforeEach(() => {
+    clock = new VirtualClock(Date.parse("2026-03-01T12:00:00Z"));
+    risk = new RiskManager({ maxConsecutiveFailures: 3, failureCooldownMs: 60000 }, clock);
+  });
+
+  it("cools down after the configured run of failures and resumes once it passes", () => {
+    risk.recordExecution(false, 0);
+    risk.recordExecution(false, 0);
+    assert.equal(risk.checkRoute(exposure(1000)).allowed, true);
+
+    risk.recordExecution(false, 0);
+    const check = risk.checkRoute(exposure(1000));
+    assert.equal(check.allowed, false);
+    assert.deepEqual(check.reasons, ["Cooling down after 3 consecutive failures until 2026-03-01T12:01:00.000Z"]);
+
+    clock.advance(60000);
+    assert.equal(risk.checkRoute(exposure(1000)).allowed, true);
+  });
+
+  it("resets the failure streak on a success", () => {
+    risk.recordExecution(false, 0);
+    risk.recordExecution(false, 0);
+    risk.recordExecution(true, 10);
+    risk.recordExecution(false, 0);
+
+    assert.equal(risk.getStatus().consecutiveFailures, 1);
+    assert.equal(risk.checkRoute(exposure(1000)).allowed, true);
+  });
+
+  it("stops at the daily loss limit until the UTC day rolls over", () => {
+    risk.updateLimits({ maxDailyLossUsd: 500 });
+    risk.recordExecution(true, -300);
+    risk.recordExecution(true, -200);
+    assert.deepEqual(risk.checkRoute(exposure(1000)).reasons, ["Daily loss $500.00 has reached the $500 limit"]);
+
+    clock.set(Date.parse("2026-03-01T23:59:59Z"));
+    assert.equal(risk.checkRoute(exposure(1000)).allowed, false);
+
+    clock.set(Date.parse("2026-03-02T00:00:00Z"));
+    assert.equal(risk.checkRoute(exposure(1000)).allowed, true);
+    assert.equal(risk.getStatus().dailyNetProfit, 0);
+  });
+
+  it("rejects a single trade above the notional limit", () => {
+    risk.updateLimits({ maxTradeNotionalUsd: 5000 });
+
+    assert.deepEqual(risk.checkRoute(exposure(6000)).reasons, ["Trade notional $6000.00 exceeds the $5000 limit"]);
+  });
+
+  it("counts in-flight routes against the asset and venue limits until released", () => {
+    risk.updateLimits({ maxAssetExposureUsd: 10000, maxVenueExposureUsd: 15000 });
+    risk.reserve("first", exposure(8000, "BTC", "Binance"));
+
+    assert.deepEqual(risk.checkRoute(exposure(3000, "BTC", "Kraken")).reasons, [
+      "BTC exposure $11000.00 would exceed the $10000 limit"
+    ]);
+    assert.deepEqual(risk.checkRoute(exposure(8000, "ETH", "Binance")).reasons, [
+      "Binance exposure $16000.00 would exceed the $15000 limit"
+    ]);
+
+    risk.release("first");
+    assert.equal(risk.checkRoute(exposure(8000, "BTC", "Binance")).allowed, true);
+  });
+
+  it("keeps residual exposure on the traded venues until it is cleared", () => {
+    risk.updateLimits({ maxAssetExposureUsd: 10000 });
+    risk.recordExecution(false, -20, { ETH: -9000 }, ["Binance", "Kraken"]);
+
+    assert.deepEqual(risk.getExposure(), { byAsset: { ETH: 9000 }, byVenue: { Binance: 9000, Kraken: 9000 } });
+    assert.equal(risk.checkRoute(exposure(2000, "ETH")).allowed, false);
+
+    risk.clearResidualExposure();
+    assert.equal(risk.checkRoute(exposure(2000, "ETH")).allowed, true);
+  });
+
+  it("rejects unknown or negative limits", () => {
+    assert.throws(() => risk.updateLimits({ maxDailyLossUsd: -1 }), /maxDailyLossUsd must be a non-negative number/);
+    assert.throws(() => risk.updateLimits({ maxLeverage: 2 } as any), /Unknown risk limit maxLeverage/);
+  });
+});
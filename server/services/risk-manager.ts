@@ -0,0 +1,224 @@
+import { systemClock, type Clock } from "./clock";
+
+export interface RiskLimits {
+  maxTradeNotionalUsd: number; // Largest single leg a route may trade
+  maxDailyLossUsd: number; // Executions stop once the day's net loss reaches this
+  maxAssetExposureUsd: number; // In-flight plus residual exposure per asset
+  maxVenueExposureUsd: number; // In-flight plus residual exposure per venue
+  maxConsecutiveFailures: number; // Failures in a row that trigger the cool-down
+  failureCooldownMs: number;
+}
+
+// USD notional a route puts at risk, by asset and by venue
+export interface RouteExposure {
+  tradeNotionalUsd: number;
+  byAsset: Record<string, number>;
+  byVenue: Record<string, number>;
+}
+
+export interface RiskCheck {
+  allowed: boolean;
+  reasons: string[];
+}
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxTradeNotionalUsd: 100000,
+  maxDailyLossUsd: 5000,
+  maxAssetExposureUsd: 250000,
+  maxVenueExposureUsd: 250000,
+  maxConsecutiveFailures: 3,
+  failureCooldownMs: 5 * 60 * 1000
+};
+
+/**
+ * Pre-trade risk limits and the global kill switch for automated arbitrage
+ *
+ * Exposure is the notional of routes currently executing plus any residual
+ * exposure failed executions left open, which stays counted until an
+ * operator clears it.
+ */
+export class RiskManager {
+  private clock: Clock;
+  private limits: RiskLimits;
+  private killSwitch: { active: boolean; reason?: string; changedAt?: Date } = { active: false };
+  private consecutiveFailures: number = 0;
+  private cooldownUntil: number = 0;
+  private dailyPnl: { day: string; netProfit: number } = { day: '', netProfit: 0 };
+  private inFlight: Map<string, RouteExposure> = new Map(); // routeId -> reserved exposure
+  private residualByAsset: Record<string, number> = {};
+  private residualByVenue: Record<string, number> = {};
+
+  constructor(limits: Partial<RiskLimits> = {}, clock: Clock = systemClock) {
+    this.clock = clock;
+    this.limits = { ...DEFAULT_RISK_LIMITS, ...limits };
+  }
+
+  getLimits(): RiskLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Update one or more limits; every value must be a non-negative number
+   */
+  updateLimits(limits: Partial<RiskLimits>): RiskLimits {
+    Object.entries(limits).forEach(([key, value]) => {
+      if (!(key in DEFAULT_RISK_LIMITS)) {
+        throw new Error(`Unknown risk limit ${key}`);
+      }
+      if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+        throw new Error(`Risk limit ${key} must be a non-negative number`);
+      }
+    });
+
+    this.limits = { ...this.limits, ...limits };
+    return this.getLimits();
+  }
+
+  activateKillSwitch(reason: string = "Manual kill switch") {
+    this.killSwitch = { active: true, reason, changedAt: new Date(this.clock.now()) };
+    console.warn(`RiskManager: Kill switch activated (${reason})`);
+  }
+
+  deactivateKillSwitch() {
+    this.killSwitch = { active: false, changedAt: new Date(this.clock.now()) };
+    console.log("RiskManager: Kill switch released");
+  }
+
+  isKillSwitchActive(): boolean {
+    return this.killSwitch.active;
+  }
+
+  /**
+   * Check a route against every limit before it executes
+   */
+  checkRoute(exposure: RouteExposure): RiskCheck {
+    const reasons: string[] = [];
+    const now = this.clock.now();
+
+    if (this.killSwitch.active) {
+      reasons.push(`Kill switch is active: ${this.killSwitch.reason}`);
+    }
+
+    if (now < this.cooldownUntil) {
+      reasons.push(`Cooling down after ${this.consecutiveFailures} consecutive failures until ${new Date(this.cooldownUntil).toISOString()}`);
+    }
+
+    if (exposure.tradeNotionalUsd > this.limits.maxTradeNotionalUsd) {
+      reasons.push(`Trade notional $${exposure.tradeNotionalUsd.toFixed(2)} exceeds the $${this.limits.maxTradeNotionalUsd} limit`);
+    }
+
+    const dailyNet = this.getDailyNetProfit();
+    if (-dailyNet >= this.limits.maxDailyLossUsd) {
+      reasons.push(`Daily loss $${(-dailyNet).toFixed(2)} has reached the $${this.limits.maxDailyLossUsd} limit`);
+    }
+
+    const { byAsset, byVenue } = this.getExposure();
+    Object.entries(exposure.byAsset).forEach(([asset, notional]) => {
+      const total = (byAsset[asset] || 0) + notional;
+      if (total > this.limits.maxAssetExposureUsd) {
+        reasons.push(`${asset} exposure $${total.toFixed(2)} would exceed the $${this.limits.maxAssetExposureUsd} limit`);
+      }
+    });
+    Object.entries(exposure.byVenue).forEach(([venue, notional]) => {
+      const total = (byVenue[venue] || 0) + notional;
+      if (total > this.limits.maxVenueExposureUsd) {
+        reasons.push(`${venue} exposure $${total.toFixed(2)} would exceed the $${this.limits.maxVenueExposureUsd} limit`);
+      }
+    });
+
+    return { allowed: reasons.length === 0, reasons };
+  }
+
+  /**
+   * Count a route's exposure while it executes
+   */
+  reserve(routeId: string, exposure: RouteExposure) {
+    this.inFlight.set(routeId, exposure);
+  }
+
+  release(routeId: string) {
+    this.inFlight.delete(routeId);
+  }
+
+  /**
+   * Update daily PnL, the failure streak and residual exposure after an execution
+   *
+   * `residualByAsset` is in USD; residual exposure is attributed to the venues
+   * the execution traded on.
+   */
+  recordExecution(success: boolean, netProfit: number, residualByAsset: Record<string, number> = {}, venues: string[] = []) {
+    this.rollDay();
+    this.dailyPnl.netProfit += netProfit;
+
+    if (success) {
+      this.consecutiveFailures = 0;
+    } else {
+      this.consecutiveFailures++;
+      if (this.consecutiveFailures >= this.limits.maxConsecutiveFailures) {
+        this.cooldownUntil = this.clock.now() + this.limits.failureCooldownMs;
+        console.warn(`RiskManager: ${this.consecutiveFailures} consecutive failures, pausing executions`);
+      }
+    }
+
+    Object.entries(residualByAsset).forEach(([asset, notional]) => {
+      this.residualByAsset[asset] = (this.residualByAsset[asset] || 0) + Math.abs(notional);
+      venues.forEach(venue => {
+        this.residualByVenue[venue] = (this.residualByVenue[venue] || 0) + Math.abs(notional);
+      });
+    });
+  }
+
+  /**
+   * Forget residual exposure once an operator has closed it out
+   */
+  clearResidualExposure() {
+    this.residualByAsset = {};
+    this.residualByVenue = {};
+  }
+
+  /**
+   * Current USD exposure by asset and venue, in flight plus residual
+   */
+  getExposure(): { byAsset: Record<string, number>; byVenue: Record<string, number> } {
+    const byAsset: Record<string, number> = { ...this.residualByAsset };
+    const byVenue: Record<string, number> = { ...this.residualByVenue };
+
+    this.inFlight.forEach(exposure => {
+      Object.entries(exposure.byAsset).forEach(([asset, notional]) => {
+        byAsset[asset] = (byAsset[asset] || 0) + notional;
+      });
+      Object.entries(exposure.byVenue).forEach(([venue, notional]) => {
+        byVenue[venue] = (byVenue[venue] || 0) + notional;
+      });
+    });
+
+    return { byAsset, byVenue };
+  }
+
+  getStatus() {
+    const now = this.clock.now();
+    return {
+      killSwitch: { ...this.killSwitch },
+      limits: this.getLimits(),
+      dailyNetProfit: this.getDailyNetProfit(),
+      consecutiveFailures: this.consecutiveFailures,
+      coolingDown: now < this.cooldownUntil,
+      cooldownUntil: now < this.cooldownUntil ? new Date(this.cooldownUntil) : null,
+      executionsInFlight: this.inFlight.size,
+      exposure: this.getExposure()
+    };
+  }
+
+  private getDailyNetProfit(): number {
+    this.rollDay();
+    return this.dailyPnl.netProfit;
+  }
+
+  // Reset daily PnL at UTC midnight
+  private rollDay() {
+    const day = new Date(this.clock.now()).toISOString().slice(0, 10);
+    if (this.dailyPnl.day !== day) {
+      this.dailyPnl = { day, netProfit: 0 };
+    }
+  }
+}
@@ -0,0 +1,454 @@
+import type { ArbitrageService, ExecutionSummary } from "./arbitrage";
+import { describePairedFailure, executePairedLegs, type PairedLegsRequest } from "./paired-legs";
+import { systemClock, type Clock } from "./clock";
+
+// Two correlated assets traded against each other on one venue
+export interface StatArbPair {
+  id: string;
+  assetA: string;
+  assetB: string;
+  exchange: string;
+  lookback: number; // Price samples in the rolling window
+  entryZ: number; // Open once the spread's z-score reaches this
+  exitZ: number; // Close once it has reverted to within this
+  stopZ: number; // Close at a loss once it diverges this far
+  notionalUsd: number; // Size of the A leg; the B leg is scaled by the hedge ratio
+}
+
+// Long spread buys A and sells B; short spread does the opposite
+export type StatArbSide = 'long-spread' | 'short-spread';
+
+export interface SpreadStats {
+  hedgeRatio: number; // Regression slope of ln(A) on ln(B) over the window
+  spread: number; // ln(A) - hedgeRatio * ln(B) at the latest sample
+  mean: number;
+  std: number;
+  zScore: number;
+}
+
+export interface StatArbSignal extends SpreadStats {
+  pairId: string;
+  priceA: number;
+  priceB: number;
+  samples: number;
+  timestamp: Date;
+}
+
+export interface StatArbPosition {
+  id: string;
+  pairId: string;
+  side: StatArbSide;
+  status: 'open' | 'closed';
+  hedgeRatio: number;
+  legs: Array<{
+    asset: string;
+    quantity: number; // Held (+) or owed (-)
+    entryPrice: number;
+    exitPrice?: number;
+  }>;
+  entryZ: number;
+  exitZ?: number;
+  openedAt: Date;
+  closedAt?: Date;
+  closeReason?: 'reverted' | 'stop-loss' | 'manual';
+  realizedPnl?: number; // Net of trading fees and gas on both executions
+}
+
+export interface StatArbOptions {
+  clock?: Clock;
+  pairs?: Array<Omit<StatArbPair, 'id'>>;
+}
+
+const DEFAULT_PAIR_SETTINGS = {
+  lookback: 60,
+  entryZ: 2,
+  exitZ: 0.5,
+  stopZ: 4,
+  notionalUsd: 10000
+};
+
+export const DEFAULT_STAT_ARB_PAIRS: Array<Omit<StatArbPair, 'id'>> = [
+  { assetA: "ETH", assetB: "BTC", exchange: "Binance", ...DEFAULT_PAIR_SETTINGS },
+  { assetA: "SOL", assetB: "AVAX", exchange: "OKX", ...DEFAULT_PAIR_SETTINGS }
+];
+
+/**
+ * Rolling hedge ratio and z-score of the log-price spread between two assets
+ *
+ * Returns null until there are at least two samples with some variation in B.
+ */
+export function computeSpreadStats(pricesA: number[], pricesB: number[]): SpreadStats | null {
+  const n = Math.min(pricesA.length, pricesB.length);
+  if (n < 2) return null;
+
+  const logA = pricesA.slice(-n).map(Math.log);
+  const logB = pricesB.slice(-n).map(Math.log);
+  const meanA = logA.reduce((sum, v) => sum + v, 0) / n;
+  const meanB = logB.reduce((sum, v) => sum + v, 0) / n;
+
+  let covariance = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (logA[i] - meanA) * (logB[i] - meanB);
+    varianceB += (logB[i] - meanB) ** 2;
+  }
+  if (varianceB === 0) return null;
+
+  const hedgeRatio = covariance / varianceB;
+  const spreads = logA.map((a, i) => a - hedgeRatio * logB[i]);
+  const mean = spreads.reduce((sum, v) => sum + v, 0) / n;
+  const std = Math.sqrt(spreads.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n);
+  const spread = spreads[n - 1];
+
+  return { hedgeRatio, spread, mean, std, zScore: std > 0 ? (spread - mean) / std : 0 };
+}
+
+/**
+ * Statistical arbitrage on the spread between correlated assets
+ *
+ * Samples each pair's prices on its venue, tracks the rolling z-score of the
+ * hedged log-price spread and opens a paired position when the spread
+ * stretches past `entryZ`: short the rich leg, long the cheap one. The
+ * position is closed when the spread reverts inside `exitZ`, or stopped out
+ * past `stopZ`. Legs are placed with executePairedLegs: opens must pass the
+ * ArbitrageService's risk limits, and each open and close is reported to it
+ * as an ExecutionSummary, so it lands in the same ledger, metrics and risk
+ * limits as route trades.
+ */
+export class StatArbStrategy {
+  private arbitrageService: ArbitrageService;
+  private clock: Clock;
+  private pairs: StatArbPair[] = [];
+  private history: Map<string, Array<{ priceA: number; priceB: number }>> = new Map(); // pair id -> samples, oldest first
+  private signals: Map<string, StatArbSignal> = new Map(); // pair id -> latest signal
+  private positions: StatArbPosition[] = [];
+  private executions: ExecutionSummary[] = [];
+  private maxHistorySize: number = 500;
+  private isMonitoring: boolean = false;
+  private monitoringInterval: NodeJS.Timeout | null = null;
+  private isEvaluating: boolean = false;
+
+  constructor(arbitrageService: ArbitrageService, options: StatArbOptions = {}) {
+    this.arbitrageService = arbitrageService;
+    this.clock = options.clock || systemClock;
+    (options.pairs || DEFAULT_STAT_ARB_PAIRS).forEach(pair => {
+      this.pairs.push({ ...pair, id: this.getPairId(pair) });
+    });
+  }
+
+  /**
+   * Periodically sample prices and act on the pairs' signals
+   */
+  startMonitoring(intervalMs: number = 60000) {
+    if (this.isMonitoring) return;
+
+    this.isMonitoring = true;
+    this.monitoringInterval = setInterval(async () => {
+      try {
+        await this.evaluate();
+      } catch (error) {
+        console.error("Error in stat-arb cycle:", error);
+      }
+    }, intervalMs);
+    console.log(`StatArbStrategy: Monitoring ${this.pairs.length} pairs every ${intervalMs}ms`);
+  }
+
+  stopMonitoring() {
+    if (!this.isMonitoring) return;
+
+    if (this.monitoringInterval) {
+      clearInterval(this.monitoringInterval);
+      this.monitoringInterval = null;
+    }
+    this.isMonitoring = false;
+    console.log("StatArbStrategy: Stopped monitoring");
+  }
+
+  isActive(): boolean {
+    return this.isMonitoring;
+  }
+
+  /**
+   * One pass: sample every pair, then open or close positions on threshold crossings
+   */
+  async evaluate(): Promise<StatArbSignal[]> {
+    if (this.isEvaluating) return this.getSignals();
+    this.isEvaluating = true;
+
+    try {
+      for (const pair of this.pairs) {
+        const signal = await this.samplePair(pair);
+        if (!signal) continue;
+
+        const open = this.positions.find(p => p.pairId === pair.id && p.status === 'open');
+        if (open) {
+          // A long spread loses as the z-score rises, a short one as it falls
+          const adverseZ = open.side === 'long-spread' ? -signal.zScore : signal.zScore;
+          const reason = Math.abs(signal.zScore) <= pair.exitZ ? 'reverted' : adverseZ >= pair.stopZ ? 'stop-loss' : null;
+          if (reason) {
+            try {
+              await this.closePosition(open.id, reason);
+            } catch (error) {
+              console.error(`StatArbStrategy: ${(error as Error).message}`);
+            }
+          }
+        } else if (signal.samples >= pair.lookback && Math.abs(signal.zScore) >= pair.entryZ) {
+          try {
+            await this.openPosition(pair, signal);
+          } catch (error) {
+            console.log(`StatArbStrategy: Not opening ${pair.id}: ${(error as Error).message}`);
+          }
+        }
+      }
+    } finally {
+      this.isEvaluating = false;
+    }
+
+    return this.getSignals();
+  }
+
+  getPairs(): StatArbPair[] {
+    return this.pairs.map(pair => ({ ...pair }));
+  }
+
+  /**
+   * Start trading a new pair; its window fills from the next sample on
+   */
+  addPair(pair: Partial<Omit<StatArbPair, 'id'>>): StatArbPair {
+    const next = { ...DEFAULT_PAIR_SETTINGS, ...pair } as Omit<StatArbPair, 'id'>;
+
+    if (!next.assetA || !next.assetB || next.assetA === next.assetB) {
+      throw new Error("Two different assets are required");
+    }
+    const exchange = next.exchange ? this.arbitrageService.getExchange(next.exchange) : undefined;
+    if (!exchange) {
+      throw new Error(`Exchange ${next.exchange} not found`);
+    }
+    if (!exchange.supportsAsset(next.assetA) || !exchange.supportsAsset(next.assetB)) {
+      throw new Error(`${exchange.name} does not list both ${next.assetA} and ${next.assetB}`);
+    }
+    (['lookback', 'entryZ', 'exitZ', 'stopZ', 'notionalUsd'] as const).forEach(key => {
+      const value = next[key];
+      if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+        throw new Error(`Pair ${key} must be a positive number`);
+      }
+    });
+    if (next.lookback < 2) {
+      throw new Error("Pair lookback must be at least 2 samples");
+    }
+    if (!(next.exitZ < next.entryZ && next.entryZ < next.stopZ)) {
+      throw new Error("Thresholds must satisfy exitZ < entryZ < stopZ");
+    }
+
+    const id = this.getPairId(next);
+    if (this.pairs.some(p => p.id === id)) {
+      throw new Error(`Pair ${id} is already traded`);
+    }
+
+    const added: StatArbPair = { ...next, id };
+    this.pairs.push(added);
+    return { ...added };
+  }
+
+  /**
+   * Stop trading a pair; an open position must be closed first
+   */
+  removePair(pairId: string) {
+    if (this.positions.some(p => p.pairId === pairId && p.status === 'open')) {
+      throw new Error(`Pair ${pairId} has an open position`);
+    }
+    const before = this.pairs.length;
+    this.pairs = this.pairs.filter(p => p.id !== pairId);
+    if (this.pairs.length === before) {
+      throw new Error(`Pair ${pairId} not found`);
+    }
+    this.history.delete(pairId);
+    this.signals.delete(pairId);
+  }
+
+  /**
+   * Latest z-score signal of every pair that has enough samples
+   */
+  getSignals(): StatArbSignal[] {
+    return Array.from(this.signals.values());
+  }
+
+  /**
+   * Positions, newest first
+   */
+  getPositions(status?: 'open' | 'closed'): StatArbPosition[] {
+    return this.positions
+      .filter(p => !status || p.status === status)
+      .slice()
+      .reverse();
+  }
+
+  /**
+   * Open and close executions, newest first
+   */
+  getExecutions(limit: number = 100): ExecutionSummary[] {
+    return this.executions.slice(-limit).reverse();
+  }
+
+  /**
+   * Flatten an open position at market
+   */
+  async closePosition(positionId: string, reason: StatArbPosition['closeReason'] = 'manual'): Promise<StatArbPosition> {
+    const position = this.positions.find(p => p.id === positionId);
+    if (!position) {
+      throw new Error(`Position ${positionId} not found`);
+    }
+    if (position.status !== 'open') {
+      throw new Error(`Position ${positionId} is already closed`);
+    }
+    // Pairs with an open position cannot be removed
+    const pair = this.pairs.find(p => p.id === position.pairId)!;
+
+    const summary = await this.executeLegs({
+      routeId: `${position.id}-close`,
+      asset: `${pair.assetA}/${pair.assetB}`,
+      legs: position.legs.map(leg => ({
+        exchange: pair.exchange,
+        asset: leg.asset,
+        instrument: 'spot' as const,
+        action: leg.quantity > 0 ? 'sell' as const : 'buy' as const,
+        amount: Math.abs(leg.quantity),
+        expectedPrice: this.getLatestPrice(pair, leg.asset) ?? leg.entryPrice
+      })),
+      expectedProfit: this.getUnrealizedPnl(position),
+      reducesExposure: true
+    });
+    if (!summary.success) {
+      // The position stays open; a fill the reversal missed shows as residual exposure
+      throw new Error(`Failed to close position ${positionId}: ${describePairedFailure(summary)}`);
+    }
+
+    const opening = this.executions.find(e => e.routeId === `${position.id}-open`);
+    position.legs.forEach(leg => {
+      leg.exitPrice = summary.steps.find(s => s.pair?.base === leg.asset)?.actualPrice;
+    });
+    position.status = 'closed';
+    position.closedAt = summary.endTime;
+    position.closeReason = reason;
+    position.exitZ = this.signals.get(position.pairId)?.zScore;
+    position.realizedPnl = (opening?.netProfit ?? 0) + summary.netProfit;
+
+    console.log(`StatArbStrategy: Closed ${position.side} ${position.pairId} (${reason}), realized ${position.realizedPnl.toFixed(2)}`);
+    return { ...position };
+  }
+
+  private async openPosition(pair: StatArbPair, signal: StatArbSignal) {
+    // A rich spread (positive z) is sold: short A, long B
+    const side: StatArbSide = signal.zScore > 0 ? 'short-spread' : 'long-spread';
+    const quantityA = pair.notionalUsd / signal.priceA;
+    const quantityB = Math.abs(signal.hedgeRatio) * pair.notionalUsd / signal.priceB;
+    const sign = side === 'long-spread' ? 1 : -1;
+    const id = `statarb-${this.clock.now()}-${Math.floor(Math.random() * 10000)}`;
+
+    const summary = await this.executeLegs({
+      routeId: `${id}-open`,
+      asset: `${pair.assetA}/${pair.assetB}`,
+      legs: [
+        { exchange: pair.exchange, asset: pair.assetA, instrument: 'spot', action: sign > 0 ? 'buy' : 'sell', amount: quantityA, expectedPrice: signal.priceA },
+        { exchange: pair.exchange, asset: pair.assetB, instrument: 'spot', action: sign > 0 ? 'sell' : 'buy', amount: quantityB, expectedPrice: signal.priceB }
+      ],
+      expectedProfit: 0
+    });
+    if (!summary.success) {
+      console.warn(`StatArbStrategy: Failed to open ${side} ${pair.id}: ${describePairedFailure(summary)}`);
+      return;
+    }
+
+    // Legs fill concurrently, so steps are matched by asset rather than order
+    const fillPrice = (asset: string) => summary.steps.find(s => s.pair?.base === asset)?.actualPrice ?? 0;
+    this.positions.push({
+      id,
+      pairId: pair.id,
+      side,
+      status: 'open',
+      hedgeRatio: signal.hedgeRatio,
+      legs: [
+        { asset: pair.assetA, quantity: sign * quantityA, entryPrice: fillPrice(pair.assetA) },
+        { asset: pair.assetB, quantity: -sign * quantityB, entryPrice: fillPrice(pair.assetB) }
+      ],
+      entryZ: signal.zScore,
+      openedAt: summary.endTime
+    });
+    console.log(`StatArbStrategy: Opened ${side} ${pair.id} at z=${signal.zScore.toFixed(2)}`);
+  }
+
+  /**
+   * Place the legs and keep the execution in the strategy's own history
+   */
+  private async executeLegs(request: PairedLegsRequest): Promise<ExecutionSummary> {
+    const summary = await executePairedLegs(this.arbitrageService, this.clock, request);
+    this.executions.push(summary);
+    if (this.executions.length > this.maxHistorySize) {
+      this.executions.shift();
+    }
+    return summary;
+  }
+
+  /**
+   * Record a price sample for the pair and refresh its signal
+   */
+  private async samplePair(pair: StatArbPair): Promise<StatArbSignal | null> {
+    const exchange = this.arbitrageService.getExchange(pair.exchange);
+    if (!exchange) return null;
+
+    let prices: Record<string, number>;
+    try {
+      prices = await exchange.getPrices([pair.assetA, pair.assetB]);
+    } catch (error) {
+      console.error(`StatArbStrategy: Error sampling ${pair.id}:`, error);
+      return null;
+    }
+    const priceA = prices[pair.assetA];
+    const priceB = prices[pair.assetB];
+    if (!(priceA > 0) || !(priceB > 0)) return null;
+
+    const samples = this.history.get(pair.id) || [];
+    samples.push({ priceA, priceB });
+    if (samples.length > pair.lookback) {
+      samples.splice(0, samples.length - pair.lookback);
+    }
+    this.history.set(pair.id, samples);
+
+    const stats = computeSpreadStats(samples.map(s => s.priceA), samples.map(s => s.priceB));
+    if (!stats) return null;
+
+    const signal: StatArbSignal = {
+      ...stats,
+      pairId: pair.id,
+      priceA,
+      priceB,
+      samples: samples.length,
+      timestamp: new Date(this.clock.now())
+    };
+    this.signals.set(pair.id, signal);
+    return signal;
+  }
+
+  /**
+   * Mark-to-market PnL of an open position at the latest sampled prices, before closing costs
+   */
+  private getUnrealizedPnl(position: StatArbPosition): number {
+    const pair = this.pairs.find(p => p.id === position.pairId);
+    if (!pair) return 0;
+
+    return position.legs.reduce((sum, leg) => {
+      const price = this.getLatestPrice(pair, leg.asset) ?? leg.entryPrice;
+      return sum + leg.quantity * (price - leg.entryPrice);
+    }, 0);
+  }
+
+  private getLatestPrice(pair: StatArbPair, asset: string): number | undefined {
+    const signal = this.signals.get(pair.id);
+    if (!signal) return undefined;
+    return asset === pair.assetA ? signal.priceA : signal.priceB;
+  }
+
+  private getPairId(pair: Pick<StatArbPair, 'assetA' | 'assetB' | 'exchange'>): string {
+    return `${pair.assetA}/${pair.assetB}@${pair.exchange}`;
+  }
+}
@@ -0,0 +1,324 @@
+// Token list format shared by DEX front ends (https://tokenlists.org)
+export interface TokenListEntry {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  extensions?: Record<string, unknown>;
+}
+
+export interface TokenList {
+  name: string;
+  timestamp?: string;
+  version?: { major: number; minor: number; patch: number };
+  tokens: TokenListEntry[];
+}
+
+export interface RegisteredToken {
+  chainId: number;
+  chain: string; // Chain name the rest of the app uses, or the chain id for unknown chains
+  address: string; // Native tokens use their chain's sentinel address
+  symbol: string;
+  name: string;
+  decimals: number;
+  native: boolean;
+  logoUrl?: string;
+}
+
+export interface TokenListImportResult {
+  name: string;
+  imported: number;
+  updated: number;
+  skipped: Array<{ index: number; reason: string }>;
+}
+
+// OKX DEX chain ids; Solana is 501 in its API
+export const CHAIN_IDS: Record<string, number> = {
+  ethereum: 1,
+  optimism: 10,
+  bsc: 56,
+  polygon: 137,
+  fantom: 250,
+  zksync: 324,
+  metis: 1088,
+  polygon_zkevm: 1101,
+  kava: 2222,
+  mantle: 5000,
+  base: 8453,
+  arbitrum: 42161,
+  celo: 42220,
+  avalanche: 43114,
+  linea: 59144,
+  scroll: 534352,
+  manta: 169,
+  solana: 501,
+  harmony: 1666600000
+};
+
+// Addresses OKX DEX uses for a chain's native token
+export const EVM_NATIVE_TOKEN_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+export const SOLANA_NATIVE_TOKEN_ADDRESS = "11111111111111111111111111111111";
+
+const NATIVE_TOKENS: Record<string, { symbol: string; name: string; decimals: number }> = {
+  ethereum: { symbol: "ETH", name: "Ethereum", decimals: 18 },
+  optimism: { symbol: "ETH", name: "Ethereum", decimals: 18 },
+  arbitrum: { symbol: "ETH", name: "Ethereum", decimals: 18 },
+  base: { symbol: "ETH", name: "Ethereum", decimals: 18 },
+  zksync: { symbol: "ETH", name: "Ethereum", decimals: 18 },
+  linea: { symbol: "ETH", name: "Ethereum", decimals: 18 },
+  scroll: { symbol: "ETH", name: "Ethereum", decimals: 18 },
+  manta: { symbol: "ETH", name: "Ethereum", decimals: 18 },
+  polygon_zkevm: { symbol: "ETH", name: "Ethereum", decimals: 18 },
+  polygon: { symbol: "MATIC", name: "Polygon", decimals: 18 },
+  bsc: { symbol: "BNB", name: "BNB", decimals: 18 },
+  avalanche: { symbol: "AVAX", name: "Avalanche", decimals: 18 },
+  fantom: { symbol: "FTM", name: "Fantom", decimals: 18 },
+  celo: { symbol: "CELO", name: "Celo", decimals: 18 },
+  kava: { symbol: "KAVA", name: "Kava", decimals: 18 },
+  metis: { symbol: "METIS", name: "Metis", decimals: 18 },
+  mantle: { symbol: "MNT", name: "Mantle", decimals: 18 },
+  harmony: { symbol: "ONE", name: "Harmony", decimals: 18 },
+  solana: { symbol: "SOL", name: "Solana", decimals: 9 }
+};
+
+// Other names a token is asked for by; the alias applies only where the token is listed
+const DEFAULT_SYMBOL_ALIASES: Record<string, string> = {
+  BTC: "WBTC",
+  POL: "MATIC"
+};
+
+export function getNativeTokenAddress(chainId: number): string {
+  return chainId === CHAIN_IDS.solana ? SOLANA_NATIVE_TOKEN_ADDRESS : EVM_NATIVE_TOKEN_ADDRESS;
+}
+
+/**
+ * EVM addresses are compared case-insensitively; base58 Solana addresses are case-sensitive
+ */
+export function normalizeTokenAddress(address: string): string {
+  return address.startsWith("0x") ? address.toLowerCase() : address;
+}
+
+/**
+ * Decimal amount to an integer string of the token's smallest unit; extra
+ * fractional digits are truncated
+ */
+export function toBaseUnits(amount: string, decimals: number): string {
+  const [whole, fraction = ""] = amount.replace(/,/g, '').trim().split(".");
+  if (!/^\d*$/.test(whole) || !/^\d*$/.test(fraction) || (whole === "" && fraction === "")) {
+    throw new Error(`Invalid token amount '${amount}'`);
+  }
+  const units = `${whole}${fraction.padEnd(decimals, "0").slice(0, decimals)}`.replace(/^0+/, "");
+  return units || "0";
+}
+
+/**
+ * Integer string of smallest units to a decimal amount without trailing zeros
+ */
+export function fromBaseUnits(units: string, decimals: number): string {
+  if (!/^\d+$/.test(units)) {
+    throw new Error(`Invalid base-unit amount '${units}'`);
+  }
+  const padded = units.padStart(decimals + 1, "0");
+  const whole = padded.slice(0, padded.length - decimals).replace(/^0+(?=\d)/, "");
+  const fraction = padded.slice(padded.length - decimals).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Tokens per chain, keyed by (chain id, address)
+ *
+ * Symbols are not unique across chains, or even on one chain (bridged and
+ * native USDC on Polygon), so a symbol lookup returns the first token
+ * registered under it on that chain and addresses remain the exact key.
+ * Every known chain starts with its native token under the OKX sentinel address.
+ */
+export class TokenRegistry {
+  private tokens: Map<string, RegisteredToken> = new Map(); // "chainId:address" -> token
+  private symbols: Map<number, Map<string, string>> = new Map(); // chain id -> upper-case symbol -> token key
+  private aliases: Map<string, string> = new Map(); // upper-case alias -> symbol
+
+  constructor(lists: TokenList[] = [DEFAULT_TOKEN_LIST]) {
+    Object.keys(NATIVE_TOKENS).forEach(chain => {
+      const chainId = CHAIN_IDS[chain];
+      this.register({ chainId, address: getNativeTokenAddress(chainId), ...NATIVE_TOKENS[chain] }, true);
+    });
+    Object.keys(DEFAULT_SYMBOL_ALIASES).forEach(alias => this.addAlias(alias, DEFAULT_SYMBOL_ALIASES[alias]));
+    lists.forEach(list => this.importTokenList(list));
+  }
+
+  /**
+   * Add or update the tokens of a token list, skipping malformed entries
+   */
+  importTokenList(list: TokenList): TokenListImportResult {
+    if (!list || !Array.isArray(list.tokens)) {
+      throw new Error("Invalid token list: expected an object with a tokens array");
+    }
+
+    const result: TokenListImportResult = { name: list.name || "unnamed", imported: 0, updated: 0, skipped: [] };
+    list.tokens.forEach((entry, index) => {
+      const reason = this.validateEntry(entry);
+      if (reason) {
+        result.skipped.push({ index, reason });
+        return;
+      }
+      if (this.register(entry, false)) result.updated++;
+      else result.imported++;
+    });
+    return result;
+  }
+
+  addAlias(alias: string, symbol: string) {
+    this.aliases.set(alias.toUpperCase(), symbol);
+  }
+
+  /**
+   * Look a token up on a chain by address, symbol or alias
+   */
+  resolve(chain: string | number, token: string): RegisteredToken | undefined {
+    const chainId = this.toChainId(chain);
+    if (chainId === undefined || !token) return undefined;
+
+    const byAddress = this.tokens.get(this.key(chainId, token));
+    if (byAddress) return { ...byAddress };
+
+    const symbols = this.symbols.get(chainId);
+    const upper = token.toUpperCase();
+    const key = symbols?.get(upper) ?? symbols?.get((this.aliases.get(upper) || "").toUpperCase());
+    const found = key ? this.tokens.get(key) : undefined;
+    return found ? { ...found } : undefined;
+  }
+
+  getTokens(chain?: string | number): RegisteredToken[] {
+    const chainId = chain === undefined ? undefined : this.toChainId(chain);
+    if (chain !== undefined && chainId === undefined) return [];
+    return Array.from(this.tokens.values())
+      .filter(token => chainId === undefined || token.chainId === chainId)
+      .map(token => ({ ...token }));
+  }
+
+  /**
+   * Whether any chain lists the symbol or alias
+   */
+  hasSymbol(symbol: string): boolean {
+    const upper = symbol.toUpperCase();
+    const aliased = (this.aliases.get(upper) || "").toUpperCase();
+    return Array.from(this.symbols.values()).some(symbols => symbols.has(upper) || (!!aliased && symbols.has(aliased)));
+  }
+
+  getChainId(chain: string): number | undefined {
+    return CHAIN_IDS[chain.toLowerCase()];
+  }
+
+  /**
+   * Store a token; returns whether it replaced one at the same address
+   */
+  private register(entry: TokenListEntry, native: boolean): boolean {
+    const key = this.key(entry.chainId, entry.address);
+    const existing = this.tokens.get(key);
+    const chain = Object.keys(CHAIN_IDS).find(name => CHAIN_IDS[name] === entry.chainId) || String(entry.chainId);
+
+    this.tokens.set(key, {
+      chainId: entry.chainId,
+      chain,
+      address: entry.address,
+      symbol: entry.symbol,
+      name: entry.name,
+      decimals: entry.decimals,
+      native: native || (existing?.native ?? false),
+      logoUrl: entry.logoURI ?? existing?.logoUrl ?? `https://assets.okx.com/cdn/token/${entry.symbol.toLowerCase()}.png`
+    });
+
+    const symbols = this.symbols.get(entry.chainId) || new Map<string, string>();
+    if (existing && existing.symbol.toUpperCase() !== entry.symbol.toUpperCase() && symbols.get(existing.symbol.toUpperCase()) === key) {
+      symbols.delete(existing.symbol.toUpperCase());
+    }
+    if (!symbols.has(entry.symbol.toUpperCase())) {
+      symbols.set(entry.symbol.toUpperCase(), key);
+    }
+    this.symbols.set(entry.chainId, symbols);
+    return !!existing;
+  }
+
+  private validateEntry(entry: TokenListEntry): string | null {
+    if (!entry || typeof entry !== "object") return "not an object";
+    if (!Number.isInteger(entry.chainId) || entry.chainId <= 0) return "chainId must be a positive integer";
+    if (typeof entry.address !== "string" || !/^(0x[0-9a-fA-F]{40}|[1-9A-HJ-NP-Za-km-z]{32,44})$/.test(entry.address)) {
+      return "address must be a 0x-prefixed EVM address or a base58 address";
+    }
+    if (typeof entry.symbol !== "string" || !entry.symbol.trim()) return "symbol is required";
+    if (typeof entry.name !== "string") return "name must be a string";
+    if (!Number.isInteger(entry.decimals) || entry.decimals < 0 || entry.decimals > 255) return "decimals must be an integer from 0 to 255";
+    return null;
+  }
+
+  private toChainId(chain: string | number): number | undefined {
+    if (typeof chain === "number") return chain;
+    return /^\d+$/.test(chain) ? Number(chain) : this.getChainId(chain);
+  }
+
+  private key(chainId: number, address: string): string {
+    return `${chainId}:${normalizeTokenAddress(address)}`;
+  }
+}
+
+// Tokens listed out of the box, in token list format
+export const DEFAULT_TOKEN_LIST: TokenList = {
+  name: "OKX Gasless Swap defaults",
+  tokens: [
+    // Ethereum
+    { chainId: 1, address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", symbol: "WETH", name: "Wrapped Ether", decimals: 18 },
+    { chainId: 1, address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    { chainId: 1, address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", symbol: "USDT", name: "Tether USD", decimals: 6 },
+    { chainId: 1, address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", symbol: "DAI", name: "Dai Stablecoin", decimals: 18 },
+    { chainId: 1, address: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599", symbol: "WBTC", name: "Wrapped BTC", decimals: 8 },
+    { chainId: 1, address: "0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9", symbol: "AAVE", name: "Aave", decimals: 18 },
+    // Polygon
+    { chainId: 137, address: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270", symbol: "WMATIC", name: "Wrapped Matic", decimals: 18 },
+    { chainId: 137, address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    { chainId: 137, address: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174", symbol: "USDC.e", name: "USD Coin (PoS)", decimals: 6 },
+    { chainId: 137, address: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F", symbol: "USDT", name: "Tether USD", decimals: 6 },
+    { chainId: 137, address: "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063", symbol: "DAI", name: "Dai Stablecoin", decimals: 18 },
+    { chainId: 137, address: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619", symbol: "WETH", name: "Wrapped Ether", decimals: 18 },
+    { chainId: 137, address: "0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6", symbol: "WBTC", name: "Wrapped BTC", decimals: 8 },
+    { chainId: 137, address: "0xD6DF932A45C0f255f85145f286eA0b292B21C90B", symbol: "AAVE", name: "Aave", decimals: 18 },
+    // Arbitrum
+    { chainId: 42161, address: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1", symbol: "WETH", name: "Wrapped Ether", decimals: 18 },
+    { chainId: 42161, address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    { chainId: 42161, address: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", symbol: "USDT", name: "Tether USD", decimals: 6 },
+    { chainId: 42161, address: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1", symbol: "DAI", name: "Dai Stablecoin", decimals: 18 },
+    { chainId: 42161, address: "0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f", symbol: "WBTC", name: "Wrapped BTC", decimals: 8 },
+    { chainId: 42161, address: "0x912CE59144191C1204E64559FE8253a0e49E6548", symbol: "ARB", name: "Arbitrum", decimals: 18 },
+    // Optimism
+    { chainId: 10, address: "0x4200000000000000000000000000000000000006", symbol: "WETH", name: "Wrapped Ether", decimals: 18 },
+    { chainId: 10, address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    { chainId: 10, address: "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58", symbol: "USDT", name: "Tether USD", decimals: 6 },
+    { chainId: 10, address: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1", symbol: "DAI", name: "Dai Stablecoin", decimals: 18 },
+    { chainId: 10, address: "0x4200000000000000000000000000000000000042", symbol: "OP", name: "Optimism", decimals: 18 },
+    // Base
+    { chainId: 8453, address: "0x4200000000000000000000000000000000000006", symbol: "WETH", name: "Wrapped Ether", decimals: 18 },
+    { chainId: 8453, address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    { chainId: 8453, address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb", symbol: "DAI", name: "Dai Stablecoin", decimals: 18 },
+    // Avalanche
+    { chainId: 43114, address: "0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7", symbol: "WAVAX", name: "Wrapped AVAX", decimals: 18 },
+    { chainId: 43114, address: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    { chainId: 43114, address: "0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7", symbol: "USDT", name: "Tether USD", decimals: 6 },
+    // BNB Chain; its bridged stablecoins carry 18 decimals
+    { chainId: 56, address: "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c", symbol: "WBNB", name: "Wrapped BNB", decimals: 18 },
+    { chainId: 56, address: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d", symbol: "USDC", name: "USD Coin", decimals: 18 },
+    { chainId: 56, address: "0x55d398326f99059fF775485246999027B3197955", symbol: "USDT", name: "Tether USD", decimals: 18 },
+    { chainId: 56, address: "0x2170Ed0880ac9A755fd29B2688956BD959F933F8", symbol: "ETH", name: "Binance-Peg Ethereum", decimals: 18 },
+    // Other L2s, listed with the bridge token so cross-chain routes can reach them
+    { chainId: 324, address: "0x1d17CBcF0D6D143135aE902365D2E5e2A16538D4", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    { chainId: 59144, address: "0x176211869cA2b568f2A7D4EE941E073a821EE1ff", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    { chainId: 534352, address: "0x06eFdBFf2a14a7c8E15944D1F4A48F9F95F663A4", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    { chainId: 5000, address: "0x09Bc4E0D864854c6aFB6eB9A9cdF58aC190D0dF9", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    { chainId: 169, address: "0xb73603C5d87fA094B7314C74ACE2e64D165016fb", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    // Solana
+    { chainId: 501, address: "So11111111111111111111111111111111111111112", symbol: "WSOL", name: "Wrapped SOL", decimals: 9 },
+    { chainId: 501, address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", symbol: "USDC", name: "USD Coin", decimals: 6 },
+    { chainId: 501, address: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB", symbol: "USDT", name: "Tether USD", decimals: 6 },
+    { chainId: 501, address: "4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R", symbol: "RAY", name: "Raydium", decimals: 6 }
+  ]
+};
@@ -1,6 +1,9 @@
 import { 
   users, type User, type InsertUser,
   arbitrageOpportunities, type ArbitrageOpportunity, type InsertArbitrageOpportunity,
+  arbitrageExecutions, type ArbitrageExecution, type InsertArbitrageExecution,
+  arbitrageFills, type ArbitrageFill, type InsertArbitrageFill,
+  arbitrageConfig, type ArbitrageConfig, type InsertArbitrageConfig,
   yieldOpportunities, type YieldOpportunity, type InsertYieldOpportunity,
   gasSavings, type GasSaving, type InsertGasSaving,
   portfolioRisk, type PortfolioRisk, type InsertPortfolioRisk,
@@ -11,6 +14,17 @@ import {
 // modify the interface with any CRUD methods
 // you might need
 
+// Filters and pagination for the arbitrage execution ledger
+export interface ArbitrageExecutionFilters {
+  asset?: string;
+  venue?: string; // Executions with at least one fill on this exchange
+  from?: Date;
+  to?: Date;
+  success?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
@@ -25,6 +39,17 @@ export interface IStorage {
   createArbitrageOpportunity(opportunity: InsertArbitrageOpportunity): Promise<ArbitrageOpportunity>;
   updateArbitrageOpportunity(id: number, opportunity: Partial<ArbitrageOpportunity>): Promise<ArbitrageOpportunity | undefined>;
 
+  // Arbitrage execution ledger methods
+  getArbitrageExecution(id: number): Promise<ArbitrageExecution | undefined>;
+  getArbitrageExecutions(filters?: ArbitrageExecutionFilters): Promise<{ executions: ArbitrageExecution[]; total: number }>;
+  createArbitrageExecution(execution: InsertArbitrageExecution): Promise<ArbitrageExecution>;
+  getArbitrageFills(executionId: number): Promise<ArbitrageFill[]>;
+  createArbitrageFill(fill: InsertArbitrageFill): Promise<ArbitrageFill>;
+
+  // Arbitrage monitor configuration
+  getArbitrageConfig(): Promise<ArbitrageConfig | undefined>;
+  saveArbitrageConfig(config: InsertArbitrageConfig): Promise<ArbitrageConfig>;
+
   // Yield methods
   getYieldOpportunity(id: number): Promise<YieldOpportunity | undefined>;
   getYieldOpportunities(filters?: Record<string, any>): Promise<YieldOpportunity[]>;
@@ -65,6 +90,9 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private arbitrageOpps: Map<number, ArbitrageOpportunity>;
+  private arbitrageExecutionsData: Map<number, ArbitrageExecution>;
+  private arbitrageFillsData: Map<number, ArbitrageFill>;
+  private arbitrageConfigData: ArbitrageConfig | undefined;
   private yieldOpps: Map<number, YieldOpportunity>;
   private gasSavingsData: Map<number, GasSaving>;
   private portfolioRiskData: Map<number, PortfolioRisk>;
@@ -76,6 +104,8 @@ export class MemStorage implements IStorage {
   constructor() {
     this.users = new Map();
     this.arbitrageOpps = new Map();
+    this.arbitrageExecutionsData = new Map();
+    this.arbitrageFillsData = new Map();
     this.yieldOpps = new Map();
     this.gasSavingsData = new Map();
     this.portfolioRiskData = new Map();
@@ -155,6 +185,104 @@ export class MemStorage implements IStorage {
     return updatedOpportunity;
   }
 
+  // Arbitrage execution ledger methods
+  async getArbitrageExecution(id: number): Promise<ArbitrageExecution | undefined> {
+    return this.arbitrageExecutionsData.get(id);
+  }
+
+  async getArbitrageExecutions(filters: ArbitrageExecutionFilters = {}): Promise<{ executions: ArbitrageExecution[]; total: number }> {
+    let executions = Array.from(this.arbitrageExecutionsData.values());
+    
+    if (filters.asset) {
+      executions = executions.filter(execution => execution.asset.toLowerCase() === filters.asset!.toLowerCase());
+    }
+    
+    if (filters.venue) {
+      const venue = filters.venue.toLowerCase();
+      const executionIds = new Set(
+        Array.from(this.arbitrageFillsData.values())
+          .filter(fill => fill.exchange.toLowerCase() === venue)
+          .map(fill => fill.executionId)
+      );
+      executions = executions.filter(execution => executionIds.has(execution.id));
+    }
+    
+    if (filters.from) {
+      executions = executions.filter(execution => execution.startTime >= filters.from!);
+    }
+    
+    if (filters.to) {
+      executions = executions.filter(execution => execution.startTime <= filters.to!);
+    }
+    
+    if (filters.success !== undefined) {
+      executions = executions.filter(execution => execution.success === filters.success);
+    }
+    
+    // Newest first
+    executions.sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+    
+    const offset = filters.offset ?? 0;
+    const limit = filters.limit ?? executions.length;
+    return {
+      executions: executions.slice(offset, offset + limit),
+      total: executions.length
+    };
+  }
+
+  async createArbitrageExecution(execution: InsertArbitrageExecution): Promise<ArbitrageExecution> {
+    const id = this.currentId++;
+    const newExecution: ArbitrageExecution = {
+      ...execution,
+      id,
+      recoveryStatus: execution.recoveryStatus ?? null,
+      residualExposure: execution.residualExposure ?? null,
+      latencyBudgetExceeded: execution.latencyBudgetExceeded ?? false,
+      paperTrade: execution.paperTrade ?? false
+    };
+    this.arbitrageExecutionsData.set(id, newExecution);
+    return newExecution;
+  }
+
+  async getArbitrageFills(executionId: number): Promise<ArbitrageFill[]> {
+    return Array.from(this.arbitrageFillsData.values())
+      .filter(fill => fill.executionId === executionId)
+      .sort((a, b) => a.stepIndex - b.stepIndex);
+  }
+
+  async createArbitrageFill(fill: InsertArbitrageFill): Promise<ArbitrageFill> {
+    const id = this.currentId++;
+    const newFill: ArbitrageFill = {
+      ...fill,
+      id,
+      txId: fill.txId ?? null,
+      error: fill.error ?? null,
+      recoveryStage: fill.recoveryStage ?? null,
+      latencyMs: fill.latencyMs ?? null
+    };
+    this.arbitrageFillsData.set(id, newFill);
+    return newFill;
+  }
+
+  // Arbitrage monitor configuration
+  async getArbitrageConfig(): Promise<ArbitrageConfig | undefined> {
+    return this.arbitrageConfigData;
+  }
+
+  async saveArbitrageConfig(config: InsertArbitrageConfig): Promise<ArbitrageConfig> {
+    // Only one configuration is kept; saving replaces it
+    const id = this.arbitrageConfigData?.id ?? this.currentId++;
+    this.arbitrageConfigData = {
+      id,
+      monitoredAssets: [...config.monitoredAssets],
+      disabledExchanges: [...config.disabledExchanges],
+      // drizzle-zod types jsonb loosely; the column holds ArbitrageAssetListing values
+      assetListings: { ...(config.assetListings as ArbitrageConfig['assetListings'] | undefined) },
+      updatedAt: config.updatedAt
+    };
+    return this.arbitrageConfigData;
+  }
+
   // Yield methods
   async getYieldOpportunity(id: number): Promise<YieldOpportunity | undefined> {
     return this.yieldOpps.get(id);
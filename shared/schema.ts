@@ -36,6 +36,74 @@ export const insertArbitrageSchema = createInsertSchema(arbitrageOpportunities).
   id: true,
 });
 
+// Arbitrage executions (one row per route run)
+export const arbitrageExecutions = pgTable("arbitrage_executions", {
+  id: serial("id").primaryKey(),
+  routeId: text("route_id").notNull(),
+  asset: text("asset").notNull(),
+  success: boolean("success").notNull(),
+  executionMode: text("execution_mode").notNull(),
+  expectedProfit: decimal("expected_profit", { precision: 20, scale: 8 }).notNull(),
+  actualProfit: decimal("actual_profit", { precision: 20, scale: 8 }).notNull(),
+  gasCost: decimal("gas_cost", { precision: 20, scale: 8 }).notNull(),
+  netProfit: decimal("net_profit", { precision: 20, scale: 8 }).notNull(),
+  executionTimeMs: integer("execution_time_ms").notNull(),
+  recoveryStatus: text("recovery_status"),
+  residualExposure: jsonb("residual_exposure"),
+  latencyBudgetExceeded: boolean("latency_budget_exceeded").notNull().default(false),
+  paperTrade: boolean("paper_trade").notNull().default(false),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+});
+
+export const insertArbitrageExecutionSchema = createInsertSchema(arbitrageExecutions).omit({
+  id: true,
+});
+
+// Per-leg fills of an arbitrage execution, including recovery trades
+export const arbitrageFills = pgTable("arbitrage_fills", {
+  id: serial("id").primaryKey(),
+  executionId: integer("execution_id").references(() => arbitrageExecutions.id).notNull(),
+  stepIndex: integer("step_index").notNull(),
+  exchange: text("exchange").notNull(),
+  action: text("action").notNull(),
+  baseAsset: text("base_asset").notNull(),
+  quoteAsset: text("quote_asset").notNull(),
+  expectedPrice: decimal("expected_price", { precision: 20, scale: 8 }).notNull(),
+  actualPrice: decimal("actual_price", { precision: 20, scale: 8 }).notNull(),
+  amount: decimal("amount", { precision: 28, scale: 12 }).notNull(),
+  fee: decimal("fee", { precision: 20, scale: 8 }).notNull(),
+  success: boolean("success").notNull(),
+  txId: text("tx_id"),
+  error: text("error"),
+  recoveryStage: text("recovery_stage"),
+  latencyMs: integer("latency_ms"),
+  timestamp: timestamp("timestamp").notNull(),
+});
+
+export const insertArbitrageFillSchema = createInsertSchema(arbitrageFills).omit({
+  id: true,
+});
+
+// Venues an asset added at runtime was listed on, and the price simulated venues quote it from
+export interface ArbitrageAssetListing {
+  exchanges: string[];
+  referencePrice?: number;
+}
+
+// Runtime configuration of the arbitrage monitor (a single row)
+export const arbitrageConfig = pgTable("arbitrage_config", {
+  id: serial("id").primaryKey(),
+  monitoredAssets: jsonb("monitored_assets").$type<string[]>().notNull(),
+  disabledExchanges: jsonb("disabled_exchanges").$type<string[]>().notNull(),
+  assetListings: jsonb("asset_listings").$type<Record<string, ArbitrageAssetListing>>().notNull().default({}),
+  updatedAt: timestamp("updated_at").notNull(),
+});
+
+export const insertArbitrageConfigSchema = createInsertSchema(arbitrageConfig).omit({
+  id: true,
+});
+
 // Yield opportunities
 export const yieldOpportunities = pgTable("yield_opportunities", {
   id: serial("id").primaryKey(),
@@ -118,6 +186,15 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type ArbitrageOpportunity = typeof arbitrageOpportunities.$inferSelect;
 export type InsertArbitrageOpportunity = z.infer<typeof insertArbitrageSchema>;
 
+export type ArbitrageExecution = typeof arbitrageExecutions.$inferSelect;
+export type InsertArbitrageExecution = z.infer<typeof insertArbitrageExecutionSchema>;
+
+export type ArbitrageFill = typeof arbitrageFills.$inferSelect;
+export type InsertArbitrageFill = z.infer<typeof insertArbitrageFillSchema>;
+
+export type ArbitrageConfig = typeof arbitrageConfig.$inferSelect;
+export type InsertArbitrageConfig = z.infer<typeof insertArbitrageConfigSchema>;
+
 export type YieldOpportunity = typeof yieldOpportunities.$inferSelect;
 export type InsertYieldOpportunity = z.infer<typeof insertYieldSchema>;
 